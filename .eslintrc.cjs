@@ -10,4 +10,8 @@ module.exports = {
   globals: {
     shopify: "readonly"
   },
+  settings: {
+    // Jest is installed in lambda/, where the tests live
+    jest: { version: 29 },
+  },
 };
@@ -0,0 +1,91 @@
+import crypto from "crypto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { SCHEMA_VERSION } from "../../shared/contract";
+import { recordInsightAttempt } from "../models/insight.server";
+import { action } from "../routes/api.ai-insights.ingest";
+import { HMAC_HEADER } from "../utils/hmac.server";
+import { fakeDb as db } from "../models/__tests__/db";
+
+vi.mock("../db.server", async () => ({
+  default: (await import("../models/__tests__/db")).fakeDb.client,
+}));
+vi.mock("../models/insight.server", () => ({
+  recordInsightAttempt: vi.fn(),
+}));
+vi.mock("../models/followupSchedule.server", () => ({
+  queueAutomaticFollowup: vi.fn().mockResolvedValue(false),
+}));
+
+const SHOP = "test-store.myshopify.com";
+
+/** A signed ingest request for an insight of order 1001 */
+function ingestRequest(fields: Record<string, unknown> = {}) {
+  const body = JSON.stringify({
+    schemaVersion: SCHEMA_VERSION,
+    shop: SHOP,
+    orderId: "1001",
+    orderName: "#1001",
+    insightText: "First order of a returning browser.",
+    ...fields,
+  });
+  return new Request("https://app.example.com/api/ai-insights/ingest", {
+    method: "POST",
+    headers: {
+      [HMAC_HEADER]: crypto
+        .createHmac("sha256", "test-secret")
+        .update(body)
+        .digest("hex"),
+    },
+    body,
+  });
+}
+
+async function ingest(fields: Record<string, unknown> = {}) {
+  const response = (await action({
+    request: ingestRequest(fields),
+    params: {},
+    context: {},
+  })) as Response;
+  return { status: response.status, body: await response.json() };
+}
+
+describe("insight ingest plan limits", () => {
+  beforeEach(() => {
+    db.reset();
+    vi.stubEnv("HMAC_SECRET", "test-secret");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.mocked(recordInsightAttempt).mockReset().mockResolvedValue({
+      insightId: "insight-1",
+      versionId: "version-1",
+      current: true,
+    });
+  });
+
+  it("records insights while the allowance lasts", async () => {
+    db.model("aIOrderInsightVersion").count.mockResolvedValue(49);
+
+    expect(await ingest()).toMatchObject({
+      status: 200,
+      body: { success: true, id: "insight-1" },
+    });
+  });
+
+  it("refuses completed insights once the allowance is used, regenerations included", async () => {
+    db.model("aIOrderInsightVersion").count.mockResolvedValue(50);
+
+    expect(await ingest()).toEqual({
+      status: 402,
+      body: { error: "The Free plan's 50 insights for this month are used up" },
+    });
+    expect(recordInsightAttempt).not.toHaveBeenCalled();
+  });
+
+  it("still records failed attempts over the allowance", async () => {
+    db.model("aIOrderInsightVersion").count.mockResolvedValue(50);
+
+    expect(
+      await ingest({ status: "error", errorMessage: "Provider timed out" })
+    ).toMatchObject({ status: 200 });
+    expect(recordInsightAttempt).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { dispatchDueFollowups } from "../models/followup.server";
+import {
+  expireWaitingFollowups,
+  resolveWaitingFollowups,
+} from "../models/followupSchedule.server";
+import {
+  processPrivacyRequests,
+  purgePrivacyExports,
+} from "../models/privacy.server";
+import { startFollowupWorker } from "../worker.server";
+
+vi.mock("../models/followup.server", () => ({
+  dispatchDueFollowups: vi.fn(),
+}));
+vi.mock("../models/followupSchedule.server", () => ({
+  expireWaitingFollowups: vi.fn(),
+  resolveWaitingFollowups: vi.fn(),
+}));
+vi.mock("../models/privacy.server", () => ({
+  processPrivacyRequests: vi.fn(),
+  purgePrivacyExports: vi.fn(),
+}));
+
+const INTERVAL_MS = 1000;
+
+describe("startFollowupWorker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubEnv("FOLLOWUP_WORKER_INTERVAL_MS", String(INTERVAL_MS));
+    vi.mocked(resolveWaitingFollowups).mockReset().mockResolvedValue(0);
+    vi.mocked(expireWaitingFollowups).mockReset().mockResolvedValue(0);
+    vi.mocked(dispatchDueFollowups).mockReset().mockResolvedValue(0);
+    vi.mocked(processPrivacyRequests).mockReset().mockResolvedValue(0);
+    vi.mocked(purgePrivacyExports).mockReset().mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    clearInterval(global.followupWorkerGlobal);
+    global.followupWorkerGlobal = undefined;
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("schedules queued sends before delivering due ones", async () => {
+    const order: string[] = [];
+    vi.mocked(resolveWaitingFollowups).mockImplementation(async () => {
+      order.push("resolve");
+      return 1;
+    });
+    vi.mocked(dispatchDueFollowups).mockImplementation(async () => {
+      order.push("dispatch");
+      return 1;
+    });
+
+    startFollowupWorker();
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS);
+
+    expect(order).toEqual(["resolve", "dispatch"]);
+    expect(expireWaitingFollowups).toHaveBeenCalled();
+    expect(processPrivacyRequests).toHaveBeenCalled();
+    expect(purgePrivacyExports).toHaveBeenCalled();
+  });
+
+  it("still works off privacy requests when follow-ups fail", async () => {
+    vi.mocked(resolveWaitingFollowups).mockRejectedValue(new Error("Down"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    startFollowupWorker();
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS);
+
+    expect(dispatchDueFollowups).not.toHaveBeenCalled();
+    expect(processPrivacyRequests).toHaveBeenCalled();
+  });
+
+  it("stays off with an interval of 0", async () => {
+    vi.stubEnv("FOLLOWUP_WORKER_INTERVAL_MS", "0");
+
+    startFollowupWorker();
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS);
+
+    expect(resolveWaitingFollowups).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import {
+  BlockStack,
+  Button,
+  ChoiceList,
+  InlineStack,
+  TextField,
+} from "@shopify/polaris";
+
+export interface FollowupEditValues {
+  subject: string;
+  body: string;
+  reasons: string[];
+}
+
+/**
+ * Edit a follow-up email and say why it needed changing
+ */
+export function FollowupEditForm({
+  initial,
+  reasonOptions,
+  errors,
+  saving,
+  onSave,
+  onCancel,
+}: {
+  initial: FollowupEditValues;
+  reasonOptions: { label: string; value: string }[];
+  errors: { subject?: string; body?: string };
+  saving: boolean;
+  onSave: (values: FollowupEditValues) => void;
+  onCancel: () => void;
+}) {
+  const [subject, setSubject] = useState(initial.subject);
+  const [body, setBody] = useState(initial.body);
+  const [reasons, setReasons] = useState(initial.reasons);
+
+  return (
+    <BlockStack gap="300">
+      <TextField
+        label="Subject"
+        value={subject}
+        onChange={setSubject}
+        error={errors.subject}
+        autoComplete="off"
+      />
+      <TextField
+        label="Body"
+        value={body}
+        onChange={setBody}
+        multiline={8}
+        error={errors.body}
+        autoComplete="off"
+      />
+      <ChoiceList
+        title="What was wrong with the suggestion?"
+        allowMultiple
+        choices={reasonOptions}
+        selected={reasons}
+        onChange={setReasons}
+      />
+      <InlineStack align="end" gap="200">
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button
+          variant="primary"
+          loading={saving}
+          onClick={() => onSave({ subject, body, reasons })}
+        >
+          Save email
+        </Button>
+      </InlineStack>
+    </BlockStack>
+  );
+}
@@ -0,0 +1,256 @@
+import { useEffect, useState } from "react";
+import {
+  Banner,
+  BlockStack,
+  Box,
+  Button,
+  Card,
+  ChoiceList,
+  Divider,
+  FormLayout,
+  InlineStack,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import { FollowupSendStatusBadge } from "./InsightBadges";
+import { PlaceholderText } from "./PlaceholderText";
+
+/**
+ * Send fields the card needs, as serialized by the loader
+ */
+export interface FollowupSendSummary {
+  id: string;
+  recipient: string;
+  subject: string;
+  status: string;
+  /** "manual" or "rule" */
+  trigger: string;
+  /** What a waiting send waits for: "rule" or "fulfillment" */
+  waitingFor: string | null;
+  scheduledFor: string;
+  attempts: number;
+  lastError: string | null;
+  sentAt: string | null;
+}
+
+export interface FollowupSendPreview {
+  recipient: string | null;
+  subject: string;
+  body: string;
+  missing: string[];
+  blockedReason: string | null;
+}
+
+export interface FollowupSendValues {
+  discountCode: string;
+  link: string;
+  /** ISO timestamp, or "now" */
+  sendAt: string;
+}
+
+function describeSend(send: FollowupSendSummary): string {
+  const prefix = send.trigger === "rule" ? "Automatic · " : "";
+  if (send.sentAt) {
+    return `${prefix}Sent ${new Date(send.sentAt).toLocaleString()}`;
+  }
+  if (send.status === "waiting") {
+    return send.waitingFor === "rule"
+      ? `${prefix}Checking the order before scheduling`
+      : `${prefix}Waiting for the order to be fulfilled`;
+  }
+  if (send.status === "scheduled") {
+    return `${prefix}${send.attempts > 0 ? "Retrying" : "Scheduled for"} ${new Date(send.scheduledFor).toLocaleString()}`;
+  }
+  return `${prefix}${new Date(send.scheduledFor).toLocaleString()}`;
+}
+
+/**
+ * Preview the follow-up email for the order's customer and send or
+ * schedule it, with the history of earlier sends.
+ * The last preview stays up while the send form shows errors; remount
+ * the card (e.g. keyed by the number of sends) to clear it.
+ */
+export function FollowupSendCard({
+  sends,
+  preview,
+  errors,
+  busy,
+  onPreview,
+  onSend,
+  onCancel,
+}: {
+  sends: FollowupSendSummary[];
+  preview: FollowupSendPreview | null;
+  errors: { discountCode?: string; link?: string; sendAt?: string };
+  busy: boolean;
+  onPreview: (values: FollowupSendValues) => void;
+  onSend: (values: FollowupSendValues) => void;
+  onCancel: (id: string) => void;
+}) {
+  const [discountCode, setDiscountCode] = useState("");
+  const [link, setLink] = useState("");
+  const [when, setWhen] = useState<"now" | "later">("now");
+  const [sendAt, setSendAt] = useState("");
+  const [shown, setShown] = useState(preview);
+
+  useEffect(() => {
+    if (preview) setShown(preview);
+  }, [preview]);
+
+  // datetime-local has no time zone; the browser's is the merchant's
+  const values = (): FollowupSendValues => ({
+    discountCode,
+    link,
+    sendAt:
+      when === "now" ? "now" : sendAt ? new Date(sendAt).toISOString() : "",
+  });
+
+  const canSend =
+    shown !== null &&
+    shown.recipient !== null &&
+    !shown.blockedReason &&
+    shown.missing.length === 0;
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <Text as="h2" variant="headingMd">
+          Send to the customer
+        </Text>
+        {sends.length > 0 && (
+          <BlockStack gap="300">
+            {sends.map((send) => (
+              <InlineStack
+                key={send.id}
+                align="space-between"
+                blockAlign="center"
+                wrap={false}
+                gap="200"
+              >
+                <BlockStack gap="050">
+                  <InlineStack gap="200" blockAlign="center">
+                    <FollowupSendStatusBadge status={send.status} />
+                    <Text as="span" variant="bodyMd">
+                      {send.recipient ||
+                        (send.waitingFor === "rule"
+                          ? "The order's customer"
+                          : "No email address")}
+                    </Text>
+                  </InlineStack>
+                  <Text as="span" variant="bodySm" tone="subdued">
+                    {describeSend(send)}
+                    {send.lastError && ` · ${send.lastError}`}
+                  </Text>
+                </BlockStack>
+                {(send.status === "waiting" || send.status === "scheduled") && (
+                  <Button
+                    variant="plain"
+                    tone="critical"
+                    onClick={() => onCancel(send.id)}
+                  >
+                    Cancel
+                  </Button>
+                )}
+              </InlineStack>
+            ))}
+            <Divider />
+          </BlockStack>
+        )}
+        <FormLayout>
+          <FormLayout.Group>
+            <TextField
+              label="Discount code"
+              value={discountCode}
+              onChange={setDiscountCode}
+              helpText="Fills {{discount_code}}"
+              error={errors.discountCode}
+              autoComplete="off"
+            />
+            <TextField
+              label="Link"
+              type="url"
+              value={link}
+              onChange={setLink}
+              placeholder="Your store's homepage"
+              helpText="Fills {{link}}"
+              error={errors.link}
+              autoComplete="off"
+            />
+          </FormLayout.Group>
+          <InlineStack align="end">
+            <Button onClick={() => onPreview(values())} loading={busy}>
+              Preview
+            </Button>
+          </InlineStack>
+        </FormLayout>
+        {shown && (
+          <BlockStack gap="300">
+            <Divider />
+            {shown.blockedReason && (
+              <Banner tone="warning" title="This customer can't be emailed">
+                <p>{shown.blockedReason}.</p>
+              </Banner>
+            )}
+            {!shown.blockedReason && shown.missing.length > 0 && (
+              <Banner tone="warning" title="Some placeholders have no value">
+                <p>
+                  Fill in the fields above or edit the email to remove{" "}
+                  {shown.missing.map((name) => `{{${name}}}`).join(", ")}.
+                </p>
+              </Banner>
+            )}
+            <Text as="p" variant="bodySm" tone="subdued">
+              To: {shown.recipient ?? "—"}
+            </Text>
+            <Text as="p" variant="headingSm">
+              <PlaceholderText text={shown.subject} />
+            </Text>
+            <Box
+              padding="400"
+              background="bg-surface-secondary"
+              borderWidth="025"
+              borderRadius="200"
+              borderColor="border"
+            >
+              <Text as="p" variant="bodyMd">
+                <PlaceholderText text={shown.body} />
+              </Text>
+            </Box>
+            <Text as="p" variant="bodySm" tone="subdued">
+              An unsubscribe link is added to the end of the email.
+            </Text>
+            <ChoiceList
+              title="When"
+              choices={[
+                { label: "Send now", value: "now" },
+                { label: "Schedule", value: "later" },
+              ]}
+              selected={[when]}
+              onChange={([value]) => setWhen(value as "now" | "later")}
+            />
+            {when === "later" && (
+              <TextField
+                label="Send at"
+                type="datetime-local"
+                value={sendAt}
+                onChange={setSendAt}
+                error={errors.sendAt}
+                autoComplete="off"
+              />
+            )}
+            <InlineStack align="end">
+              <Button
+                variant="primary"
+                onClick={() => onSend(values())}
+                disabled={!canSend || (when === "later" && !sendAt)}
+                loading={busy}
+              >
+                {when === "now" ? "Send email" : "Schedule email"}
+              </Button>
+            </InlineStack>
+          </BlockStack>
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
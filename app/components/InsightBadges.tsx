@@ -0,0 +1,73 @@
+import { Badge } from "@shopify/polaris";
+
+type BadgeTone =
+  | "info"
+  | "success"
+  | "attention"
+  | "warning"
+  | "critical"
+  | undefined;
+
+const CUSTOMER_TYPE_LABELS: Record<string, string> = {
+  "first-time": "First-time",
+  repeat: "Repeat",
+  vip: "VIP",
+  lapsed: "Lapsed",
+  "at-risk": "At risk",
+};
+
+const CUSTOMER_TYPE_TONES: Record<string, BadgeTone> = {
+  "first-time": "info",
+  repeat: undefined,
+  vip: "success",
+  lapsed: "warning",
+  "at-risk": "attention",
+};
+
+const STATUS_TONES: Record<string, BadgeTone> = {
+  pending: "attention",
+  completed: "success",
+  error: "critical",
+};
+
+const SEND_STATUS_TONES: Record<string, BadgeTone> = {
+  waiting: "info",
+  scheduled: "info",
+  sending: "attention",
+  sent: "success",
+  failed: "critical",
+  cancelled: undefined,
+  blocked: "warning",
+};
+
+export function customerTypeLabel(customerType: string): string {
+  return CUSTOMER_TYPE_LABELS[customerType] ?? customerType;
+}
+
+export function CustomerTypeBadge({
+  customerType,
+}: {
+  customerType: string | null;
+}) {
+  if (!customerType) {
+    return <Badge>Unknown</Badge>;
+  }
+
+  return (
+    <Badge tone={CUSTOMER_TYPE_TONES[customerType]}>
+      {customerTypeLabel(customerType)}
+    </Badge>
+  );
+}
+
+export function InsightStatusBadge({ status }: { status: string }) {
+  const label = status.charAt(0).toUpperCase() + status.slice(1);
+
+  return <Badge tone={STATUS_TONES[status]}>{label}</Badge>;
+}
+
+export function FollowupSendStatusBadge({ status }: { status: string }) {
+  const label = status.charAt(0).toUpperCase() + status.slice(1);
+
+  return <Badge tone={SEND_STATUS_TONES[status]}>{label}</Badge>;
+}
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import {
+  Badge,
+  BlockStack,
+  Box,
+  Button,
+  Card,
+  Divider,
+  InlineStack,
+  Text,
+} from "@shopify/polaris";
+import { InsightStatusBadge } from "./InsightBadges";
+import { TextDiff } from "./TextDiff";
+
+/**
+ * Version fields the history needs, as serialized by the loader
+ */
+export interface InsightVersionSummary {
+  id: string;
+  insightText: string;
+  followupSubject: string | null;
+  followupBody: string | null;
+  status: string;
+  errorMessage: string | null;
+  model: string | null;
+  promptVersion: string | null;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  costUsd: number | null;
+  usageEstimated: boolean;
+  startedAt: string | null;
+  generatedAt: string;
+}
+
+function describeAttempt(version: InsightVersionSummary): string {
+  const details = [version.model, version.promptVersion].filter(Boolean);
+  if (version.startedAt) {
+    const seconds =
+      (new Date(version.generatedAt).getTime() -
+        new Date(version.startedAt).getTime()) /
+      1000;
+    details.push(`${seconds.toFixed(1)}s`);
+  }
+  if (version.promptTokens !== null && version.completionTokens !== null) {
+    const tokens = version.promptTokens + version.completionTokens;
+    details.push(
+      `${version.usageEstimated ? "~" : ""}${tokens.toLocaleString()} tokens`
+    );
+  }
+  if (version.costUsd !== null) {
+    details.push(`$${version.costUsd.toFixed(4)}`);
+  }
+  return details.join(" · ");
+}
+
+function DiffField({
+  label,
+  before,
+  after,
+}: {
+  label: string;
+  before: string | null;
+  after: string | null;
+}) {
+  return (
+    <BlockStack gap="100">
+      <Text as="h3" variant="headingSm">
+        {label}
+      </Text>
+      <Box padding="300" background="bg-surface-secondary" borderRadius="200">
+        <Text as="p" variant="bodyMd">
+          {before === after ? (
+            <Text as="span" tone="subdued">
+              {after || "—"}
+            </Text>
+          ) : (
+            <TextDiff before={before ?? ""} after={after ?? ""} />
+          )}
+        </Text>
+      </Box>
+    </BlockStack>
+  );
+}
+
+/**
+ * Every generation attempt for an insight, with a diff of any earlier
+ * version against the current one
+ */
+export function InsightVersionHistory({
+  versions,
+  currentVersionId,
+}: {
+  versions: InsightVersionSummary[];
+  currentVersionId: string | null;
+}) {
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  const current = versions.find((version) => version.id === currentVersionId);
+  const compared = versions.find((version) => version.id === compareId);
+
+  return (
+    <BlockStack gap="500">
+      {current && compared && (
+        <Card>
+          <BlockStack gap="400">
+            <InlineStack align="space-between" blockAlign="center">
+              <Text as="h2" variant="headingMd">
+                Changes since {new Date(compared.generatedAt).toLocaleString()}
+              </Text>
+              <Button variant="plain" onClick={() => setCompareId(null)}>
+                Close
+              </Button>
+            </InlineStack>
+            <DiffField
+              label="Insight"
+              before={compared.insightText}
+              after={current.insightText}
+            />
+            <DiffField
+              label="Subject"
+              before={compared.followupSubject}
+              after={current.followupSubject}
+            />
+            <DiffField
+              label="Body"
+              before={compared.followupBody}
+              after={current.followupBody}
+            />
+          </BlockStack>
+        </Card>
+      )}
+      <Card>
+        <BlockStack gap="400">
+          <Text as="h2" variant="headingMd">
+            Version history
+          </Text>
+          {versions.map((version, index) => (
+            <BlockStack gap="200" key={version.id}>
+              {index > 0 && <Divider />}
+              <InlineStack align="space-between" blockAlign="center">
+                <InlineStack gap="200" blockAlign="center">
+                  <Text as="span" variant="bodyMd" fontWeight="semibold">
+                    {new Date(version.generatedAt).toLocaleString()}
+                  </Text>
+                  <InsightStatusBadge status={version.status} />
+                  {version.id === currentVersionId && <Badge>Current</Badge>}
+                </InlineStack>
+                {current &&
+                  version.id !== currentVersionId &&
+                  version.status === "completed" && (
+                    <Button
+                      variant="plain"
+                      onClick={() => setCompareId(version.id)}
+                    >
+                      Compare with current
+                    </Button>
+                  )}
+              </InlineStack>
+              {describeAttempt(version) && (
+                <Text as="p" variant="bodySm" tone="subdued">
+                  {describeAttempt(version)}
+                </Text>
+              )}
+              <Text
+                as="p"
+                variant="bodyMd"
+                tone={version.status === "error" ? "critical" : undefined}
+              >
+                {version.status === "error"
+                  ? version.errorMessage ?? "Unknown error"
+                  : version.insightText}
+              </Text>
+            </BlockStack>
+          ))}
+        </BlockStack>
+      </Card>
+    </BlockStack>
+  );
+}
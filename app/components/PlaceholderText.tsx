@@ -0,0 +1,34 @@
+import { Fragment } from "react";
+
+const PLACEHOLDER_PATTERN = /(\{\{\s*[\w.]+\s*\}\})/g;
+
+/**
+ * Render text with {{placeholders}} highlighted so merchants can see
+ * what still needs filling in before the email is sent.
+ * Newlines are preserved.
+ */
+export function PlaceholderText({ text }: { text: string }) {
+  const parts = text.split(PLACEHOLDER_PATTERN);
+
+  return (
+    <span style={{ whiteSpace: "pre-wrap" }}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark
+            key={index}
+            style={{
+              background: "var(--p-color-bg-fill-caution-secondary)",
+              borderRadius: "var(--p-border-radius-100)",
+              padding: "0 var(--p-space-050)",
+              fontFamily: "var(--p-font-family-mono)",
+            }}
+          >
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </span>
+  );
+}
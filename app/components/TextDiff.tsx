@@ -0,0 +1,44 @@
+import { diffWords } from "../utils/diff";
+
+/**
+ * Render the word-level difference between two texts:
+ * removed words struck through, added words highlighted.
+ * Newlines are preserved.
+ */
+export function TextDiff({ before, after }: { before: string; after: string }) {
+  const segments = diffWords(before, after);
+
+  return (
+    <span style={{ whiteSpace: "pre-wrap" }}>
+      {segments.map((segment, index) => {
+        if (segment.type === "added") {
+          return (
+            <ins
+              key={index}
+              style={{
+                background: "var(--p-color-bg-fill-success-secondary)",
+                textDecoration: "none",
+              }}
+            >
+              {segment.text}
+            </ins>
+          );
+        }
+        if (segment.type === "removed") {
+          return (
+            <del
+              key={index}
+              style={{
+                background: "var(--p-color-bg-fill-critical-secondary)",
+                color: "var(--p-color-text-secondary)",
+              }}
+            >
+              {segment.text}
+            </del>
+          );
+        }
+        return <span key={index}>{segment.text}</span>;
+      })}
+    </span>
+  );
+}
@@ -7,9 +7,12 @@ import {
 } from "@remix-run/node";
 import { isbot } from "isbot";
 import { addDocumentResponseHeaders } from "./shopify.server";
+import { startFollowupWorker } from "./worker.server";
 
 export const streamTimeout = 5000;
 
+startFollowupWorker();
+
 export default async function handleRequest(
   request: Request,
   responseStatusCode: number,
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import nodemailer from "nodemailer";
+import { createSmtpTransport } from "../smtp.server";
+import { MailDeliveryError } from "../types";
+
+vi.mock("nodemailer", () => ({
+  default: { createTransport: vi.fn() },
+}));
+
+const MESSAGE = {
+  from: "Test Store <hello@test-store.com>",
+  to: "jane@example.com",
+  subject: "Thanks for your order",
+  text: "Hi Jane,\n\nThanks for your order.",
+};
+
+function smtpError(message: string, fields: Record<string, unknown>) {
+  return Object.assign(new Error(message), fields);
+}
+
+describe("getMailTransport", () => {
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  async function getTransport() {
+    const { getMailTransport } = await import("../index.server");
+    return getMailTransport();
+  }
+
+  it("logs messages by default in development", async () => {
+    vi.stubEnv("NODE_ENV", "development");
+    vi.stubEnv("MAIL_TRANSPORT", "");
+    vi.stubEnv("LOG_LEVEL", "info");
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const transport = await getTransport();
+    await transport.send(MESSAGE);
+
+    expect(transport.name).toBe("console");
+    const output = log.mock.calls.flat().join("\n");
+    expect(output).toContain("Logged a message instead of sending it");
+    expect(output).not.toContain("jane@example.com");
+    expect(output).not.toContain("hello@test-store.com");
+    expect(output).not.toContain("Thanks for your order");
+  });
+
+  it("refuses to run without a transport outside development", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("MAIL_TRANSPORT", "");
+
+    await expect(getTransport()).rejects.toThrow("MAIL_TRANSPORT is not set");
+  });
+
+  it("refuses the console and file transports outside development", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+
+    vi.stubEnv("MAIL_TRANSPORT", "console");
+    await expect(getTransport()).rejects.toThrow("only works in development");
+    vi.stubEnv("MAIL_TRANSPORT", "file");
+    await expect(getTransport()).rejects.toThrow("only works in development");
+  });
+});
+
+describe("SMTP transport", () => {
+  const sendMail = vi.fn();
+
+  beforeEach(() => {
+    sendMail.mockReset().mockResolvedValue({});
+    vi.mocked(nodemailer.createTransport).mockReturnValue({
+      sendMail,
+    } as unknown as ReturnType<typeof nodemailer.createTransport>);
+    vi.stubEnv("SMTP_HOST", "smtp.example.com");
+    vi.stubEnv("SMTP_PORT", "587");
+    vi.stubEnv("SMTP_SECURE", "");
+    vi.stubEnv("SMTP_USER", "mailer");
+    vi.stubEnv("SMTP_PASSWORD", "secret");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("requires STARTTLS before sending credentials", () => {
+    createSmtpTransport();
+
+    expect(nodemailer.createTransport).toHaveBeenCalledWith(
+      expect.objectContaining({
+        host: "smtp.example.com",
+        port: 587,
+        secure: false,
+        requireTLS: true,
+        auth: { user: "mailer", pass: "secret" },
+      })
+    );
+  });
+
+  it("sends the message source to the bare addresses", async () => {
+    const { messageId } = await createSmtpTransport().send(MESSAGE);
+
+    expect(messageId).toMatch(/^<.+@test-store\.com>$/);
+    const [mail] = sendMail.mock.calls[0];
+    expect(mail.envelope).toEqual({
+      from: "hello@test-store.com",
+      to: "jane@example.com",
+    });
+    expect(mail.raw).toContain(`Message-ID: ${messageId}`);
+    expect(mail.raw).toContain("Subject: Thanks for your order");
+  });
+
+  it("doesn't retry a rejected recipient or bad credentials", async () => {
+    const transport = createSmtpTransport();
+
+    sendMail.mockRejectedValueOnce(
+      smtpError("Recipient rejected", { code: "EENVELOPE", responseCode: 550 })
+    );
+    await expect(transport.send(MESSAGE)).rejects.toMatchObject({
+      permanent: true,
+    });
+
+    sendMail.mockRejectedValueOnce(
+      smtpError("Invalid login", { code: "EAUTH", responseCode: 535 })
+    );
+    await expect(transport.send(MESSAGE)).rejects.toMatchObject({
+      permanent: true,
+    });
+  });
+
+  it("retries busy servers and connection problems", async () => {
+    const transport = createSmtpTransport();
+
+    sendMail.mockRejectedValueOnce(
+      smtpError("Try again later", { code: "EENVELOPE", responseCode: 451 })
+    );
+    await expect(transport.send(MESSAGE)).rejects.toMatchObject({
+      permanent: false,
+    });
+
+    sendMail.mockRejectedValueOnce(
+      smtpError("Connection timeout", { code: "ETIMEDOUT" })
+    );
+    const error = await transport.send(MESSAGE).catch((e) => e);
+    expect(error).toBeInstanceOf(MailDeliveryError);
+    expect(error).toMatchObject({ permanent: false });
+    expect(error.message).toContain("smtp.example.com:587");
+  });
+});
@@ -0,0 +1,28 @@
+import type { MailTransport } from "./types";
+import { createMessageId } from "./message.server";
+import { logger } from "../utils/logger.server";
+
+const mailLogger = logger.child({ component: "mail" });
+
+/**
+ * Console transport
+ * Logs that a message would have been sent instead of sending it. The
+ * development default, so local development never emails real
+ * customers. Addresses and content stay out of the log; use the file
+ * transport to read the messages.
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+
+    async send(message) {
+      const messageId = createMessageId(message.from);
+      mailLogger.info("Logged a message instead of sending it", {
+        messageId,
+        subjectLength: message.subject.length,
+        bodyLength: message.text.length,
+      });
+      return { messageId };
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import type { MailTransport } from "./types";
+import { createMessageId, formatMessage } from "./message.server";
+import { logger } from "../utils/logger.server";
+
+const mailLogger = logger.child({ component: "mail" });
+
+/**
+ * File transport
+ * Writes each message as an .eml file to MAIL_OUTBOX_DIR (default
+ * "./outbox") so it can be opened in a mail client.
+ */
+export function createFileTransport(): MailTransport {
+  const directory = path.resolve(process.env.MAIL_OUTBOX_DIR || "outbox");
+
+  return {
+    name: "file",
+
+    async send(message) {
+      const messageId = createMessageId(message.from);
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${messageId.slice(1, 9)}.eml`;
+
+      await mkdir(directory, { recursive: true });
+      await writeFile(
+        path.join(directory, fileName),
+        formatMessage(message, messageId)
+      );
+      mailLogger.info(`Wrote ${fileName}`, { directory });
+      return { messageId };
+    },
+  };
+}
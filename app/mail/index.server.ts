@@ -0,0 +1,64 @@
+import type { MailTransport } from "./types";
+import { createConsoleTransport } from "./console.server";
+import { createFileTransport } from "./file.server";
+import { createSmtpTransport } from "./smtp.server";
+
+/**
+ * Transport selection
+ * MAIL_TRANSPORT picks the implementation: "console", "file" or "smtp".
+ * Console and file don't deliver anything, so they only run in
+ * development, where console is the default. Elsewhere MAIL_TRANSPORT
+ * must be "smtp" and nothing is sent until it is.
+ */
+
+export type { MailMessage, MailTransport, SentMail } from "./types";
+export { MailDeliveryError } from "./types";
+
+const TRANSPORTS: Record<string, () => MailTransport> = {
+  console: createConsoleTransport,
+  file: createFileTransport,
+  smtp: createSmtpTransport,
+};
+
+/** Transports that never reach the customer */
+const DEVELOPMENT_TRANSPORTS = ["console", "file"];
+
+let transport: MailTransport | null = null;
+
+/**
+ * Get or create the configured transport
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const development = process.env.NODE_ENV === "development";
+    const name =
+      process.env.MAIL_TRANSPORT || (development ? "console" : undefined);
+    if (!name) {
+      throw new Error("MAIL_TRANSPORT is not set");
+    }
+    const create = TRANSPORTS[name];
+    if (!create) {
+      throw new Error(
+        `Unknown MAIL_TRANSPORT "${name}". Use one of: ${Object.keys(TRANSPORTS).join(", ")}`
+      );
+    }
+    if (!development && DEVELOPMENT_TRANSPORTS.includes(name)) {
+      throw new Error(
+        `MAIL_TRANSPORT "${name}" only works in development; use "smtp"`
+      );
+    }
+    transport = create();
+  }
+  return transport;
+}
+
+/**
+ * Sender address for follow-up emails (MAIL_FROM)
+ */
+export function getMailFrom(): string {
+  const from = process.env.MAIL_FROM;
+  if (!from) {
+    throw new Error("MAIL_FROM is not set");
+  }
+  return from;
+}
@@ -0,0 +1,68 @@
+import { randomUUID } from "crypto";
+import type { MailMessage } from "./types";
+
+/**
+ * Build the RFC 5322 source of a plain-text message.
+ * The body is base64 encoded so any text survives 7-bit SMTP servers.
+ */
+
+/** Drop line breaks so a value can't add headers */
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
+/** RFC 2047 encoded word for non-ASCII header text */
+function encodeHeader(value: string): string {
+  const clean = headerValue(value);
+  // eslint-disable-next-line no-control-regex
+  return /^[\x00-\x7f]*$/.test(clean)
+    ? clean
+    : `=?UTF-8?B?${Buffer.from(clean, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * The bare address in "Name <address>" (or the value itself)
+ */
+export function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return headerValue(match ? match[1] : value);
+}
+
+/**
+ * A Message-ID on the sender's domain
+ */
+export function createMessageId(from: string): string {
+  const domain = extractAddress(from).split("@")[1] || "localhost";
+  return `<${randomUUID()}@${domain}>`;
+}
+
+/**
+ * Full message source with CRLF line endings
+ */
+export function formatMessage(message: MailMessage, messageId: string): string {
+  const headers: Record<string, string> = {
+    From: headerValue(message.from),
+    To: headerValue(message.to),
+    Subject: encodeHeader(message.subject),
+    Date: new Date().toUTCString(),
+    "Message-ID": messageId,
+    "MIME-Version": "1.0",
+    "Content-Type": "text/plain; charset=utf-8",
+    "Content-Transfer-Encoding": "base64",
+  };
+  for (const [name, value] of Object.entries(message.headers ?? {})) {
+    headers[name] = headerValue(value);
+  }
+
+  const body = Buffer.from(message.text.replace(/\r?\n/g, "\r\n"), "utf8")
+    .toString("base64")
+    .replace(/.{1,76}/g, "$&\r\n");
+
+  return (
+    Object.entries(headers)
+      .map(([name, value]) => `${name}: ${value}`)
+      .join("\r\n") +
+    "\r\n\r\n" +
+    body
+  );
+}
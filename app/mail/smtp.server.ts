@@ -0,0 +1,98 @@
+import nodemailer from "nodemailer";
+import type SMTPConnection from "nodemailer/lib/smtp-connection";
+import type { MailTransport } from "./types";
+import { MailDeliveryError } from "./types";
+import {
+  createMessageId,
+  extractAddress,
+  formatMessage,
+} from "./message.server";
+
+/**
+ * SMTP transport
+ * Sends through nodemailer to a submission server: implicit TLS (port
+ * 465) or STARTTLS, one message per connection. The message source is
+ * built here so every transport writes the same headers.
+ *
+ * SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE ("true" for implicit
+ * TLS, the default on port 465), SMTP_USER and SMTP_PASSWORD.
+ */
+
+const SMTP_TIMEOUT_MS = 30000;
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string | null;
+  password: string | null;
+}
+
+function getSmtpConfig(): SmtpConfig {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP_HOST is required for the smtp mail transport");
+  }
+  const port = Number(process.env.SMTP_PORT || 587);
+
+  return {
+    host,
+    port,
+    secure: process.env.SMTP_SECURE
+      ? process.env.SMTP_SECURE === "true"
+      : port === 465,
+    user: process.env.SMTP_USER || null,
+    password: process.env.SMTP_PASSWORD || null,
+  };
+}
+
+/**
+ * Rejections (5xx replies) and bad credentials won't succeed on a retry;
+ * 4xx replies and connection problems might
+ */
+function isPermanent(error: SMTPConnection.SMTPError): boolean {
+  return (error.responseCode ?? 0) >= 500 || error.code === "EAUTH";
+}
+
+export function createSmtpTransport(): MailTransport {
+  const config = getSmtpConfig();
+  const smtp = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    // Never send credentials over a connection that couldn't be encrypted
+    requireTLS: Boolean(config.user) && !config.secure,
+    auth: config.user
+      ? { user: config.user, pass: config.password ?? "" }
+      : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+
+  return {
+    name: "smtp",
+
+    async send(message) {
+      const messageId = createMessageId(message.from);
+
+      try {
+        await smtp.sendMail({
+          envelope: {
+            from: extractAddress(message.from),
+            to: extractAddress(message.to),
+          },
+          raw: formatMessage(message, messageId),
+        });
+        return { messageId };
+      } catch (error) {
+        const smtpError = error as SMTPConnection.SMTPError;
+        throw new MailDeliveryError(
+          `SMTP delivery via ${config.host}:${config.port} failed: ${smtpError.message}`,
+          isPermanent(smtpError),
+          error
+        );
+      }
+    },
+  };
+}
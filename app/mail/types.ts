@@ -0,0 +1,46 @@
+/**
+ * Mail transport interface used to send follow-up emails
+ */
+
+/**
+ * A plain-text email ready to send
+ */
+export interface MailMessage {
+  /** Sender, e.g. "Store <orders@example.com>" */
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>;
+}
+
+/**
+ * What a transport reports once the message was accepted
+ */
+export interface SentMail {
+  messageId: string;
+}
+
+/**
+ * Something that can deliver a message
+ */
+export interface MailTransport {
+  /** Transport name for logs and send records (e.g., "smtp", "file") */
+  name: string;
+  send(message: MailMessage): Promise<SentMail>;
+}
+
+/**
+ * Delivery failure. Permanent failures (a rejected recipient, bad
+ * credentials) aren't retried; others (4xx replies, network) are.
+ */
+export class MailDeliveryError extends Error {
+  readonly permanent: boolean;
+
+  constructor(message: string, permanent: boolean, cause?: unknown) {
+    super(message, { cause });
+    this.name = "MailDeliveryError";
+    this.permanent = permanent;
+  }
+}
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ShopifyOrder } from "../../../shared/types";
+import { refillBackfillQueues } from "../backfill.server";
+import { fetchWebhookOrderPage } from "../shopifyOrder.server";
+import { fakeDb as db } from "./db";
+
+vi.mock("../../db.server", async () => ({
+  default: (await import("./db")).fakeDb.client,
+}));
+vi.mock("../../shopify.server", () => ({
+  unauthenticated: { admin: vi.fn().mockResolvedValue({ admin: {} }) },
+}));
+vi.mock("../shopifyOrder.server", () => ({
+  fetchWebhookOrderPage: vi.fn(),
+  buildOrderEvent: (_shop: string, order: ShopifyOrder) => ({
+    id: `backfill-${order.id}`,
+  }),
+}));
+
+const RUN = {
+  id: "run-1",
+  shop: "test-store.myshopify.com",
+  rangeStart: new Date("2026-08-01T00:00:00Z"),
+  rangeEnd: new Date("2026-09-30T23:59:59.999Z"),
+  concurrency: 2,
+  status: "running",
+  cursor: "cursor-1",
+  exhausted: false,
+};
+
+describe("refillBackfillQueues", () => {
+  beforeEach(() => {
+    db.reset();
+    db.model("backfillRun").findMany.mockResolvedValue([RUN]);
+    db.model("aIOrderInsight").findMany.mockResolvedValue([
+      { orderId: "1001" },
+    ]);
+    vi.mocked(fetchWebhookOrderPage).mockResolvedValue({
+      orders: [{ id: 1001 }, { id: 1002 }] as ShopifyOrder[],
+      hasNextPage: true,
+      endCursor: "cursor-2",
+    });
+  });
+
+  it("advances the cursor and queues the orders without an insight", async () => {
+    await refillBackfillQueues();
+
+    expect(fetchWebhookOrderPage).toHaveBeenCalledWith(
+      {},
+      expect.objectContaining({ after: "cursor-1" })
+    );
+    expect(db.model("backfillRun").updateMany).toHaveBeenCalledWith({
+      where: { id: "run-1", cursor: "cursor-1", exhausted: false },
+      data: expect.objectContaining({
+        cursor: "cursor-2",
+        exhausted: false,
+        ordersFound: { increment: 2 },
+        ordersSkipped: { increment: 1 },
+      }),
+    });
+    expect(db.model("insightJob").create).toHaveBeenCalledTimes(1);
+    expect(db.model("insightJob").create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        kind: "backfill",
+        orderId: "1002",
+        backfillRunId: "run-1",
+      }),
+    });
+  });
+
+  it("doesn't queue a page another refill already took", async () => {
+    db.model("backfillRun").updateMany.mockResolvedValue({ count: 0 });
+
+    await refillBackfillQueues();
+
+    expect(db.model("insightJob").create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  countMonthlyInsights,
+  getInsightLimitReason,
+  recordSubscriptionStatus,
+} from "../billing.server";
+import { fakeDb as db } from "./db";
+
+vi.mock("../../db.server", async () => ({
+  default: (await import("./db")).fakeDb.client,
+}));
+
+const SHOP = "test-store.myshopify.com";
+
+const SUBSCRIPTION = {
+  id: "gid://shopify/AppSubscription/1",
+  name: "Pro",
+};
+
+beforeEach(() => {
+  db.reset();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("plan limits", () => {
+  it("counts every completed version generated this month", async () => {
+    await countMonthlyInsights(SHOP);
+
+    expect(db.model("aIOrderInsightVersion").count).toHaveBeenCalledWith({
+      where: {
+        insight: { shop: SHOP },
+        status: "completed",
+        generatedAt: { gte: expect.any(Date), lt: expect.any(Date) },
+      },
+    });
+  });
+
+  it("refuses insights on the free plan once the allowance is used", async () => {
+    db.model("aIOrderInsightVersion").count.mockResolvedValue(50);
+
+    expect(await getInsightLimitReason(SHOP)).toBe(
+      "The Free plan's 50 insights for this month are used up"
+    );
+  });
+
+  it("allows insights while the free allowance lasts", async () => {
+    db.model("aIOrderInsightVersion").count.mockResolvedValue(49);
+
+    expect(await getInsightLimitReason(SHOP)).toBeNull();
+  });
+
+  it("doesn't limit Pro shops", async () => {
+    db.model("shopSubscription").findUnique.mockResolvedValue({
+      status: "ACTIVE",
+      graceEndsAt: null,
+    });
+    db.model("aIOrderInsightVersion").count.mockResolvedValue(500);
+
+    expect(await getInsightLimitReason(SHOP)).toBeNull();
+  });
+});
+
+describe("recordSubscriptionStatus", () => {
+  beforeEach(() => {
+    db.model("shopSubscription").findUnique.mockResolvedValue({
+      shop: SHOP,
+      subscriptionId: SUBSCRIPTION.id,
+      status: "ACTIVE",
+      graceEndsAt: null,
+    });
+  });
+
+  it("starts the grace period when a subscription lapses", async () => {
+    await recordSubscriptionStatus(SHOP, {
+      ...SUBSCRIPTION,
+      status: "FROZEN",
+    });
+
+    const [{ data }] = db.model("shopSubscription").update.mock.calls[0];
+    expect(data.status).toBe("FROZEN");
+    expect(data.graceEndsAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("drops a merchant's cancellation straight to Free", async () => {
+    await recordSubscriptionStatus(
+      SHOP,
+      { ...SUBSCRIPTION, status: "CANCELLED" },
+      undefined,
+      { grace: false }
+    );
+
+    expect(db.model("shopSubscription").update).toHaveBeenCalledWith({
+      where: { shop: SHOP },
+      data: { status: "CANCELLED", graceEndsAt: null },
+    });
+  });
+
+  it("ignores the webhook for a subscription the merchant already cancelled", async () => {
+    db.model("shopSubscription").findUnique.mockResolvedValue({
+      shop: SHOP,
+      subscriptionId: SUBSCRIPTION.id,
+      status: "CANCELLED",
+      graceEndsAt: null,
+    });
+
+    await recordSubscriptionStatus(SHOP, {
+      ...SUBSCRIPTION,
+      status: "CANCELLED",
+    });
+
+    expect(db.model("shopSubscription").update).not.toHaveBeenCalled();
+  });
+});
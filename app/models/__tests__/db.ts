@@ -0,0 +1,42 @@
+import { vi } from "vitest";
+
+/**
+ * Stand-in for the Prisma client: every model method is a mock, and a
+ * transaction runs its callback on the same client. Tests mock
+ * `db.server` with `fakeDb.client` and set return values per model.
+ */
+const models = new Map<string, Record<string, ReturnType<typeof vi.fn>>>();
+
+function model(name: string) {
+  let methods = models.get(name);
+  if (!methods) {
+    methods = {
+      findUnique: vi.fn().mockResolvedValue(null),
+      findUniqueOrThrow: vi.fn().mockRejectedValue(new Error("Not found")),
+      findFirst: vi.fn().mockResolvedValue(null),
+      findMany: vi.fn().mockResolvedValue([]),
+      count: vi.fn().mockResolvedValue(0),
+      groupBy: vi.fn().mockResolvedValue([]),
+      create: vi.fn().mockResolvedValue({ id: "request-1" }),
+      createMany: vi.fn().mockResolvedValue({ count: 0 }),
+      update: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      upsert: vi.fn().mockResolvedValue({}),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+    };
+    models.set(name, methods);
+  }
+  return methods;
+}
+
+const client: Record<string, unknown> = new Proxy(
+  {},
+  {
+    get: (_, name: string) =>
+      name === "$transaction"
+        ? (fn: (tx: unknown) => unknown) => fn(client)
+        : model(name),
+  }
+);
+
+export const fakeDb = { client, model, reset: () => models.clear() };
@@ -0,0 +1,272 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { FollowupContext } from "../followup.server";
+import { deliverFollowup, renderFollowup } from "../followup.server";
+import { getMailTransport } from "../../mail/index.server";
+import { MailDeliveryError } from "../../mail/types";
+import { unauthenticated } from "../../shopify.server";
+import { fakeDb as db } from "./db";
+
+vi.mock("../../db.server", async () => ({
+  default: (await import("./db")).fakeDb.client,
+}));
+vi.mock("../../shopify.server", () => ({
+  unauthenticated: { admin: vi.fn() },
+}));
+vi.mock("../../mail/index.server", async () => ({
+  MailDeliveryError: (await import("../../mail/types")).MailDeliveryError,
+  getMailTransport: vi.fn(),
+  getMailFrom: () => "Test Store <hello@test-store.com>",
+}));
+
+const SHOP = "test-store.myshopify.com";
+
+const CONTEXT: FollowupContext = {
+  shopName: "Test Store",
+  shopUrl: "https://test-store.com",
+  orderName: "#1001",
+  orderCreatedAt: new Date("2026-10-01T10:00:00Z"),
+  fulfilledAt: null,
+  cancelled: false,
+  refunded: false,
+  productName: "Trail Shoe",
+  customer: {
+    id: "gid://shopify/Customer/7001",
+    firstName: "Jane",
+    lastName: "Doe",
+    email: "Jane@example.com",
+    marketingState: "SUBSCRIBED",
+  },
+};
+
+const INSIGHT = {
+  id: "insight-1",
+  shop: SHOP,
+  orderId: "1001",
+  currentVersionId: "version-1",
+  followupSubject: "Your {{product_name}} is on its way",
+  followupBody: "Hi {{customer_first_name}}, thanks for order {{order_name}}.",
+};
+
+const SEND = {
+  id: "send-1",
+  shop: SHOP,
+  insightId: "insight-1",
+  orderId: "1001",
+  recipient: "jane@example.com",
+  subject: "Your Trail Shoe is on its way",
+  body: "Hi Jane, thanks for order #1001.",
+  discountCode: null,
+  link: null,
+  trigger: "manual",
+  status: "sending",
+  attempts: 0,
+};
+
+const send = vi.fn();
+
+/** Admin API answering the follow-up order query with `context` */
+function mockOrder(context: FollowupContext) {
+  const order = {
+    name: context.orderName,
+    createdAt: context.orderCreatedAt.toISOString(),
+    cancelledAt: context.cancelled ? "2026-10-02T10:00:00Z" : null,
+    displayFinancialStatus: context.refunded ? "REFUNDED" : "PAID",
+    fulfillments: [],
+    customer: context.customer && {
+      id: context.customer.id,
+      firstName: context.customer.firstName,
+      lastName: context.customer.lastName,
+      email: context.customer.email,
+      emailMarketingConsent: {
+        marketingState: context.customer.marketingState,
+      },
+    },
+    lineItems: { nodes: [{ title: context.productName }] },
+  };
+  vi.mocked(unauthenticated.admin).mockResolvedValue({
+    admin: {
+      graphql: vi.fn().mockResolvedValue({
+        json: async () => ({
+          data: {
+            shop: {
+              name: context.shopName,
+              primaryDomain: { url: context.shopUrl },
+            },
+            order,
+          },
+        }),
+      }),
+    },
+  } as never);
+}
+
+/** The insight's email rendered for `context` without extras */
+function previewFor(context: FollowupContext) {
+  return renderFollowup(SHOP, "insight-1", context, {
+    discountCode: null,
+    link: null,
+  });
+}
+
+function withCustomer(
+  customer: Partial<NonNullable<FollowupContext["customer"]>>
+) {
+  return { ...CONTEXT, customer: { ...CONTEXT.customer!, ...customer } };
+}
+
+beforeEach(() => {
+  db.reset();
+  vi.stubEnv("SHOPIFY_API_SECRET", "test-secret");
+  vi.stubEnv("SHOPIFY_APP_URL", "https://app.example.com");
+  db.model("shopSubscription").findUnique.mockResolvedValue({
+    status: "ACTIVE",
+  });
+  db.model("aIOrderInsight").findFirst.mockResolvedValue(INSIGHT);
+  send
+    .mockReset()
+    .mockResolvedValue({ messageId: "<message-1@test-store.com>" });
+  vi.mocked(getMailTransport).mockReturnValue({ name: "smtp", send });
+});
+
+describe("renderFollowup", () => {
+  it("fills placeholders from the order", async () => {
+    expect(await previewFor(CONTEXT)).toEqual({
+      recipient: "Jane@example.com",
+      subject: "Your Trail Shoe is on its way",
+      body: "Hi Jane, thanks for order #1001.",
+      missing: [],
+      blockedReason: null,
+    });
+  });
+
+  it("renders the merchant's edit and reports placeholders without a value", async () => {
+    db.model("followupEdit").findFirst.mockResolvedValue({
+      editedSubject: "A gift for you, {{customer_first_name}}",
+      editedBody: "Use {{discount_code}} on your next order.",
+      reasons: "[]",
+    });
+
+    expect(await previewFor(CONTEXT)).toMatchObject({
+      subject: "A gift for you, Jane",
+      body: "Use {{discount_code}} on your next order.",
+      missing: ["discount_code"],
+    });
+  });
+
+  it("blocks customers without marketing consent", async () => {
+    expect(
+      await previewFor(withCustomer({ marketingState: "NOT_SUBSCRIBED" }))
+    ).toMatchObject({
+      blockedReason: "The customer hasn't agreed to receive marketing emails",
+    });
+  });
+
+  it("blocks customers who unsubscribed", async () => {
+    db.model("emailUnsubscribe").findUnique.mockResolvedValue({
+      email: "jane@example.com",
+    });
+
+    expect(await previewFor(CONTEXT)).toMatchObject({
+      blockedReason: "The customer unsubscribed from follow-up emails",
+    });
+    expect(db.model("emailUnsubscribe").findUnique).toHaveBeenCalledWith({
+      where: { shop_email: { shop: SHOP, email: "jane@example.com" } },
+    });
+  });
+
+  it("blocks shops on a plan without emails", async () => {
+    db.model("shopSubscription").findUnique.mockResolvedValue(null);
+
+    expect(await previewFor(CONTEXT)).toMatchObject({
+      blockedReason: "Sending emails needs the Pro plan",
+    });
+  });
+});
+
+describe("deliverFollowup", () => {
+  beforeEach(() => {
+    db.model("followupSend").findUniqueOrThrow.mockResolvedValue(SEND);
+    mockOrder(CONTEXT);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("sends the email with an unsubscribe link and records it", async () => {
+    expect(await deliverFollowup("send-1")).toEqual({
+      status: "sent",
+      error: null,
+    });
+
+    const [message] = send.mock.calls[0];
+    expect(message).toMatchObject({
+      to: "jane@example.com",
+      subject: "Your Trail Shoe is on its way",
+    });
+    expect(message.text).toContain("Unsubscribe: https://app.example.com/");
+    expect(message.headers["List-Unsubscribe"]).toMatch(/^<https:/);
+    expect(db.model("followupSend").update).toHaveBeenCalledWith({
+      where: { id: "send-1" },
+      data: expect.objectContaining({
+        status: "sent",
+        transport: "smtp",
+        messageId: "<message-1@test-store.com>",
+      }),
+    });
+  });
+
+  it("doesn't deliver a send that is no longer scheduled", async () => {
+    db.model("followupSend").updateMany.mockResolvedValue({ count: 0 });
+    db.model("followupSend").findUniqueOrThrow.mockResolvedValue({
+      ...SEND,
+      status: "sent",
+    });
+
+    expect(await deliverFollowup("send-1")).toMatchObject({ status: "sent" });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("cancels the send of a refunded order", async () => {
+    mockOrder({ ...CONTEXT, refunded: true });
+
+    expect(await deliverFollowup("send-1")).toEqual({
+      status: "cancelled",
+      error: "The order was refunded",
+    });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("blocks the send when consent was withdrawn after scheduling", async () => {
+    mockOrder(withCustomer({ marketingState: "UNSUBSCRIBED" }));
+
+    expect(await deliverFollowup("send-1")).toMatchObject({
+      status: "blocked",
+    });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("retries a transient failure and gives up on a permanent one", async () => {
+    send.mockRejectedValueOnce(new MailDeliveryError("Try again later", false));
+    expect(await deliverFollowup("send-1")).toMatchObject({
+      status: "scheduled",
+    });
+
+    send.mockRejectedValueOnce(
+      new MailDeliveryError("Recipient rejected", true)
+    );
+    expect(await deliverFollowup("send-1")).toMatchObject({
+      status: "failed",
+    });
+  });
+
+  it("marks the send failed after its last attempt", async () => {
+    db.model("followupSend").findUniqueOrThrow.mockResolvedValue({
+      ...SEND,
+      attempts: 2,
+    });
+    send.mockRejectedValueOnce(new MailDeliveryError("Try again later", false));
+
+    expect(await deliverFollowup("send-1")).toMatchObject({
+      status: "failed",
+      error: "Try again later",
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getFeedbackGuidance, saveFollowupEdit } from "../followupEdit.server";
+import { fakeDb as db } from "./db";
+
+vi.mock("../../db.server", async () => ({
+  default: (await import("./db")).fakeDb.client,
+}));
+
+const SHOP = "test-store.myshopify.com";
+
+function editRow(overrides: Record<string, unknown> = {}) {
+  return {
+    originalSubject: "Thanks for your order",
+    originalBody: "Hi {{customer_first_name}}, thanks for your order.",
+    editedSubject: "Thanks!",
+    editedBody: "Hi Maria, your beans ship today.",
+    editDistance: 30,
+    reasons: '["too_long"]',
+    customerNames: '["Maria","Lopez"]',
+    ...overrides,
+  };
+}
+
+describe("saveFollowupEdit", () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it("records the names of the order's customer with the edit", async () => {
+    db.model("aIOrderInsight").findFirst.mockResolvedValue({
+      id: "insight-1",
+      currentVersionId: "version-1",
+      variantId: null,
+      followupSubject: "Thanks for your order",
+      followupBody: "Hi {{customer_first_name}}, thanks for your order.",
+    });
+
+    await saveFollowupEdit(
+      SHOP,
+      "insight-1",
+      { subject: "Thanks!", body: "Hi Maria!", reasons: [] },
+      ["Maria", "Lopez"]
+    );
+
+    expect(db.model("followupEdit").create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ customerNames: '["Maria","Lopez"]' }),
+    });
+  });
+});
+
+describe("getFeedbackGuidance", () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it("sends each example with its customer's names", async () => {
+    db.model("followupEdit").findMany.mockResolvedValue([editRow()]);
+
+    const guidance = await getFeedbackGuidance(SHOP);
+
+    expect(guidance?.examples).toEqual([
+      expect.objectContaining({
+        editedBody: "Hi Maria, your beans ship today.",
+        customerNames: ["Maria", "Lopez"],
+      }),
+    ]);
+  });
+
+  it("leaves out edits whose customer isn't known", async () => {
+    db.model("followupEdit").findMany.mockResolvedValue([
+      editRow({ customerNames: null }),
+    ]);
+
+    const guidance = await getFeedbackGuidance(SHOP);
+
+    expect(guidance?.editsAnalyzed).toBe(1);
+    expect(guidance?.examples).toEqual([]);
+  });
+});
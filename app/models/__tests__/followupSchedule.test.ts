@@ -0,0 +1,267 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { FollowupContext } from "../followup.server";
+import { fetchFollowupContext, renderFollowup } from "../followup.server";
+import {
+  cancelOrderFollowups,
+  queueAutomaticFollowup,
+  resolveWaitingFollowups,
+  startWaitingFollowups,
+} from "../followupSchedule.server";
+import { unauthenticated } from "../../shopify.server";
+import { fakeDb as db } from "./db";
+
+vi.mock("../../db.server", async () => ({
+  default: (await import("./db")).fakeDb.client,
+}));
+vi.mock("../../shopify.server", () => ({
+  unauthenticated: { admin: vi.fn().mockResolvedValue({ admin: {} }) },
+}));
+vi.mock("../followup.server", async () => ({
+  fetchFollowupContext: vi.fn(),
+  renderFollowup: vi.fn(),
+  getOrderCancelReason: (context: FollowupContext) =>
+    context.refunded ? "The order was refunded" : null,
+}));
+
+const SHOP = "test-store.myshopify.com";
+const HOUR_MS = 60 * 60 * 1000;
+
+const RULE = {
+  shop: SHOP,
+  customerType: "first-time",
+  anchor: "order",
+  delayHours: 24,
+  discountCode: "WELCOME10",
+};
+
+const QUEUED = {
+  id: "send-1",
+  shop: SHOP,
+  insightId: "insight-1",
+  orderId: "1001",
+  customerId: "gid://shopify/Customer/7001",
+  status: "waiting",
+  waitingFor: "rule",
+};
+
+function orderContext(overrides: Partial<FollowupContext> = {}) {
+  return {
+    shopName: "Test Store",
+    shopUrl: "https://test-store.com",
+    orderName: "#1001",
+    orderCreatedAt: new Date(Date.now() - HOUR_MS),
+    fulfilledAt: null,
+    cancelled: false,
+    refunded: false,
+    productName: "Trail Shoe",
+    customer: {
+      id: "gid://shopify/Customer/7001",
+      firstName: "Jane",
+      lastName: "Doe",
+      email: "Jane@example.com",
+      marketingState: "SUBSCRIBED",
+    },
+    ...overrides,
+  };
+}
+
+/** The update that resolved the queued send */
+function resolvedAs() {
+  const [{ where, data }] = db.model("followupSend").updateMany.mock.calls[0];
+  expect(where).toEqual({
+    id: "send-1",
+    status: "waiting",
+    waitingFor: "rule",
+  });
+  return data;
+}
+
+beforeEach(() => {
+  db.reset();
+  vi.mocked(unauthenticated.admin).mockClear();
+  vi.mocked(fetchFollowupContext).mockReset();
+  vi.mocked(renderFollowup).mockReset();
+  db.model("followupScheduleRule").findUnique.mockResolvedValue(RULE);
+});
+
+describe("queueAutomaticFollowup", () => {
+  beforeEach(() => {
+    db.model("aIOrderInsight").findFirst.mockResolvedValue({
+      orderId: "1001",
+      customerId: "7001",
+      customerType: "first-time",
+    });
+  });
+
+  it("queues a send for the worker without calling Shopify", async () => {
+    expect(await queueAutomaticFollowup(SHOP, "insight-1")).toBe(true);
+
+    expect(db.model("followupSend").create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        insightId: "insight-1",
+        customerId: "gid://shopify/Customer/7001",
+        trigger: "rule",
+        status: "waiting",
+        waitingFor: "rule",
+      }),
+    });
+    expect(unauthenticated.admin).not.toHaveBeenCalled();
+  });
+
+  it("skips customer types without a rule", async () => {
+    db.model("followupScheduleRule").findUnique.mockResolvedValue(null);
+
+    expect(await queueAutomaticFollowup(SHOP, "insight-1")).toBe(false);
+    expect(db.model("followupSend").create).not.toHaveBeenCalled();
+  });
+
+  it("doesn't email the customer again after a regeneration", async () => {
+    db.model("followupSend").count.mockResolvedValue(1);
+
+    expect(await queueAutomaticFollowup(SHOP, "insight-1")).toBe(false);
+    expect(db.model("followupSend").create).not.toHaveBeenCalled();
+  });
+});
+
+describe("resolveWaitingFollowups", () => {
+  beforeEach(() => {
+    db.model("followupSend").findMany.mockResolvedValue([QUEUED]);
+    db.model("aIOrderInsight").findFirst.mockResolvedValue({
+      customerType: "first-time",
+      contentWarnings: null,
+    });
+    vi.mocked(fetchFollowupContext).mockResolvedValue(orderContext());
+    vi.mocked(renderFollowup).mockResolvedValue({
+      recipient: "Jane@example.com",
+      subject: "Thanks, Jane",
+      body: "Use WELCOME10 on your next order.",
+      missing: [],
+      blockedReason: null,
+    });
+  });
+
+  it("schedules the email the rule's delay after the order", async () => {
+    const order = orderContext();
+    vi.mocked(fetchFollowupContext).mockResolvedValue(order);
+
+    expect(await resolveWaitingFollowups()).toBe(1);
+
+    expect(resolvedAs()).toMatchObject({
+      status: "scheduled",
+      waitingFor: null,
+      recipient: "jane@example.com",
+      subject: "Thanks, Jane",
+      scheduledFor: new Date(order.orderCreatedAt.getTime() + 24 * HOUR_MS),
+      lastError: null,
+    });
+  });
+
+  it("waits for fulfillment when the rule counts from it", async () => {
+    db.model("followupScheduleRule").findUnique.mockResolvedValue({
+      ...RULE,
+      anchor: "fulfillment",
+    });
+
+    expect(await resolveWaitingFollowups()).toBe(0);
+    expect(resolvedAs()).toMatchObject({
+      status: "waiting",
+      waitingFor: "fulfillment",
+    });
+  });
+
+  it("cancels the send of a refunded order", async () => {
+    vi.mocked(fetchFollowupContext).mockResolvedValue(
+      orderContext({ refunded: true })
+    );
+
+    await resolveWaitingFollowups();
+
+    expect(resolvedAs()).toMatchObject({
+      status: "cancelled",
+      lastError: "The order was refunded",
+    });
+    expect(renderFollowup).not.toHaveBeenCalled();
+  });
+
+  it("never emails orders older than a week", async () => {
+    vi.mocked(fetchFollowupContext).mockResolvedValue(
+      orderContext({ orderCreatedAt: new Date(Date.now() - 8 * 24 * HOUR_MS) })
+    );
+
+    await resolveWaitingFollowups();
+
+    expect(resolvedAs()).toMatchObject({
+      status: "cancelled",
+      lastError: "The order is older than 7 days",
+    });
+  });
+
+  it("blocks an email with content warnings", async () => {
+    db.model("aIOrderInsight").findFirst.mockResolvedValue({
+      customerType: "first-time",
+      contentWarnings: JSON.stringify([
+        { code: "literal_url", field: "followupBody", message: "Has a link" },
+      ]),
+    });
+
+    await resolveWaitingFollowups();
+
+    expect(resolvedAs()).toMatchObject({
+      status: "blocked",
+      lastError:
+        "The suggested email has content warnings; check it and send it yourself",
+    });
+  });
+
+  it("leaves the send queued when Shopify can't be reached", async () => {
+    vi.mocked(fetchFollowupContext).mockRejectedValue(new Error("Throttled"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await resolveWaitingFollowups()).toBe(0);
+    expect(db.model("followupSend").updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("order webhooks", () => {
+  it("cancels the order's pending sends on a refund", async () => {
+    db.model("followupSend").updateMany.mockResolvedValue({ count: 2 });
+
+    expect(
+      await cancelOrderFollowups(SHOP, "1001", "The order was refunded")
+    ).toBe(2);
+    expect(db.model("followupSend").updateMany).toHaveBeenCalledWith({
+      where: {
+        shop: SHOP,
+        orderId: "1001",
+        status: { in: ["waiting", "scheduled"] },
+      },
+      data: { status: "cancelled", lastError: "The order was refunded" },
+    });
+  });
+
+  it("starts only the sends that wait for fulfillment", async () => {
+    db.model("followupSend").findMany.mockResolvedValue([
+      { id: "send-2", delayHours: 72 },
+    ]);
+    const fulfilledAt = new Date();
+
+    expect(await startWaitingFollowups(SHOP, "1001", fulfilledAt)).toBe(1);
+    expect(db.model("followupSend").findMany).toHaveBeenCalledWith({
+      where: {
+        shop: SHOP,
+        orderId: "1001",
+        status: "waiting",
+        waitingFor: "fulfillment",
+      },
+      select: { id: true, delayHours: true },
+    });
+    expect(db.model("followupSend").updateMany).toHaveBeenCalledWith({
+      where: { id: "send-2", status: "waiting", waitingFor: "fulfillment" },
+      data: {
+        status: "scheduled",
+        waitingFor: null,
+        scheduledFor: new Date(fulfilledAt.getTime() + 72 * HOUR_MS),
+      },
+    });
+  });
+});
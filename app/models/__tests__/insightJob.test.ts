@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  MAX_JOB_ATTEMPTS,
+  claimNextJob,
+  completeJob,
+  failAbandonedJobs,
+  failJob,
+} from "../insightJob.server";
+import { fakeDb as db } from "./db";
+
+vi.mock("../../db.server", async () => ({
+  default: (await import("./db")).fakeDb.client,
+}));
+
+const LEASE_MS = 600_000;
+
+function jobRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "job-1",
+    shop: "test-store.myshopify.com",
+    kind: "backfill",
+    orderId: "1001",
+    event: "{}",
+    status: "running",
+    attempts: 2,
+    deadLetterId: "dead-letter-1",
+    backfillRunId: "run-1",
+    insightId: null,
+    error: null,
+    createdAt: new Date("2026-10-01T10:00:00Z"),
+    startedAt: new Date("2026-10-01T10:00:00Z"),
+    finishedAt: null,
+    ...overrides,
+  };
+}
+
+describe("claimNextJob", () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it("only takes over an expired claim that has attempts left", async () => {
+    db.model("insightJob").findFirst.mockResolvedValue(jobRow());
+
+    const job = await claimNextJob(LEASE_MS);
+
+    expect(job).toMatchObject({ id: "job-1", attempts: 3 });
+    const { where } = db.model("insightJob").updateMany.mock.calls[0][0];
+    expect(where.OR[1]).toMatchObject({
+      status: "running",
+      attempts: { lt: MAX_JOB_ATTEMPTS },
+    });
+  });
+});
+
+describe("failAbandonedJobs", () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it("fails a job whose last attempt timed out", async () => {
+    db.model("insightJob").findMany.mockResolvedValue([
+      { id: "job-1", attempts: MAX_JOB_ATTEMPTS },
+    ]);
+    db.model("insightJob").findUnique.mockResolvedValue(
+      jobRow({ status: "failed", attempts: MAX_JOB_ATTEMPTS })
+    );
+
+    expect(await failAbandonedJobs(LEASE_MS)).toBe(1);
+
+    expect(db.model("insightJob").updateMany).toHaveBeenCalledWith({
+      where: { id: "job-1", status: "running", attempts: MAX_JOB_ATTEMPTS },
+      data: expect.objectContaining({
+        status: "failed",
+        error: `Timed out on all ${MAX_JOB_ATTEMPTS} attempts`,
+      }),
+    });
+    expect(db.model("deadLetter").updateMany).toHaveBeenCalledWith({
+      where: { id: "dead-letter-1", status: "queued" },
+      data: { status: "open" },
+    });
+    expect(db.model("backfillRun").update).toHaveBeenCalledWith({
+      where: { id: "run-1" },
+      data: { ordersFailed: { increment: 1 } },
+    });
+  });
+});
+
+describe("completeJob and failJob", () => {
+  beforeEach(() => {
+    db.reset();
+    db.model("insightJob").findUnique.mockResolvedValue(jobRow());
+  });
+
+  it("counts the outcome of the current claim once", async () => {
+    expect(await completeJob("job-1", 2, "insight-1")).toBe(true);
+
+    expect(db.model("insightJob").updateMany).toHaveBeenCalledWith({
+      where: { id: "job-1", status: "running", attempts: 2 },
+      data: expect.objectContaining({
+        status: "completed",
+        insightId: "insight-1",
+      }),
+    });
+    expect(db.model("backfillRun").update).toHaveBeenCalledWith({
+      where: { id: "run-1" },
+      data: { ordersCompleted: { increment: 1 } },
+    });
+  });
+
+  it("ignores a claim that was taken over", async () => {
+    db.model("insightJob").updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await completeJob("job-1", 1, "insight-1")).toBe(false);
+    expect(await failJob("job-1", 1, "Provider timed out")).toBe(false);
+
+    expect(db.model("deadLetter").updateMany).not.toHaveBeenCalled();
+    expect(db.model("backfillRun").update).not.toHaveBeenCalled();
+  });
+});
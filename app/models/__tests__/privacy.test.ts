@@ -0,0 +1,338 @@
+import type { PrivacyRequest } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  enqueuePrivacyRequest,
+  getPrivacyExport,
+  processPrivacyRequests,
+  purgePrivacyExports,
+} from "../privacy.server";
+import { fakeDb as db } from "./db";
+
+vi.mock("../../db.server", async () => ({
+  default: (await import("./db")).fakeDb.client,
+}));
+
+const SHOP = "test-store.myshopify.com";
+
+function privacyRequest(overrides: Partial<PrivacyRequest>): PrivacyRequest {
+  return {
+    id: "request-1",
+    shop: SHOP,
+    kind: "customer_redact",
+    webhookId: "webhook-1",
+    customerId: "7001",
+    customerEmail: "Jane@Example.com",
+    orderIds: JSON.stringify(["1001"]),
+    dataRequestId: null,
+    status: "queued",
+    attempts: 0,
+    result: null,
+    export: null,
+    error: null,
+    createdAt: new Date("2026-10-01T10:00:00Z"),
+    startedAt: null,
+    finishedAt: null,
+    ...overrides,
+  };
+}
+
+/** A stored EventBridge event for an order with `order` fields */
+function orderEvent(order: Record<string, unknown>): string {
+  return JSON.stringify({ detail: { payload: { id: 1001, ...order } } });
+}
+
+/** The data passed to the last update of the request */
+function lastUpdate() {
+  const calls = db.model("privacyRequest").update.mock.calls;
+  return calls[calls.length - 1][0].data;
+}
+
+describe("enqueuePrivacyRequest", () => {
+  beforeEach(() => {
+    db.reset();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("queues a request with its orders", async () => {
+    const id = await enqueuePrivacyRequest({
+      shop: SHOP,
+      kind: "customer_redact",
+      webhookId: "webhook-1",
+      customerId: "7001",
+      orderIds: ["1001", "1002"],
+    });
+
+    expect(id).toBe("request-1");
+    expect(db.model("privacyRequest").create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        kind: "customer_redact",
+        customerId: "7001",
+        customerEmail: null,
+        orderIds: '["1001","1002"]',
+      }),
+    });
+  });
+
+  it("ignores a webhook Shopify delivered again", async () => {
+    db.model("privacyRequest").findUnique.mockResolvedValue({ id: "old" });
+
+    const id = await enqueuePrivacyRequest({
+      shop: SHOP,
+      kind: "shop_redact",
+      webhookId: "webhook-1",
+    });
+
+    expect(id).toBeNull();
+    expect(db.model("privacyRequest").create).not.toHaveBeenCalled();
+  });
+});
+
+describe("processPrivacyRequests", () => {
+  beforeEach(() => {
+    db.reset();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("erases a customer's rows, matched by id, email and order", async () => {
+    db.model("privacyRequest").findMany.mockResolvedValue([privacyRequest({})]);
+    db.model("aIOrderInsight").findMany.mockResolvedValue([
+      { orderId: "1003" },
+    ]);
+    db.model("aIOrderInsight").deleteMany.mockResolvedValue({ count: 2 });
+    db.model("followupSend").deleteMany.mockResolvedValue({ count: 1 });
+
+    expect(await processPrivacyRequests()).toBe(1);
+
+    const orders = [
+      "1001",
+      "gid://shopify/Order/1001",
+      "1003",
+      "gid://shopify/Order/1003",
+    ];
+    expect(db.model("aIOrderInsight").deleteMany).toHaveBeenCalledWith({
+      where: {
+        shop: SHOP,
+        OR: [{ orderId: { in: orders } }, { customerId: "7001" }],
+      },
+    });
+    expect(db.model("followupSend").deleteMany).toHaveBeenCalledWith({
+      where: {
+        shop: SHOP,
+        OR: [
+          { customerId: "gid://shopify/Customer/7001" },
+          { recipient: { in: ["Jane@Example.com", "jane@example.com"] } },
+          { orderId: { in: orders } },
+        ],
+      },
+    });
+    expect(db.model("processedEvent").deleteMany).toHaveBeenCalledWith({
+      where: { shop: SHOP, orderId: { in: orders } },
+    });
+    expect(lastUpdate()).toMatchObject({
+      status: "completed",
+      customerEmail: null,
+      export: null,
+      error: null,
+    });
+    expect(JSON.parse(lastUpdate().result)).toMatchObject({
+      orderInsights: 2,
+      followupSends: 1,
+    });
+  });
+
+  it("erases dead letters and jobs whose event names the customer", async () => {
+    db.model("privacyRequest").findMany.mockResolvedValue([privacyRequest({})]);
+    db.model("deadLetter").findMany.mockResolvedValue([
+      { id: "dead-letter-1", event: orderEvent({ customer: { id: 7001 } }) },
+      { id: "dead-letter-2", event: orderEvent({ customer: { id: 70012 } }) },
+    ]);
+    db.model("insightJob").findMany.mockResolvedValue([
+      { id: "job-1", event: orderEvent({ email: "JANE@example.com" }) },
+      { id: "job-2", event: "not json" },
+    ]);
+
+    await processPrivacyRequests();
+
+    expect(db.model("deadLetter").findMany).toHaveBeenCalledWith({
+      where: {
+        shop: SHOP,
+        OR: [
+          { event: { contains: "7001" } },
+          { event: { contains: "Jane@Example.com" } },
+          { event: { contains: "jane@example.com" } },
+        ],
+      },
+      select: { id: true, event: true },
+    });
+    const orders = ["1001", "gid://shopify/Order/1001"];
+    expect(db.model("deadLetter").deleteMany).toHaveBeenCalledWith({
+      where: {
+        shop: SHOP,
+        OR: [{ orderId: { in: orders } }, { id: { in: ["dead-letter-1"] } }],
+      },
+    });
+    expect(db.model("insightJob").deleteMany).toHaveBeenCalledWith({
+      where: {
+        shop: SHOP,
+        OR: [{ orderId: { in: orders } }, { id: { in: ["job-1"] } }],
+      },
+    });
+  });
+
+  it("never matches every row when the request names no customer", async () => {
+    db.model("privacyRequest").findMany.mockResolvedValue([
+      privacyRequest({ customerId: null, customerEmail: null }),
+    ]);
+
+    await processPrivacyRequests();
+
+    expect(db.model("aIOrderInsight").findMany).not.toHaveBeenCalled();
+    expect(db.model("followupSend").deleteMany).toHaveBeenCalledWith({
+      where: {
+        shop: SHOP,
+        OR: [{ orderId: { in: ["1001", "gid://shopify/Order/1001"] } }],
+      },
+    });
+    expect(db.model("emailUnsubscribe").deleteMany).toHaveBeenCalledWith({
+      where: { shop: SHOP, email: { in: [] } },
+    });
+    expect(db.model("deadLetter").findMany).not.toHaveBeenCalled();
+    expect(db.model("deadLetter").deleteMany).toHaveBeenCalledWith({
+      where: {
+        shop: SHOP,
+        OR: [
+          { orderId: { in: ["1001", "gid://shopify/Order/1001"] } },
+          { id: { in: [] } },
+        ],
+      },
+    });
+  });
+
+  it("exports a customer's data for the merchant", async () => {
+    db.model("privacyRequest").findMany.mockResolvedValue([
+      privacyRequest({ kind: "customer_data_request" }),
+    ]);
+    db.model("followupSend").findMany.mockResolvedValue([
+      {
+        orderId: "1001",
+        recipient: "jane@example.com",
+        subject: "Thanks!",
+        body: "Hi Jane",
+        status: "sent",
+        scheduledFor: null,
+        sentAt: null,
+      },
+    ]);
+
+    await processPrivacyRequests();
+
+    expect(db.model("followupSend").deleteMany).not.toHaveBeenCalled();
+    const update = lastUpdate();
+    expect(update.status).toBe("completed");
+    expect(JSON.parse(update.result)).toEqual({
+      orderInsights: 0,
+      followupSends: 1,
+      emailUnsubscribes: 0,
+      processedEvents: 0,
+    });
+    expect(JSON.parse(update.export)).toMatchObject({
+      shop: SHOP,
+      customerId: "7001",
+      ordersRequested: ["1001"],
+      followupEmails: [{ subject: "Thanks!", body: "Hi Jane" }],
+    });
+  });
+
+  it("erases a shop and keeps its requests without emails", async () => {
+    db.model("privacyRequest").findMany.mockResolvedValue([
+      privacyRequest({ kind: "shop_redact", customerId: null }),
+    ]);
+    db.model("session").deleteMany.mockResolvedValue({ count: 1 });
+
+    await processPrivacyRequests();
+
+    for (const name of [
+      "aIOrderInsight",
+      "shopSettings",
+      "shopUsageMonth",
+      "shopSubscription",
+      "session",
+    ]) {
+      expect(db.model(name).deleteMany).toHaveBeenCalledWith({
+        where: { shop: SHOP },
+      });
+    }
+    expect(db.model("privacyRequest").updateMany).toHaveBeenCalledWith({
+      where: { shop: SHOP },
+      data: { customerEmail: null, export: null },
+    });
+    expect(JSON.parse(lastUpdate().result)).toMatchObject({ sessions: 1 });
+  });
+
+  it("skips a request another server claimed first", async () => {
+    db.model("privacyRequest").findMany.mockResolvedValue([privacyRequest({})]);
+    db.model("privacyRequest").updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await processPrivacyRequests()).toBe(0);
+    expect(db.model("aIOrderInsight").deleteMany).not.toHaveBeenCalled();
+  });
+
+  it("retries a failed request until it runs out of attempts", async () => {
+    db.model("aIOrderInsight").deleteMany.mockRejectedValue(
+      new Error("Database is locked")
+    );
+
+    db.model("privacyRequest").findMany.mockResolvedValue([
+      privacyRequest({ attempts: 0 }),
+    ]);
+    expect(await processPrivacyRequests()).toBe(0);
+    expect(lastUpdate()).toMatchObject({
+      status: "queued",
+      error: "Database is locked",
+      finishedAt: null,
+    });
+
+    db.model("privacyRequest").findMany.mockResolvedValue([
+      privacyRequest({ attempts: 2 }),
+    ]);
+    await processPrivacyRequests();
+    expect(lastUpdate()).toMatchObject({
+      status: "failed",
+      error: "Database is locked",
+    });
+  });
+});
+
+describe("data request exports", () => {
+  beforeEach(() => {
+    db.reset();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("deletes exports once the retention window has passed", async () => {
+    db.model("privacyRequest").updateMany.mockResolvedValue({ count: 2 });
+
+    expect(await purgePrivacyExports()).toBe(2);
+
+    const [{ where, data }] =
+      db.model("privacyRequest").updateMany.mock.calls[0];
+    expect(data).toEqual({ export: null });
+    expect(where.export).toEqual({ not: null });
+    expect(Date.now() - where.finishedAt.lt.getTime()).toBeCloseTo(
+      30 * 24 * 60 * 60 * 1000,
+      -4
+    );
+  });
+
+  it("doesn't hand out an expired export", async () => {
+    await getPrivacyExport(SHOP, "request-1");
+
+    const [{ where }] = db.model("privacyRequest").findFirst.mock.calls[0];
+    expect(where).toMatchObject({
+      id: "request-1",
+      shop: SHOP,
+      finishedAt: { gte: expect.any(Date) },
+    });
+  });
+});
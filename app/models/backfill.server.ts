@@ -0,0 +1,285 @@
+import prisma from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import type { Logger } from "../../shared/logger";
+import { logger } from "../utils/logger.server";
+import { enqueueJob } from "./insightJob.server";
+import { buildOrderEvent, fetchWebhookOrderPage } from "./shopifyOrder.server";
+
+/**
+ * Backfill of past orders into insights.
+ *
+ * A run doesn't fetch every order up front: each time the Lambda asks the
+ * job queue for work, running backfills with a short queue fetch their next
+ * page of orders. Orders that already have an insight are skipped.
+ */
+
+/** Orders fetched per Admin API page */
+const BACKFILL_PAGE_SIZE = 25;
+
+/** Fetch another page once fewer than this many jobs are waiting */
+const REFILL_THRESHOLD = 10;
+
+export const DEFAULT_BACKFILL_CONCURRENCY = 2;
+export const MAX_BACKFILL_CONCURRENCY = 5;
+
+/** Shopify only returns the last 60 days of orders without read_all_orders */
+export const DEFAULT_BACKFILL_DAYS = 60;
+
+export type BackfillAction = "pause" | "resume" | "cancel";
+
+export interface BackfillRange {
+  rangeStart: Date;
+  rangeEnd: Date;
+  concurrency: number;
+}
+
+export type BackfillFormErrors = Partial<
+  Record<"rangeStart" | "rangeEnd" | "concurrency" | "form", string>
+>;
+
+/**
+ * Parse and validate the start-backfill form.
+ * Dates are YYYY-MM-DD; the end date is inclusive.
+ */
+export function parseBackfillForm(
+  formData: FormData
+):
+  | { range: BackfillRange; errors: null }
+  | { range: null; errors: BackfillFormErrors } {
+  const errors: BackfillFormErrors = {};
+
+  const rangeStart = new Date(`${formData.get("rangeStart")}T00:00:00Z`);
+  if (isNaN(rangeStart.getTime())) {
+    errors.rangeStart = "Enter a start date";
+  }
+
+  const rangeEnd = new Date(`${formData.get("rangeEnd")}T23:59:59.999Z`);
+  if (isNaN(rangeEnd.getTime())) {
+    errors.rangeEnd = "Enter an end date";
+  } else if (!errors.rangeStart && rangeEnd < rangeStart) {
+    errors.rangeEnd = "End date must be on or after the start date";
+  }
+
+  const concurrency = Number(formData.get("concurrency"));
+  if (
+    !Number.isInteger(concurrency) ||
+    concurrency < 1 ||
+    concurrency > MAX_BACKFILL_CONCURRENCY
+  ) {
+    errors.concurrency = `Choose between 1 and ${MAX_BACKFILL_CONCURRENCY}`;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { range: null, errors };
+  }
+
+  return { range: { rangeStart, rangeEnd, concurrency }, errors: null };
+}
+
+/**
+ * Start a backfill. A shop can only have one unfinished run at a time.
+ */
+export async function startBackfill(
+  shop: string,
+  range: BackfillRange
+): Promise<{ started: true } | { started: false; error: string }> {
+  const active = await prisma.backfillRun.findFirst({
+    where: { shop, status: { in: ["running", "paused"] } },
+  });
+  if (active) {
+    return {
+      started: false,
+      error: "Finish or cancel the current backfill before starting another",
+    };
+  }
+
+  await prisma.backfillRun.create({ data: { shop, ...range } });
+  return { started: true };
+}
+
+/**
+ * Latest backfill runs for a shop, newest first, with jobs still waiting
+ */
+export async function listBackfillRuns(shop: string) {
+  const runs = await prisma.backfillRun.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+    take: 10,
+  });
+
+  const pending = await prisma.insightJob.groupBy({
+    by: ["backfillRunId"],
+    where: {
+      backfillRunId: { in: runs.map((run) => run.id) },
+      status: { in: ["queued", "running"] },
+    },
+    _count: { _all: true },
+  });
+
+  return runs.map(({ cursor: _cursor, ...run }) => ({
+    ...run,
+    ordersPending:
+      pending.find((group) => group.backfillRunId === run.id)?._count._all ??
+      0,
+  }));
+}
+
+/**
+ * Pause, resume or cancel a run. Paused runs keep their queued jobs but
+ * the queue won't hand them out; cancelled runs drop them.
+ */
+export async function updateBackfillStatus(
+  shop: string,
+  id: string,
+  action: BackfillAction
+): Promise<boolean> {
+  const transitions: Record<BackfillAction, { from: string[]; to: string }> = {
+    pause: { from: ["running"], to: "paused" },
+    resume: { from: ["paused"], to: "running" },
+    cancel: { from: ["running", "paused"], to: "cancelled" },
+  };
+  const { from, to } = transitions[action];
+
+  const { count } = await prisma.backfillRun.updateMany({
+    where: { id, shop, status: { in: from } },
+    data: {
+      status: to,
+      ...(to === "cancelled" ? { finishedAt: new Date() } : {}),
+    },
+  });
+
+  if (count === 1 && to === "cancelled") {
+    await prisma.insightJob.deleteMany({
+      where: { backfillRunId: id, status: "queued" },
+    });
+  }
+
+  return count === 1;
+}
+
+/**
+ * Shopify search query for a run's date range
+ */
+function buildOrderQuery(rangeStart: Date, rangeEnd: Date): string {
+  return `created_at:>='${rangeStart.toISOString()}' AND created_at:<='${rangeEnd.toISOString()}'`;
+}
+
+const backfillLogger = logger.child({ component: "backfill" });
+
+/**
+ * Fetch the next page of orders for a run and queue the ones without an
+ * insight. Paging errors are kept on the run and retried on the next refill.
+ */
+async function refillRun(
+  run: {
+    id: string;
+    shop: string;
+    rangeStart: Date;
+    rangeEnd: Date;
+    cursor: string | null;
+  },
+  log: Logger
+): Promise<void> {
+  try {
+    const { admin } = await unauthenticated.admin(run.shop);
+    const page = await fetchWebhookOrderPage(admin, {
+      first: BACKFILL_PAGE_SIZE,
+      after: run.cursor,
+      query: buildOrderQuery(run.rangeStart, run.rangeEnd),
+    });
+
+    const existing = await prisma.aIOrderInsight.findMany({
+      where: {
+        shop: run.shop,
+        orderId: { in: page.orders.map((order) => String(order.id)) },
+      },
+      select: { orderId: true },
+    });
+    const analyzed = new Set(existing.map((insight) => insight.orderId));
+    const missing = page.orders.filter(
+      (order) => !analyzed.has(String(order.id))
+    );
+
+    // Advance the cursor with a compare-and-set before queueing, so two
+    // claims that read the same cursor don't both queue this page
+    const queued = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.backfillRun.updateMany({
+        where: { id: run.id, cursor: run.cursor, exhausted: false },
+        data: {
+          cursor: page.endCursor ?? run.cursor,
+          exhausted: !page.hasNextPage,
+          ordersFound: { increment: page.orders.length },
+          ordersSkipped: { increment: page.orders.length - missing.length },
+          lastError: null,
+        },
+      });
+      if (count === 0) return false;
+
+      for (const order of missing) {
+        await enqueueJob(
+          {
+            shop: run.shop,
+            kind: "backfill",
+            orderId: String(order.id),
+            event: buildOrderEvent(run.shop, order, "backfill"),
+            backfillRunId: run.id,
+          },
+          tx
+        );
+      }
+      return true;
+    });
+
+    if (!queued) {
+      log.info("Page already queued by another refill", {
+        shop: run.shop,
+        runId: run.id,
+      });
+      return;
+    }
+
+    log.info(`Queued ${missing.length} of ${page.orders.length} orders`, {
+      shop: run.shop,
+      runId: run.id,
+      lastPage: !page.hasNextPage,
+    });
+  } catch (e) {
+    log.error("Failed to fetch orders", {
+      shop: run.shop,
+      runId: run.id,
+      error: e,
+    });
+    await prisma.backfillRun.update({
+      where: { id: run.id },
+      data: { lastError: e instanceof Error ? e.message : "Unknown error" },
+    });
+  }
+}
+
+/**
+ * Top up the queue of every running backfill and close runs that are done.
+ * Called whenever the Lambda asks for a job.
+ */
+export async function refillBackfillQueues(
+  log: Logger = backfillLogger
+): Promise<void> {
+  const runs = await prisma.backfillRun.findMany({
+    where: { status: "running" },
+  });
+
+  for (const run of runs) {
+    const pending = await prisma.insightJob.count({
+      where: { backfillRunId: run.id, status: { in: ["queued", "running"] } },
+    });
+
+    if (!run.exhausted && pending < REFILL_THRESHOLD) {
+      await refillRun(run, log);
+    } else if (run.exhausted && pending === 0) {
+      await prisma.backfillRun.update({
+        where: { id: run.id },
+        data: { status: "completed", finishedAt: new Date() },
+      });
+      log.info("Backfill run completed", { shop: run.shop, runId: run.id });
+    }
+  }
+}
@@ -0,0 +1,231 @@
+import prisma from "../db.server";
+import type { Logger } from "../../shared/logger";
+import type { PlanId, PlanStatus } from "../../shared/types";
+import { logger } from "../utils/logger.server";
+import { getMonthRange, getUsageMonth } from "./usage.server";
+
+/**
+ * Plans and the shop's subscription.
+ * Shops start on the free plan. Pro is a Shopify app subscription (see
+ * the billing config in shopify.server.ts); its status is kept in
+ * ShopSubscription from the app_subscriptions/update webhook and
+ * checked again whenever the Plan page loads. When a subscription
+ * lapses (declined, frozen, expired, or cancelled outside the app) the
+ * shop keeps Pro for GRACE_PERIOD_DAYS; cancelling it on the Plan page
+ * drops the shop to Free right away.
+ */
+
+const billingLogger = logger.child({ component: "billing" });
+
+export interface PlanDefinition {
+  id: PlanId;
+  /** Plan name, also the key of the plan in the billing config */
+  name: string;
+  /** USD every 30 days */
+  price: number;
+  /**
+   * Insights generated per calendar month, regenerations included; null
+   * means unlimited
+   */
+  monthlyInsights: number | null;
+  /** Whether follow-up emails can be sent to customers */
+  followupEmails: boolean;
+}
+
+export const PRO_PLAN = "Pro";
+
+export const PLANS: Record<PlanId, PlanDefinition> = {
+  free: {
+    id: "free",
+    name: "Free",
+    price: 0,
+    monthlyInsights: 50,
+    followupEmails: false,
+  },
+  pro: {
+    id: "pro",
+    name: PRO_PLAN,
+    price: 19,
+    monthlyInsights: null,
+    followupEmails: true,
+  },
+};
+
+/** Days a shop keeps Pro after its subscription lapses */
+export const GRACE_PERIOD_DAYS = 7;
+
+/** AppSubscription statuses that end a subscription */
+const LAPSED_STATUSES = ["CANCELLED", "DECLINED", "EXPIRED", "FROZEN"];
+
+/**
+ * Charges are test charges outside production
+ */
+export function isTestBilling(): boolean {
+  return process.env.NODE_ENV !== "production";
+}
+
+export interface ShopPlan {
+  plan: PlanDefinition;
+  /** "grace" while a lapsed subscription's Pro features last */
+  state: "free" | "active" | "grace";
+  /** AppSubscription GID of the tracked subscription */
+  subscriptionId: string | null;
+  graceEndsAt: Date | null;
+}
+
+/**
+ * The plan whose limits apply to the shop now
+ */
+export async function getShopPlan(shop: string): Promise<ShopPlan> {
+  const row = await prisma.shopSubscription.findUnique({ where: { shop } });
+  const subscriptionId = row?.subscriptionId ?? null;
+
+  if (row?.status === "ACTIVE") {
+    return {
+      plan: PLANS.pro,
+      state: "active",
+      subscriptionId,
+      graceEndsAt: null,
+    };
+  }
+  if (row?.graceEndsAt && row.graceEndsAt > new Date()) {
+    return {
+      plan: PLANS.pro,
+      state: "grace",
+      subscriptionId,
+      graceEndsAt: row.graceEndsAt,
+    };
+  }
+  return { plan: PLANS.free, state: "free", subscriptionId, graceEndsAt: null };
+}
+
+/**
+ * Completed insight versions generated this month. Every regeneration
+ * is a new version, so it counts like a new order.
+ */
+export async function countMonthlyInsights(shop: string): Promise<number> {
+  const { start, end } = getMonthRange(getUsageMonth());
+  return prisma.aIOrderInsightVersion.count({
+    where: {
+      insight: { shop },
+      status: "completed",
+      generatedAt: { gte: start, lt: end },
+    },
+  });
+}
+
+/**
+ * The shop's plan and allowance, as sent to the Lambda
+ */
+export async function getPlanStatus(shop: string): Promise<PlanStatus> {
+  const [{ plan, graceEndsAt }, insightsThisMonth] = await Promise.all([
+    getShopPlan(shop),
+    countMonthlyInsights(shop),
+  ]);
+
+  return {
+    plan: plan.id,
+    graceEndsAt: graceEndsAt?.toISOString() ?? null,
+    insightsThisMonth,
+    insightLimit: plan.monthlyInsights,
+    limitReached:
+      plan.monthlyInsights !== null &&
+      insightsThisMonth >= plan.monthlyInsights,
+  };
+}
+
+/**
+ * Why another insight can't be generated for the shop, or null if it can
+ */
+export async function getInsightLimitReason(
+  shop: string
+): Promise<string | null> {
+  const status = await getPlanStatus(shop);
+  return status.limitReached
+    ? `The ${PLANS[status.plan].name} plan's ${status.insightLimit} insights for this month are used up`
+    : null;
+}
+
+/**
+ * Record a status change of one of the shop's app subscriptions, from
+ * the webhook or a billing check.
+ * Only the Pro subscription is tracked. A newer active one replaces it;
+ * other subscriptions (e.g. a declined upgrade) are ignored. When the
+ * tracked subscription lapses, the grace period starts, unless the
+ * merchant cancelled it in the app (`grace: false`).
+ */
+export async function recordSubscriptionStatus(
+  shop: string,
+  subscription: { id: string; name: string; status: string },
+  log: Logger = billingLogger,
+  { grace = true }: { grace?: boolean } = {}
+): Promise<void> {
+  if (subscription.name !== PRO_PLAN) return;
+
+  const row = await prisma.shopSubscription.findUnique({ where: { shop } });
+
+  if (subscription.status === "ACTIVE") {
+    const data = {
+      status: "ACTIVE",
+      subscriptionId: subscription.id,
+      graceEndsAt: null,
+    };
+    await prisma.shopSubscription.upsert({
+      where: { shop },
+      update: data,
+      create: { shop, ...data },
+    });
+    log.info(`Subscribed to ${PRO_PLAN}`, {
+      shop,
+      subscriptionId: subscription.id,
+    });
+    return;
+  }
+
+  if (
+    row?.subscriptionId !== subscription.id ||
+    !LAPSED_STATUSES.includes(subscription.status) ||
+    row.status !== "ACTIVE"
+  ) {
+    return;
+  }
+
+  const graceEndsAt = grace
+    ? new Date(Date.now() + GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000)
+    : null;
+  await prisma.shopSubscription.update({
+    where: { shop },
+    data: { status: subscription.status, graceEndsAt },
+  });
+  log.info(`${PRO_PLAN} subscription is ${subscription.status}`, {
+    shop,
+    subscriptionId: subscription.id,
+    graceEndsAt: graceEndsAt?.toISOString() ?? null,
+  });
+}
+
+/**
+ * Bring the stored status in line with the shop's active subscriptions
+ * (from billing.check), in case a webhook was missed
+ */
+export async function syncSubscriptions(
+  shop: string,
+  activeSubscriptions: Array<{ id: string; name: string }>
+): Promise<void> {
+  const row = await prisma.shopSubscription.findUnique({ where: { shop } });
+  const active = activeSubscriptions.find(
+    (subscription) => subscription.name === PRO_PLAN
+  );
+
+  if (active) {
+    if (row?.status !== "ACTIVE" || row.subscriptionId !== active.id) {
+      await recordSubscriptionStatus(shop, { ...active, status: "ACTIVE" });
+    }
+  } else if (row?.status === "ACTIVE" && row.subscriptionId) {
+    await recordSubscriptionStatus(shop, {
+      id: row.subscriptionId,
+      name: PRO_PLAN,
+      status: "EXPIRED",
+    });
+  }
+}
@@ -0,0 +1,96 @@
+import prisma from "../db.server";
+import type { DeadLetterPayload } from "../../shared/types";
+import { enqueueJob } from "./insightJob.server";
+
+/**
+ * Order events the Lambda gave up on after retrying.
+ * Each keeps the original EventBridge event so it can be replayed.
+ */
+
+export const DEAD_LETTERS_PAGE_SIZE = 50;
+
+/**
+ * Store a dead letter. A failed replay reopens the dead letter it came
+ * from instead of adding another row for the same order.
+ */
+export async function recordDeadLetter(
+  payload: DeadLetterPayload
+): Promise<string> {
+  const data = {
+    errorKind: payload.errorKind,
+    error: payload.error,
+    attempts: payload.attempts,
+    event: JSON.stringify(payload.event),
+    status: "open",
+  };
+
+  if (payload.deadLetterId) {
+    const { count } = await prisma.deadLetter.updateMany({
+      where: { id: payload.deadLetterId, shop: payload.shop },
+      data,
+    });
+    if (count === 1) return payload.deadLetterId;
+  }
+
+  const row = await prisma.deadLetter.create({
+    data: {
+      ...data,
+      shop: payload.shop,
+      orderId: payload.orderId,
+      orderName: payload.orderName,
+    },
+  });
+  return row.id;
+}
+
+/**
+ * Latest dead letters for a shop, newest first
+ */
+export async function listDeadLetters(shop: string) {
+  return prisma.deadLetter.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+    take: DEAD_LETTERS_PAGE_SIZE,
+    select: {
+      id: true,
+      orderId: true,
+      orderName: true,
+      errorKind: true,
+      error: true,
+      attempts: true,
+      status: true,
+      replays: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+}
+
+/**
+ * Queue replay jobs for open dead letters. Dead letters that are already
+ * queued or replayed are left alone. Returns the number queued.
+ */
+export async function replayDeadLetters(
+  shop: string,
+  ids: string[]
+): Promise<number> {
+  const deadLetters = await prisma.deadLetter.findMany({
+    where: { shop, id: { in: ids }, status: "open" },
+  });
+
+  for (const deadLetter of deadLetters) {
+    await enqueueJob({
+      shop,
+      kind: "replay",
+      orderId: deadLetter.orderId,
+      event: JSON.parse(deadLetter.event),
+      deadLetterId: deadLetter.id,
+    });
+    await prisma.deadLetter.update({
+      where: { id: deadLetter.id },
+      data: { status: "queued", replays: { increment: 1 } },
+    });
+  }
+
+  return deadLetters.length;
+}
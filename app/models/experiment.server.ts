@@ -0,0 +1,261 @@
+import prisma from "../db.server";
+import type { PromptVariant } from "../../shared/types";
+import {
+  ORDER_INSIGHT_TEMPLATE_ID,
+  validatePromptTemplate,
+} from "../../shared/promptTemplates";
+
+/**
+ * Prompt experiments.
+ *
+ * A shop's experiment is its active prompt variants. The Lambda assigns
+ * each order to one of them by a hash of the order id, and the insight
+ * records the variant so the report can compare merchant ratings, email
+ * edits and error rates per variant.
+ */
+
+export const MAX_ACTIVE_VARIANTS = 4;
+export const MAX_VARIANT_WEIGHT = 100;
+
+export interface PromptVariantInput {
+  name: string;
+  weight: number;
+  /** null for a control variant running the shop's current prompt */
+  systemMessage: string | null;
+  prompt: string | null;
+}
+
+export type PromptVariantFormErrors = Partial<
+  Record<"name" | "weight" | "systemMessage" | "prompt" | "form", string>
+>;
+
+/**
+ * Template version recorded on insights generated from a variant's prompt
+ */
+function toVersionLabel(number: number): string {
+  return `variant-${number}`;
+}
+
+/**
+ * Parse and validate the add-variant form
+ */
+export function parsePromptVariantForm(
+  formData: FormData
+):
+  | { variant: PromptVariantInput; errors: null }
+  | { variant: null; errors: PromptVariantFormErrors } {
+  const errors: PromptVariantFormErrors = {};
+
+  const name = String(formData.get("name") ?? "").trim();
+  if (!name) {
+    errors.name = "Enter a name";
+  } else if (name.length > 60) {
+    errors.name = "Keep the name under 60 characters";
+  }
+
+  const weight = Number(formData.get("weight"));
+  if (!Number.isInteger(weight) || weight < 1 || weight > MAX_VARIANT_WEIGHT) {
+    errors.weight = `Enter a whole number from 1 to ${MAX_VARIANT_WEIGHT}`;
+  }
+
+  let systemMessage: string | null = null;
+  let prompt: string | null = null;
+  if (formData.get("useCurrentPrompt") !== "true") {
+    systemMessage = String(formData.get("systemMessage") ?? "").trim();
+    prompt = String(formData.get("prompt") ?? "").trim();
+
+    const systemProblems = validatePromptTemplate(systemMessage);
+    if (systemProblems.length > 0) {
+      errors.systemMessage = systemProblems.join(". ");
+    }
+    const promptProblems = validatePromptTemplate(prompt);
+    if (promptProblems.length > 0) {
+      errors.prompt = promptProblems.join(". ");
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { variant: null, errors };
+  }
+  return { variant: { name, weight, systemMessage, prompt }, errors: null };
+}
+
+/**
+ * Add a variant to the shop's experiment
+ */
+export async function createPromptVariant(
+  shop: string,
+  input: PromptVariantInput
+): Promise<{ created: true } | { created: false; error: string }> {
+  return prisma.$transaction(async (tx) => {
+    const activeCount = await tx.promptVariant.count({
+      where: { shop, active: true },
+    });
+    if (activeCount >= MAX_ACTIVE_VARIANTS) {
+      return {
+        created: false as const,
+        error: `An experiment can run at most ${MAX_ACTIVE_VARIANTS} variants`,
+      };
+    }
+
+    const latest = await tx.promptVariant.findFirst({
+      where: { shop },
+      orderBy: { number: "desc" },
+      select: { number: true },
+    });
+
+    await tx.promptVariant.create({
+      data: { shop, number: (latest?.number ?? 0) + 1, ...input },
+    });
+    return { created: true as const };
+  });
+}
+
+/**
+ * Stop assigning orders to a variant. Its insights stay in the report.
+ */
+export async function archivePromptVariant(
+  shop: string,
+  id: string
+): Promise<boolean> {
+  const { count } = await prisma.promptVariant.updateMany({
+    where: { id, shop, active: true },
+    data: { active: false },
+  });
+  return count > 0;
+}
+
+/**
+ * Every variant of a shop, active ones first, newest first
+ */
+export async function listPromptVariants(shop: string) {
+  return prisma.promptVariant.findMany({
+    where: { shop },
+    orderBy: [{ active: "desc" }, { number: "desc" }],
+  });
+}
+
+/**
+ * Active variants in the shape the Lambda assigns orders from.
+ * A single active variant is no experiment, so it's returned as-is and
+ * every order gets it.
+ */
+export async function getActivePromptVariants(
+  shop: string
+): Promise<PromptVariant[]> {
+  const variants = await prisma.promptVariant.findMany({
+    where: { shop, active: true },
+    orderBy: { number: "asc" },
+  });
+
+  return variants.map((variant) => ({
+    id: variant.id,
+    name: variant.name,
+    weight: variant.weight,
+    template:
+      variant.systemMessage !== null && variant.prompt !== null
+        ? {
+            id: ORDER_INSIGHT_TEMPLATE_ID,
+            version: toVersionLabel(variant.number),
+            systemMessage: variant.systemMessage,
+            prompt: variant.prompt,
+          }
+        : null,
+  }));
+}
+
+export interface VariantReportRow {
+  /** null for insights generated outside an experiment */
+  variantId: string | null;
+  name: string;
+  active: boolean;
+  /** null for the no-experiment row */
+  weight: number | null;
+  /** Whether the variant has its own prompt rather than the shop's */
+  ownPrompt: boolean;
+  insights: number;
+  rated: number;
+  ratedUp: number;
+  /** Insights whose follow-up email the merchant edited */
+  edited: number;
+  attempts: number;
+  failedAttempts: number;
+}
+
+/**
+ * Insights, ratings, email edits and generation attempts per variant.
+ * Error rates count attempts, so a failure that was later regenerated
+ * still counts against the variant.
+ */
+export async function getExperimentReport(
+  shop: string
+): Promise<VariantReportRow[]> {
+  const [variants, insights, ratings, edits, attempts] = await Promise.all([
+    listPromptVariants(shop),
+    prisma.aIOrderInsight.groupBy({
+      by: ["variantId"],
+      where: { shop },
+      _count: { _all: true },
+    }),
+    prisma.aIOrderInsight.groupBy({
+      by: ["variantId", "rating"],
+      where: { shop, rating: { not: null } },
+      _count: { _all: true },
+    }),
+    // One group per edited insight, however many of its versions were edited
+    prisma.followupEdit.groupBy({
+      by: ["variantId", "insightId"],
+      where: { shop },
+    }),
+    prisma.aIOrderInsightVersion.groupBy({
+      by: ["variantId", "status"],
+      where: { insight: { shop } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const rowFor = (
+    variantId: string | null,
+    details: Pick<VariantReportRow, "name" | "active" | "weight" | "ownPrompt">
+  ): VariantReportRow => {
+    const sum = (
+      groups: { variantId: string | null; _count: { _all: number } }[]
+    ) =>
+      groups
+        .filter((group) => group.variantId === variantId)
+        .reduce((total, group) => total + group._count._all, 0);
+
+    return {
+      variantId,
+      ...details,
+      insights: sum(insights),
+      rated: sum(ratings),
+      ratedUp: sum(ratings.filter((group) => group.rating === "up")),
+      edited: edits.filter((group) => group.variantId === variantId).length,
+      attempts: sum(attempts),
+      failedAttempts: sum(attempts.filter((group) => group.status === "error")),
+    };
+  };
+
+  const rows = variants.map((variant) =>
+    rowFor(variant.id, {
+      name: variant.name,
+      active: variant.active,
+      weight: variant.weight,
+      ownPrompt: variant.prompt !== null,
+    })
+  );
+
+  // Baseline: orders analyzed while no experiment was running
+  const baseline = rowFor(null, {
+    name: "No experiment",
+    active: false,
+    weight: null,
+    ownPrompt: false,
+  });
+  if (baseline.insights > 0) {
+    rows.push(baseline);
+  }
+
+  return rows;
+}
@@ -0,0 +1,684 @@
+import type { AdminGraphqlClient } from "@shopify/shopify-app-remix/server";
+import prisma from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import type { Logger } from "../../shared/logger";
+import {
+  MailDeliveryError,
+  getMailFrom,
+  getMailTransport,
+} from "../mail/index.server";
+import { logger } from "../utils/logger.server";
+import { renderPlaceholders } from "../utils/placeholders";
+import { getUnsubscribeUrl } from "../utils/unsubscribe.server";
+import { PLANS, getShopPlan } from "./billing.server";
+import { getFollowupEdit } from "./followupEdit.server";
+
+/**
+ * Sending follow-up emails to customers.
+ *
+ * The email (the merchant's edit if there is one) is rendered with the
+ * order's data and stored as a send, either due now or at a scheduled
+ * time. Consent is checked when the merchant previews, when the send is
+ * created and again right before delivery, so a customer who opts out in
+ * between isn't emailed.
+ *
+ * Sends created by a schedule rule (see followupSchedule.server.ts) are
+ * rendered again at delivery, so merchant edits made while they wait are
+ * used. A send for a cancelled or refunded order is cancelled instead.
+ *
+ * A send stuck in "sending" (the server stopped mid-delivery) is not
+ * retried: the email may already have gone out.
+ */
+
+const followupLogger = logger.child({ component: "followup" });
+
+/** Delivery attempts before a send is marked failed */
+const MAX_SEND_ATTEMPTS = 3;
+
+/** Wait before each retry of a transient failure */
+const RETRY_DELAYS_MS = [60 * 1000, 10 * 60 * 1000];
+
+/** How far ahead a send can be scheduled */
+const MAX_SCHEDULE_DAYS = 90;
+
+export type FollowupSendStatus =
+  | "waiting"
+  | "scheduled"
+  | "sending"
+  | "sent"
+  | "failed"
+  | "cancelled"
+  | "blocked";
+
+export interface FollowupSendInput {
+  discountCode: string | null;
+  link: string | null;
+  /** null sends right away */
+  scheduledFor: Date | null;
+}
+
+export type FollowupSendErrors = Partial<
+  Record<"discountCode" | "link" | "sendAt" | "form", string>
+>;
+
+export interface FollowupPreview {
+  recipient: string | null;
+  subject: string;
+  body: string;
+  /** Placeholders without a value; the email can't be sent until filled */
+  missing: string[];
+  /** Why the customer can't be emailed, if they can't */
+  blockedReason: string | null;
+}
+
+const FOLLOWUP_ORDER_QUERY = `#graphql
+  query GetOrderForFollowup($id: ID!) {
+    shop {
+      name
+      primaryDomain { url }
+    }
+    order(id: $id) {
+      name
+      createdAt
+      cancelledAt
+      displayFinancialStatus
+      fulfillments(first: 10) { createdAt }
+      customer {
+        id
+        firstName
+        lastName
+        email
+        emailMarketingConsent { marketingState }
+      }
+      lineItems(first: 1) {
+        nodes { title }
+      }
+    }
+  }
+`;
+
+export interface FollowupContext {
+  shopName: string;
+  shopUrl: string;
+  orderName: string;
+  orderCreatedAt: Date;
+  /** Latest fulfillment, null if the order isn't fulfilled */
+  fulfilledAt: Date | null;
+  cancelled: boolean;
+  refunded: boolean;
+  productName: string | null;
+  customer: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    email: string | null;
+    marketingState: string | null;
+  } | null;
+}
+
+/**
+ * Load what a follow-up needs from the order, or null if it doesn't exist
+ */
+export async function fetchFollowupContext(
+  admin: { graphql: AdminGraphqlClient },
+  orderId: string
+): Promise<FollowupContext | null> {
+  const response = await admin.graphql(FOLLOWUP_ORDER_QUERY, {
+    variables: {
+      id: orderId.startsWith("gid://")
+        ? orderId
+        : `gid://shopify/Order/${orderId}`,
+    },
+  });
+  const result = (await response.json()) as {
+    data?: {
+      shop: { name: string; primaryDomain: { url: string } };
+      order: {
+        name: string;
+        createdAt: string;
+        cancelledAt: string | null;
+        displayFinancialStatus: string | null;
+        fulfillments: Array<{ createdAt: string }>;
+        customer: {
+          id: string;
+          firstName: string | null;
+          lastName: string | null;
+          email: string | null;
+          emailMarketingConsent: { marketingState: string } | null;
+        } | null;
+        lineItems: { nodes: Array<{ title: string }> };
+      } | null;
+    };
+  };
+
+  const order = result.data?.order;
+  if (!result.data || !order) return null;
+
+  return {
+    shopName: result.data.shop.name,
+    shopUrl: result.data.shop.primaryDomain.url,
+    orderName: order.name,
+    orderCreatedAt: new Date(order.createdAt),
+    fulfilledAt:
+      order.fulfillments.length > 0
+        ? new Date(
+            Math.max(
+              ...order.fulfillments.map((fulfillment) =>
+                new Date(fulfillment.createdAt).getTime()
+              )
+            )
+          )
+        : null,
+    cancelled: order.cancelledAt !== null,
+    refunded: ["REFUNDED", "PARTIALLY_REFUNDED"].includes(
+      order.displayFinancialStatus ?? ""
+    ),
+    productName: order.lineItems.nodes[0]?.title ?? null,
+    customer: order.customer
+      ? {
+          id: order.customer.id,
+          firstName: order.customer.firstName,
+          lastName: order.customer.lastName,
+          email: order.customer.email,
+          marketingState:
+            order.customer.emailMarketingConsent?.marketingState ?? null,
+        }
+      : null,
+  };
+}
+
+/**
+ * Names of the customer of the insight's order, e.g. to scrub them from
+ * an edit of its email. Empty for orders without a customer.
+ */
+export async function getOrderCustomerNames(
+  admin: { graphql: AdminGraphqlClient },
+  shop: string,
+  insightId: string
+): Promise<string[]> {
+  const insight = await prisma.aIOrderInsight.findFirst({
+    where: { id: insightId, shop },
+    select: { orderId: true },
+  });
+  const context = insight
+    ? await fetchFollowupContext(admin, insight.orderId)
+    : null;
+
+  return [context?.customer?.firstName, context?.customer?.lastName].filter(
+    (name): name is string => Boolean(name)
+  );
+}
+
+/**
+ * Why the order shouldn't get a follow-up at all, or null
+ */
+export function getOrderCancelReason(context: FollowupContext): string | null {
+  if (context.cancelled) return "The order was cancelled";
+  if (context.refunded) return "The order was refunded";
+  return null;
+}
+
+/**
+ * Why the order's customer can't get a follow-up email, or null if they
+ * can. Shops on a plan without emails can't send any.
+ */
+async function getBlockedReason(
+  shop: string,
+  customer: FollowupContext["customer"]
+): Promise<string | null> {
+  const { plan } = await getShopPlan(shop);
+  if (!plan.followupEmails) {
+    return `Sending emails needs the ${PLANS.pro.name} plan`;
+  }
+  if (!customer) {
+    return "The order has no customer";
+  }
+  if (!customer.email) {
+    return "The customer has no email address";
+  }
+  if (customer.marketingState !== "SUBSCRIBED") {
+    return "The customer hasn't agreed to receive marketing emails";
+  }
+
+  const unsubscribed = await prisma.emailUnsubscribe.findUnique({
+    where: { shop_email: { shop, email: customer.email.toLowerCase() } },
+  });
+  return unsubscribed
+    ? "The customer unsubscribed from follow-up emails"
+    : null;
+}
+
+/**
+ * Render the insight's email (the merchant's edit if there is one) for
+ * the order, or null if the insight has no email
+ */
+export async function renderFollowup(
+  shop: string,
+  insightId: string,
+  context: FollowupContext,
+  extras: { discountCode: string | null; link: string | null }
+): Promise<FollowupPreview | null> {
+  const insight = await prisma.aIOrderInsight.findFirst({
+    where: { id: insightId, shop },
+  });
+  if (!insight || (!insight.followupSubject && !insight.followupBody)) {
+    return null;
+  }
+
+  const edit = await getFollowupEdit(insight.id, insight.currentVersionId);
+  const values = {
+    customer_first_name: context.customer?.firstName,
+    product_name: context.productName,
+    order_name: context.orderName,
+    discount_code: extras.discountCode,
+    link: extras.link ?? context.shopUrl,
+  };
+  const subject = renderPlaceholders(
+    edit?.editedSubject ?? insight.followupSubject ?? "",
+    values
+  );
+  const body = renderPlaceholders(
+    edit?.editedBody ?? insight.followupBody ?? "",
+    values
+  );
+
+  return {
+    recipient: context.customer?.email ?? null,
+    subject: subject.text,
+    body: body.text,
+    missing: [...new Set([...subject.missing, ...body.missing])],
+    blockedReason: await getBlockedReason(shop, context.customer),
+  };
+}
+
+/**
+ * Parse and validate the send form on the insight page
+ */
+export function parseFollowupSendForm(
+  formData: FormData
+):
+  | { send: FollowupSendInput; errors: null }
+  | { send: null; errors: FollowupSendErrors } {
+  const errors: FollowupSendErrors = {};
+
+  const discountCode = String(formData.get("discountCode") ?? "").trim();
+  if (discountCode.length > 255) {
+    errors.discountCode = "Enter a shorter discount code";
+  }
+
+  const link = String(formData.get("link") ?? "").trim();
+  if (link && !/^https?:\/\/\S+$/.test(link)) {
+    errors.link = "Enter a full URL starting with https://";
+  }
+
+  const sendAt = String(formData.get("sendAt") ?? "now");
+  let scheduledFor: Date | null = null;
+  if (sendAt !== "now") {
+    scheduledFor = new Date(sendAt);
+    const latest = Date.now() + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000;
+    if (Number.isNaN(scheduledFor.getTime())) {
+      errors.sendAt = "Enter a date and time";
+    } else if (scheduledFor.getTime() <= Date.now()) {
+      errors.sendAt = "Pick a time in the future";
+    } else if (scheduledFor.getTime() > latest) {
+      errors.sendAt = `Schedule at most ${MAX_SCHEDULE_DAYS} days ahead`;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { send: null, errors };
+  }
+  return {
+    send: {
+      discountCode: discountCode || null,
+      link: link || null,
+      scheduledFor,
+    },
+    errors: null,
+  };
+}
+
+/**
+ * Render the insight's email for its customer without sending it
+ */
+export async function prepareFollowup(
+  admin: { graphql: AdminGraphqlClient },
+  shop: string,
+  insightId: string,
+  extras: { discountCode: string | null; link: string | null }
+): Promise<
+  | {
+      preview: FollowupPreview;
+      /** Shopify customer GID of the order */
+      customerId: string | null;
+      error: null;
+    }
+  | { preview: null; error: string }
+> {
+  const insight = await prisma.aIOrderInsight.findFirst({
+    where: { id: insightId, shop },
+    select: { orderId: true },
+  });
+  if (!insight) {
+    return { preview: null, error: "Insight not found" };
+  }
+
+  const context = await fetchFollowupContext(admin, insight.orderId);
+  if (!context) {
+    return { preview: null, error: "The order no longer exists in Shopify" };
+  }
+
+  const preview = await renderFollowup(shop, insightId, context, extras);
+  if (!preview) {
+    return { preview: null, error: "This insight has no email to send" };
+  }
+  return {
+    preview: {
+      ...preview,
+      blockedReason: getOrderCancelReason(context) ?? preview.blockedReason,
+    },
+    customerId: context.customer?.id ?? null,
+    error: null,
+  };
+}
+
+/**
+ * Create a send for the insight's email. Sends due now are delivered
+ * before returning.
+ */
+export async function scheduleFollowup(
+  admin: { graphql: AdminGraphqlClient },
+  shop: string,
+  insightId: string,
+  input: FollowupSendInput
+): Promise<
+  | { status: FollowupSendStatus; error: string | null }
+  | { status: null; error: string }
+> {
+  const prepared = await prepareFollowup(admin, shop, insightId, input);
+  if (!prepared.preview) {
+    return { status: null, error: prepared.error };
+  }
+
+  const { preview } = prepared;
+  if (preview.blockedReason || !preview.recipient) {
+    return {
+      status: null,
+      error: preview.blockedReason ?? "The customer has no email address",
+    };
+  }
+  if (preview.missing.length > 0) {
+    return {
+      status: null,
+      error: `Fill in ${preview.missing.map((name) => `{{${name}}}`).join(", ")} before sending`,
+    };
+  }
+
+  const active = await prisma.followupSend.findFirst({
+    where: {
+      insightId,
+      status: { in: ["waiting", "scheduled", "sending", "sent"] },
+    },
+    select: { status: true },
+  });
+  if (active) {
+    return {
+      status: null,
+      error:
+        active.status === "sent"
+          ? "This follow-up was already sent"
+          : "A follow-up is already scheduled for this order",
+    };
+  }
+
+  const insight = await prisma.aIOrderInsight.findUniqueOrThrow({
+    where: { id: insightId },
+    select: { orderId: true, customerId: true },
+  });
+  // Stored like rule sends so privacy requests find the send by customer
+  const customerId =
+    prepared.customerId ??
+    (insight.customerId
+      ? `gid://shopify/Customer/${insight.customerId}`
+      : null);
+  const send = await prisma.followupSend.create({
+    data: {
+      shop,
+      insightId,
+      orderId: insight.orderId,
+      customerId,
+      recipient: preview.recipient.toLowerCase(),
+      subject: preview.subject,
+      body: preview.body,
+      discountCode: input.discountCode,
+      link: input.link,
+      scheduledFor: input.scheduledFor ?? new Date(),
+    },
+  });
+
+  if (input.scheduledFor) {
+    return { status: "scheduled", error: null };
+  }
+  return deliverFollowup(send.id);
+}
+
+/**
+ * Deliver a scheduled send. The order and consent are checked again
+ * first. Transient failures are rescheduled until MAX_SEND_ATTEMPTS is
+ * reached.
+ */
+export async function deliverFollowup(
+  id: string,
+  log: Logger = followupLogger
+): Promise<{ status: FollowupSendStatus; error: string | null }> {
+  // Compare-and-set so the send can't be delivered twice
+  const { count } = await prisma.followupSend.updateMany({
+    where: { id, status: "scheduled" },
+    data: { status: "sending", attempts: { increment: 1 } },
+  });
+  const send = await prisma.followupSend.findUniqueOrThrow({ where: { id } });
+  if (count === 0) {
+    return {
+      status: send.status as FollowupSendStatus,
+      error: "This send is no longer scheduled",
+    };
+  }
+
+  try {
+    const { admin } = await unauthenticated.admin(send.shop);
+    const context = await fetchFollowupContext(admin, send.orderId);
+
+    const cancelReason = context
+      ? getOrderCancelReason(context)
+      : "The order no longer exists in Shopify";
+    if (!context || cancelReason) {
+      await prisma.followupSend.update({
+        where: { id },
+        data: { status: "cancelled", lastError: cancelReason },
+      });
+      log.info(`Cancelled send: ${cancelReason}`, {
+        shop: send.shop,
+        sendId: id,
+      });
+      return { status: "cancelled", error: cancelReason };
+    }
+
+    let { subject, body } = send;
+    let blockedReason =
+      context.customer?.email?.toLowerCase() !== send.recipient
+        ? "The customer's email address changed"
+        : await getBlockedReason(send.shop, context.customer);
+
+    if (!blockedReason && send.trigger === "rule") {
+      const rendered = await renderFollowup(
+        send.shop,
+        send.insightId,
+        context,
+        { discountCode: send.discountCode, link: send.link }
+      );
+      if (!rendered) {
+        blockedReason = "The insight no longer has an email";
+      } else if (rendered.missing.length > 0) {
+        blockedReason = `No value for ${rendered.missing.map((name) => `{{${name}}}`).join(", ")}`;
+      } else {
+        ({ subject, body } = rendered);
+      }
+    }
+
+    if (blockedReason) {
+      await prisma.followupSend.update({
+        where: { id },
+        data: { status: "blocked", lastError: blockedReason },
+      });
+      log.info(`Blocked send: ${blockedReason}`, {
+        shop: send.shop,
+        sendId: id,
+      });
+      return { status: "blocked", error: blockedReason };
+    }
+
+    const unsubscribeUrl = getUnsubscribeUrl({
+      shop: send.shop,
+      email: send.recipient,
+    });
+    const transport = getMailTransport();
+    const sent = await transport.send({
+      from: getMailFrom(),
+      to: send.recipient,
+      subject,
+      text: `${body}\n\n--\nYou're receiving this email because you ordered from ${context.shopName}.\nUnsubscribe: ${unsubscribeUrl}\n`,
+      headers: {
+        "List-Unsubscribe": `<${unsubscribeUrl}>`,
+        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+      },
+    });
+
+    await prisma.followupSend.update({
+      where: { id },
+      data: {
+        status: "sent",
+        subject,
+        body,
+        sentAt: new Date(),
+        transport: transport.name,
+        messageId: sent.messageId,
+        lastError: null,
+      },
+    });
+    log.info(`Sent via ${transport.name}`, { shop: send.shop, sendId: id });
+    return { status: "sent", error: null };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const permanent = error instanceof MailDeliveryError && error.permanent;
+    const retry = !permanent && send.attempts + 1 < MAX_SEND_ATTEMPTS;
+
+    await prisma.followupSend.update({
+      where: { id },
+      data: retry
+        ? {
+            status: "scheduled",
+            scheduledFor: new Date(
+              Date.now() +
+                RETRY_DELAYS_MS[
+                  Math.min(send.attempts, RETRY_DELAYS_MS.length - 1)
+                ]
+            ),
+            lastError: message,
+          }
+        : { status: "failed", lastError: message },
+    });
+    log.error(`Send attempt ${send.attempts + 1} failed`, {
+      shop: send.shop,
+      sendId: id,
+      error: message,
+      retry,
+    });
+    return { status: retry ? "scheduled" : "failed", error: message };
+  }
+}
+
+/**
+ * Deliver sends that are due, oldest first. Returns how many were sent.
+ */
+export async function dispatchDueFollowups(
+  limit = 10,
+  log: Logger = followupLogger
+): Promise<number> {
+  const due = await prisma.followupSend.findMany({
+    where: { status: "scheduled", scheduledFor: { lte: new Date() } },
+    orderBy: { scheduledFor: "asc" },
+    take: limit,
+    select: { id: true },
+  });
+
+  let sent = 0;
+  for (const { id } of due) {
+    const result = await deliverFollowup(id, log);
+    if (result.status === "sent") sent++;
+  }
+  return sent;
+}
+
+/**
+ * Cancel a send that hasn't gone out yet
+ */
+export async function cancelFollowup(
+  shop: string,
+  id: string
+): Promise<boolean> {
+  const { count } = await prisma.followupSend.updateMany({
+    where: { id, shop, status: { in: ["waiting", "scheduled"] } },
+    data: { status: "cancelled" },
+  });
+  return count > 0;
+}
+
+/**
+ * Sends of an insight, newest first
+ */
+export async function listFollowupSends(insightId: string) {
+  return prisma.followupSend.findMany({
+    where: { insightId },
+    orderBy: { createdAt: "desc" },
+    select: {
+      id: true,
+      recipient: true,
+      subject: true,
+      status: true,
+      trigger: true,
+      waitingFor: true,
+      scheduledFor: true,
+      attempts: true,
+      lastError: true,
+      sentAt: true,
+      createdAt: true,
+    },
+  });
+}
+
+/**
+ * Record that an address unsubscribed and cancel its scheduled sends
+ */
+export async function recordUnsubscribe(
+  shop: string,
+  email: string
+): Promise<void> {
+  const address = email.toLowerCase();
+
+  await prisma.$transaction(async (tx) => {
+    await tx.emailUnsubscribe.upsert({
+      where: { shop_email: { shop, email: address } },
+      create: { shop, email: address },
+      update: {},
+    });
+    await tx.followupSend.updateMany({
+      where: {
+        shop,
+        recipient: address,
+        status: { in: ["waiting", "scheduled"] },
+      },
+      data: { status: "cancelled", lastError: "The customer unsubscribed" },
+    });
+  });
+  followupLogger.info("Unsubscribed an address", { shop });
+}
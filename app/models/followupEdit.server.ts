@@ -0,0 +1,260 @@
+import prisma from "../db.server";
+import type {
+  FeedbackGuidance,
+  FeedbackReasonCount,
+  FollowupFeedbackReason,
+} from "../../shared/types";
+import { isFeedbackReason } from "../../shared/feedback";
+import { editDistance } from "../utils/diff";
+
+/**
+ * Merchant edits of generated follow-up emails.
+ *
+ * The insight keeps the AI original; the edit row stores the merchant's
+ * version of the current insight version with the reasons given. A
+ * shop's recent edits are summarized into guidance for later prompts.
+ */
+
+/** Longest subject or body a merchant can save */
+const MAX_EDIT_LENGTH = 5000;
+
+/** Recent edits the prompt guidance is built from */
+const GUIDANCE_WINDOW = 50;
+
+/** Few-shot examples sent with the guidance */
+const MAX_GUIDANCE_EXAMPLES = 2;
+
+/** Example texts are cut to this length to keep prompts short */
+const MAX_EXAMPLE_LENGTH = 600;
+
+/** Edits changing less than this share of the email aren't examples */
+const MIN_EXAMPLE_CHANGE_RATIO = 0.1;
+
+export interface FollowupEditInput {
+  subject: string;
+  body: string;
+  reasons: FollowupFeedbackReason[];
+}
+
+export type FollowupEditErrors = Partial<
+  Record<"subject" | "body" | "form", string>
+>;
+
+function parseNames(json: string | null): string[] {
+  try {
+    const names: unknown = JSON.parse(json ?? "[]");
+    return Array.isArray(names)
+      ? names.filter((name): name is string => typeof name === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function parseReasons(json: string): FollowupFeedbackReason[] {
+  try {
+    const reasons: unknown = JSON.parse(json);
+    return Array.isArray(reasons)
+      ? reasons.filter(
+          (reason): reason is FollowupFeedbackReason =>
+            typeof reason === "string" && isFeedbackReason(reason)
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Share of the original email the merchant changed (0-1)
+ */
+function changeRatio(edit: {
+  originalSubject: string | null;
+  originalBody: string | null;
+  editedSubject: string;
+  editedBody: string;
+  editDistance: number;
+}): number {
+  const length = Math.max(
+    (edit.originalSubject ?? "").length + (edit.originalBody ?? "").length,
+    edit.editedSubject.length + edit.editedBody.length
+  );
+  return length > 0 ? Math.min(edit.editDistance / length, 1) : 0;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_EXAMPLE_LENGTH
+    ? `${text.slice(0, MAX_EXAMPLE_LENGTH)}…`
+    : text;
+}
+
+/**
+ * Parse and validate the edit-email form on the insight page
+ */
+export function parseFollowupEditForm(
+  formData: FormData
+):
+  | { edit: FollowupEditInput; errors: null }
+  | { edit: null; errors: FollowupEditErrors } {
+  const errors: FollowupEditErrors = {};
+
+  const subject = String(formData.get("subject") ?? "").trim();
+  if (!subject) {
+    errors.subject = "Enter a subject";
+  } else if (subject.length > MAX_EDIT_LENGTH) {
+    errors.subject = `Keep the subject under ${MAX_EDIT_LENGTH} characters`;
+  }
+
+  const body = String(formData.get("body") ?? "").trim();
+  if (!body) {
+    errors.body = "Enter a body";
+  } else if (body.length > MAX_EDIT_LENGTH) {
+    errors.body = `Keep the body under ${MAX_EDIT_LENGTH} characters`;
+  }
+
+  const reasons = [...new Set(formData.getAll("reasons").map(String))].filter(
+    isFeedbackReason
+  );
+
+  if (Object.keys(errors).length > 0) {
+    return { edit: null, errors };
+  }
+  return { edit: { subject, body, reasons }, errors: null };
+}
+
+/**
+ * The merchant's edit of the insight's current email, if any
+ */
+export async function getFollowupEdit(
+  insightId: string,
+  versionId: string | null
+) {
+  const edit = await prisma.followupEdit.findFirst({
+    where: { insightId, versionId },
+    orderBy: { updatedAt: "desc" },
+  });
+  if (!edit) return null;
+
+  return { ...edit, reasons: parseReasons(edit.reasons) };
+}
+
+/**
+ * Save the merchant's edit of the insight's current email, replacing an
+ * earlier edit of the same version
+ */
+export async function saveFollowupEdit(
+  shop: string,
+  insightId: string,
+  input: FollowupEditInput,
+  customerNames: string[]
+): Promise<{ saved: true } | { saved: false; error: string }> {
+  const insight = await prisma.aIOrderInsight.findFirst({
+    where: { id: insightId, shop },
+  });
+  if (!insight) {
+    return { saved: false, error: "Insight not found" };
+  }
+  if (!insight.followupSubject && !insight.followupBody) {
+    return { saved: false, error: "This insight has no email to edit" };
+  }
+
+  const data = {
+    shop,
+    insightId,
+    versionId: insight.currentVersionId,
+    variantId: insight.variantId,
+    originalSubject: insight.followupSubject,
+    originalBody: insight.followupBody,
+    editedSubject: input.subject,
+    editedBody: input.body,
+    editDistance:
+      editDistance(insight.followupSubject ?? "", input.subject) +
+      editDistance(insight.followupBody ?? "", input.body),
+    reasons: JSON.stringify(input.reasons),
+    customerNames: JSON.stringify(customerNames),
+  };
+
+  await prisma.$transaction(async (tx) => {
+    const existing = await tx.followupEdit.findFirst({
+      where: { insightId, versionId: insight.currentVersionId },
+      select: { id: true },
+    });
+    if (existing) {
+      await tx.followupEdit.update({ where: { id: existing.id }, data });
+    } else {
+      await tx.followupEdit.create({ data });
+    }
+  });
+
+  return { saved: true };
+}
+
+/**
+ * Drop the merchant's edit of the insight's current email
+ */
+export async function discardFollowupEdit(
+  shop: string,
+  insightId: string
+): Promise<boolean> {
+  const insight = await prisma.aIOrderInsight.findFirst({
+    where: { id: insightId, shop },
+    select: { currentVersionId: true },
+  });
+  if (!insight) return false;
+
+  const { count } = await prisma.followupEdit.deleteMany({
+    where: { insightId, versionId: insight.currentVersionId },
+  });
+  return count > 0;
+}
+
+/**
+ * Summarize the shop's recent edits: how often each reason was given,
+ * how much merchants change, and a few substantial edits as examples.
+ * Returns null when the shop hasn't edited any email.
+ */
+export async function getFeedbackGuidance(
+  shop: string
+): Promise<FeedbackGuidance | null> {
+  const edits = await prisma.followupEdit.findMany({
+    where: { shop },
+    orderBy: { updatedAt: "desc" },
+    take: GUIDANCE_WINDOW,
+  });
+  if (edits.length === 0) return null;
+
+  const counts = new Map<FollowupFeedbackReason, number>();
+  for (const edit of edits) {
+    for (const reason of parseReasons(edit.reasons)) {
+      counts.set(reason, (counts.get(reason) ?? 0) + 1);
+    }
+  }
+  const reasonCounts: FeedbackReasonCount[] = [...counts.entries()]
+    .map(([reason, count]) => ({ reason, count }))
+    .sort((a, b) => b.count - a.count);
+
+  const ratios = edits.map(changeRatio);
+
+  return {
+    editsAnalyzed: edits.length,
+    reasonCounts,
+    averageChangeRatio:
+      ratios.reduce((total, ratio) => total + ratio, 0) / ratios.length,
+    // Only edits whose customer is known, so the Lambda can scrub them
+    examples: edits
+      .filter(
+        (edit, index) =>
+          edit.customerNames !== null &&
+          ratios[index] >= MIN_EXAMPLE_CHANGE_RATIO
+      )
+      .slice(0, MAX_GUIDANCE_EXAMPLES)
+      .map((edit) => ({
+        originalSubject: truncate(edit.originalSubject ?? ""),
+        originalBody: truncate(edit.originalBody ?? ""),
+        editedSubject: truncate(edit.editedSubject),
+        editedBody: truncate(edit.editedBody),
+        reasons: parseReasons(edit.reasons),
+        customerNames: parseNames(edit.customerNames),
+      })),
+  };
+}
@@ -0,0 +1,418 @@
+import type { FollowupSend, Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import type { Logger } from "../../shared/logger";
+import type { CustomerType } from "../../shared/types";
+import { CUSTOMER_TYPES } from "../../shared/segmentation";
+import type { FollowupSendStatus } from "./followup.server";
+import {
+  fetchFollowupContext,
+  getOrderCancelReason,
+  renderFollowup,
+} from "./followup.server";
+import { parseContentWarnings } from "./insight.server";
+import { logger } from "../utils/logger.server";
+
+/**
+ * Automatic follow-up sends.
+ *
+ * A shop has at most one schedule rule per customer type. When an order's
+ * insight is first completed, a matching rule queues a send ("waiting" for
+ * the rule). The background worker then checks the order in Shopify and
+ * schedules the email a number of hours after the order, or after
+ * fulfillment: those sends wait until the orders/fulfilled webhook
+ * arrives. Cancelled and refunded orders cancel their pending sends.
+ */
+
+const scheduleLogger = logger.child({ component: "followup" });
+
+export const FOLLOWUP_ANCHORS = ["order", "fulfillment"] as const;
+
+export type FollowupAnchor = (typeof FOLLOWUP_ANCHORS)[number];
+
+/** Longest delay a rule can set */
+const MAX_DELAY_HOURS = 60 * 24;
+
+/** Older orders (e.g. from a backfill) are never emailed automatically */
+const MAX_AUTOMATIC_ORDER_AGE_DAYS = 7;
+
+/** Sends waiting this long for fulfillment are cancelled */
+const MAX_FULFILLMENT_WAIT_DAYS = 30;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface FollowupScheduleRuleInput {
+  customerType: CustomerType;
+  anchor: FollowupAnchor;
+  delayHours: number;
+  discountCode: string | null;
+}
+
+export type FollowupScheduleErrors = Partial<
+  Record<`followup.${CustomerType}`, string>
+>;
+
+/**
+ * The shop's schedule rules, in CUSTOMER_TYPES order
+ */
+export async function listFollowupScheduleRules(
+  shop: string
+): Promise<FollowupScheduleRuleInput[]> {
+  const rows = await prisma.followupScheduleRule.findMany({ where: { shop } });
+
+  return CUSTOMER_TYPES.flatMap((customerType) => {
+    const row = rows.find((rule) => rule.customerType === customerType);
+    return row
+      ? [
+          {
+            customerType,
+            anchor: row.anchor === "fulfillment" ? "fulfillment" : "order",
+            delayHours: row.delayHours,
+            discountCode: row.discountCode,
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * Parse the automatic follow-up fields of the settings form: for each
+ * customer type, followup.<type>.enabled, .delay, .unit ("hours" or
+ * "days"), .anchor and .discountCode
+ */
+export function parseFollowupScheduleForm(
+  formData: FormData
+):
+  | { rules: FollowupScheduleRuleInput[]; errors: null }
+  | { rules: null; errors: FollowupScheduleErrors } {
+  const errors: FollowupScheduleErrors = {};
+  const rules: FollowupScheduleRuleInput[] = [];
+
+  for (const customerType of CUSTOMER_TYPES) {
+    const field = (name: string) =>
+      String(formData.get(`followup.${customerType}.${name}`) ?? "").trim();
+    if (field("enabled") !== "true") continue;
+
+    const delay = Number(field("delay"));
+    const delayHours = field("unit") === "days" ? delay * 24 : delay;
+    const anchor = field("anchor");
+    const discountCode = field("discountCode");
+
+    if (!Number.isInteger(delayHours) || delayHours < 0) {
+      errors[`followup.${customerType}`] = "Enter a delay of whole hours";
+    } else if (delayHours > MAX_DELAY_HOURS) {
+      errors[`followup.${customerType}`] =
+        `Wait at most ${MAX_DELAY_HOURS / 24} days`;
+    } else if (!FOLLOWUP_ANCHORS.includes(anchor as FollowupAnchor)) {
+      errors[`followup.${customerType}`] = "Choose what the delay counts from";
+    } else if (discountCode.length > 255) {
+      errors[`followup.${customerType}`] = "Enter a shorter discount code";
+    } else {
+      rules.push({
+        customerType,
+        anchor: anchor as FollowupAnchor,
+        delayHours,
+        discountCode: discountCode || null,
+      });
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { rules: null, errors };
+  }
+  return { rules, errors: null };
+}
+
+/**
+ * Replace the shop's schedule rules
+ */
+export async function saveFollowupScheduleRules(
+  shop: string,
+  rules: FollowupScheduleRuleInput[]
+): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    await tx.followupScheduleRule.deleteMany({
+      where: {
+        shop,
+        customerType: { notIn: rules.map((rule) => rule.customerType) },
+      },
+    });
+    for (const rule of rules) {
+      await tx.followupScheduleRule.upsert({
+        where: {
+          shop_customerType: { shop, customerType: rule.customerType },
+        },
+        create: { shop, ...rule },
+        update: rule,
+      });
+    }
+  });
+}
+
+/**
+ * Queue the insight's email if a rule matches its customer type. Only the
+ * first completed insight of an order gets one: regenerations and
+ * backfills don't email the customer again. This only touches the
+ * database, so it can run while the Lambda waits for its response; the
+ * worker checks the order and schedules the send (see
+ * resolveWaitingFollowups). Returns whether a send was queued.
+ */
+export async function queueAutomaticFollowup(
+  shop: string,
+  insightId: string,
+  log: Logger = scheduleLogger
+): Promise<boolean> {
+  const insight = await prisma.aIOrderInsight.findFirst({
+    where: { id: insightId, shop, status: "completed" },
+    select: { orderId: true, customerId: true, customerType: true },
+  });
+  if (!insight?.customerType) return false;
+
+  const rule = await prisma.followupScheduleRule.findUnique({
+    where: {
+      shop_customerType: { shop, customerType: insight.customerType },
+    },
+  });
+  if (!rule) return false;
+
+  const existing = await prisma.followupSend.count({ where: { insightId } });
+  if (existing > 0) return false;
+
+  await prisma.followupSend.create({
+    data: {
+      shop,
+      insightId,
+      orderId: insight.orderId,
+      // Stored like the sends it resolves to, so privacy requests find it
+      customerId: insight.customerId
+        ? `gid://shopify/Customer/${insight.customerId}`
+        : null,
+      recipient: "",
+      subject: "",
+      body: "",
+      trigger: "rule",
+      discountCode: rule.discountCode,
+      delayHours: rule.delayHours,
+      status: "waiting",
+      waitingFor: "rule",
+      scheduledFor: new Date(),
+    },
+  });
+  log.info("Queued an automatic send", { shop, insightId });
+  return true;
+}
+
+/**
+ * Check the order of a queued automatic send and schedule, block or
+ * cancel it. The send is only changed while it is still queued, so a
+ * webhook or the merchant cancelling it in the meantime wins.
+ */
+async function resolveAutomaticFollowup(
+  send: FollowupSend,
+  log: Logger
+): Promise<FollowupSendStatus> {
+  const resolve = async (
+    status: FollowupSendStatus,
+    data: Prisma.FollowupSendUpdateManyMutationInput = {}
+  ) => {
+    const { count } = await prisma.followupSend.updateMany({
+      where: { id: send.id, status: "waiting", waitingFor: "rule" },
+      data: {
+        ...data,
+        status,
+        waitingFor: status === "waiting" ? "fulfillment" : null,
+      },
+    });
+    if (count > 0) {
+      log.info(`Automatic send is ${status}`, {
+        shop: send.shop,
+        sendId: send.id,
+        reason: data.lastError ?? undefined,
+      });
+    }
+    return status;
+  };
+
+  const insight = await prisma.aIOrderInsight.findFirst({
+    where: { id: send.insightId, status: "completed" },
+    select: { customerType: true, contentWarnings: true },
+  });
+  const rule = insight?.customerType
+    ? await prisma.followupScheduleRule.findUnique({
+        where: {
+          shop_customerType: {
+            shop: send.shop,
+            customerType: insight.customerType,
+          },
+        },
+      })
+    : null;
+  if (!insight || !rule) {
+    return resolve("cancelled", {
+      lastError: "No schedule rule matches the order's customer any more",
+    });
+  }
+
+  const { admin } = await unauthenticated.admin(send.shop);
+  const context = await fetchFollowupContext(admin, send.orderId);
+  const cancelReason = context
+    ? getOrderCancelReason(context)
+    : "The order no longer exists in Shopify";
+  if (!context || cancelReason) {
+    return resolve("cancelled", { lastError: cancelReason });
+  }
+
+  const age = Date.now() - context.orderCreatedAt.getTime();
+  if (age > MAX_AUTOMATIC_ORDER_AGE_DAYS * 24 * HOUR_MS) {
+    return resolve("cancelled", {
+      lastError: `The order is older than ${MAX_AUTOMATIC_ORDER_AGE_DAYS} days`,
+    });
+  }
+
+  const preview = await renderFollowup(send.shop, send.insightId, context, {
+    discountCode: rule.discountCode,
+    link: null,
+  });
+  if (!preview) {
+    return resolve("cancelled", {
+      lastError: "The insight no longer has an email",
+    });
+  }
+
+  const emailWarnings = parseContentWarnings(insight.contentWarnings).filter(
+    (warning) => warning.field !== "insight"
+  );
+  const blockedReason =
+    preview.blockedReason ??
+    (emailWarnings.length > 0
+      ? "The suggested email has content warnings; check it and send it yourself"
+      : null) ??
+    (preview.missing.length > 0
+      ? `No value for ${preview.missing.map((name) => `{{${name}}}`).join(", ")}`
+      : null);
+  const from =
+    rule.anchor === "fulfillment"
+      ? context.fulfilledAt
+      : context.orderCreatedAt;
+  const scheduledFor = from
+    ? new Date(Math.max(from.getTime() + rule.delayHours * HOUR_MS, Date.now()))
+    : new Date();
+
+  const status = blockedReason ? "blocked" : from ? "scheduled" : "waiting";
+
+  return resolve(status, {
+    customerId: context.customer?.id ?? send.customerId,
+    recipient: preview.recipient?.toLowerCase() ?? "",
+    subject: preview.subject,
+    body: preview.body,
+    discountCode: rule.discountCode,
+    delayHours: rule.delayHours,
+    scheduledFor,
+    lastError: blockedReason,
+  });
+}
+
+/**
+ * Resolve queued automatic sends, oldest first: check the order in
+ * Shopify, then schedule the send, leave it waiting for fulfillment,
+ * block it or cancel it. Returns how many were scheduled.
+ */
+export async function resolveWaitingFollowups(
+  limit = 10,
+  log: Logger = scheduleLogger
+): Promise<number> {
+  const queued = await prisma.followupSend.findMany({
+    where: { status: "waiting", waitingFor: "rule" },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+  });
+
+  let scheduled = 0;
+  for (const send of queued) {
+    try {
+      if ((await resolveAutomaticFollowup(send, log)) === "scheduled") {
+        scheduled++;
+      }
+    } catch (error) {
+      // Left queued; the next run tries again
+      log.error("Failed to schedule an automatic send", {
+        shop: send.shop,
+        sendId: send.id,
+        error,
+      });
+    }
+  }
+  return scheduled;
+}
+
+/**
+ * Start the delay of sends waiting for the order to be fulfilled.
+ * Returns how many were scheduled.
+ */
+export async function startWaitingFollowups(
+  shop: string,
+  orderId: string,
+  fulfilledAt: Date
+): Promise<number> {
+  const waiting = await prisma.followupSend.findMany({
+    where: { shop, orderId, status: "waiting", waitingFor: "fulfillment" },
+    select: { id: true, delayHours: true },
+  });
+
+  let scheduled = 0;
+  for (const send of waiting) {
+    const { count } = await prisma.followupSend.updateMany({
+      where: { id: send.id, status: "waiting", waitingFor: "fulfillment" },
+      data: {
+        status: "scheduled",
+        waitingFor: null,
+        scheduledFor: new Date(
+          Math.max(
+            fulfilledAt.getTime() + (send.delayHours ?? 0) * HOUR_MS,
+            Date.now()
+          )
+        ),
+      },
+    });
+    scheduled += count;
+  }
+  return scheduled;
+}
+
+/**
+ * Cancel the order's sends that haven't gone out.
+ * Returns how many were cancelled.
+ */
+export async function cancelOrderFollowups(
+  shop: string,
+  orderId: string,
+  reason: string
+): Promise<number> {
+  const { count } = await prisma.followupSend.updateMany({
+    where: { shop, orderId, status: { in: ["waiting", "scheduled"] } },
+    data: { status: "cancelled", lastError: reason },
+  });
+  return count;
+}
+
+/**
+ * Cancel sends that have waited too long for fulfillment.
+ * Returns how many were cancelled.
+ */
+export async function expireWaitingFollowups(): Promise<number> {
+  const { count } = await prisma.followupSend.updateMany({
+    where: {
+      status: "waiting",
+      waitingFor: "fulfillment",
+      scheduledFor: {
+        lt: new Date(Date.now() - MAX_FULFILLMENT_WAIT_DAYS * 24 * HOUR_MS),
+      },
+    },
+    data: {
+      status: "cancelled",
+      waitingFor: null,
+      lastError: `The order wasn't fulfilled within ${MAX_FULFILLMENT_WAIT_DAYS} days`,
+    },
+  });
+  return count;
+}
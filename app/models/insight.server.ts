@@ -0,0 +1,477 @@
+import type { Prisma } from "@prisma/client";
+import type { AdminGraphqlClient } from "@shopify/shopify-app-remix/server";
+import prisma from "../db.server";
+import type {
+  AIInsightPayload,
+  ContentWarning,
+  CustomerType,
+  ProviderDataSent,
+  InsightRating,
+  InsightStatus,
+} from "../../shared/types";
+import { CUSTOMER_TYPES } from "../../shared/segmentation";
+import {
+  CONTENT_FIELDS,
+  CONTENT_WARNING_CODES,
+} from "../../shared/contentLint";
+import { computeCost } from "../../shared/pricing";
+import { enqueueJob } from "./insightJob.server";
+import { buildOrderEvent, fetchWebhookOrder } from "./shopifyOrder.server";
+import { addMonthlyUsage } from "./usage.server";
+import { getInsightLimitReason } from "./billing.server";
+
+export { CUSTOMER_TYPES };
+
+/**
+ * Data access for AIOrderInsight rows shown in the embedded admin.
+ * Every query is scoped to a single shop.
+ */
+
+export const INSIGHTS_PAGE_SIZE = 20;
+
+export const INSIGHT_STATUSES: InsightStatus[] = [
+  "pending",
+  "completed",
+  "error",
+];
+
+export interface InsightFilters {
+  customerTypes: CustomerType[];
+  statuses: InsightStatus[];
+  minOrderValue: number | null;
+  maxOrderValue: number | null;
+}
+
+export interface InsightPageCursor {
+  /** Insight id to page from (exclusive) */
+  id: string;
+  /** "next" loads older rows, "previous" loads newer rows */
+  direction: "next" | "previous";
+}
+
+function parseAmount(value: string | null): number | null {
+  if (!value) return null;
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+/**
+ * Read feed filters from the URL search params.
+ * Unknown customer types and statuses are dropped.
+ */
+export function parseInsightFilters(params: URLSearchParams): InsightFilters {
+  return {
+    customerTypes: params
+      .getAll("customerType")
+      .filter((value): value is CustomerType =>
+        CUSTOMER_TYPES.includes(value as CustomerType)
+      ),
+    statuses: params
+      .getAll("status")
+      .filter((value): value is InsightStatus =>
+        INSIGHT_STATUSES.includes(value as InsightStatus)
+      ),
+    minOrderValue: parseAmount(params.get("minValue")),
+    maxOrderValue: parseAmount(params.get("maxValue")),
+  };
+}
+
+/**
+ * Read the pagination cursor from the URL search params
+ */
+export function parseInsightCursor(
+  params: URLSearchParams
+): InsightPageCursor | null {
+  const after = params.get("after");
+  if (after) return { id: after, direction: "next" };
+
+  const before = params.get("before");
+  if (before) return { id: before, direction: "previous" };
+
+  return null;
+}
+
+function buildWhere(
+  shop: string,
+  filters: InsightFilters
+): Prisma.AIOrderInsightWhereInput {
+  const where: Prisma.AIOrderInsightWhereInput = { shop };
+
+  if (filters.customerTypes.length > 0) {
+    where.customerType = { in: filters.customerTypes };
+  }
+
+  if (filters.statuses.length > 0) {
+    where.status = { in: filters.statuses };
+  }
+
+  if (filters.minOrderValue !== null || filters.maxOrderValue !== null) {
+    where.orderValue = {
+      ...(filters.minOrderValue !== null ? { gte: filters.minOrderValue } : {}),
+      ...(filters.maxOrderValue !== null ? { lte: filters.maxOrderValue } : {}),
+    };
+  }
+
+  return where;
+}
+
+/**
+ * List insights for a shop, newest first.
+ *
+ * Uses cursor pagination on (createdAt, id) so it walks the
+ * @@index([shop, createdAt]) index instead of counting offsets.
+ */
+export async function listInsights(
+  shop: string,
+  filters: InsightFilters,
+  cursor: InsightPageCursor | null,
+  pageSize: number = INSIGHTS_PAGE_SIZE
+) {
+  const where = buildWhere(shop, filters);
+  const backwards = cursor?.direction === "previous";
+  const order: Prisma.SortOrder = backwards ? "asc" : "desc";
+
+  const rows = await prisma.aIOrderInsight.findMany({
+    where,
+    orderBy: [{ createdAt: order }, { id: order }],
+    take: pageSize + 1,
+    ...(cursor ? { cursor: { id: cursor.id }, skip: 1 } : {}),
+    select: {
+      id: true,
+      orderId: true,
+      orderName: true,
+      insightText: true,
+      customerType: true,
+      orderValue: true,
+      status: true,
+      createdAt: true,
+    },
+  });
+
+  const hasMore = rows.length > pageSize;
+  const insights = rows.slice(0, pageSize);
+  if (backwards) insights.reverse();
+
+  return {
+    insights,
+    hasNext: backwards ? cursor !== null : hasMore,
+    hasPrevious: backwards ? hasMore : cursor !== null,
+  };
+}
+
+/**
+ * Load a single insight, or null if it doesn't belong to the shop
+ */
+export async function getInsight(shop: string, id: string) {
+  return prisma.aIOrderInsight.findFirst({
+    where: { id, shop },
+  });
+}
+
+/**
+ * Parse the content warnings stored with an insight or version
+ */
+export function parseContentWarnings(json: string | null): ContentWarning[] {
+  if (!json) return [];
+
+  try {
+    const warnings: unknown = JSON.parse(json);
+    return Array.isArray(warnings)
+      ? warnings.filter(
+          (warning): warning is ContentWarning =>
+            CONTENT_WARNING_CODES.includes(warning?.code) &&
+            CONTENT_FIELDS.includes(warning?.field) &&
+            typeof warning?.message === "string"
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function parseStringList(json: string): string[] {
+  try {
+    const list: unknown = JSON.parse(json);
+    return Array.isArray(list)
+      ? list.filter((item): item is string => typeof item === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * What a version's attempt sent to the AI provider, or null for
+ * attempts recorded before auditing (or failed before the AI call)
+ */
+export async function getProviderDataAudit(
+  shop: string,
+  versionId: string
+): Promise<(ProviderDataSent & { createdAt: Date }) | null> {
+  const audit = await prisma.providerDataAudit.findFirst({
+    where: { shop, versionId },
+  });
+  if (!audit) return null;
+
+  return {
+    provider: audit.provider,
+    fields: parseStringList(audit.fields),
+    redacted: parseStringList(audit.redacted),
+    createdAt: audit.createdAt,
+  };
+}
+
+/**
+ * Strip the GID prefix so the id can be used in admin URLs
+ */
+export function toNumericOrderId(orderId: string): string {
+  return orderId.replace("gid://shopify/Order/", "");
+}
+
+/**
+ * Every generation attempt for an insight, newest first
+ */
+export async function listInsightVersions(insightId: string) {
+  return prisma.aIOrderInsightVersion.findMany({
+    where: { insightId },
+    orderBy: { generatedAt: "desc" },
+  });
+}
+
+/**
+ * Record one generation attempt from the Lambda as a new version.
+ *
+ * The insight row mirrors its best version: a completed attempt always
+ * becomes current, a failed one only if there is no completed version to
+ * keep. A failure that doesn't become current still sets errorMessage so
+ * the merchant can see that the latest attempt failed. A new current
+ * version clears the merchant's rating. Attempts that report usage are
+ * priced and added to the shop's monthly usage.
+ */
+export async function recordInsightAttempt(
+  attempt: AIInsightPayload & { status: InsightStatus }
+): Promise<{ insightId: string; versionId: string; current: boolean }> {
+  const content = {
+    customerId: attempt.customerId || null,
+    insightText: attempt.insightText,
+    followupSubject: attempt.followupSubject || null,
+    followupBody: attempt.followupBody || null,
+    contentWarnings: attempt.warnings?.length
+      ? JSON.stringify(attempt.warnings)
+      : null,
+    repaired: attempt.repaired ?? false,
+    customerType: attempt.customerType || null,
+    segmentRule: attempt.segmentRuleId || null,
+    orderValue: attempt.orderValue ?? null,
+    status: attempt.status,
+    errorMessage: attempt.errorMessage || null,
+    templateId: attempt.templateId || null,
+    templateVersion: attempt.templateVersion || null,
+    variantId: attempt.variantId || null,
+  };
+
+  const generatedAt = new Date();
+  const costUsd =
+    attempt.usage && attempt.model
+      ? computeCost(attempt.model, attempt.usage)
+      : null;
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.aIOrderInsight.findUnique({
+      where: { shop_orderId: { shop: attempt.shop, orderId: attempt.orderId } },
+      select: { id: true, currentVersionId: true },
+    });
+
+    const insightId =
+      existing?.id ??
+      (
+        await tx.aIOrderInsight.create({
+          data: {
+            shop: attempt.shop,
+            orderId: attempt.orderId,
+            orderName: attempt.orderName,
+            ...content,
+          },
+        })
+      ).id;
+
+    const version = await tx.aIOrderInsightVersion.create({
+      data: {
+        insightId,
+        ...content,
+        model: attempt.model || null,
+        promptVersion: attempt.promptVersion || null,
+        promptTokens: attempt.usage?.promptTokens ?? null,
+        completionTokens: attempt.usage?.completionTokens ?? null,
+        latencyMs: attempt.usage?.latencyMs ?? null,
+        costUsd,
+        usageEstimated: attempt.usage?.estimated ?? false,
+        startedAt: attempt.startedAt ? new Date(attempt.startedAt) : null,
+        generatedAt,
+        dataAudit: attempt.dataSent
+          ? {
+              create: {
+                shop: attempt.shop,
+                provider: attempt.dataSent.provider,
+                fields: JSON.stringify(attempt.dataSent.fields),
+                redacted: JSON.stringify(attempt.dataSent.redacted),
+              },
+            }
+          : undefined,
+      },
+    });
+
+    if (attempt.usage) {
+      await addMonthlyUsage(
+        tx,
+        attempt.shop,
+        attempt.usage,
+        costUsd,
+        generatedAt
+      );
+    }
+
+    const currentVersion = existing?.currentVersionId
+      ? await tx.aIOrderInsightVersion.findUnique({
+          where: { id: existing.currentVersionId },
+          select: { status: true },
+        })
+      : null;
+
+    if (attempt.status !== "completed" && currentVersion?.status === "completed") {
+      await tx.aIOrderInsight.update({
+        where: { id: insightId },
+        data: {
+          status: currentVersion.status,
+          errorMessage: content.errorMessage ?? "Unknown error",
+        },
+      });
+      return { insightId, versionId: version.id, current: false };
+    }
+
+    // The merchant's rating was for the content being replaced
+    await tx.aIOrderInsight.update({
+      where: { id: insightId },
+      data: {
+        orderName: attempt.orderName,
+        ...content,
+        currentVersionId: version.id,
+        rating: null,
+        ratingComment: null,
+        ratedAt: null,
+      },
+    });
+    return { insightId, versionId: version.id, current: true };
+  });
+}
+
+export const INSIGHT_RATINGS: InsightRating[] = ["up", "down"];
+
+/** Longest feedback comment a merchant can leave */
+const MAX_RATING_COMMENT_LENGTH = 1000;
+
+/**
+ * Parse the feedback form on the insight page
+ */
+export function parseInsightRatingForm(
+  formData: FormData
+):
+  | { rating: InsightRating; comment: string | null; error: null }
+  | { rating: null; comment: null; error: string } {
+  const rating = String(formData.get("rating"));
+  if (!INSIGHT_RATINGS.includes(rating as InsightRating)) {
+    return { rating: null, comment: null, error: "Choose thumbs up or down" };
+  }
+
+  const comment = String(formData.get("comment") ?? "").trim();
+  if (comment.length > MAX_RATING_COMMENT_LENGTH) {
+    return {
+      rating: null,
+      comment: null,
+      error: `Keep the comment under ${MAX_RATING_COMMENT_LENGTH} characters`,
+    };
+  }
+
+  return {
+    rating: rating as InsightRating,
+    comment: comment || null,
+    error: null,
+  };
+}
+
+/**
+ * Save the merchant's rating of an insight, replacing an earlier one
+ */
+export async function rateInsight(
+  shop: string,
+  id: string,
+  rating: InsightRating,
+  comment: string | null
+): Promise<boolean> {
+  const { count } = await prisma.aIOrderInsight.updateMany({
+    where: { id, shop },
+    data: { rating, ratingComment: comment, ratedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Ask the Lambda to analyze the order again.
+ *
+ * The row is marked pending until the next scheduled Lambda run picks up
+ * the job and posts a new attempt. If the Lambda skips the order instead
+ * (e.g. the shop is over its budget), completing the job puts the row
+ * back to its current version's status. Earlier attempts stay in the
+ * version history.
+ */
+export async function requestRegeneration(
+  admin: { graphql: AdminGraphqlClient },
+  shop: string,
+  id: string
+): Promise<{ queued: true } | { queued: false; error: string }> {
+  const insight = await getInsight(shop, id);
+  if (!insight) {
+    return { queued: false, error: "Insight not found" };
+  }
+  if (insight.status === "pending") {
+    return { queued: false, error: "This insight is already being regenerated" };
+  }
+
+  // Every regeneration counts against the plan
+  const limitReason = await getInsightLimitReason(shop);
+  if (limitReason) {
+    return { queued: false, error: limitReason };
+  }
+
+  const order = await fetchWebhookOrder(admin, insight.orderId);
+  if (!order) {
+    return { queued: false, error: "The order no longer exists in Shopify" };
+  }
+
+  // Compare-and-set so two clicks can't queue two regenerations. The job
+  // is queued in the same transaction, so a row is never left pending
+  // without one.
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.aIOrderInsight.updateMany({
+      where: { id: insight.id, status: { not: "pending" } },
+      data: { status: "pending", errorMessage: null },
+    });
+    if (count === 0) {
+      return {
+        queued: false as const,
+        error: "This insight is already being regenerated",
+      };
+    }
+
+    await enqueueJob(
+      {
+        shop,
+        kind: "regenerate",
+        orderId: insight.orderId,
+        event: buildOrderEvent(shop, order, "regenerate"),
+      },
+      tx
+    );
+    return { queued: true as const };
+  });
+}
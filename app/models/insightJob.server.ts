@@ -0,0 +1,305 @@
+import type { InsightJob as InsightJobRow, Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import type { InsightJob, InsightJobKind } from "../../shared/types";
+
+/**
+ * Queue of work for the Lambda outside of live order events.
+ * The Lambda claims jobs one at a time on a schedule and reports back;
+ * claims are compare-and-set updates so concurrent runs never share a job.
+ * Replays and regenerations go before backfill jobs, which are held back
+ * while their run is paused or at its concurrency cap.
+ */
+
+/** Attempts at claiming before giving up on a contended queue */
+const MAX_CLAIM_ATTEMPTS = 3;
+
+/**
+ * Claims of one job before it is failed instead of handed out again, so a
+ * job that keeps timing out the Lambda isn't paid for over and over
+ */
+export const MAX_JOB_ATTEMPTS = 3;
+
+function toJob(row: InsightJobRow): InsightJob {
+  return {
+    id: row.id,
+    kind: row.kind as InsightJobKind,
+    shop: row.shop,
+    orderId: row.orderId,
+    event: JSON.parse(row.event),
+    deadLetterId: row.deadLetterId,
+    attempts: row.attempts,
+  };
+}
+
+/**
+ * Add a job to the queue, in the caller's transaction if given
+ */
+export async function enqueueJob(
+  job: {
+    shop: string;
+    kind: InsightJobKind;
+    orderId: string;
+    event: unknown;
+    deadLetterId?: string | null;
+    backfillRunId?: string | null;
+  },
+  client: Prisma.TransactionClient = prisma
+): Promise<string> {
+  const row = await client.insightJob.create({
+    data: {
+      shop: job.shop,
+      kind: job.kind,
+      orderId: job.orderId,
+      event: JSON.stringify(job.event),
+      deadLetterId: job.deadLetterId ?? null,
+      backfillRunId: job.backfillRunId ?? null,
+    },
+  });
+  return row.id;
+}
+
+/**
+ * Backfill runs that already have as many jobs running as they allow
+ */
+async function findSaturatedBackfillRuns(): Promise<string[]> {
+  const running = await prisma.insightJob.groupBy({
+    by: ["backfillRunId"],
+    where: { status: "running", backfillRunId: { not: null } },
+    _count: { _all: true },
+  });
+  if (running.length === 0) return [];
+
+  const runs = await prisma.backfillRun.findMany({
+    where: { id: { in: running.map((group) => group.backfillRunId!) } },
+    select: { id: true, concurrency: true },
+  });
+
+  return runs
+    .filter(
+      (run) =>
+        (running.find((group) => group.backfillRunId === run.id)?._count
+          ._all ?? 0) >= run.concurrency
+    )
+    .map((run) => run.id);
+}
+
+/**
+ * Fail running jobs whose lease expired on their last allowed attempt.
+ * Returns how many were failed.
+ */
+export async function failAbandonedJobs(leaseMs: number): Promise<number> {
+  const abandoned = await prisma.insightJob.findMany({
+    where: {
+      status: "running",
+      attempts: { gte: MAX_JOB_ATTEMPTS },
+      startedAt: { lt: new Date(Date.now() - leaseMs) },
+    },
+    select: { id: true, attempts: true },
+  });
+
+  let failed = 0;
+  for (const job of abandoned) {
+    if (
+      await failJob(
+        job.id,
+        job.attempts,
+        `Timed out on all ${job.attempts} attempts`
+      )
+    ) {
+      failed++;
+    }
+  }
+  return failed;
+}
+
+/**
+ * Claim the oldest queued job, or a running job whose lease expired
+ * (the invocation running it timed out or crashed) and that has
+ * attempts left
+ */
+export async function claimNextJob(
+  leaseMs: number
+): Promise<InsightJob | null> {
+  for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+    const now = new Date();
+    const claimable: Prisma.InsightJobWhereInput = {
+      OR: [
+        { status: "queued" },
+        {
+          status: "running",
+          startedAt: { lt: new Date(now.getTime() - leaseMs) },
+          attempts: { lt: MAX_JOB_ATTEMPTS },
+        },
+      ],
+    };
+
+    const candidate =
+      (await prisma.insightJob.findFirst({
+        where: { ...claimable, backfillRunId: null },
+        orderBy: { createdAt: "asc" },
+      })) ??
+      (await prisma.insightJob.findFirst({
+        where: {
+          ...claimable,
+          backfillRunId: { notIn: await findSaturatedBackfillRuns() },
+          backfillRun: { status: "running" },
+        },
+        orderBy: { createdAt: "asc" },
+      }));
+    if (!candidate) return null;
+
+    const { count } = await prisma.insightJob.updateMany({
+      where: { id: candidate.id, ...claimable },
+      data: {
+        status: "running",
+        startedAt: now,
+        attempts: { increment: 1 },
+      },
+    });
+
+    // Another run claimed it first; try the next one
+    if (count === 1) {
+      return toJob({
+        ...candidate,
+        status: "running",
+        startedAt: now,
+        attempts: candidate.attempts + 1,
+      });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Put a regenerated insight that is still pending back to the status of
+ * its current version. Used when the job ends without the Lambda posting
+ * an attempt, e.g. because it skipped the order.
+ */
+async function restorePendingInsight(
+  job: InsightJobRow,
+  errorMessage: string
+): Promise<void> {
+  const insight = await prisma.aIOrderInsight.findUnique({
+    where: { shop_orderId: { shop: job.shop, orderId: job.orderId } },
+    select: { id: true, currentVersionId: true },
+  });
+  if (!insight) return;
+
+  const version = insight.currentVersionId
+    ? await prisma.aIOrderInsightVersion.findUnique({
+        where: { id: insight.currentVersionId },
+        select: { status: true },
+      })
+    : null;
+
+  // Only while pending: a posted attempt has already set the status
+  await prisma.aIOrderInsight.updateMany({
+    where: { id: insight.id, status: "pending" },
+    data: { status: version?.status ?? "error", errorMessage },
+  });
+}
+
+/**
+ * Finish a running job, but only for the claim that reports it: once a
+ * job was taken over after its lease ran out, the report of the earlier
+ * claim is ignored. `attempts` is the claim's attempt number; null
+ * matches any claim (for Lambdas that don't send it yet).
+ */
+async function finishJob(
+  id: string,
+  attempts: number | null,
+  data: Prisma.InsightJobUpdateManyMutationInput
+): Promise<InsightJobRow | null> {
+  const { count } = await prisma.insightJob.updateMany({
+    where: {
+      id,
+      status: "running",
+      ...(attempts === null ? {} : { attempts }),
+    },
+    data,
+  });
+  if (count === 0) return null;
+
+  return prisma.insightJob.findUnique({ where: { id } });
+}
+
+/**
+ * Mark a job as done. A replayed dead letter is resolved and a backfill
+ * run's progress is counted. A regeneration the Lambda skipped (with
+ * skipReason) restores the insight's status. Returns false when the
+ * claim is no longer current and nothing was changed.
+ */
+export async function completeJob(
+  id: string,
+  attempts: number | null,
+  insightId: string | null,
+  skipReason?: string | null
+): Promise<boolean> {
+  const job = await finishJob(id, attempts, {
+    status: "completed",
+    insightId,
+    error: skipReason ? `Skipped: ${skipReason}` : null,
+    finishedAt: new Date(),
+  });
+  if (!job) return false;
+
+  if (job.kind === "regenerate" && skipReason) {
+    await restorePendingInsight(job, `Regeneration skipped: ${skipReason}`);
+  }
+
+  if (job.deadLetterId) {
+    await prisma.deadLetter.updateMany({
+      where: { id: job.deadLetterId },
+      data: { status: "replayed" },
+    });
+  }
+
+  if (job.backfillRunId) {
+    await prisma.backfillRun.update({
+      where: { id: job.backfillRunId },
+      data: { ordersCompleted: { increment: 1 } },
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Mark a job as failed. A replayed dead letter goes back to open so the
+ * merchant can try again; a backfill run counts the failure; a
+ * regeneration that posted no failed attempt restores the insight's status.
+ * Returns false when the claim is no longer current and nothing was changed.
+ */
+export async function failJob(
+  id: string,
+  attempts: number | null,
+  error: string
+): Promise<boolean> {
+  const job = await finishJob(id, attempts, {
+    status: "failed",
+    error,
+    finishedAt: new Date(),
+  });
+  if (!job) return false;
+
+  if (job.kind === "regenerate") {
+    await restorePendingInsight(job, error);
+  }
+
+  if (job.deadLetterId) {
+    await prisma.deadLetter.updateMany({
+      where: { id: job.deadLetterId, status: "queued" },
+      data: { status: "open" },
+    });
+  }
+
+  if (job.backfillRunId) {
+    await prisma.backfillRun.update({
+      where: { id: job.backfillRunId },
+      data: { ordersFailed: { increment: 1 } },
+    });
+  }
+
+  return true;
+}
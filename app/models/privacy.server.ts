@@ -0,0 +1,559 @@
+import type { Prisma, PrivacyRequest } from "@prisma/client";
+import prisma from "../db.server";
+import type { Logger } from "../../shared/logger";
+import type { ShopifyEventBridgeEvent, ShopifyOrder } from "../../shared/types";
+import { logger } from "../utils/logger.server";
+
+/**
+ * GDPR requests from Shopify's mandatory compliance webhooks.
+ * Shopify expects the webhooks to answer quickly, so they only queue a
+ * request; the background worker (worker.server.ts) then exports or
+ * erases the data. Requests are kept afterwards as the audit trail of
+ * what was done, without the customer's email. A data request's export
+ * is deleted PRIVACY_EXPORT_RETENTION_DAYS after it was made.
+ */
+
+export type PrivacyRequestKind =
+  | "customer_data_request"
+  | "customer_redact"
+  | "shop_redact";
+
+/** Attempts at processing a request before it is marked failed */
+const MAX_PRIVACY_ATTEMPTS = 3;
+
+/** A running request older than this was interrupted and is picked up again */
+const PRIVACY_LEASE_MS = 10 * 60 * 1000;
+
+/** Days the merchant has to download a data request's export */
+export const PRIVACY_EXPORT_RETENTION_DAYS = 30;
+
+/** Requests shown on the Privacy page */
+const PRIVACY_HISTORY_LIMIT = 100;
+
+const privacyLogger = logger.child({ component: "privacy" });
+
+/**
+ * Queue a request. Returns null for a webhook that was already queued.
+ */
+export async function enqueuePrivacyRequest(
+  request: {
+    shop: string;
+    kind: PrivacyRequestKind;
+    webhookId?: string | null;
+    customerId?: string | null;
+    customerEmail?: string | null;
+    orderIds?: string[];
+    dataRequestId?: string | null;
+  },
+  log: Logger = privacyLogger
+): Promise<string | null> {
+  if (request.webhookId) {
+    const existing = await prisma.privacyRequest.findUnique({
+      where: { webhookId: request.webhookId },
+      select: { id: true },
+    });
+    if (existing) return null;
+  }
+
+  const row = await prisma.privacyRequest.create({
+    data: {
+      shop: request.shop,
+      kind: request.kind,
+      webhookId: request.webhookId || null,
+      customerId: request.customerId || null,
+      customerEmail: request.customerEmail || null,
+      orderIds: JSON.stringify(request.orderIds ?? []),
+      dataRequestId: request.dataRequestId || null,
+    },
+  });
+  log.info(`Queued ${request.kind}`, {
+    shop: request.shop,
+    privacyRequestId: row.id,
+  });
+  return row.id;
+}
+
+/**
+ * Order ids as the app stores them: numeric, or a GID for some callers
+ */
+function orderIdForms(orderIds: string[]): string[] {
+  return orderIds.flatMap((id) => {
+    const numeric = id.replace("gid://shopify/Order/", "");
+    return [numeric, `gid://shopify/Order/${numeric}`];
+  });
+}
+
+/**
+ * Whether a stored order event is for the customer: its customer id, or
+ * the order's or customer's email
+ */
+function eventNamesCustomer(
+  event: string,
+  customerId: string | null,
+  emails: string[]
+): boolean {
+  let order: ShopifyOrder | undefined;
+  try {
+    order = (JSON.parse(event) as ShopifyEventBridgeEvent).detail?.payload;
+  } catch {
+    return false;
+  }
+  if (!order) return false;
+
+  if (customerId && String(order.customer?.id ?? "") === customerId) {
+    return true;
+  }
+  return [order.email, order.customer?.email].some(
+    (email) => !!email && emails.includes(email.toLowerCase())
+  );
+}
+
+/**
+ * Dead letters and jobs whose event is for the customer, e.g. of orders
+ * that failed before an insight recorded the customer. The database
+ * narrows them down by text; the event is then checked field by field.
+ */
+async function findCustomerEvents(
+  tx: Prisma.TransactionClient,
+  shop: string,
+  customerId: string | null,
+  emails: string[]
+) {
+  const terms = [customerId, ...emails].filter((term): term is string =>
+    Boolean(term)
+  );
+  if (terms.length === 0) return { deadLetterIds: [], insightJobIds: [] };
+
+  const where = {
+    shop,
+    OR: terms.map((term) => ({ event: { contains: term } })),
+  };
+  const select = { id: true, event: true };
+  const [deadLetters, insightJobs] = await Promise.all([
+    tx.deadLetter.findMany({ where, select }),
+    tx.insightJob.findMany({ where, select }),
+  ]);
+  const lowerEmails = emails.map((email) => email.toLowerCase());
+  const matching = (rows: Array<{ id: string; event: string }>) =>
+    rows
+      .filter((row) => eventNamesCustomer(row.event, customerId, lowerEmails))
+      .map((row) => row.id);
+
+  return {
+    deadLetterIds: matching(deadLetters),
+    insightJobIds: matching(insightJobs),
+  };
+}
+
+/**
+ * Where clauses for everything stored about one customer. Conditions are
+ * only added for what the request identifies, so a missing id or email
+ * never becomes a filter that matches every row.
+ */
+async function findCustomerRows(
+  tx: Prisma.TransactionClient,
+  request: PrivacyRequest
+) {
+  const { shop, customerId } = request;
+  const email = request.customerEmail;
+  const emails = email ? [email, email.toLowerCase()] : [];
+  const customerGid = customerId && `gid://shopify/Customer/${customerId}`;
+
+  const sendMatches: Prisma.FollowupSendWhereInput[] = [];
+  if (customerGid) sendMatches.push({ customerId: customerGid });
+  if (emails.length > 0) sendMatches.push({ recipient: { in: emails } });
+
+  // Orders named in the request, plus any other order of the customer's
+  const orderIds = new Set<string>(JSON.parse(request.orderIds));
+  if (customerId) {
+    const insights = await tx.aIOrderInsight.findMany({
+      where: { shop, customerId },
+      select: { orderId: true },
+    });
+    insights.forEach((insight) => orderIds.add(insight.orderId));
+  }
+  if (sendMatches.length > 0) {
+    const sends = await tx.followupSend.findMany({
+      where: { shop, OR: sendMatches },
+      select: { orderId: true },
+    });
+    sends.forEach((send) => orderIds.add(send.orderId));
+  }
+  const orders = orderIdForms([...orderIds]);
+
+  const insightMatches: Prisma.AIOrderInsightWhereInput[] = [
+    { orderId: { in: orders } },
+  ];
+  if (customerId) insightMatches.push({ customerId });
+
+  const { deadLetterIds, insightJobIds } = await findCustomerEvents(
+    tx,
+    shop,
+    customerId,
+    emails
+  );
+
+  return {
+    insights: { shop, OR: insightMatches },
+    followupSends: { shop, OR: [...sendMatches, { orderId: { in: orders } }] },
+    emailUnsubscribes: { shop, email: { in: emails } },
+    orders: { shop, orderId: { in: orders } },
+    deadLetters: {
+      shop,
+      OR: [{ orderId: { in: orders } }, { id: { in: deadLetterIds } }],
+    },
+    insightJobs: {
+      shop,
+      OR: [{ orderId: { in: orders } }, { id: { in: insightJobIds } }],
+    },
+  };
+}
+
+/**
+ * Everything stored about a customer, as the merchant hands it over
+ */
+async function exportCustomerData(request: PrivacyRequest) {
+  return prisma.$transaction(async (tx) => {
+    const where = await findCustomerRows(tx, request);
+
+    const [insights, followupSends, unsubscribes, processedEvents] =
+      await Promise.all([
+        tx.aIOrderInsight.findMany({
+          where: where.insights,
+          orderBy: { createdAt: "asc" },
+          include: {
+            versions: {
+              orderBy: { generatedAt: "asc" },
+              include: { dataAudit: true },
+            },
+            followupEdits: { orderBy: { createdAt: "asc" } },
+          },
+        }),
+        tx.followupSend.findMany({
+          where: where.followupSends,
+          orderBy: { createdAt: "asc" },
+        }),
+        tx.emailUnsubscribe.findMany({ where: where.emailUnsubscribes }),
+        tx.processedEvent.findMany({ where: where.orders }),
+      ]);
+
+    const data = {
+      shop: request.shop,
+      customerId: request.customerId,
+      email: request.customerEmail,
+      ordersRequested: JSON.parse(request.orderIds) as string[],
+      exportedAt: new Date().toISOString(),
+      orderInsights: insights.map((insight) => ({
+        orderId: insight.orderId,
+        orderName: insight.orderName,
+        customerType: insight.customerType,
+        orderValue: insight.orderValue,
+        insightText: insight.insightText,
+        followupSubject: insight.followupSubject,
+        followupBody: insight.followupBody,
+        rating: insight.rating,
+        ratingComment: insight.ratingComment,
+        createdAt: insight.createdAt,
+        updatedAt: insight.updatedAt,
+        attempts: insight.versions.map((version) => ({
+          generatedAt: version.generatedAt,
+          status: version.status,
+          model: version.model,
+          insightText: version.insightText,
+          followupSubject: version.followupSubject,
+          followupBody: version.followupBody,
+          errorMessage: version.errorMessage,
+          sentToProvider: version.dataAudit && {
+            provider: version.dataAudit.provider,
+            fields: JSON.parse(version.dataAudit.fields) as string[],
+            redacted: JSON.parse(version.dataAudit.redacted) as string[],
+          },
+        })),
+        followupEdits: insight.followupEdits.map((edit) => ({
+          editedSubject: edit.editedSubject,
+          editedBody: edit.editedBody,
+          updatedAt: edit.updatedAt,
+        })),
+      })),
+      followupEmails: followupSends.map((send) => ({
+        orderId: send.orderId,
+        recipient: send.recipient,
+        subject: send.subject,
+        body: send.body,
+        status: send.status,
+        scheduledFor: send.scheduledFor,
+        sentAt: send.sentAt,
+      })),
+      unsubscribedAt: unsubscribes[0]?.createdAt ?? null,
+      processedOrders: processedEvents.map((event) => ({
+        orderId: event.orderId,
+        status: event.status,
+        startedAt: event.startedAt,
+        finishedAt: event.finishedAt,
+      })),
+    };
+
+    return {
+      result: {
+        orderInsights: insights.length,
+        followupSends: followupSends.length,
+        emailUnsubscribes: unsubscribes.length,
+        processedEvents: processedEvents.length,
+      },
+      data,
+    };
+  });
+}
+
+/**
+ * Delete everything stored about a customer. Versions, provider data
+ * audits and follow-up edits go with their insight.
+ */
+async function redactCustomer(request: PrivacyRequest) {
+  return prisma.$transaction(async (tx) => {
+    const where = await findCustomerRows(tx, request);
+
+    const followupSends = await tx.followupSend.deleteMany({
+      where: where.followupSends,
+    });
+    const orderInsights = await tx.aIOrderInsight.deleteMany({
+      where: where.insights,
+    });
+    const emailUnsubscribes = await tx.emailUnsubscribe.deleteMany({
+      where: where.emailUnsubscribes,
+    });
+    // Kept order events hold the customer's details
+    const deadLetters = await tx.deadLetter.deleteMany({
+      where: where.deadLetters,
+    });
+    const insightJobs = await tx.insightJob.deleteMany({
+      where: where.insightJobs,
+    });
+    const processedEvents = await tx.processedEvent.deleteMany({
+      where: where.orders,
+    });
+
+    return {
+      orderInsights: orderInsights.count,
+      followupSends: followupSends.count,
+      emailUnsubscribes: emailUnsubscribes.count,
+      deadLetters: deadLetters.count,
+      insightJobs: insightJobs.count,
+      processedEvents: processedEvents.count,
+    };
+  });
+}
+
+/**
+ * Delete everything stored for a shop, 48 hours after it uninstalled the
+ * app. Its earlier privacy requests stay as the audit trail, without
+ * customer emails or exports.
+ */
+async function redactShop(shop: string) {
+  return prisma.$transaction(async (tx) => {
+    const where = { shop };
+    const counts = {
+      // Versions, audits, edits and sends go with their insight
+      orderInsights: (await tx.aIOrderInsight.deleteMany({ where })).count,
+      followupSends: (await tx.followupSend.deleteMany({ where })).count,
+      followupEdits: (await tx.followupEdit.deleteMany({ where })).count,
+      providerDataAudits: (await tx.providerDataAudit.deleteMany({ where }))
+        .count,
+      followupScheduleRules: (
+        await tx.followupScheduleRule.deleteMany({ where })
+      ).count,
+      emailUnsubscribes: (await tx.emailUnsubscribe.deleteMany({ where }))
+        .count,
+      shopSettings: (await tx.shopSettings.deleteMany({ where })).count,
+      promptTemplateOverrides: (
+        await tx.promptTemplateOverride.deleteMany({ where })
+      ).count,
+      promptVariants: (await tx.promptVariant.deleteMany({ where })).count,
+      processedEvents: (await tx.processedEvent.deleteMany({ where })).count,
+      deadLetters: (await tx.deadLetter.deleteMany({ where })).count,
+      // Jobs of a backfill run go with the run
+      insightJobs: (await tx.insightJob.deleteMany({ where })).count,
+      backfillRuns: (await tx.backfillRun.deleteMany({ where })).count,
+      usageMonths: (await tx.shopUsageMonth.deleteMany({ where })).count,
+      subscriptions: (await tx.shopSubscription.deleteMany({ where })).count,
+      sessions: (await tx.session.deleteMany({ where })).count,
+    };
+
+    await tx.privacyRequest.updateMany({
+      where,
+      data: { customerEmail: null, export: null },
+    });
+    return counts;
+  });
+}
+
+/**
+ * Export or erase the data for one claimed request
+ */
+async function runPrivacyRequest(
+  request: PrivacyRequest
+): Promise<{ result: Record<string, number>; data?: unknown }> {
+  switch (request.kind as PrivacyRequestKind) {
+    case "customer_data_request":
+      return exportCustomerData(request);
+    case "customer_redact":
+      return { result: await redactCustomer(request) };
+    case "shop_redact":
+      return { result: await redactShop(request.shop) };
+    default:
+      throw new Error(`Unknown privacy request kind: ${request.kind}`);
+  }
+}
+
+/**
+ * Work off queued requests, oldest first, including ones whose last run
+ * was interrupted. A request is claimed with a compare-and-set, so
+ * several servers can run this at once. Failures are retried on the next
+ * run until MAX_PRIVACY_ATTEMPTS is reached.
+ * Returns how many requests were completed.
+ */
+export async function processPrivacyRequests(limit = 5): Promise<number> {
+  const claimable: Prisma.PrivacyRequestWhereInput = {
+    OR: [
+      { status: "queued" },
+      {
+        status: "running",
+        startedAt: { lt: new Date(Date.now() - PRIVACY_LEASE_MS) },
+      },
+    ],
+  };
+  const due = await prisma.privacyRequest.findMany({
+    where: claimable,
+    orderBy: { createdAt: "asc" },
+    take: limit,
+  });
+
+  let completed = 0;
+  for (const request of due) {
+    const { count } = await prisma.privacyRequest.updateMany({
+      where: { id: request.id, ...claimable },
+      data: {
+        status: "running",
+        startedAt: new Date(),
+        attempts: { increment: 1 },
+      },
+    });
+    // Another server claimed it first
+    if (count === 0) continue;
+
+    try {
+      const { result, data } = await runPrivacyRequest(request);
+      await prisma.privacyRequest.update({
+        where: { id: request.id },
+        data: {
+          status: "completed",
+          result: JSON.stringify(result),
+          export: data === undefined ? null : JSON.stringify(data),
+          customerEmail: null,
+          error: null,
+          finishedAt: new Date(),
+        },
+      });
+      privacyLogger.info(`Completed ${request.kind}`, {
+        shop: request.shop,
+        privacyRequestId: request.id,
+        result,
+      });
+      completed++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const failed = request.attempts + 1 >= MAX_PRIVACY_ATTEMPTS;
+      await prisma.privacyRequest.update({
+        where: { id: request.id },
+        data: {
+          status: failed ? "failed" : "queued",
+          error: message,
+          finishedAt: failed ? new Date() : null,
+        },
+      });
+      privacyLogger.error(`${request.kind} failed`, {
+        shop: request.shop,
+        privacyRequestId: request.id,
+        attempt: request.attempts + 1,
+        error: message,
+      });
+    }
+  }
+  return completed;
+}
+
+/** Exports of requests finished before this are expired */
+function exportCutoff(): Date {
+  return new Date(
+    Date.now() - PRIVACY_EXPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  );
+}
+
+/**
+ * Delete the exports of data requests completed more than
+ * PRIVACY_EXPORT_RETENTION_DAYS ago. Returns how many were deleted.
+ */
+export async function purgePrivacyExports(): Promise<number> {
+  const { count } = await prisma.privacyRequest.updateMany({
+    where: { export: { not: null }, finishedAt: { lt: exportCutoff() } },
+    data: { export: null },
+  });
+  if (count > 0) {
+    privacyLogger.info(`Deleted ${count} expired data request export(s)`);
+  }
+  return count;
+}
+
+/**
+ * A shop's requests, newest first. Exports are left out; see
+ * getPrivacyExport.
+ */
+export async function listPrivacyRequests(shop: string) {
+  const rows = await prisma.privacyRequest.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+    take: PRIVACY_HISTORY_LIMIT,
+    select: {
+      id: true,
+      kind: true,
+      customerId: true,
+      orderIds: true,
+      dataRequestId: true,
+      status: true,
+      attempts: true,
+      result: true,
+      error: true,
+      createdAt: true,
+      finishedAt: true,
+    },
+  });
+
+  return rows.map((row) => ({
+    ...row,
+    kind: row.kind as PrivacyRequestKind,
+    orderIds: JSON.parse(row.orderIds) as string[],
+    result: row.result
+      ? (JSON.parse(row.result) as Record<string, number>)
+      : null,
+  }));
+}
+
+/**
+ * The export of a completed data request, or null once it expired
+ */
+export async function getPrivacyExport(
+  shop: string,
+  id: string
+): Promise<string | null> {
+  const row = await prisma.privacyRequest.findFirst({
+    where: {
+      id,
+      shop,
+      kind: "customer_data_request",
+      status: "completed",
+      finishedAt: { gte: exportCutoff() },
+    },
+    select: { export: true },
+  });
+  return row?.export ?? null;
+}
@@ -0,0 +1,109 @@
+import { Prisma } from "@prisma/client";
+import type { ProcessedEvent } from "@prisma/client";
+import prisma from "../db.server";
+import type {
+  LedgerClaim,
+  LedgerEntry,
+  LedgerStatus,
+} from "../../shared/types";
+
+/**
+ * Processing ledger used by the Lambda to skip redelivered order events.
+ * Claims are compare-and-set updates so two concurrent deliveries of the
+ * same event can't both win.
+ */
+
+function toEntry(row: ProcessedEvent): LedgerEntry {
+  return {
+    key: row.key,
+    shop: row.shop,
+    orderId: row.orderId,
+    status: row.status as LedgerStatus,
+    insightId: row.insightId,
+    error: row.error,
+    attempts: row.attempts,
+    startedAt: row.startedAt.toISOString(),
+    finishedAt: row.finishedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Claim an event for processing.
+ * New events are claimed; failed events and in-flight claims older than
+ * the lease are taken over; completed events are never claimed again.
+ */
+export async function claimEvent(
+  key: string,
+  shop: string,
+  orderId: string,
+  leaseMs: number
+): Promise<LedgerClaim> {
+  const now = new Date();
+
+  try {
+    const created = await prisma.processedEvent.create({
+      data: { key, shop, orderId, status: "in-flight", startedAt: now },
+    });
+    return { claimed: true, entry: toEntry(created) };
+  } catch (e) {
+    // P2002: unique constraint failed, i.e. the event was seen before
+    if (
+      !(e instanceof Prisma.PrismaClientKnownRequestError) ||
+      e.code !== "P2002"
+    ) {
+      throw e;
+    }
+  }
+
+  const staleBefore = new Date(now.getTime() - leaseMs);
+  const { count } = await prisma.processedEvent.updateMany({
+    where: {
+      key,
+      OR: [
+        { status: "failed" },
+        { status: "in-flight", startedAt: { lt: staleBefore } },
+      ],
+    },
+    data: {
+      status: "in-flight",
+      startedAt: now,
+      finishedAt: null,
+      error: null,
+      attempts: { increment: 1 },
+    },
+  });
+
+  const entry = await prisma.processedEvent.findUniqueOrThrow({
+    where: { key },
+  });
+  return { claimed: count === 1, entry: toEntry(entry) };
+}
+
+/**
+ * Mark an event as completed
+ */
+export async function completeEvent(
+  key: string,
+  insightId: string | null,
+  note: string | null
+): Promise<void> {
+  await prisma.processedEvent.update({
+    where: { key },
+    data: {
+      status: "completed",
+      insightId,
+      error: note,
+      finishedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Mark an event as failed so a redelivery can claim it again
+ */
+export async function failEvent(key: string, error: string): Promise<void> {
+  await prisma.processedEvent.update({
+    where: { key },
+    data: { status: "failed", error, finishedAt: new Date() },
+  });
+}
@@ -0,0 +1,149 @@
+import prisma from "../db.server";
+import type { PromptTemplate } from "../../shared/types";
+import {
+  ORDER_INSIGHT_TEMPLATE_ID,
+  getPromptTemplate,
+  validatePromptTemplate,
+} from "../../shared/promptTemplates";
+
+/**
+ * Per-shop overrides of the built-in prompt templates.
+ * Saving a changed override adds a version; the active version is what
+ * the Lambda renders. Resetting deactivates it and the built-in is used.
+ */
+
+export interface PromptOverrideInput {
+  systemMessage: string;
+  prompt: string;
+}
+
+export type PromptOverrideErrors = Partial<
+  Record<keyof PromptOverrideInput, string>
+>;
+
+/**
+ * Version label recorded on insights generated from an override
+ */
+function toVersionLabel(version: number): string {
+  return `custom-${version}`;
+}
+
+/**
+ * The shop's active override as a template, or null to use the built-in
+ */
+export async function getActivePromptTemplate(
+  shop: string,
+  templateId: string = ORDER_INSIGHT_TEMPLATE_ID
+): Promise<PromptTemplate | null> {
+  const row = await prisma.promptTemplateOverride.findFirst({
+    where: { shop, templateId, active: true },
+    orderBy: { version: "desc" },
+  });
+  if (!row) return null;
+
+  return {
+    id: row.templateId,
+    version: toVersionLabel(row.version),
+    systemMessage: row.systemMessage,
+    prompt: row.prompt,
+  };
+}
+
+/**
+ * Template the shop's insights are generated from right now
+ */
+export async function getEffectivePromptTemplate(
+  shop: string,
+  templateId: string = ORDER_INSIGHT_TEMPLATE_ID
+): Promise<{ template: PromptTemplate; overridden: boolean }> {
+  const override = await getActivePromptTemplate(shop, templateId);
+  if (override) {
+    return { template: override, overridden: true };
+  }
+
+  const builtIn = getPromptTemplate(templateId);
+  if (!builtIn) {
+    throw new Error(`Prompt template ${templateId} not found`);
+  }
+  return { template: builtIn, overridden: false };
+}
+
+/**
+ * Save an override (null resets to the built-in template).
+ * An unchanged override keeps its version.
+ */
+export async function savePromptOverride(
+  shop: string,
+  override: PromptOverrideInput | null,
+  templateId: string = ORDER_INSIGHT_TEMPLATE_ID
+): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const active = await tx.promptTemplateOverride.findFirst({
+      where: { shop, templateId, active: true },
+      orderBy: { version: "desc" },
+    });
+
+    if (
+      override &&
+      active?.systemMessage === override.systemMessage &&
+      active.prompt === override.prompt
+    ) {
+      return;
+    }
+
+    await tx.promptTemplateOverride.updateMany({
+      where: { shop, templateId, active: true },
+      data: { active: false },
+    });
+
+    if (!override) return;
+
+    const latest = await tx.promptTemplateOverride.findFirst({
+      where: { shop, templateId },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+
+    await tx.promptTemplateOverride.create({
+      data: {
+        shop,
+        templateId,
+        version: (latest?.version ?? 0) + 1,
+        systemMessage: override.systemMessage,
+        prompt: override.prompt,
+      },
+    });
+  });
+}
+
+/**
+ * Parse the prompt section of the settings form.
+ * Returns null for the override when the shop uses the built-in template.
+ */
+export function parsePromptOverrideForm(
+  formData: FormData
+):
+  | { override: PromptOverrideInput | null; errors: null }
+  | { override: null; errors: PromptOverrideErrors } {
+  if (formData.get("useCustomPrompt") !== "true") {
+    return { override: null, errors: null };
+  }
+
+  const override: PromptOverrideInput = {
+    systemMessage: String(formData.get("systemMessage") ?? "").trim(),
+    prompt: String(formData.get("prompt") ?? "").trim(),
+  };
+
+  const errors: PromptOverrideErrors = {};
+  for (const field of ["systemMessage", "prompt"] as const) {
+    const problems = validatePromptTemplate(override[field]);
+    if (problems.length > 0) {
+      errors[field] = problems.join(". ");
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { override: null, errors };
+  }
+  return { override, errors: null };
+}
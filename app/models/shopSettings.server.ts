@@ -0,0 +1,214 @@
+import prisma from "../db.server";
+import type {
+  BudgetAction,
+  SegmentRule,
+  ShopSettingsData,
+} from "../../shared/types";
+import { validateSegmentRules } from "../../shared/segmentation";
+
+/**
+ * Per-shop settings that drive order analysis.
+ * Shops without a saved row get DEFAULT_SHOP_SETTINGS.
+ */
+
+export const DEFAULT_SHOP_SETTINGS: ShopSettingsData = {
+  enabled: true,
+  includeCustomerName: false,
+  includeCountry: true,
+  includeCustomerTags: true,
+  includePurchaseHistory: true,
+  brandVoice: null,
+  emailLanguage: "en",
+  segmentRules: null,
+  vipMinOrders: 5,
+  vipMinSpend: 500,
+  minOrderValue: 0,
+  monthlyBudget: null,
+  overBudgetAction: "cheaper_model",
+};
+
+/**
+ * Languages offered for follow-up emails
+ */
+export const EMAIL_LANGUAGES = [
+  { label: "English", value: "en" },
+  { label: "French", value: "fr" },
+  { label: "German", value: "de" },
+  { label: "Spanish", value: "es" },
+  { label: "Italian", value: "it" },
+  { label: "Dutch", value: "nl" },
+  { label: "Portuguese", value: "pt" },
+  { label: "Japanese", value: "ja" },
+  { label: "Vietnamese", value: "vi" },
+];
+
+/**
+ * What to do once the monthly AI budget is spent
+ */
+export const BUDGET_ACTIONS: Array<{ label: string; value: BudgetAction }> = [
+  { label: "Switch to a cheaper model", value: "cheaper_model" },
+  { label: "Stop analyzing new orders", value: "skip" },
+];
+
+const MAX_BRAND_VOICE_LENGTH = 500;
+
+export type ShopSettingsErrors = Partial<
+  Record<keyof ShopSettingsData, string>
+>;
+
+/**
+ * Parse stored segment rules; invalid JSON falls back to the defaults
+ */
+function parseStoredSegmentRules(value: string | null): SegmentRule[] | null {
+  if (!value) return null;
+
+  try {
+    const rules = JSON.parse(value);
+    return validateSegmentRules(rules).length === 0 ? rules : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load settings for a shop, falling back to defaults
+ */
+export async function getShopSettings(
+  shop: string
+): Promise<ShopSettingsData> {
+  const row = await prisma.shopSettings.findUnique({ where: { shop } });
+  if (!row) {
+    return { ...DEFAULT_SHOP_SETTINGS };
+  }
+
+  return {
+    enabled: row.enabled,
+    includeCustomerName: row.includeCustomerName,
+    includeCountry: row.includeCountry,
+    includeCustomerTags: row.includeCustomerTags,
+    includePurchaseHistory: row.includePurchaseHistory,
+    brandVoice: row.brandVoice,
+    emailLanguage: row.emailLanguage,
+    segmentRules: parseStoredSegmentRules(row.segmentRules),
+    vipMinOrders: row.vipMinOrders,
+    vipMinSpend: row.vipMinSpend,
+    minOrderValue: row.minOrderValue,
+    monthlyBudget: row.monthlyBudget,
+    overBudgetAction: BUDGET_ACTIONS.some(
+      (action) => action.value === row.overBudgetAction
+    )
+      ? (row.overBudgetAction as BudgetAction)
+      : DEFAULT_SHOP_SETTINGS.overBudgetAction,
+  };
+}
+
+/**
+ * Create or replace the settings for a shop
+ */
+export async function saveShopSettings(
+  shop: string,
+  settings: ShopSettingsData
+): Promise<void> {
+  const data = {
+    ...settings,
+    segmentRules: settings.segmentRules
+      ? JSON.stringify(settings.segmentRules)
+      : null,
+  };
+
+  await prisma.shopSettings.upsert({
+    where: { shop },
+    update: data,
+    create: { shop, ...data },
+  });
+}
+
+/**
+ * Parse and validate the settings form.
+ * Returns the settings, or per-field errors to show next to the inputs.
+ */
+export function parseShopSettingsForm(
+  formData: FormData
+):
+  | { settings: ShopSettingsData; errors: null }
+  | { settings: null; errors: ShopSettingsErrors } {
+  const errors: ShopSettingsErrors = {};
+
+  const brandVoice = String(formData.get("brandVoice") ?? "").trim();
+  if (brandVoice.length > MAX_BRAND_VOICE_LENGTH) {
+    errors.brandVoice = `Keep the brand voice under ${MAX_BRAND_VOICE_LENGTH} characters`;
+  }
+
+  const emailLanguage = String(formData.get("emailLanguage") ?? "");
+  if (!EMAIL_LANGUAGES.some((language) => language.value === emailLanguage)) {
+    errors.emailLanguage = "Choose a supported language";
+  }
+
+  let segmentRules: SegmentRule[] | null = null;
+  if (formData.get("useCustomSegmentRules") === "true") {
+    try {
+      const parsed = JSON.parse(String(formData.get("segmentRules") ?? ""));
+      const problems = validateSegmentRules(parsed);
+      if (problems.length > 0) {
+        errors.segmentRules = problems.join(". ");
+      } else {
+        segmentRules = parsed;
+      }
+    } catch {
+      errors.segmentRules = "Segment rules must be valid JSON";
+    }
+  }
+
+  const vipMinOrders = Number(formData.get("vipMinOrders"));
+  if (!Number.isInteger(vipMinOrders) || vipMinOrders < 2) {
+    errors.vipMinOrders = "Enter a whole number of at least 2";
+  }
+
+  const vipMinSpend = Number(formData.get("vipMinSpend"));
+  if (!Number.isFinite(vipMinSpend) || vipMinSpend < 0) {
+    errors.vipMinSpend = "Enter an amount of 0 or more";
+  }
+
+  const minOrderValue = Number(formData.get("minOrderValue"));
+  if (!Number.isFinite(minOrderValue) || minOrderValue < 0) {
+    errors.minOrderValue = "Enter an amount of 0 or more";
+  }
+
+  // An empty budget means no limit
+  const budgetField = String(formData.get("monthlyBudget") ?? "").trim();
+  const monthlyBudget = budgetField === "" ? null : Number(budgetField);
+  if (
+    monthlyBudget !== null &&
+    (!Number.isFinite(monthlyBudget) || monthlyBudget < 0)
+  ) {
+    errors.monthlyBudget = "Enter an amount of 0 or more, or leave it empty";
+  }
+
+  const overBudgetAction = String(formData.get("overBudgetAction") ?? "");
+  if (!BUDGET_ACTIONS.some((action) => action.value === overBudgetAction)) {
+    errors.overBudgetAction = "Choose what happens over budget";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { settings: null, errors };
+  }
+
+  return {
+    settings: {
+      enabled: formData.get("enabled") === "true",
+      includeCustomerName: formData.get("includeCustomerName") === "true",
+      includeCountry: formData.get("includeCountry") === "true",
+      includeCustomerTags: formData.get("includeCustomerTags") === "true",
+      includePurchaseHistory: formData.get("includePurchaseHistory") === "true",
+      brandVoice: brandVoice || null,
+      emailLanguage,
+      segmentRules,
+      vipMinOrders,
+      vipMinSpend,
+      minOrderValue,
+      monthlyBudget,
+      overBudgetAction: overBudgetAction as BudgetAction,
+    },
+    errors: null,
+  };
+}
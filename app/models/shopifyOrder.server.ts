@@ -0,0 +1,272 @@
+import { randomUUID } from "crypto";
+import type { AdminGraphqlClient } from "@shopify/shopify-app-remix/server";
+import type {
+  ShopifyEventBridgeEvent,
+  ShopifyOrder,
+} from "../../shared/types";
+import { apiVersion } from "../shopify.server";
+
+/**
+ * Load orders through the Admin GraphQL API in the shape of the
+ * orders/create webhook payload, so the Lambda can process them the same
+ * way as live EventBridge events.
+ */
+
+const ORDER_FIELDS = `#graphql
+  fragment WebhookOrderFields on Order {
+    legacyResourceId
+    name
+    createdAt
+    currencyCode
+    displayFinancialStatus
+    note
+    discountCodes
+    totalPriceSet { shopMoney { amount } }
+    subtotalPriceSet { shopMoney { amount } }
+    totalTaxSet { shopMoney { amount } }
+    totalDiscountsSet { shopMoney { amount } }
+    shippingAddress { city province country }
+    customer {
+      legacyResourceId
+      email
+      firstName
+      lastName
+      numberOfOrders
+      amountSpent { amount }
+      createdAt
+      tags
+    }
+    lineItems(first: 100) {
+      nodes {
+        id
+        title
+        quantity
+        sku
+        variantTitle
+        originalUnitPriceSet { shopMoney { amount } }
+        product { legacyResourceId }
+      }
+    }
+  }
+`;
+
+const ORDER_QUERY = `#graphql
+  ${ORDER_FIELDS}
+  query GetOrderForInsight($id: ID!) {
+    order(id: $id) {
+      ...WebhookOrderFields
+    }
+  }
+`;
+
+const ORDERS_QUERY = `#graphql
+  ${ORDER_FIELDS}
+  query GetOrdersForInsight($first: Int!, $after: String, $query: String) {
+    orders(first: $first, after: $after, query: $query, sortKey: CREATED_AT) {
+      nodes {
+        ...WebhookOrderFields
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+interface Money {
+  shopMoney: { amount: string };
+}
+
+interface OrderNode {
+  legacyResourceId: string;
+  name: string;
+  createdAt: string;
+  currencyCode: string;
+  displayFinancialStatus: string | null;
+  note: string | null;
+  discountCodes: string[];
+  totalPriceSet: Money;
+  subtotalPriceSet: Money | null;
+  totalTaxSet: Money | null;
+  totalDiscountsSet: Money | null;
+  shippingAddress: {
+    city: string | null;
+    province: string | null;
+    country: string | null;
+  } | null;
+  customer: {
+    legacyResourceId: string;
+    email: string | null;
+    firstName: string | null;
+    lastName: string | null;
+    numberOfOrders: string;
+    amountSpent: { amount: string };
+    createdAt: string;
+    tags: string[];
+  } | null;
+  lineItems: {
+    nodes: Array<{
+      id: string;
+      title: string;
+      quantity: number;
+      sku: string | null;
+      variantTitle: string | null;
+      originalUnitPriceSet: Money;
+      product: { legacyResourceId: string } | null;
+    }>;
+  };
+}
+
+function toGid(id: string): string {
+  return id.startsWith("gid://") ? id : `gid://shopify/Order/${id}`;
+}
+
+function toLegacyId(gid: string): number {
+  return Number(gid.split("/").pop());
+}
+
+/**
+ * Convert a GraphQL order into the webhook payload shape.
+ * GraphQL only returns discount codes, not their amounts, so the order's
+ * total discount is attributed to the first code.
+ */
+function toWebhookOrder(node: OrderNode): ShopifyOrder {
+  const totalDiscount = node.totalDiscountsSet?.shopMoney.amount ?? "0.00";
+
+  return {
+    id: Number(node.legacyResourceId),
+    order_number: Number(node.name.replace(/\D/g, "")) || 0,
+    name: node.name,
+    total_price: node.totalPriceSet.shopMoney.amount,
+    subtotal_price: node.subtotalPriceSet?.shopMoney.amount ?? "0.00",
+    total_tax: node.totalTaxSet?.shopMoney.amount ?? "0.00",
+    currency: node.currencyCode,
+    financial_status: (node.displayFinancialStatus ?? "").toLowerCase(),
+    created_at: node.createdAt,
+    line_items: node.lineItems.nodes.map((item) => ({
+      id: toLegacyId(item.id),
+      title: item.title,
+      quantity: item.quantity,
+      price: item.originalUnitPriceSet.shopMoney.amount,
+      sku: item.sku ?? undefined,
+      variant_title: item.variantTitle ?? undefined,
+      product_id: Number(item.product?.legacyResourceId ?? 0),
+    })),
+    customer: node.customer
+      ? {
+          id: Number(node.customer.legacyResourceId),
+          email: node.customer.email ?? "",
+          first_name: node.customer.firstName ?? "",
+          last_name: node.customer.lastName ?? "",
+          orders_count: parseInt(node.customer.numberOfOrders, 10),
+          total_spent: node.customer.amountSpent.amount,
+          created_at: node.customer.createdAt,
+          tags: node.customer.tags.join(", "),
+        }
+      : null,
+    discount_codes: node.discountCodes.map((code, index) => ({
+      code,
+      amount: index === 0 ? totalDiscount : "0.00",
+      type: "fixed_amount",
+    })),
+    shipping_address: node.shippingAddress
+      ? {
+          city: node.shippingAddress.city ?? undefined,
+          province: node.shippingAddress.province ?? undefined,
+          country: node.shippingAddress.country ?? undefined,
+        }
+      : undefined,
+    note: node.note ?? undefined,
+  };
+}
+
+/**
+ * Fetch an order in webhook payload shape, or null if it doesn't exist
+ */
+export async function fetchWebhookOrder(
+  admin: { graphql: AdminGraphqlClient },
+  orderId: string
+): Promise<ShopifyOrder | null> {
+  const response = await admin.graphql(ORDER_QUERY, {
+    variables: { id: toGid(orderId) },
+  });
+  const result = (await response.json()) as {
+    data?: { order: OrderNode | null };
+  };
+
+  return result.data?.order ? toWebhookOrder(result.data.order) : null;
+}
+
+/**
+ * Fetch a page of orders in webhook payload shape, oldest first.
+ * `query` uses Shopify search syntax, e.g. "created_at:>=2025-01-01".
+ */
+export async function fetchWebhookOrderPage(
+  admin: { graphql: AdminGraphqlClient },
+  options: { first: number; after: string | null; query: string }
+): Promise<{
+  orders: ShopifyOrder[];
+  hasNextPage: boolean;
+  endCursor: string | null;
+}> {
+  const response = await admin.graphql(ORDERS_QUERY, {
+    variables: options,
+  });
+  const result = (await response.json()) as {
+    data?: {
+      orders: {
+        nodes: OrderNode[];
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      };
+    };
+  };
+
+  const page = result.data?.orders;
+  if (!page) {
+    throw new Error("Orders query returned no data");
+  }
+
+  return {
+    orders: page.nodes.map(toWebhookOrder),
+    hasNextPage: page.pageInfo.hasNextPage,
+    endCursor: page.pageInfo.endCursor,
+  };
+}
+
+/**
+ * Wrap an order in an EventBridge event like the ones Shopify delivers.
+ * Each call gets a fresh event id, so the Lambda's processing ledger
+ * treats it as new work rather than a redelivery.
+ */
+export function buildOrderEvent(
+  shop: string,
+  order: ShopifyOrder,
+  reason: string
+): ShopifyEventBridgeEvent {
+  const now = new Date().toISOString();
+  const eventId = `${reason}-${randomUUID()}`;
+
+  return {
+    version: "0",
+    id: eventId,
+    "detail-type": "shopifyWebhook",
+    source: "aws.partner/shopify.com/app",
+    account: "",
+    time: now,
+    region: "",
+    resources: [],
+    detail: {
+      metadata: {
+        "Content-Type": "application/json",
+        "X-Shopify-Topic": "orders/create",
+        "X-Shopify-Shop-Domain": shop,
+        "X-Shopify-API-Version": apiVersion,
+        "X-Shopify-Webhook-Id": eventId,
+        "X-Shopify-Triggered-At": now,
+        "X-Shopify-Event-Id": eventId,
+      },
+      payload: order,
+    },
+  };
+}
@@ -0,0 +1,134 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import type {
+  BudgetStatus,
+  InsightUsage,
+  ShopSettingsData,
+} from "../../shared/types";
+
+/**
+ * AI usage and cost per shop.
+ * Attempts are priced when they are recorded (see shared/pricing.ts) and
+ * added to a rollup per calendar month (UTC), which the budget check and
+ * the Usage page read.
+ */
+
+/** Months shown on the Usage page */
+export const USAGE_HISTORY_MONTHS = 12;
+
+/**
+ * Calendar month (UTC) of a date, e.g. "2026-10"
+ */
+export function getUsageMonth(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * First instant of a month and of the month after it
+ */
+export function getMonthRange(month: string): { start: Date; end: Date } {
+  const start = new Date(`${month}-01T00:00:00.000Z`);
+  const end = new Date(start);
+  end.setUTCMonth(end.getUTCMonth() + 1);
+  return { start, end };
+}
+
+/**
+ * Add one attempt's usage to the shop's rollup for the month it was
+ * recorded in. Runs in the transaction that records the attempt.
+ */
+export async function addMonthlyUsage(
+  tx: Prisma.TransactionClient,
+  shop: string,
+  usage: InsightUsage,
+  costUsd: number | null,
+  recordedAt: Date
+): Promise<void> {
+  const totals = {
+    attempts: 1,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    costUsd: costUsd ?? 0,
+    unpricedAttempts: costUsd === null ? 1 : 0,
+  };
+
+  await tx.shopUsageMonth.upsert({
+    where: { shop_month: { shop, month: getUsageMonth(recordedAt) } },
+    create: { shop, month: getUsageMonth(recordedAt), ...totals },
+    update: {
+      attempts: { increment: totals.attempts },
+      promptTokens: { increment: totals.promptTokens },
+      completionTokens: { increment: totals.completionTokens },
+      costUsd: { increment: totals.costUsd },
+      unpricedAttempts: { increment: totals.unpricedAttempts },
+    },
+  });
+}
+
+/**
+ * This month's spend against the shop's budget
+ */
+export async function getBudgetStatus(
+  shop: string,
+  settings: Pick<ShopSettingsData, "monthlyBudget">
+): Promise<BudgetStatus> {
+  const month = getUsageMonth();
+  const row = await prisma.shopUsageMonth.findUnique({
+    where: { shop_month: { shop, month } },
+    select: { costUsd: true },
+  });
+  const spent = row?.costUsd ?? 0;
+
+  return {
+    month,
+    spent,
+    budget: settings.monthlyBudget,
+    exceeded:
+      settings.monthlyBudget !== null && spent >= settings.monthlyBudget,
+  };
+}
+
+/**
+ * Monthly rollups for a shop, newest first
+ */
+export async function listMonthlyUsage(
+  shop: string,
+  months: number = USAGE_HISTORY_MONTHS
+) {
+  return prisma.shopUsageMonth.findMany({
+    where: { shop },
+    orderBy: { month: "desc" },
+    take: months,
+  });
+}
+
+/**
+ * One month's usage broken down by the model that served it, costliest
+ * first. Only attempts that reported usage are counted.
+ */
+export async function getModelUsage(shop: string, month: string) {
+  const { start, end } = getMonthRange(month);
+  const groups = await prisma.aIOrderInsightVersion.groupBy({
+    by: ["model"],
+    where: {
+      insight: { shop },
+      generatedAt: { gte: start, lt: end },
+      promptTokens: { not: null },
+    },
+    _count: { _all: true },
+    _sum: { promptTokens: true, completionTokens: true, costUsd: true },
+    _avg: { latencyMs: true },
+  });
+
+  return groups
+    .map((group) => ({
+      model: group.model ?? "unknown",
+      attempts: group._count._all,
+      promptTokens: group._sum.promptTokens ?? 0,
+      completionTokens: group._sum.completionTokens ?? 0,
+      costUsd: group._sum.costUsd,
+      averageLatencyMs:
+        group._avg.latencyMs !== null ? Math.round(group._avg.latencyMs) : null,
+    }))
+    .sort((a, b) => (b.costUsd ?? 0) - (a.costUsd ?? 0));
+}
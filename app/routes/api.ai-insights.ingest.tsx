@@ -1,22 +1,32 @@
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
-import crypto from "crypto";
-import prisma from "../db.server";
+import { HMAC_HEADER, verifyRequestSignature } from "../utils/hmac.server";
+import { getRequestLogger } from "../utils/logger.server";
 import type {
-  AIInsightPayload,
   AIInsightIngestResponse,
   AIInsightIngestError,
-  InsightStatus,
-  CustomerType,
 } from "../../shared/types";
+import {
+  aiInsightPayloadSchema,
+  formatIssues,
+  validate,
+} from "../../shared/schemas";
+import { SCHEMA_VERSION, upgradeBody } from "../../shared/contract";
+import { recordInsightAttempt } from "../models/insight.server";
+import { queueAutomaticFollowup } from "../models/followupSchedule.server";
+import { getInsightLimitReason } from "../models/billing.server";
 
 /**
  * Ingestion endpoint for AI-generated order insights.
- * Called by AWS Lambda after processing order events.
+ * Called by AWS Lambda after processing order events. A completed insight
+ * also schedules its follow-up email if the shop has a rule for the
+ * customer type. Completed insights, regenerations included, are refused
+ * with a 402 once the shop's plan allowance for the month is used up.
  *
  * POST /api/ai-insights/ingest
  *
- * @see AIInsightPayload for the request body schema
+ * @see AIInsightPayload for the request body type
+ * @see aiInsightPayloadSchema for how it is validated
  */
 
 // Only allow POST requests
@@ -30,131 +40,108 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return json({ error: "Method not allowed" }, { status: 405 });
   }
 
+  let log = getRequestLogger(request, "ingest");
+
   // Get the raw body for HMAC verification
   const body = await request.text();
 
   // Verify HMAC signature
-  const hmacHeader = request.headers.get("X-Shopify-Hmac-SHA256");
-  if (!hmacHeader) {
-    console.error("[Ingest] Missing HMAC signature header");
-    return json({ error: "Missing signature" }, { status: 401 });
-  }
-
-  const hmacSecret = process.env.HMAC_SECRET;
-  if (!hmacSecret) {
-    console.error("[Ingest] HMAC_SECRET environment variable not set");
-    return json({ error: "Server configuration error" }, { status: 500 });
-  }
-
-  const expectedHmac = crypto
-    .createHmac("sha256", hmacSecret)
-    .update(body)
-    .digest("hex");
-
-  if (hmacHeader !== expectedHmac) {
-    console.error("[Ingest] Invalid HMAC signature");
-    return json({ error: "Invalid signature" }, { status: 401 });
+  const signature = verifyRequestSignature(
+    body,
+    request.headers.get(HMAC_HEADER)
+  );
+  if (!signature.valid) {
+    log.error(signature.reason);
+    return json({ error: signature.error }, { status: signature.status });
   }
 
   // Parse and validate the request body
-  let data: Partial<AIInsightPayload>;
+  let data: unknown;
 
   try {
     data = JSON.parse(body);
   } catch (e) {
-    console.error("[Ingest] Invalid JSON body:", e);
+    log.error("Invalid JSON body", { error: e });
     return json({ error: "Invalid JSON body" }, { status: 400 });
   }
 
-  // Validate required fields
-  const { shop, orderId, orderName, insightText } = data;
-
-  if (!shop || typeof shop !== "string") {
-    return json({ error: "Missing or invalid 'shop' field" }, { status: 400 });
-  }
-
-  if (!orderId || typeof orderId !== "string") {
-    return json(
-      { error: "Missing or invalid 'orderId' field" },
-      { status: 400 }
-    );
-  }
-
-  if (!orderName || typeof orderName !== "string") {
-    return json(
-      { error: "Missing or invalid 'orderName' field" },
+  // Bring older Lambda payloads up to the current contract
+  const upgraded = upgradeBody("ingest", data);
+  if (!upgraded.success) {
+    log.error(upgraded.error);
+    return json<AIInsightIngestError>(
+      { error: upgraded.error },
       { status: 400 }
     );
   }
-
-  if (!insightText || typeof insightText !== "string") {
-    return json(
-      { error: "Missing or invalid 'insightText' field" },
-      { status: 400 }
-    );
+  if (upgraded.fromVersion !== SCHEMA_VERSION) {
+    log.info("Upgraded payload", { fromVersion: upgraded.fromVersion });
   }
 
-  // Validate optional fields
-  const validStatuses: InsightStatus[] = ["pending", "completed", "error"];
-  const status: InsightStatus = data.status || "completed";
-  if (!validStatuses.includes(status)) {
+  const validation = validate(aiInsightPayloadSchema, upgraded.data);
+  if (!validation.success) {
+    log.error(`Invalid payload: ${formatIssues(validation.issues)}`);
     return json<AIInsightIngestError>(
-      { error: `Invalid 'status' field. Must be one of: ${validStatuses.join(", ")}` },
+      {
+        error: `Invalid payload: ${formatIssues(validation.issues)}`,
+        issues: validation.issues,
+      },
       { status: 400 }
     );
   }
 
-  const validCustomerTypes: CustomerType[] = ["first-time", "repeat", "vip"];
-  if (data.customerType && !validCustomerTypes.includes(data.customerType)) {
-    return json<AIInsightIngestError>(
-      { error: "Invalid 'customerType' field. Must be one of: first-time, repeat, vip" },
-      { status: 400 }
-    );
+  const payload = validation.data;
+  const { shop, orderId, orderName } = payload;
+  const status = payload.status || "completed";
+  log = log.child({ shop, orderId });
+
+  // The Lambda checks the allowance too; this catches orders in flight
+  if (status === "completed") {
+    const limitReason = await getInsightLimitReason(shop);
+    if (limitReason) {
+      log.warn(limitReason);
+      return json<AIInsightIngestError>(
+        { error: limitReason },
+        { status: 402 }
+      );
+    }
   }
 
-  // Upsert the insight (update if exists, create if not)
+  // Record the attempt as a new version; the insight keeps its best version
   try {
-    const insight = await prisma.aIOrderInsight.upsert({
-      where: {
-        shop_orderId: {
-          shop,
-          orderId,
-        },
-      },
-      update: {
-        orderName,
-        insightText,
-        followupSubject: data.followupSubject || null,
-        followupBody: data.followupBody || null,
-        customerType: data.customerType || null,
-        orderValue: data.orderValue || null,
-        status,
-        errorMessage: data.errorMessage || null,
-        updatedAt: new Date(),
-      },
-      create: {
-        shop,
-        orderId,
-        orderName,
-        insightText,
-        followupSubject: data.followupSubject || null,
-        followupBody: data.followupBody || null,
-        customerType: data.customerType || null,
-        orderValue: data.orderValue || null,
-        status,
-        errorMessage: data.errorMessage || null,
-      },
+    const result = await log.time("record_attempt", () =>
+      recordInsightAttempt({ ...payload, status })
+    );
+
+    log.info(`Recorded ${status} attempt for order ${orderName}`, {
+      insightId: result.insightId,
+      versionId: result.versionId,
+      current: result.current,
     });
 
-    console.log(`[Ingest] Upserted insight for order ${orderName} (${orderId}) in shop ${shop}`);
+    // The worker checks the order and schedules the email. The insight is
+    // saved either way; a failure here only skips the email.
+    if (result.current && status === "completed") {
+      try {
+        await queueAutomaticFollowup(shop, result.insightId, log);
+      } catch (e) {
+        log.error(`Failed to queue the follow-up for order ${orderName}`, {
+          error: e,
+        });
+      }
+    }
 
     return json<AIInsightIngestResponse>({
       success: true,
-      id: insight.id,
-      message: "Insight saved successfully",
+      id: result.insightId,
+      versionId: result.versionId,
+      current: result.current,
+      message: result.current
+        ? "Insight saved successfully"
+        : "Attempt recorded; a completed version was kept",
     });
   } catch (e) {
-    console.error("[Ingest] Database error:", e);
+    log.error("Database error", { error: e });
     return json<AIInsightIngestError>({ error: "Failed to save insight" }, { status: 500 });
   }
 };
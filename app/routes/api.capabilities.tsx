@@ -0,0 +1,61 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { HMAC_HEADER, verifyRequestSignature } from "../utils/hmac.server";
+import { getRequestLogger } from "../utils/logger.server";
+import {
+  SCHEMA_VERSION,
+  getSupportedSchemaVersions,
+} from "../../shared/contract";
+import type { CapabilitiesResponse } from "../../shared/types";
+
+/**
+ * Capabilities endpoint for Lambda
+ * Lambda calls this at cold start to pick the payload schema version to
+ * send, so it can be deployed before or after the app.
+ *
+ * POST /api/capabilities
+ *
+ * Headers:
+ *   X-Shopify-Hmac-SHA256: HMAC signature of the request body
+ *
+ * Body (JSON): {}
+ */
+
+// Only allow POST requests
+export const loader = () => {
+  return json({ error: "Method not allowed" }, { status: 405 });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  // Only allow POST
+  if (request.method !== "POST") {
+    return json<CapabilitiesResponse>(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    );
+  }
+
+  const log = getRequestLogger(request, "capabilities");
+
+  // Get the raw body for HMAC verification
+  const body = await request.text();
+
+  // Verify HMAC signature
+  const signature = verifyRequestSignature(
+    body,
+    request.headers.get(HMAC_HEADER)
+  );
+  if (!signature.valid) {
+    log.error(signature.reason);
+    return json<CapabilitiesResponse>(
+      { success: false, error: signature.error },
+      { status: signature.status }
+    );
+  }
+
+  return json<CapabilitiesResponse>({
+    success: true,
+    schemaVersion: SCHEMA_VERSION,
+    supportedSchemaVersions: getSupportedSchemaVersions(),
+  });
+};
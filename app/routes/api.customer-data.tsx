@@ -1,11 +1,21 @@
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
-import crypto from "crypto";
 import prisma from "../db.server";
+import { apiVersion } from "../shopify.server";
+import type { CustomerDataResponse } from "../../shared/types";
+import { HMAC_HEADER, verifyRequestSignature } from "../utils/hmac.server";
+import { getRequestLogger } from "../utils/logger.server";
+import {
+  customerDataRequestSchema,
+  formatIssues,
+  validate,
+} from "../../shared/schemas";
+import { upgradeBody } from "../../shared/contract";
 
 /**
  * Customer data endpoint for Lambda to fetch customer info from Shopify.
- * Called by AWS Lambda to get accurate orders_count and total_spent.
+ * Called by AWS Lambda to get accurate orders_count and total_spent, plus
+ * the name, tags, country and recent orders with their line items.
  *
  * POST /api/customer-data
  *
@@ -13,23 +23,97 @@ import prisma from "../db.server";
  *   X-Shopify-Hmac-SHA256: HMAC signature of the request body
  *
  * Body (JSON):
+ *   - schemaVersion: number - contract version (missing means 1)
  *   - shop: string (required) - Shopify domain
  *   - customerId: string (required) - Shopify customer GID or numeric ID
+ *   - before: string (optional) - only look at orders placed before this
+ *     time, returning their count and total as ordersBefore
+ *
+ * @see customerDataRequestSchema and customerDataResponseSchema
+ */
+
+/** Most recent orders returned (placed before `before`, when given) */
+const RECENT_ORDERS_LIMIT = 10;
+
+/** Line items returned per order */
+const LINE_ITEMS_LIMIT = 20;
+
+/** Earlier orders counted towards ordersBefore (one page) */
+const ORDERS_BEFORE_LIMIT = 250;
+
+/**
+ * Fields that need protected customer data access beyond the basic level.
+ * Shopify denies them field by field, so a denial only blanks that field.
  */
+const PROTECTED_FIELDS = ["firstName", "lastName", "defaultAddress"];
 
-export interface CustomerDataResponse {
-  success: boolean;
-  customer?: {
-    id: string;
-    numberOfOrders: number;
-    amountSpent: number;
-    currency: string;
-    firstName: string | null;
-    lastName: string | null;
-    email: string | null;
-    createdAt: string | null;
-  };
-  error?: string;
+const CUSTOMER_QUERY = `
+  query GetCustomerData($id: ID!, $ordersQuery: String, $hasBefore: Boolean!) {
+    customer(id: $id) {
+      id
+      firstName
+      lastName
+      numberOfOrders
+      amountSpent {
+        amount
+        currencyCode
+      }
+      createdAt
+      tags
+      defaultAddress {
+        countryCodeV2
+      }
+      orders(
+        first: ${RECENT_ORDERS_LIMIT}
+        sortKey: CREATED_AT
+        reverse: true
+        query: $ordersQuery
+      ) {
+        nodes {
+          id
+          createdAt
+          lineItems(first: ${LINE_ITEMS_LIMIT}) {
+            nodes {
+              title
+              quantity
+              sku
+              product {
+                id
+                productType
+              }
+            }
+          }
+        }
+      }
+      ordersBefore: orders(
+        first: ${ORDERS_BEFORE_LIMIT}
+        query: $ordersQuery
+      ) @include(if: $hasBefore) {
+        nodes {
+          totalPriceSet {
+            shopMoney {
+              amount
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+type GraphQLError = {
+  message: string;
+  path?: Array<string | number>;
+  extensions?: { code?: string };
+};
+
+function isProtectedFieldDenial(error: GraphQLError): boolean {
+  return (
+    error.extensions?.code === "ACCESS_DENIED" &&
+    (error.path ?? []).some((segment) =>
+      PROTECTED_FIELDS.includes(String(segment))
+    )
+  );
 }
 
 // Only allow POST requests
@@ -46,93 +130,82 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     );
   }
 
+  let log = getRequestLogger(request, "customer-data");
+
   // Get the raw body for HMAC verification
   const body = await request.text();
 
   // Verify HMAC signature
-  const hmacHeader = request.headers.get("X-Shopify-Hmac-SHA256");
-  if (!hmacHeader) {
-    console.error("[CustomerData] Missing HMAC signature header");
+  const signature = verifyRequestSignature(
+    body,
+    request.headers.get(HMAC_HEADER)
+  );
+  if (!signature.valid) {
+    log.error(signature.reason);
     return json<CustomerDataResponse>(
-      { success: false, error: "Missing signature" },
-      { status: 401 }
-    );
-  }
-
-  const hmacSecret = process.env.HMAC_SECRET;
-  if (!hmacSecret) {
-    console.error("[CustomerData] HMAC_SECRET environment variable not set");
-    return json<CustomerDataResponse>(
-      { success: false, error: "Server configuration error" },
-      { status: 500 }
-    );
-  }
-
-  const expectedHmac = crypto
-    .createHmac("sha256", hmacSecret)
-    .update(body)
-    .digest("hex");
-
-  if (hmacHeader !== expectedHmac) {
-    console.error("[CustomerData] Invalid HMAC signature");
-    return json<CustomerDataResponse>(
-      { success: false, error: "Invalid signature" },
-      { status: 401 }
+      { success: false, error: signature.error },
+      { status: signature.status }
     );
   }
 
   // Parse request body
-  let data: { shop?: string; customerId?: string };
+  let data: unknown;
   try {
     data = JSON.parse(body);
   } catch (e) {
-    console.error("[CustomerData] Invalid JSON body:", e);
+    log.error("Invalid JSON body", { error: e });
     return json<CustomerDataResponse>(
       { success: false, error: "Invalid JSON body" },
       { status: 400 }
     );
   }
 
-  const { shop, customerId } = data;
-
-  if (!shop || typeof shop !== "string") {
+  // Bring older Lambda requests up to the current contract
+  const upgraded = upgradeBody("customerData", data);
+  if (!upgraded.success) {
+    log.error(upgraded.error);
     return json<CustomerDataResponse>(
-      { success: false, error: "Missing or invalid 'shop' field" },
+      { success: false, error: upgraded.error },
       { status: 400 }
     );
   }
 
-  if (!customerId || typeof customerId !== "string") {
+  const validation = validate(customerDataRequestSchema, upgraded.data);
+  if (!validation.success) {
     return json<CustomerDataResponse>(
-      { success: false, error: "Missing or invalid 'customerId' field" },
+      {
+        success: false,
+        error: `Invalid request: ${formatIssues(validation.issues)}`,
+      },
       { status: 400 }
     );
   }
 
+  const { shop, customerId, before } = validation.data;
+
+  log = log.child({ shop, customerId });
+
   // Get access token from session - try offline session first
-  console.log(`[CustomerData] Looking for session with shop: ${shop}`);
-  
   const sessions = await prisma.session.findMany({
     where: { shop },
     select: { id: true, accessToken: true, isOnline: true },
   });
   
-  console.log(`[CustomerData] Found ${sessions.length} sessions:`, sessions.map(s => ({ id: s.id, isOnline: s.isOnline, tokenPrefix: s.accessToken?.substring(0, 10) })));
-  
   // Prefer offline session (starts with shpat_), fall back to online
   const session = sessions.find(s => s.accessToken?.startsWith('shpat_')) || sessions[0];
 
   if (!session?.accessToken) {
-    console.error(`[CustomerData] No session found for shop: ${shop}`);
+    log.error("No session found for shop");
     return json<CustomerDataResponse>(
       { success: false, error: "Shop not found or not authenticated" },
       { status: 404 }
     );
   }
 
-  console.log(`[CustomerData] Using session ${session.id} with token: ${session.accessToken.substring(0, 10)}...`);
-
-  console.log(`[CustomerData] Using token for shop ${shop}: ${session.accessToken.substring(0, 10)}...`);
+  log.debug("Using session", {
+    sessionId: session.id,
+    isOnline: session.isOnline,
+  });
 
   // Format customer ID as GID if it's numeric
   const customerGid = customerId.startsWith("gid://")
@@ -141,39 +214,34 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   // Call Shopify Admin API
   try {
-    const response = await fetch(
-      `https://${shop}/admin/api/2024-10/graphql.json`,
-      {
+    const response = await log.time("shopify_customer_query", () =>
+      fetch(`https://${shop}/admin/api/${apiVersion}/graphql.json`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          "X-Shopify-Access-Token": session.accessToken,
+          "X-Shopify-Access-Token": session.accessToken!,
         },
         body: JSON.stringify({
-          query: `
-            query GetCustomerData($id: ID!) {
-              customer(id: $id) {
-                id
-                numberOfOrders
-                amountSpent {
-                  amount
-                  currencyCode
-                }
-                createdAt
-              }
-            }
-          `,
-          variables: { id: customerGid },
+          query: CUSTOMER_QUERY,
+          variables: {
+            id: customerGid,
+            // Normalised so the date can't change the rest of the search
+            ordersQuery: before
+              ? `created_at:<'${new Date(before).toISOString()}'`
+              : null,
+            hasBefore: Boolean(before),
+          },
         }),
-      }
+      })
     );
 
     if (!response.ok) {
       const errorBody = await response.text();
-      console.error(
-        `[CustomerData] Shopify API error: ${response.status} ${response.statusText}`,
-        errorBody
-      );
+      log.error("Shopify API error", {
+        status: response.status,
+        statusText: response.statusText,
+        response: errorBody,
+      });
       return json<CustomerDataResponse>(
         { success: false, error: `Shopify API error: ${response.status}` },
         { status: 502 }
@@ -184,16 +252,43 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       data?: {
         customer?: {
           id: string;
+          firstName: string | null;
+          lastName: string | null;
           numberOfOrders: string;
           amountSpent: { amount: string; currencyCode: string };
           createdAt: string | null;
-        };
+          tags: string[];
+          defaultAddress: { countryCodeV2: string | null } | null;
+          orders: {
+            nodes: Array<{
+              id: string;
+              createdAt: string;
+              lineItems: {
+                nodes: Array<{
+                  title: string;
+                  quantity: number;
+                  sku: string | null;
+                  product: { id: string; productType: string } | null;
+                }>;
+              };
+            }>;
+          };
+          ordersBefore?: {
+            nodes: Array<{ totalPriceSet: { shopMoney: { amount: string } } }>;
+          };
+        } | null;
       };
-      errors?: Array<{ message: string }>;
+      errors?: GraphQLError[];
     };
 
-    if (result.errors) {
-      console.error("[CustomerData] GraphQL errors:", result.errors);
+    // Without protected customer data access the rest of the customer
+    // still comes back; only denied fields are null
+    if (result.errors?.every(isProtectedFieldDenial) && result.data?.customer) {
+      log.info("Protected fields unavailable", {
+        fields: result.errors.map((error) => error.path?.join(".")),
+      });
+    } else if (result.errors) {
+      log.error("GraphQL errors", { errors: result.errors });
       return json<CustomerDataResponse>(
         { success: false, error: result.errors[0]?.message || "GraphQL error" },
         { status: 400 }
@@ -202,16 +297,18 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     const customer = result.data?.customer;
     if (!customer) {
-      console.log(`[CustomerData] Customer not found: ${customerGid}`);
+      log.info("Customer not found", { customerGid });
       return json<CustomerDataResponse>(
         { success: false, error: "Customer not found" },
         { status: 404 }
       );
     }
 
-    console.log(
-      `[CustomerData] Found customer ${customer.id}: ${customer.numberOfOrders} orders, ${customer.amountSpent.amount} ${customer.amountSpent.currencyCode}`
-    );
+    log.info("Found customer", {
+      numberOfOrders: customer.numberOfOrders,
+      amountSpent: customer.amountSpent.amount,
+      currency: customer.amountSpent.currencyCode,
+    });
 
     return json<CustomerDataResponse>({
       success: true,
@@ -220,14 +317,34 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         numberOfOrders: parseInt(customer.numberOfOrders, 10),
         amountSpent: parseFloat(customer.amountSpent.amount),
         currency: customer.amountSpent.currencyCode,
-        firstName: null,
-        lastName: null,
-        email: null,
+        firstName: customer.firstName ?? null,
+        lastName: customer.lastName ?? null,
         createdAt: customer.createdAt,
+        tags: customer.tags,
+        countryCode: customer.defaultAddress?.countryCodeV2 ?? null,
+        recentOrders: customer.orders.nodes.map((order) => ({
+          id: order.id,
+          createdAt: order.createdAt,
+          lineItems: order.lineItems.nodes.map((item) => ({
+            title: item.title,
+            quantity: item.quantity,
+            sku: item.sku || null,
+            productId: item.product?.id ?? null,
+            productType: item.product?.productType || null,
+          })),
+        })),
+        ordersBefore: customer.ordersBefore && {
+          count: customer.ordersBefore.nodes.length,
+          amountSpent: customer.ordersBefore.nodes.reduce(
+            (sum, order) =>
+              sum + parseFloat(order.totalPriceSet.shopMoney.amount),
+            0
+          ),
+        },
       },
     });
   } catch (e) {
-    console.error("[CustomerData] Error calling Shopify API:", e);
+    log.error("Error calling Shopify API", { error: e });
     return json<CustomerDataResponse>(
       { success: false, error: "Failed to fetch customer data" },
       { status: 500 }
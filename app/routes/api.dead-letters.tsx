@@ -0,0 +1,143 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { HMAC_HEADER, verifyRequestSignature } from "../utils/hmac.server";
+import { getRequestLogger } from "../utils/logger.server";
+import { upgradeBody } from "../../shared/contract";
+import { recordDeadLetter } from "../models/deadLetter.server";
+import type {
+  DeadLetterPayload,
+  DeadLetterResponse,
+  ErrorKind,
+} from "../../shared/types";
+
+/**
+ * Dead letter endpoint for Lambda
+ * Lambda posts order events here once retries are exhausted, so the
+ * merchant can replay them from the Failed orders page.
+ *
+ * POST /api/dead-letters
+ *
+ * Headers:
+ *   X-Shopify-Hmac-SHA256: HMAC signature of the request body
+ *
+ * @see DeadLetterPayload for the request body schema, plus a schemaVersion
+ * (missing means 1)
+ */
+
+const ERROR_KINDS: ErrorKind[] = [
+  "transient",
+  "network",
+  "validation",
+  "permanent",
+];
+
+// Only allow POST requests
+export const loader = () => {
+  return json({ error: "Method not allowed" }, { status: 405 });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  // Only allow POST
+  if (request.method !== "POST") {
+    return json<DeadLetterResponse>(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    );
+  }
+
+  const log = getRequestLogger(request, "dead-letters");
+
+  // Get the raw body for HMAC verification
+  const body = await request.text();
+
+  // Verify HMAC signature
+  const signature = verifyRequestSignature(
+    body,
+    request.headers.get(HMAC_HEADER)
+  );
+  if (!signature.valid) {
+    log.error(signature.reason);
+    return json<DeadLetterResponse>(
+      { success: false, error: signature.error },
+      { status: signature.status }
+    );
+  }
+
+  // Parse request body
+  let data: Partial<DeadLetterPayload>;
+  try {
+    data = JSON.parse(body);
+  } catch (e) {
+    log.error("Invalid JSON body", { error: e });
+    return json<DeadLetterResponse>(
+      { success: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  // Bring older Lambda requests up to the current contract
+  const upgraded = upgradeBody("deadLetter", data);
+  if (!upgraded.success) {
+    log.error(upgraded.error);
+    return json<DeadLetterResponse>(
+      { success: false, error: upgraded.error },
+      { status: 400 }
+    );
+  }
+  data = upgraded.data as Partial<DeadLetterPayload>;
+
+  if (!data.shop || !data.orderId || !data.orderName || !data.error) {
+    return json<DeadLetterResponse>(
+      {
+        success: false,
+        error: "Missing required fields: shop, orderId, orderName, error",
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!data.errorKind || !ERROR_KINDS.includes(data.errorKind)) {
+    return json<DeadLetterResponse>(
+      {
+        success: false,
+        error: `Invalid 'errorKind' field. Must be one of: ${ERROR_KINDS.join(", ")}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!data.event || typeof data.event !== "object") {
+    return json<DeadLetterResponse>(
+      { success: false, error: "Missing or invalid 'event' field" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const id = await recordDeadLetter({
+      deadLetterId: data.deadLetterId ?? null,
+      shop: data.shop,
+      orderId: data.orderId,
+      orderName: data.orderName,
+      errorKind: data.errorKind,
+      error: data.error,
+      attempts: typeof data.attempts === "number" ? data.attempts : 1,
+      event: data.event,
+    });
+
+    log.info(`Recorded dead letter ${id}`, {
+      shop: data.shop,
+      orderId: data.orderId,
+      orderName: data.orderName,
+      errorKind: data.errorKind,
+      error: data.error,
+    });
+    return json<DeadLetterResponse>({ success: true, id });
+  } catch (e) {
+    log.error("Database error", { error: e });
+    return json<DeadLetterResponse>(
+      { success: false, error: "Failed to record dead letter" },
+      { status: 500 }
+    );
+  }
+};
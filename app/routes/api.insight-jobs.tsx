@@ -0,0 +1,170 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { HMAC_HEADER, verifyRequestSignature } from "../utils/hmac.server";
+import { getRequestLogger } from "../utils/logger.server";
+import { upgradeBody } from "../../shared/contract";
+import {
+  claimNextJob,
+  completeJob,
+  failAbandonedJobs,
+  failJob,
+} from "../models/insightJob.server";
+import { refillBackfillQueues } from "../models/backfill.server";
+import type {
+  InsightJobRequest,
+  InsightJobResponse,
+} from "../../shared/types";
+
+/**
+ * Job queue endpoint for Lambda
+ * The scheduled Lambda run claims queued jobs (e.g. dead letter replays)
+ * one at a time and reports each outcome. Each claim also tops up the
+ * queue of running backfills.
+ *
+ * POST /api/insight-jobs
+ *
+ * Headers:
+ *   X-Shopify-Hmac-SHA256: HMAC signature of the request body
+ *
+ * @see InsightJobRequest for the request body schema, plus a schemaVersion
+ * (missing means 1)
+ */
+
+// Only allow POST requests
+export const loader = () => {
+  return json({ error: "Method not allowed" }, { status: 405 });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  // Only allow POST
+  if (request.method !== "POST") {
+    return json<InsightJobResponse>(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    );
+  }
+
+  const log = getRequestLogger(request, "insight-jobs");
+
+  // Get the raw body for HMAC verification
+  const body = await request.text();
+
+  // Verify HMAC signature
+  const signature = verifyRequestSignature(
+    body,
+    request.headers.get(HMAC_HEADER)
+  );
+  if (!signature.valid) {
+    log.error(signature.reason);
+    return json<InsightJobResponse>(
+      { success: false, error: signature.error },
+      { status: signature.status }
+    );
+  }
+
+  // Parse request body
+  let data: Partial<InsightJobRequest>;
+  try {
+    data = JSON.parse(body);
+  } catch (e) {
+    log.error("Invalid JSON body", { error: e });
+    return json<InsightJobResponse>(
+      { success: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  // Bring older Lambda requests up to the current contract
+  const upgraded = upgradeBody("insightJob", data);
+  if (!upgraded.success) {
+    log.error(upgraded.error);
+    return json<InsightJobResponse>(
+      { success: false, error: upgraded.error },
+      { status: 400 }
+    );
+  }
+  data = upgraded.data as Partial<InsightJobRequest>;
+
+  try {
+    switch (data.action) {
+      case "claim": {
+        if (typeof data.leaseMs !== "number") {
+          return json<InsightJobResponse>(
+            { success: false, error: "Claim requires 'leaseMs'" },
+            { status: 400 }
+          );
+        }
+
+        // A failed refill only delays the backfill; queued jobs still go out
+        try {
+          await refillBackfillQueues(log);
+        } catch (error) {
+          log.error("Failed to refill backfill queues", { error });
+        }
+        const abandoned = await failAbandonedJobs(data.leaseMs);
+        if (abandoned > 0) {
+          log.warn(`Failed ${abandoned} job(s) that timed out every attempt`);
+        }
+        const job = await claimNextJob(data.leaseMs);
+        if (job) {
+          log.info(`Claimed ${job.kind} job ${job.id}`, {
+            shop: job.shop,
+            jobId: job.id,
+            attempt: job.attempts,
+          });
+        }
+        return json<InsightJobResponse>({ success: true, job });
+      }
+
+      case "complete":
+        if (!data.id) break;
+        if (
+          !(await completeJob(
+            data.id,
+            data.attempts ?? null,
+            data.insightId ?? null,
+            data.skipReason ?? null
+          ))
+        ) {
+          log.warn("Ignored the outcome of a claim that was taken over", {
+            jobId: data.id,
+            attempt: data.attempts,
+          });
+        }
+        return json<InsightJobResponse>({ success: true });
+
+      case "fail":
+        if (!data.id) break;
+        if (
+          !(await failJob(
+            data.id,
+            data.attempts ?? null,
+            data.error || "Unknown error"
+          ))
+        ) {
+          log.warn("Ignored the outcome of a claim that was taken over", {
+            jobId: data.id,
+            attempt: data.attempts,
+          });
+        }
+        return json<InsightJobResponse>({ success: true });
+
+      default:
+        return json<InsightJobResponse>(
+          { success: false, error: "Invalid 'action' field. Must be one of: claim, complete, fail" },
+          { status: 400 }
+        );
+    }
+
+    return json<InsightJobResponse>(
+      { success: false, error: "Missing or invalid 'id' field" },
+      { status: 400 }
+    );
+  } catch (e) {
+    log.error("Database error", { error: e });
+    return json<InsightJobResponse>(
+      { success: false, error: "Failed to update job queue" },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,138 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { HMAC_HEADER, verifyRequestSignature } from "../utils/hmac.server";
+import { getRequestLogger } from "../utils/logger.server";
+import { upgradeBody } from "../../shared/contract";
+import {
+  claimEvent,
+  completeEvent,
+  failEvent,
+} from "../models/processingLedger.server";
+import type {
+  ProcessingLedgerRequest,
+  ProcessingLedgerResponse,
+} from "../../shared/types";
+
+/**
+ * Processing ledger endpoint for Lambda idempotency.
+ * Lambda claims each order event before calling the AI provider and
+ * reports the outcome afterwards, so EventBridge redeliveries are skipped.
+ *
+ * POST /api/processing-ledger
+ *
+ * Headers:
+ *   X-Shopify-Hmac-SHA256: HMAC signature of the request body
+ *
+ * @see ProcessingLedgerRequest for the request body schema, plus a schemaVersion
+ * (missing means 1)
+ */
+
+// Only allow POST requests
+export const loader = () => {
+  return json({ error: "Method not allowed" }, { status: 405 });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  // Only allow POST
+  if (request.method !== "POST") {
+    return json<ProcessingLedgerResponse>(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    );
+  }
+
+  const log = getRequestLogger(request, "processing-ledger");
+
+  // Get the raw body for HMAC verification
+  const body = await request.text();
+
+  // Verify HMAC signature
+  const signature = verifyRequestSignature(
+    body,
+    request.headers.get(HMAC_HEADER)
+  );
+  if (!signature.valid) {
+    log.error(signature.reason);
+    return json<ProcessingLedgerResponse>(
+      { success: false, error: signature.error },
+      { status: signature.status }
+    );
+  }
+
+  // Parse request body
+  let data: Partial<ProcessingLedgerRequest>;
+  try {
+    data = JSON.parse(body);
+  } catch (e) {
+    log.error("Invalid JSON body", { error: e });
+    return json<ProcessingLedgerResponse>(
+      { success: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  // Bring older Lambda requests up to the current contract
+  const upgraded = upgradeBody("ledger", data);
+  if (!upgraded.success) {
+    log.error(upgraded.error);
+    return json<ProcessingLedgerResponse>(
+      { success: false, error: upgraded.error },
+      { status: 400 }
+    );
+  }
+  data = upgraded.data as Partial<ProcessingLedgerRequest>;
+
+  if (!data.key || typeof data.key !== "string") {
+    return json<ProcessingLedgerResponse>(
+      { success: false, error: "Missing or invalid 'key' field" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    switch (data.action) {
+      case "claim": {
+        if (!data.shop || !data.orderId || typeof data.leaseMs !== "number") {
+          return json<ProcessingLedgerResponse>(
+            { success: false, error: "Claim requires 'shop', 'orderId' and 'leaseMs'" },
+            { status: 400 }
+          );
+        }
+
+        const claim = await claimEvent(
+          data.key,
+          data.shop,
+          data.orderId,
+          data.leaseMs
+        );
+        log.info(`${claim.claimed ? "Claimed" : "Rejected"} ${data.key}`, {
+          shop: data.shop,
+          orderId: data.orderId,
+          status: claim.entry.status,
+          attempt: claim.entry.attempts,
+        });
+        return json<ProcessingLedgerResponse>({ success: true, claim });
+      }
+
+      case "complete":
+        await completeEvent(data.key, data.insightId ?? null, data.note ?? null);
+        return json<ProcessingLedgerResponse>({ success: true });
+
+      case "fail":
+        await failEvent(data.key, data.error || "Unknown error");
+        return json<ProcessingLedgerResponse>({ success: true });
+
+      default:
+        return json<ProcessingLedgerResponse>(
+          { success: false, error: "Invalid 'action' field. Must be one of: claim, complete, fail" },
+          { status: 400 }
+        );
+    }
+  } catch (e) {
+    log.error("Database error", { error: e });
+    return json<ProcessingLedgerResponse>(
+      { success: false, error: "Failed to update processing ledger" },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,124 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { HMAC_HEADER, verifyRequestSignature } from "../utils/hmac.server";
+import { getRequestLogger } from "../utils/logger.server";
+import { upgradeBody } from "../../shared/contract";
+import { getShopSettings } from "../models/shopSettings.server";
+import { getActivePromptTemplate } from "../models/promptTemplate.server";
+import { getActivePromptVariants } from "../models/experiment.server";
+import { getFeedbackGuidance } from "../models/followupEdit.server";
+import { getBudgetStatus } from "../models/usage.server";
+import { getPlanStatus } from "../models/billing.server";
+import type { ShopSettingsResponse } from "../../shared/types";
+
+/**
+ * Shop settings endpoint for Lambda to read per-shop analysis settings.
+ * Shops that never saved settings get the defaults. The shop's prompt
+ * template override is included (null means the built-in template), and
+ * so are the variants of a running prompt experiment, the guidance
+ * from the merchant's edits to earlier emails, this month's AI spend
+ * against the shop's budget and the shop's plan allowance.
+ *
+ * POST /api/shop-settings
+ *
+ * Headers:
+ *   X-Shopify-Hmac-SHA256: HMAC signature of the request body
+ *
+ * Body (JSON):
+ *   - schemaVersion: number - contract version (missing means 1)
+ *   - shop: string (required) - Shopify domain
+ */
+
+// Only allow POST requests
+export const loader = () => {
+  return json({ error: "Method not allowed" }, { status: 405 });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  // Only allow POST
+  if (request.method !== "POST") {
+    return json<ShopSettingsResponse>(
+      { success: false, error: "Method not allowed" },
+      { status: 405 }
+    );
+  }
+
+  const log = getRequestLogger(request, "shop-settings");
+
+  // Get the raw body for HMAC verification
+  const body = await request.text();
+
+  // Verify HMAC signature
+  const signature = verifyRequestSignature(
+    body,
+    request.headers.get(HMAC_HEADER)
+  );
+  if (!signature.valid) {
+    log.error(signature.reason);
+    return json<ShopSettingsResponse>(
+      { success: false, error: signature.error },
+      { status: signature.status }
+    );
+  }
+
+  // Parse request body
+  let data: { shop?: string };
+  try {
+    data = JSON.parse(body);
+  } catch (e) {
+    log.error("Invalid JSON body", { error: e });
+    return json<ShopSettingsResponse>(
+      { success: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  // Bring older Lambda requests up to the current contract
+  const upgraded = upgradeBody("shopSettings", data);
+  if (!upgraded.success) {
+    log.error(upgraded.error);
+    return json<ShopSettingsResponse>(
+      { success: false, error: upgraded.error },
+      { status: 400 }
+    );
+  }
+  data = upgraded.data as { shop?: string };
+
+  const { shop } = data;
+
+  if (!shop || typeof shop !== "string") {
+    return json<ShopSettingsResponse>(
+      { success: false, error: "Missing or invalid 'shop' field" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [settings, promptTemplate, promptVariants, feedbackGuidance] =
+      await Promise.all([
+        getShopSettings(shop),
+        getActivePromptTemplate(shop),
+        getActivePromptVariants(shop),
+        getFeedbackGuidance(shop),
+      ]);
+    const [budget, plan] = await Promise.all([
+      getBudgetStatus(shop, settings),
+      getPlanStatus(shop),
+    ]);
+    return json<ShopSettingsResponse>({
+      success: true,
+      settings,
+      promptTemplate,
+      promptVariants,
+      feedbackGuidance,
+      budget,
+      plan,
+    });
+  } catch (e) {
+    log.error("Database error", { error: e });
+    return json<ShopSettingsResponse>(
+      { success: false, error: "Failed to load settings" },
+      { status: 500 }
+    );
+  }
+};
@@ -1,334 +1,297 @@
-import { useEffect } from "react";
-import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
-import { useFetcher } from "@remix-run/react";
+import { useCallback, useEffect, useState } from "react";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import {
+  useLoaderData,
+  useNavigate,
+  useNavigation,
+  useSearchParams,
+} from "@remix-run/react";
 import {
   Page,
-  Layout,
-  Text,
   Card,
-  Button,
-  BlockStack,
-  Box,
-  List,
-  Link,
-  InlineStack,
+  ChoiceList,
+  EmptyState,
+  Filters,
+  FormLayout,
+  IndexTable,
+  Text,
+  TextField,
 } from "@shopify/polaris";
-import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
+import { TitleBar } from "@shopify/app-bridge-react";
 import { authenticate } from "../shopify.server";
+import {
+  CUSTOMER_TYPES,
+  INSIGHT_STATUSES,
+  listInsights,
+  parseInsightCursor,
+  parseInsightFilters,
+} from "../models/insight.server";
+import {
+  CustomerTypeBadge,
+  InsightStatusBadge,
+  customerTypeLabel,
+} from "../components/InsightBadges";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
+
+  const params = new URL(request.url).searchParams;
+  const filters = parseInsightFilters(params);
+  const page = await listInsights(
+    session.shop,
+    filters,
+    parseInsightCursor(params)
+  );
 
-  return null;
+  return { ...page, filters };
 };
 
-export const action = async ({ request }: ActionFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
-  const color = ["Red", "Orange", "Yellow", "Green"][
-    Math.floor(Math.random() * 4)
-  ];
-  const response = await admin.graphql(
-    `#graphql
-      mutation populateProduct($product: ProductCreateInput!) {
-        productCreate(product: $product) {
-          product {
-            id
-            title
-            handle
-            status
-            variants(first: 10) {
-              edges {
-                node {
-                  id
-                  price
-                  barcode
-                  createdAt
-                }
-              }
-            }
-          }
-        }
-      }`,
-    {
-      variables: {
-        product: {
-          title: `${color} Snowboard`,
+// Params that select a page; dropped whenever the filters change
+const CURSOR_PARAMS = ["after", "before"];
+
+export default function Index() {
+  const { insights, hasNext, hasPrevious, filters } =
+    useLoaderData<typeof loader>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigation = useNavigation();
+  const navigate = useNavigate();
+
+  const [minValue, setMinValue] = useState(searchParams.get("minValue") ?? "");
+  const [maxValue, setMaxValue] = useState(searchParams.get("maxValue") ?? "");
+
+  const updateParams = useCallback(
+    (update: (params: URLSearchParams) => void) => {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          CURSOR_PARAMS.forEach((key) => next.delete(key));
+          update(next);
+          return next;
         },
-      },
+        { replace: true }
+      );
     },
+    [setSearchParams]
   );
-  const responseJson = await response.json();
-
-  const product = responseJson.data!.productCreate!.product!;
-  const variantId = product.variants.edges[0]!.node!.id!;
 
-  const variantResponse = await admin.graphql(
-    `#graphql
-    mutation shopifyRemixTemplateUpdateVariant($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
-      productVariantsBulkUpdate(productId: $productId, variants: $variants) {
-        productVariants {
-          id
-          price
-          barcode
-          createdAt
-        }
-      }
-    }`,
-    {
-      variables: {
-        productId: product.id,
-        variants: [{ id: variantId, price: "100.00" }],
-      },
-    },
+  const setListParam = useCallback(
+    (key: string, values: string[]) =>
+      updateParams((params) => {
+        params.delete(key);
+        values.forEach((value) => params.append(key, value));
+      }),
+    [updateParams]
   );
 
-  const variantResponseJson = await variantResponse.json();
+  // Only hit the loader once the merchant stops typing an amount
+  useEffect(() => {
+    if (
+      minValue === (searchParams.get("minValue") ?? "") &&
+      maxValue === (searchParams.get("maxValue") ?? "")
+    ) {
+      return;
+    }
 
-  return {
-    product: responseJson!.data!.productCreate!.product,
-    variant:
-      variantResponseJson!.data!.productVariantsBulkUpdate!.productVariants,
-  };
-};
+    const timeout = setTimeout(() => {
+      updateParams((params) => {
+        if (minValue) params.set("minValue", minValue);
+        else params.delete("minValue");
+        if (maxValue) params.set("maxValue", maxValue);
+        else params.delete("maxValue");
+      });
+    }, 400);
 
-export default function Index() {
-  const fetcher = useFetcher<typeof action>();
+    return () => clearTimeout(timeout);
+  }, [minValue, maxValue, searchParams, updateParams]);
 
-  const shopify = useAppBridge();
-  const isLoading =
-    ["loading", "submitting"].includes(fetcher.state) &&
-    fetcher.formMethod === "POST";
-  const productId = fetcher.data?.product?.id.replace(
-    "gid://shopify/Product/",
-    "",
-  );
+  const clearOrderValue = useCallback(() => {
+    setMinValue("");
+    setMaxValue("");
+  }, []);
 
-  useEffect(() => {
-    if (productId) {
-      shopify.toast.show("Product created");
-    }
-  }, [productId, shopify]);
-  const generateProduct = () => fetcher.submit({}, { method: "POST" });
+  const clearAll = useCallback(() => {
+    setMinValue("");
+    setMaxValue("");
+    setSearchParams(new URLSearchParams(), { replace: true });
+  }, [setSearchParams]);
+
+  const goToPage = (key: "after" | "before", id: string) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      CURSOR_PARAMS.forEach((param) => next.delete(param));
+      next.set(key, id);
+      return next;
+    });
+  };
+
+  const appliedFilters = [];
+  if (filters.customerTypes.length > 0) {
+    appliedFilters.push({
+      key: "customerType",
+      label: `Customer type: ${filters.customerTypes.map(customerTypeLabel).join(", ")}`,
+      onRemove: () => setListParam("customerType", []),
+    });
+  }
+  if (filters.statuses.length > 0) {
+    appliedFilters.push({
+      key: "status",
+      label: `Status: ${filters.statuses.join(", ")}`,
+      onRemove: () => setListParam("status", []),
+    });
+  }
+  if (filters.minOrderValue !== null || filters.maxOrderValue !== null) {
+    appliedFilters.push({
+      key: "orderValue",
+      label: `Order value: ${filters.minOrderValue ?? 0} – ${filters.maxOrderValue ?? "any"}`,
+      onRemove: clearOrderValue,
+    });
+  }
+
+  const rowMarkup = insights.map((insight, index) => (
+    <IndexTable.Row
+      id={insight.id}
+      key={insight.id}
+      position={index}
+      onClick={() => navigate(`/app/insights/${insight.id}`)}
+    >
+      <IndexTable.Cell>
+        <Text variant="bodyMd" fontWeight="semibold" as="span">
+          {insight.orderName}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        {new Date(insight.createdAt).toLocaleString()}
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <div style={{ maxWidth: "28rem", whiteSpace: "normal" }}>
+          <Text as="span" variant="bodyMd" truncate>
+            {insight.insightText}
+          </Text>
+        </div>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <CustomerTypeBadge customerType={insight.customerType} />
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text as="span" alignment="end" numeric>
+          {insight.orderValue !== null ? insight.orderValue.toFixed(2) : "—"}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <InsightStatusBadge status={insight.status} />
+      </IndexTable.Cell>
+    </IndexTable.Row>
+  ));
 
   return (
     <Page>
-      <TitleBar title="Remix app template">
-        <button variant="primary" onClick={generateProduct}>
-          Generate a product
-        </button>
-      </TitleBar>
-      <BlockStack gap="500">
-        <Layout>
-          <Layout.Section>
-            <Card>
-              <BlockStack gap="500">
-                <BlockStack gap="200">
-                  <Text as="h2" variant="headingMd">
-                    Congrats on creating a new Shopify app 🎉
-                  </Text>
-                  <Text variant="bodyMd" as="p">
-                    This embedded app template uses{" "}
-                    <Link
-                      url="https://shopify.dev/docs/apps/tools/app-bridge"
-                      target="_blank"
-                      removeUnderline
-                    >
-                      App Bridge
-                    </Link>{" "}
-                    interface examples like an{" "}
-                    <Link url="/app/additional" removeUnderline>
-                      additional page in the app nav
-                    </Link>
-                    , as well as an{" "}
-                    <Link
-                      url="https://shopify.dev/docs/api/admin-graphql"
-                      target="_blank"
-                      removeUnderline
-                    >
-                      Admin GraphQL
-                    </Link>{" "}
-                    mutation demo, to provide a starting point for app
-                    development.
-                  </Text>
-                </BlockStack>
-                <BlockStack gap="200">
-                  <Text as="h3" variant="headingMd">
-                    Get started with products
-                  </Text>
-                  <Text as="p" variant="bodyMd">
-                    Generate a product with GraphQL and get the JSON output for
-                    that product. Learn more about the{" "}
-                    <Link
-                      url="https://shopify.dev/docs/api/admin-graphql/latest/mutations/productCreate"
-                      target="_blank"
-                      removeUnderline
-                    >
-                      productCreate
-                    </Link>{" "}
-                    mutation in our API references.
-                  </Text>
-                </BlockStack>
-                <InlineStack gap="300">
-                  <Button loading={isLoading} onClick={generateProduct}>
-                    Generate a product
-                  </Button>
-                  {fetcher.data?.product && (
-                    <Button
-                      url={`shopify:admin/products/${productId}`}
-                      target="_blank"
-                      variant="plain"
-                    >
-                      View product
-                    </Button>
-                  )}
-                </InlineStack>
-                {fetcher.data?.product && (
-                  <>
-                    <Text as="h3" variant="headingMd">
-                      {" "}
-                      productCreate mutation
-                    </Text>
-                    <Box
-                      padding="400"
-                      background="bg-surface-active"
-                      borderWidth="025"
-                      borderRadius="200"
-                      borderColor="border"
-                      overflowX="scroll"
-                    >
-                      <pre style={{ margin: 0 }}>
-                        <code>
-                          {JSON.stringify(fetcher.data.product, null, 2)}
-                        </code>
-                      </pre>
-                    </Box>
-                    <Text as="h3" variant="headingMd">
-                      {" "}
-                      productVariantsBulkUpdate mutation
-                    </Text>
-                    <Box
-                      padding="400"
-                      background="bg-surface-active"
-                      borderWidth="025"
-                      borderRadius="200"
-                      borderColor="border"
-                      overflowX="scroll"
-                    >
-                      <pre style={{ margin: 0 }}>
-                        <code>
-                          {JSON.stringify(fetcher.data.variant, null, 2)}
-                        </code>
-                      </pre>
-                    </Box>
-                  </>
-                )}
-              </BlockStack>
-            </Card>
-          </Layout.Section>
-          <Layout.Section variant="oneThird">
-            <BlockStack gap="500">
-              <Card>
-                <BlockStack gap="200">
-                  <Text as="h2" variant="headingMd">
-                    App template specs
-                  </Text>
-                  <BlockStack gap="200">
-                    <InlineStack align="space-between">
-                      <Text as="span" variant="bodyMd">
-                        Framework
-                      </Text>
-                      <Link
-                        url="https://remix.run"
-                        target="_blank"
-                        removeUnderline
-                      >
-                        Remix
-                      </Link>
-                    </InlineStack>
-                    <InlineStack align="space-between">
-                      <Text as="span" variant="bodyMd">
-                        Database
-                      </Text>
-                      <Link
-                        url="https://www.prisma.io/"
-                        target="_blank"
-                        removeUnderline
-                      >
-                        Prisma
-                      </Link>
-                    </InlineStack>
-                    <InlineStack align="space-between">
-                      <Text as="span" variant="bodyMd">
-                        Interface
-                      </Text>
-                      <span>
-                        <Link
-                          url="https://polaris.shopify.com"
-                          target="_blank"
-                          removeUnderline
-                        >
-                          Polaris
-                        </Link>
-                        {", "}
-                        <Link
-                          url="https://shopify.dev/docs/apps/tools/app-bridge"
-                          target="_blank"
-                          removeUnderline
-                        >
-                          App Bridge
-                        </Link>
-                      </span>
-                    </InlineStack>
-                    <InlineStack align="space-between">
-                      <Text as="span" variant="bodyMd">
-                        API
-                      </Text>
-                      <Link
-                        url="https://shopify.dev/docs/api/admin-graphql"
-                        target="_blank"
-                        removeUnderline
-                      >
-                        GraphQL API
-                      </Link>
-                    </InlineStack>
-                  </BlockStack>
-                </BlockStack>
-              </Card>
-              <Card>
-                <BlockStack gap="200">
-                  <Text as="h2" variant="headingMd">
-                    Next steps
-                  </Text>
-                  <List>
-                    <List.Item>
-                      Build an{" "}
-                      <Link
-                        url="https://shopify.dev/docs/apps/getting-started/build-app-example"
-                        target="_blank"
-                        removeUnderline
-                      >
-                        {" "}
-                        example app
-                      </Link>{" "}
-                      to get started
-                    </List.Item>
-                    <List.Item>
-                      Explore Shopify’s API with{" "}
-                      <Link
-                        url="https://shopify.dev/docs/apps/tools/graphiql-admin-api"
-                        target="_blank"
-                        removeUnderline
-                      >
-                        GraphiQL
-                      </Link>
-                    </List.Item>
-                  </List>
-                </BlockStack>
-              </Card>
-            </BlockStack>
-          </Layout.Section>
-        </Layout>
-      </BlockStack>
+      <TitleBar title="Order insights" />
+      <Card padding="0">
+        <Filters
+          queryValue=""
+          hideQueryField
+          onQueryChange={() => {}}
+          onQueryClear={() => {}}
+          onClearAll={clearAll}
+          appliedFilters={appliedFilters}
+          filters={[
+            {
+              key: "customerType",
+              label: "Customer type",
+              shortcut: true,
+              filter: (
+                <ChoiceList
+                  title="Customer type"
+                  titleHidden
+                  allowMultiple
+                  choices={CUSTOMER_TYPES.map((value) => ({
+                    label: customerTypeLabel(value),
+                    value,
+                  }))}
+                  selected={filters.customerTypes}
+                  onChange={(values) => setListParam("customerType", values)}
+                />
+              ),
+            },
+            {
+              key: "status",
+              label: "Status",
+              shortcut: true,
+              filter: (
+                <ChoiceList
+                  title="Status"
+                  titleHidden
+                  allowMultiple
+                  choices={INSIGHT_STATUSES.map((value) => ({
+                    label: value.charAt(0).toUpperCase() + value.slice(1),
+                    value,
+                  }))}
+                  selected={filters.statuses}
+                  onChange={(values) => setListParam("status", values)}
+                />
+              ),
+            },
+            {
+              key: "orderValue",
+              label: "Order value",
+              filter: (
+                <FormLayout>
+                  <FormLayout.Group condensed>
+                    <TextField
+                      label="Minimum"
+                      type="number"
+                      min={0}
+                      value={minValue}
+                      onChange={setMinValue}
+                      autoComplete="off"
+                    />
+                    <TextField
+                      label="Maximum"
+                      type="number"
+                      min={0}
+                      value={maxValue}
+                      onChange={setMaxValue}
+                      autoComplete="off"
+                    />
+                  </FormLayout.Group>
+                </FormLayout>
+              ),
+            },
+          ]}
+        />
+        <IndexTable
+          resourceName={{ singular: "insight", plural: "insights" }}
+          itemCount={insights.length}
+          selectable={false}
+          loading={navigation.state === "loading"}
+          emptyState={
+            <EmptyState
+              heading="No insights yet"
+              image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+            >
+              <p>
+                Insights appear here as soon as new orders are analyzed.
+              </p>
+            </EmptyState>
+          }
+          headings={[
+            { title: "Order" },
+            { title: "Date" },
+            { title: "Insight" },
+            { title: "Customer" },
+            { title: "Value", alignment: "end" },
+            { title: "Status" },
+          ]}
+          pagination={{
+            hasNext,
+            hasPrevious,
+            onNext: () => goToPage("after", insights[insights.length - 1].id),
+            onPrevious: () => goToPage("before", insights[0].id),
+          }}
+        >
+          {rowMarkup}
+        </IndexTable>
+      </Card>
     </Page>
   );
 }
@@ -0,0 +1,310 @@
+import { useEffect, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import {
+  useActionData,
+  useLoaderData,
+  useNavigation,
+  useSubmit,
+} from "@remix-run/react";
+import {
+  Badge,
+  Banner,
+  BlockStack,
+  Button,
+  Card,
+  EmptyState,
+  FormLayout,
+  IndexTable,
+  InlineStack,
+  Layout,
+  Page,
+  ProgressBar,
+  Select,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import type {
+  BackfillAction,
+  BackfillFormErrors,
+} from "../models/backfill.server";
+import {
+  DEFAULT_BACKFILL_CONCURRENCY,
+  DEFAULT_BACKFILL_DAYS,
+  MAX_BACKFILL_CONCURRENCY,
+  listBackfillRuns,
+  parseBackfillForm,
+  startBackfill,
+  updateBackfillStatus,
+} from "../models/backfill.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  return { runs: await listBackfillRuns(session.shop) };
+};
+
+type ActionResult = {
+  message: string | null;
+  errors: BackfillFormErrors | null;
+};
+
+export const action = async ({
+  request,
+}: ActionFunctionArgs): Promise<ActionResult> => {
+  const { session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  const intent = String(formData.get("intent"));
+
+  if (intent === "start") {
+    const result = parseBackfillForm(formData);
+    if (result.errors) {
+      return { message: null, errors: result.errors };
+    }
+
+    const started = await startBackfill(session.shop, result.range);
+    if (!started.started) {
+      return { message: null, errors: { form: started.error } };
+    }
+    return { message: "Backfill started", errors: null };
+  }
+
+  if (intent === "pause" || intent === "resume" || intent === "cancel") {
+    const updated = await updateBackfillStatus(
+      session.shop,
+      String(formData.get("id")),
+      intent,
+    );
+    return {
+      message: updated ? STATUS_MESSAGES[intent] : null,
+      errors: updated ? null : { form: "This backfill can no longer change" },
+    };
+  }
+
+  return { message: null, errors: { form: "Unknown action" } };
+};
+
+const STATUS_MESSAGES: Record<BackfillAction, string> = {
+  pause: "Backfill paused",
+  resume: "Backfill resumed",
+  cancel: "Backfill cancelled",
+};
+
+const STATUS_BADGES: Record<
+  string,
+  { label: string; tone?: "attention" | "success" | "info" }
+> = {
+  running: { label: "Running", tone: "info" },
+  paused: { label: "Paused", tone: "attention" },
+  completed: { label: "Completed", tone: "success" },
+  cancelled: { label: "Cancelled" },
+};
+
+function toDateInput(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export default function BackfillPage() {
+  const { runs } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const shopify = useAppBridge();
+
+  const [rangeStart, setRangeStart] = useState(() =>
+    toDateInput(new Date(Date.now() - DEFAULT_BACKFILL_DAYS * 86400000)),
+  );
+  const [rangeEnd, setRangeEnd] = useState(() => toDateInput(new Date()));
+  const [concurrency, setConcurrency] = useState(
+    String(DEFAULT_BACKFILL_CONCURRENCY),
+  );
+
+  const errors = actionData?.errors ?? {};
+  const isSubmitting = navigation.state === "submitting";
+  const hasActiveRun = runs.some(
+    (run) => run.status === "running" || run.status === "paused",
+  );
+
+  useEffect(() => {
+    if (actionData?.message) {
+      shopify.toast.show(actionData.message);
+    }
+  }, [actionData, shopify]);
+
+  const start = () =>
+    submit(
+      { intent: "start", rangeStart, rangeEnd, concurrency },
+      { method: "post" },
+    );
+
+  const changeStatus = (id: string, intent: BackfillAction) =>
+    submit({ intent, id }, { method: "post" });
+
+  const rowMarkup = runs.map((run, index) => {
+    const status = STATUS_BADGES[run.status] ?? { label: run.status };
+    const processed = run.ordersCompleted + run.ordersFailed;
+    const toAnalyze = run.ordersFound - run.ordersSkipped;
+    const progress = run.exhausted
+      ? toAnalyze > 0
+        ? (processed / toAnalyze) * 100
+        : 100
+      : 0;
+
+    return (
+      <IndexTable.Row id={run.id} key={run.id} position={index}>
+        <IndexTable.Cell>
+          <Text variant="bodyMd" fontWeight="semibold" as="span">
+            {new Date(run.rangeStart).toLocaleDateString()} –{" "}
+            {new Date(run.rangeEnd).toLocaleDateString()}
+          </Text>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <Badge tone={status.tone}>{status.label}</Badge>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <BlockStack gap="100">
+            {run.exhausted ? (
+              <ProgressBar progress={progress} size="small" />
+            ) : (
+              <Text as="span" variant="bodySm" tone="subdued">
+                Still finding orders
+              </Text>
+            )}
+            <Text as="span" variant="bodySm" tone="subdued">
+              {run.ordersCompleted} analyzed, {run.ordersFailed} failed,{" "}
+              {run.ordersPending} waiting, {run.ordersSkipped} already analyzed
+            </Text>
+            {run.lastError && (
+              <Text as="span" variant="bodySm" tone="critical">
+                {run.lastError}
+              </Text>
+            )}
+          </BlockStack>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <Text as="span" alignment="end" numeric>
+            {run.concurrency}
+          </Text>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <InlineStack gap="200" align="end">
+            {run.status === "running" && (
+              <Button onClick={() => changeStatus(run.id, "pause")}>
+                Pause
+              </Button>
+            )}
+            {run.status === "paused" && (
+              <Button onClick={() => changeStatus(run.id, "resume")}>
+                Resume
+              </Button>
+            )}
+            {(run.status === "running" || run.status === "paused") && (
+              <Button
+                tone="critical"
+                variant="plain"
+                onClick={() => changeStatus(run.id, "cancel")}
+              >
+                Cancel
+              </Button>
+            )}
+          </InlineStack>
+        </IndexTable.Cell>
+      </IndexTable.Row>
+    );
+  });
+
+  return (
+    <Page>
+      <TitleBar title="Backfill" />
+      <Layout>
+        <Layout.AnnotatedSection
+          title="Analyze past orders"
+          description="Generate insights for orders placed before the app was installed. Orders that already have an insight are skipped."
+        >
+          <Card>
+            <FormLayout>
+              {errors.form && (
+                <Banner tone="critical">
+                  <p>{errors.form}</p>
+                </Banner>
+              )}
+              <FormLayout.Group>
+                <TextField
+                  label="From"
+                  type="date"
+                  value={rangeStart}
+                  onChange={setRangeStart}
+                  error={errors.rangeStart}
+                  autoComplete="off"
+                />
+                <TextField
+                  label="To"
+                  type="date"
+                  value={rangeEnd}
+                  onChange={setRangeEnd}
+                  error={errors.rangeEnd}
+                  autoComplete="off"
+                />
+              </FormLayout.Group>
+              <Select
+                label="Orders analyzed at once"
+                options={Array.from(
+                  { length: MAX_BACKFILL_CONCURRENCY },
+                  (_, i) => String(i + 1),
+                )}
+                value={concurrency}
+                onChange={setConcurrency}
+                helpText="Lower values leave more AI capacity for new orders."
+                error={errors.concurrency}
+              />
+              <Text as="p" variant="bodySm" tone="subdued">
+                Shopify only shares orders from the last{" "}
+                {DEFAULT_BACKFILL_DAYS} days unless the app has access to all
+                orders.
+              </Text>
+              <InlineStack align="end">
+                <Button
+                  variant="primary"
+                  onClick={start}
+                  loading={isSubmitting}
+                  disabled={hasActiveRun}
+                >
+                  Start backfill
+                </Button>
+              </InlineStack>
+            </FormLayout>
+          </Card>
+        </Layout.AnnotatedSection>
+        <Layout.Section>
+          <Card padding="0">
+            <IndexTable
+              resourceName={{ singular: "backfill", plural: "backfills" }}
+              itemCount={runs.length}
+              selectable={false}
+              loading={navigation.state !== "idle"}
+              emptyState={
+                <EmptyState
+                  heading="No backfills yet"
+                  image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                >
+                  <p>Backfills you start will show their progress here.</p>
+                </EmptyState>
+              }
+              headings={[
+                { title: "Orders from" },
+                { title: "Status" },
+                { title: "Progress" },
+                { title: "At once", alignment: "end" },
+                { title: "" },
+              ]}
+            >
+              {rowMarkup}
+            </IndexTable>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,242 @@
+import { useEffect } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import {
+  useActionData,
+  useLoaderData,
+  useNavigation,
+  useSubmit,
+} from "@remix-run/react";
+import {
+  Badge,
+  Banner,
+  BlockStack,
+  Button,
+  Card,
+  InlineStack,
+  Layout,
+  List,
+  Page,
+  ProgressBar,
+  Text,
+} from "@shopify/polaris";
+import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import type { PlanDefinition } from "../models/billing.server";
+import {
+  GRACE_PERIOD_DAYS,
+  PLANS,
+  PRO_PLAN,
+  getPlanStatus,
+  getShopPlan,
+  isTestBilling,
+  recordSubscriptionStatus,
+  syncSubscriptions,
+} from "../models/billing.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session, billing } = await authenticate.admin(request);
+
+  // Also catches the return from the charge approval page
+  const { appSubscriptions } = await billing.check({
+    plans: [PRO_PLAN],
+    isTest: isTestBilling(),
+  });
+  await syncSubscriptions(session.shop, appSubscriptions);
+
+  const [shopPlan, status] = await Promise.all([
+    getShopPlan(session.shop),
+    getPlanStatus(session.shop),
+  ]);
+
+  return {
+    plans: Object.values(PLANS),
+    currentPlan: shopPlan.plan.id,
+    state: shopPlan.state,
+    graceEndsAt: shopPlan.graceEndsAt,
+    status,
+  };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, billing } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  const intent = String(formData.get("intent"));
+
+  if (intent === "upgrade") {
+    // Redirects to Shopify's charge approval page
+    await billing.request({ plan: PRO_PLAN, isTest: isTestBilling() });
+  }
+
+  if (intent === "cancel") {
+    const { state, subscriptionId } = await getShopPlan(session.shop);
+    if (state !== "active" || !subscriptionId) {
+      return { message: null, error: "There is no subscription to cancel" };
+    }
+
+    const cancelled = await billing.cancel({
+      subscriptionId,
+      isTest: isTestBilling(),
+      prorate: true,
+    });
+    // Cancelled on purpose, so no grace period
+    await recordSubscriptionStatus(
+      session.shop,
+      { id: cancelled.id, name: cancelled.name, status: "CANCELLED" },
+      undefined,
+      { grace: false }
+    );
+    return { message: "Subscription cancelled", error: null };
+  }
+
+  return { message: null, error: "Unknown action" };
+};
+
+function describeLimit(plan: Pick<PlanDefinition, "monthlyInsights">) {
+  return plan.monthlyInsights === null
+    ? "Unlimited insights"
+    : `${plan.monthlyInsights} insights a month`;
+}
+
+export default function BillingPage() {
+  const { plans, currentPlan, state, graceEndsAt, status } =
+    useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const shopify = useAppBridge();
+
+  const isSubmitting = navigation.state === "submitting";
+
+  useEffect(() => {
+    if (actionData?.message) {
+      shopify.toast.show(actionData.message);
+    }
+  }, [actionData, shopify]);
+
+  return (
+    <Page>
+      <TitleBar title="Plan" />
+      <Layout>
+        {(actionData?.error || state === "grace" || status.limitReached) && (
+          <Layout.Section>
+            <BlockStack gap="300">
+              {actionData?.error && (
+                <Banner tone="critical">
+                  <p>{actionData.error}</p>
+                </Banner>
+              )}
+              {state === "grace" && graceEndsAt && (
+                <Banner tone="warning" title="Your subscription has ended">
+                  <p>
+                    {PLANS.pro.name} features stay on for {GRACE_PERIOD_DAYS}{" "}
+                    days, until {new Date(graceEndsAt).toLocaleString()}.
+                    Subscribe again to keep them.
+                  </p>
+                </Banner>
+              )}
+              {status.limitReached && (
+                <Banner
+                  tone="warning"
+                  title="This month's insights are used up"
+                >
+                  <p>
+                    New orders aren't analyzed and insights can't be
+                    regenerated until next month. Upgrade to{" "}
+                    {PLANS.pro.name} to analyze every order.
+                  </p>
+                </Banner>
+              )}
+            </BlockStack>
+          </Layout.Section>
+        )}
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                Insights this month
+              </Text>
+              <Text as="p" variant="bodyMd">
+                {status.insightLimit === null
+                  ? `${status.insightsThisMonth} insights generated`
+                  : `${status.insightsThisMonth} of ${status.insightLimit} insights generated`}
+              </Text>
+              {status.insightLimit !== null && (
+                <ProgressBar
+                  progress={Math.min(
+                    100,
+                    (status.insightsThisMonth / status.insightLimit) * 100,
+                  )}
+                  tone={status.limitReached ? "critical" : "primary"}
+                  size="small"
+                />
+              )}
+              <Text as="p" variant="bodySm" tone="subdued">
+                Counted per calendar month (UTC). Regenerating an insight
+                counts as another one.
+              </Text>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+        {plans.map((plan) => (
+          <Layout.Section key={plan.id} variant="oneHalf">
+            <Card>
+              <BlockStack gap="400">
+                <InlineStack align="space-between" blockAlign="center">
+                  <Text as="h2" variant="headingMd">
+                    {plan.name}
+                  </Text>
+                  {plan.id === currentPlan && (
+                    <Badge tone={state === "grace" ? "warning" : "success"}>
+                      {state === "grace" ? "Ending" : "Current plan"}
+                    </Badge>
+                  )}
+                </InlineStack>
+                <Text as="p" variant="headingLg">
+                  {plan.price === 0 ? "Free" : `$${plan.price} / 30 days`}
+                </Text>
+                <List>
+                  <List.Item>{describeLimit(plan)}</List.Item>
+                  <List.Item>
+                    {plan.followupEmails
+                      ? "Send follow-up emails to customers"
+                      : "Suggested follow-up emails to copy"}
+                  </List.Item>
+                </List>
+                {plan.id === "pro" && state !== "active" && (
+                  <InlineStack align="end">
+                    <Button
+                      variant="primary"
+                      loading={isSubmitting}
+                      onClick={() =>
+                        submit({ intent: "upgrade" }, { method: "post" })
+                      }
+                    >
+                      {state === "grace"
+                        ? "Subscribe again"
+                        : `Upgrade to ${plan.name}`}
+                    </Button>
+                  </InlineStack>
+                )}
+                {plan.id === "pro" && state === "active" && (
+                  <InlineStack align="end">
+                    <Button
+                      tone="critical"
+                      variant="plain"
+                      loading={isSubmitting}
+                      onClick={() =>
+                        submit({ intent: "cancel" }, { method: "post" })
+                      }
+                    >
+                      Cancel subscription
+                    </Button>
+                  </InlineStack>
+                )}
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        ))}
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,183 @@
+import { useEffect } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import {
+  useActionData,
+  useLoaderData,
+  useNavigation,
+  useSubmit,
+} from "@remix-run/react";
+import {
+  Badge,
+  Banner,
+  Card,
+  EmptyState,
+  IndexTable,
+  Layout,
+  Page,
+  Text,
+  useIndexResourceState,
+} from "@shopify/polaris";
+import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import {
+  listDeadLetters,
+  replayDeadLetters,
+} from "../models/deadLetter.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  return { deadLetters: await listDeadLetters(session.shop) };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  const ids = formData.getAll("id").map(String);
+  const queued = await replayDeadLetters(session.shop, ids);
+
+  return { queued };
+};
+
+const ERROR_KIND_LABELS: Record<string, string> = {
+  transient: "Provider busy",
+  network: "Network",
+  validation: "Invalid response",
+  permanent: "Permanent",
+};
+
+const STATUS_BADGES: Record<
+  string,
+  { label: string; tone?: "attention" | "success" | "critical" }
+> = {
+  open: { label: "Failed", tone: "critical" },
+  queued: { label: "Replay queued", tone: "attention" },
+  replayed: { label: "Replayed", tone: "success" },
+};
+
+export default function DeadLettersPage() {
+  const { deadLetters } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const shopify = useAppBridge();
+
+  const { selectedResources, allResourcesSelected, handleSelectionChange } =
+    useIndexResourceState(deadLetters);
+
+  useEffect(() => {
+    if (actionData) {
+      shopify.toast.show(
+        actionData.queued === 1
+          ? "1 replay queued"
+          : `${actionData.queued} replays queued`,
+      );
+    }
+  }, [actionData, shopify]);
+
+  const replay = (ids: string[]) => {
+    const formData = new FormData();
+    ids.forEach((id) => formData.append("id", id));
+    submit(formData, { method: "post" });
+  };
+
+  const rowMarkup = deadLetters.map((deadLetter, index) => {
+    const status = STATUS_BADGES[deadLetter.status] ?? {
+      label: deadLetter.status,
+    };
+
+    return (
+      <IndexTable.Row
+        id={deadLetter.id}
+        key={deadLetter.id}
+        position={index}
+        selected={selectedResources.includes(deadLetter.id)}
+        disabled={deadLetter.status !== "open"}
+      >
+        <IndexTable.Cell>
+          <Text variant="bodyMd" fontWeight="semibold" as="span">
+            {deadLetter.orderName}
+          </Text>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          {new Date(deadLetter.updatedAt).toLocaleString()}
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <Badge>
+            {ERROR_KIND_LABELS[deadLetter.errorKind] ?? deadLetter.errorKind}
+          </Badge>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <div style={{ maxWidth: "28rem", whiteSpace: "normal" }}>
+            <Text as="span" variant="bodyMd" truncate>
+              {deadLetter.error}
+            </Text>
+          </div>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <Text as="span" alignment="end" numeric>
+            {deadLetter.replays}
+          </Text>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <Badge tone={status.tone}>{status.label}</Badge>
+        </IndexTable.Cell>
+      </IndexTable.Row>
+    );
+  });
+
+  return (
+    <Page>
+      <TitleBar title="Failed orders" />
+      <Layout>
+        <Layout.Section>
+          <Banner tone="info">
+            <p>
+              These orders could not be analyzed after several attempts.
+              Replays run on the next scheduled processing run, usually within
+              a few minutes.
+            </p>
+          </Banner>
+        </Layout.Section>
+        <Layout.Section>
+          <Card padding="0">
+            <IndexTable
+              resourceName={{ singular: "failed order", plural: "failed orders" }}
+              itemCount={deadLetters.length}
+              selectedItemsCount={
+                allResourcesSelected ? "All" : selectedResources.length
+              }
+              onSelectionChange={handleSelectionChange}
+              loading={navigation.state !== "idle"}
+              promotedBulkActions={[
+                {
+                  content: "Replay",
+                  onAction: () => replay(selectedResources),
+                },
+              ]}
+              emptyState={
+                <EmptyState
+                  heading="No failed orders"
+                  image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                >
+                  <p>Orders that can't be analyzed will show up here.</p>
+                </EmptyState>
+              }
+              headings={[
+                { title: "Order" },
+                { title: "Last failure" },
+                { title: "Error type" },
+                { title: "Error" },
+                { title: "Replays", alignment: "end" },
+                { title: "Status" },
+              ]}
+            >
+              {rowMarkup}
+            </IndexTable>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,319 @@
+import { useEffect, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import {
+  useActionData,
+  useLoaderData,
+  useNavigation,
+  useSubmit,
+} from "@remix-run/react";
+import {
+  Badge,
+  Banner,
+  BlockStack,
+  Button,
+  Card,
+  Checkbox,
+  EmptyState,
+  FormLayout,
+  IndexTable,
+  InlineStack,
+  Layout,
+  Page,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import type { PromptVariantFormErrors } from "../models/experiment.server";
+import {
+  MAX_ACTIVE_VARIANTS,
+  MAX_VARIANT_WEIGHT,
+  archivePromptVariant,
+  createPromptVariant,
+  getExperimentReport,
+  parsePromptVariantForm,
+} from "../models/experiment.server";
+import { getEffectivePromptTemplate } from "../models/promptTemplate.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const [report, prompt] = await Promise.all([
+    getExperimentReport(session.shop),
+    getEffectivePromptTemplate(session.shop),
+  ]);
+
+  return { report, currentPrompt: prompt.template };
+};
+
+type ActionResult = {
+  message: string | null;
+  errors: PromptVariantFormErrors | null;
+};
+
+export const action = async ({
+  request,
+}: ActionFunctionArgs): Promise<ActionResult> => {
+  const { session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  const intent = String(formData.get("intent"));
+
+  if (intent === "create") {
+    const result = parsePromptVariantForm(formData);
+    if (result.errors) {
+      return { message: null, errors: result.errors };
+    }
+
+    const created = await createPromptVariant(session.shop, result.variant);
+    if (!created.created) {
+      return { message: null, errors: { form: created.error } };
+    }
+    return { message: "Variant added", errors: null };
+  }
+
+  if (intent === "archive") {
+    const archived = await archivePromptVariant(
+      session.shop,
+      String(formData.get("id")),
+    );
+    return {
+      message: archived ? "Variant archived" : null,
+      errors: archived ? null : { form: "This variant is already archived" },
+    };
+  }
+
+  return { message: null, errors: { form: "Unknown action" } };
+};
+
+function formatRate(part: number, total: number): string {
+  if (total === 0) return "—";
+  return `${Math.round((part / total) * 100)}%`;
+}
+
+export default function ExperimentsPage() {
+  const { report, currentPrompt } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const shopify = useAppBridge();
+
+  const [name, setName] = useState("");
+  const [weight, setWeight] = useState("1");
+  const [useCurrentPrompt, setUseCurrentPrompt] = useState(false);
+  const [systemMessage, setSystemMessage] = useState(
+    currentPrompt.systemMessage,
+  );
+  const [prompt, setPrompt] = useState(currentPrompt.prompt);
+
+  const errors = actionData?.errors ?? {};
+  const isSubmitting = navigation.state === "submitting";
+  const activeCount = report.filter((row) => row.active).length;
+
+  useEffect(() => {
+    if (actionData?.message) {
+      shopify.toast.show(actionData.message);
+    }
+    if (actionData?.message === "Variant added") {
+      setName("");
+      setWeight("1");
+    }
+  }, [actionData, shopify]);
+
+  const create = () =>
+    submit(
+      {
+        intent: "create",
+        name,
+        weight,
+        useCurrentPrompt: String(useCurrentPrompt),
+        systemMessage,
+        prompt,
+      },
+      { method: "post" },
+    );
+
+  const archive = (id: string) =>
+    submit({ intent: "archive", id }, { method: "post" });
+
+  const rowMarkup = report.map((row, index) => (
+    <IndexTable.Row
+      id={row.variantId ?? "none"}
+      key={row.variantId ?? "none"}
+      position={index}
+    >
+      <IndexTable.Cell>
+        <BlockStack gap="100">
+          <InlineStack gap="200" blockAlign="center">
+            <Text variant="bodyMd" fontWeight="semibold" as="span">
+              {row.name}
+            </Text>
+            {row.variantId &&
+              (row.active ? (
+                <Badge tone="success">Running</Badge>
+              ) : (
+                <Badge>Archived</Badge>
+              ))}
+          </InlineStack>
+          {row.variantId && (
+            <Text as="span" variant="bodySm" tone="subdued">
+              {row.ownPrompt ? "Own prompt" : "Current prompt"}, weight{" "}
+              {row.weight}
+            </Text>
+          )}
+        </BlockStack>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text as="span" alignment="end" numeric>
+          {row.insights}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text as="span" alignment="end" numeric>
+          {formatRate(row.rated, row.insights)}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text as="span" alignment="end" numeric>
+          {formatRate(row.ratedUp, row.rated)}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text as="span" alignment="end" numeric>
+          {formatRate(row.edited, row.insights)}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text as="span" alignment="end" numeric>
+          {formatRate(row.failedAttempts, row.attempts)}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <InlineStack align="end">
+          {row.variantId && row.active && (
+            <Button
+              tone="critical"
+              variant="plain"
+              onClick={() => archive(row.variantId as string)}
+            >
+              Archive
+            </Button>
+          )}
+        </InlineStack>
+      </IndexTable.Cell>
+    </IndexTable.Row>
+  ));
+
+  return (
+    <Page>
+      <TitleBar title="Experiments" />
+      <Layout>
+        <Layout.Section>
+          <Card padding="0">
+            <IndexTable
+              resourceName={{ singular: "variant", plural: "variants" }}
+              itemCount={report.length}
+              selectable={false}
+              loading={navigation.state !== "idle"}
+              emptyState={
+                <EmptyState
+                  heading="No experiments yet"
+                  image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                >
+                  <p>
+                    Add two or more prompt variants to compare them on real
+                    orders.
+                  </p>
+                </EmptyState>
+              }
+              headings={[
+                { title: "Variant" },
+                { title: "Insights", alignment: "end" },
+                { title: "Rated", alignment: "end" },
+                { title: "Thumbs up", alignment: "end" },
+                { title: "Emails edited", alignment: "end" },
+                { title: "Failed attempts", alignment: "end" },
+                { title: "" },
+              ]}
+            >
+              {rowMarkup}
+            </IndexTable>
+          </Card>
+        </Layout.Section>
+        <Layout.AnnotatedSection
+          title="Add a variant"
+          description="Each new order goes to one active variant, picked from its order id, so regenerating an insight keeps its variant. Weights set each variant's share of orders. Variants can't be edited, only archived."
+        >
+          <Card>
+            <FormLayout>
+              {errors.form && (
+                <Banner tone="critical">
+                  <p>{errors.form}</p>
+                </Banner>
+              )}
+              <FormLayout.Group>
+                <TextField
+                  label="Name"
+                  value={name}
+                  onChange={setName}
+                  placeholder="Shorter emails"
+                  error={errors.name}
+                  autoComplete="off"
+                />
+                <TextField
+                  label="Weight"
+                  type="number"
+                  min={1}
+                  max={MAX_VARIANT_WEIGHT}
+                  value={weight}
+                  onChange={setWeight}
+                  error={errors.weight}
+                  autoComplete="off"
+                />
+              </FormLayout.Group>
+              <Checkbox
+                label="Use the current prompt"
+                helpText="A control variant: it runs whatever prompt the Settings page uses."
+                checked={useCurrentPrompt}
+                onChange={setUseCurrentPrompt}
+              />
+              {!useCurrentPrompt && (
+                <>
+                  <TextField
+                    label="System message"
+                    value={systemMessage}
+                    onChange={setSystemMessage}
+                    multiline={6}
+                    monospaced
+                    error={errors.systemMessage}
+                    autoComplete="off"
+                  />
+                  <TextField
+                    label="Prompt"
+                    value={prompt}
+                    onChange={setPrompt}
+                    multiline={16}
+                    monospaced
+                    helpText="Uses the same [[variables]] as the Settings page."
+                    error={errors.prompt}
+                    autoComplete="off"
+                  />
+                </>
+              )}
+              <InlineStack align="end">
+                <Button
+                  variant="primary"
+                  onClick={create}
+                  loading={isSubmitting}
+                  disabled={activeCount >= MAX_ACTIVE_VARIANTS}
+                >
+                  Add variant
+                </Button>
+              </InlineStack>
+            </FormLayout>
+          </Card>
+        </Layout.AnnotatedSection>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,683 @@
+import { useCallback, useEffect, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import {
+  useActionData,
+  useLoaderData,
+  useNavigate,
+  useNavigation,
+  useSubmit,
+} from "@remix-run/react";
+import {
+  Badge,
+  Banner,
+  BlockStack,
+  Box,
+  Button,
+  ButtonGroup,
+  Card,
+  InlineStack,
+  Layout,
+  List,
+  Page,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import {
+  getInsight,
+  getProviderDataAudit,
+  listInsightVersions,
+  parseContentWarnings,
+  parseInsightRatingForm,
+  rateInsight,
+  requestRegeneration,
+  toNumericOrderId,
+} from "../models/insight.server";
+import {
+  CustomerTypeBadge,
+  InsightStatusBadge,
+} from "../components/InsightBadges";
+import { PlaceholderText } from "../components/PlaceholderText";
+import { InsightVersionHistory } from "../components/InsightVersionHistory";
+import { TextDiff } from "../components/TextDiff";
+import type { FollowupEditValues } from "../components/FollowupEditForm";
+import { FollowupEditForm } from "../components/FollowupEditForm";
+import type { FollowupEditErrors } from "../models/followupEdit.server";
+import { FEEDBACK_REASONS } from "../../shared/feedback";
+import { PROMPT_VARIABLES } from "../../shared/promptTemplates";
+import type { ContentField, PromptVariable } from "../../shared/types";
+import {
+  discardFollowupEdit,
+  getFollowupEdit,
+  parseFollowupEditForm,
+  saveFollowupEdit,
+} from "../models/followupEdit.server";
+import type {
+  FollowupSendPreview,
+  FollowupSendValues,
+} from "../components/FollowupSendCard";
+import { FollowupSendCard } from "../components/FollowupSendCard";
+import type { FollowupSendErrors } from "../models/followup.server";
+import {
+  cancelFollowup,
+  getOrderCustomerNames,
+  listFollowupSends,
+  parseFollowupSendForm,
+  prepareFollowup,
+  scheduleFollowup,
+} from "../models/followup.server";
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const insight = await getInsight(session.shop, params.id ?? "");
+  if (!insight) {
+    throw json({ error: "Insight not found" }, { status: 404 });
+  }
+
+  const [versions, edit, sends, dataAudit] = await Promise.all([
+    listInsightVersions(insight.id),
+    getFollowupEdit(insight.id, insight.currentVersionId),
+    listFollowupSends(insight.id),
+    insight.currentVersionId
+      ? getProviderDataAudit(session.shop, insight.currentVersionId)
+      : null,
+  ]);
+
+  return {
+    insight,
+    versions,
+    edit,
+    sends,
+    contentWarnings: parseContentWarnings(insight.contentWarnings),
+    dataAudit,
+    reasonOptions: Object.entries(FEEDBACK_REASONS).map(([value, label]) => ({
+      label,
+      value,
+    })),
+    orderUrl: `shopify:admin/orders/${toNumericOrderId(insight.orderId)}`,
+  };
+};
+
+const CONTENT_FIELD_LABELS: Record<ContentField, string> = {
+  insight: "Insight",
+  followupSubject: "Subject",
+  followupBody: "Email body",
+};
+
+type ActionResult = {
+  message: string | null;
+  error: string | null;
+  editErrors?: FollowupEditErrors;
+  sendErrors?: FollowupSendErrors;
+  preview?: FollowupSendPreview;
+};
+
+export const action = async ({
+  request,
+  params,
+}: ActionFunctionArgs): Promise<ActionResult> => {
+  const { admin, session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  const intent = String(formData.get("intent"));
+
+  if (intent === "edit") {
+    const result = parseFollowupEditForm(formData);
+    if (result.errors) {
+      return { message: null, error: null, editErrors: result.errors };
+    }
+
+    const saved = await saveFollowupEdit(
+      session.shop,
+      params.id ?? "",
+      result.edit,
+      await getOrderCustomerNames(admin, session.shop, params.id ?? "")
+    );
+    return saved.saved
+      ? { message: "Email saved", error: null }
+      : { message: null, error: saved.error };
+  }
+
+  if (intent === "discard-edit") {
+    const discarded = await discardFollowupEdit(session.shop, params.id ?? "");
+    return discarded
+      ? { message: "Restored the suggested email", error: null }
+      : { message: null, error: "There is no edit to discard" };
+  }
+
+  if (intent === "preview-send" || intent === "send") {
+    const result = parseFollowupSendForm(formData);
+    if (result.errors) {
+      return { message: null, error: null, sendErrors: result.errors };
+    }
+
+    if (intent === "preview-send") {
+      const prepared = await prepareFollowup(
+        admin,
+        session.shop,
+        params.id ?? "",
+        result.send
+      );
+      return prepared.preview
+        ? { message: null, error: null, preview: prepared.preview }
+        : { message: null, error: prepared.error };
+    }
+
+    const sent = await scheduleFollowup(
+      admin,
+      session.shop,
+      params.id ?? "",
+      result.send
+    );
+    if (sent.status === "sent") {
+      return { message: "Email sent", error: null };
+    }
+    if (sent.status === "scheduled" && !sent.error) {
+      return { message: "Email scheduled", error: null };
+    }
+    return {
+      message: null,
+      error:
+        sent.status === "scheduled"
+          ? `Sending failed, will retry: ${sent.error}`
+          : sent.error,
+    };
+  }
+
+  if (intent === "cancel-send") {
+    const cancelled = await cancelFollowup(
+      session.shop,
+      String(formData.get("id"))
+    );
+    return cancelled
+      ? { message: "Scheduled email cancelled", error: null }
+      : { message: null, error: "This email is no longer scheduled" };
+  }
+
+  if (intent === "rate") {
+    const result = parseInsightRatingForm(formData);
+    if (result.error !== null) {
+      return { message: null, error: result.error };
+    }
+
+    const rated = await rateInsight(
+      session.shop,
+      params.id ?? "",
+      result.rating,
+      result.comment
+    );
+    return rated
+      ? { message: "Feedback saved", error: null }
+      : { message: null, error: "Insight not found" };
+  }
+
+  if (intent === "regenerate") {
+    const result = await requestRegeneration(
+      admin,
+      session.shop,
+      params.id ?? ""
+    );
+    return result.queued
+      ? { message: "Regeneration queued", error: null }
+      : { message: null, error: result.error };
+  }
+
+  throw json({ error: "Unknown action" }, { status: 400 });
+};
+
+export default function InsightDetail() {
+  const {
+    insight,
+    versions,
+    edit,
+    sends,
+    contentWarnings,
+    dataAudit,
+    reasonOptions,
+    orderUrl,
+  } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const shopify = useAppBridge();
+  const navigate = useNavigate();
+
+  const [rating, setRating] = useState(insight.rating);
+  const [ratingComment, setRatingComment] = useState(
+    insight.ratingComment ?? ""
+  );
+
+  const [editing, setEditing] = useState(false);
+  const [showOriginal, setShowOriginal] = useState(false);
+
+  useEffect(() => {
+    if (!actionData) return;
+    if (actionData.error) {
+      shopify.toast.show(actionData.error, { isError: true });
+    } else if (actionData.message) {
+      shopify.toast.show(actionData.message);
+      setEditing(false);
+    }
+  }, [actionData, shopify]);
+
+  // A regenerated insight comes back unrated
+  useEffect(() => {
+    setRating(insight.rating);
+    setRatingComment(insight.ratingComment ?? "");
+  }, [insight.rating, insight.ratingComment]);
+
+  const copy = useCallback(
+    async (text: string, label: string) => {
+      try {
+        await navigator.clipboard.writeText(text);
+        shopify.toast.show(`${label} copied`);
+      } catch {
+        shopify.toast.show("Couldn't copy to clipboard", { isError: true });
+      }
+    },
+    [shopify]
+  );
+
+  const originalSubject = insight.followupSubject ?? "";
+  const originalBody = insight.followupBody ?? "";
+  const hasEmail = Boolean(originalSubject || originalBody);
+  const subject = edit?.editedSubject ?? originalSubject;
+  const body = edit?.editedBody ?? originalBody;
+
+  const saveEdit = (values: FollowupEditValues) => {
+    const formData = new FormData();
+    formData.append("intent", "edit");
+    formData.append("subject", values.subject);
+    formData.append("body", values.body);
+    values.reasons.forEach((reason) => formData.append("reasons", reason));
+    submit(formData, { method: "post" });
+  };
+
+  const submitSend = (
+    intent: "preview-send" | "send",
+    values: FollowupSendValues
+  ) => submit({ intent, ...values }, { method: "post" });
+
+  return (
+    <Page>
+      <TitleBar title={`Order ${insight.orderName}`}>
+        <button variant="breadcrumb" onClick={() => navigate("/app")}>
+          Insights
+        </button>
+        <button
+          onClick={() => submit({ intent: "regenerate" }, { method: "post" })}
+          disabled={
+            insight.status === "pending" || navigation.state !== "idle"
+          }
+        >
+          Regenerate
+        </button>
+      </TitleBar>
+      <Layout>
+        <Layout.Section>
+          <BlockStack gap="500">
+            {insight.status === "pending" && (
+              <Banner tone="info" title="Regenerating">
+                <p>
+                  A new insight is on its way. The content below stays in the
+                  version history once it is replaced.
+                </p>
+              </Banner>
+            )}
+            {insight.status === "error" && (
+              <Banner tone="critical" title="Insight generation failed">
+                <p>{insight.errorMessage ?? "Unknown error"}</p>
+              </Banner>
+            )}
+            {insight.status === "completed" && insight.errorMessage && (
+              <Banner tone="warning" title="Latest attempt failed">
+                <p>
+                  {insight.errorMessage}. Showing the last successful version.
+                </p>
+              </Banner>
+            )}
+            {contentWarnings.length > 0 && (
+              <Banner tone="warning" title="Check the content before using it">
+                <BlockStack gap="200">
+                  <p>
+                    {insight.repaired
+                      ? "The AI was asked to fix its first draft, but some problems are left:"
+                      : "The AI didn't follow the content rules:"}
+                  </p>
+                  <List>
+                    {contentWarnings.map((warning) => (
+                      <List.Item key={`${warning.field}:${warning.message}`}>
+                        {CONTENT_FIELD_LABELS[warning.field]}: {warning.message}
+                      </List.Item>
+                    ))}
+                  </List>
+                </BlockStack>
+              </Banner>
+            )}
+            <Card>
+              <BlockStack gap="200">
+                <Text as="h2" variant="headingMd">
+                  Insight
+                </Text>
+                <Text as="p" variant="bodyMd">
+                  {insight.insightText}
+                </Text>
+              </BlockStack>
+            </Card>
+            <Card>
+              <BlockStack gap="400">
+                <InlineStack align="space-between" blockAlign="center">
+                  <InlineStack gap="200" blockAlign="center">
+                    <Text as="h2" variant="headingMd">
+                      Suggested follow-up email
+                    </Text>
+                    {edit && <Badge tone="info">Edited</Badge>}
+                  </InlineStack>
+                  {hasEmail && !editing && (
+                    <InlineStack gap="200">
+                      <Button onClick={() => setEditing(true)}>Edit</Button>
+                      <Button
+                        variant="primary"
+                        onClick={() =>
+                          copy(`Subject: ${subject}\n\n${body}`, "Email")
+                        }
+                      >
+                        Copy email
+                      </Button>
+                    </InlineStack>
+                  )}
+                </InlineStack>
+                {hasEmail && editing ? (
+                  <FollowupEditForm
+                    initial={{
+                      subject,
+                      body,
+                      reasons: edit?.reasons ?? [],
+                    }}
+                    reasonOptions={reasonOptions}
+                    errors={actionData?.editErrors ?? {}}
+                    saving={navigation.state === "submitting"}
+                    onSave={saveEdit}
+                    onCancel={() => setEditing(false)}
+                  />
+                ) : hasEmail && showOriginal && edit ? (
+                  <BlockStack gap="300">
+                    <BlockStack gap="100">
+                      <Text as="h3" variant="headingSm">
+                        Subject
+                      </Text>
+                      <Text as="p" variant="bodyMd">
+                        <TextDiff before={originalSubject} after={subject} />
+                      </Text>
+                    </BlockStack>
+                    <BlockStack gap="100">
+                      <Text as="h3" variant="headingSm">
+                        Body
+                      </Text>
+                      <Text as="p" variant="bodyMd">
+                        <TextDiff before={originalBody} after={body} />
+                      </Text>
+                    </BlockStack>
+                    <InlineStack align="space-between" blockAlign="center">
+                      <Text as="p" variant="bodySm" tone="subdued">
+                        {edit.editDistance} characters changed
+                        {edit.reasons.length > 0 &&
+                          ` · ${edit.reasons
+                            .map((reason) => FEEDBACK_REASONS[reason])
+                            .join(", ")}`}
+                      </Text>
+                      <Button
+                        variant="plain"
+                        onClick={() => setShowOriginal(false)}
+                      >
+                        Hide changes
+                      </Button>
+                    </InlineStack>
+                  </BlockStack>
+                ) : hasEmail ? (
+                  <>
+                    <BlockStack gap="100">
+                      <InlineStack align="space-between" blockAlign="center">
+                        <Text as="h3" variant="headingSm">
+                          Subject
+                        </Text>
+                        <Button
+                          variant="plain"
+                          onClick={() => copy(subject, "Subject")}
+                        >
+                          Copy
+                        </Button>
+                      </InlineStack>
+                      <Text as="p" variant="bodyMd">
+                        <PlaceholderText text={subject} />
+                      </Text>
+                    </BlockStack>
+                    <BlockStack gap="100">
+                      <InlineStack align="space-between" blockAlign="center">
+                        <Text as="h3" variant="headingSm">
+                          Body
+                        </Text>
+                        <Button
+                          variant="plain"
+                          onClick={() => copy(body, "Body")}
+                        >
+                          Copy
+                        </Button>
+                      </InlineStack>
+                      <Box
+                        padding="400"
+                        background="bg-surface-secondary"
+                        borderWidth="025"
+                        borderRadius="200"
+                        borderColor="border"
+                      >
+                        <Text as="p" variant="bodyMd">
+                          <PlaceholderText text={body} />
+                        </Text>
+                      </Box>
+                    </BlockStack>
+                    <Text as="p" variant="bodySm" tone="subdued">
+                      Highlighted placeholders like {"{{customer_first_name}}"}{" "}
+                      are filled in from the order when the email is sent.
+                    </Text>
+                    {edit && (
+                      <InlineStack gap="200">
+                        <Button
+                          variant="plain"
+                          onClick={() => setShowOriginal(true)}
+                        >
+                          Compare with the suggestion
+                        </Button>
+                        <Button
+                          variant="plain"
+                          tone="critical"
+                          onClick={() =>
+                            submit(
+                              { intent: "discard-edit" },
+                              { method: "post" }
+                            )
+                          }
+                        >
+                          Restore the suggestion
+                        </Button>
+                      </InlineStack>
+                    )}
+                  </>
+                ) : (
+                  <Text as="p" tone="subdued">
+                    No follow-up email was generated for this order.
+                  </Text>
+                )}
+              </BlockStack>
+            </Card>
+            {hasEmail && (
+              <FollowupSendCard
+                key={sends.length}
+                sends={sends}
+                preview={actionData?.preview ?? null}
+                errors={actionData?.sendErrors ?? {}}
+                busy={navigation.state === "submitting"}
+                onPreview={(values) => submitSend("preview-send", values)}
+                onSend={(values) => submitSend("send", values)}
+                onCancel={(id) =>
+                  submit({ intent: "cancel-send", id }, { method: "post" })
+                }
+              />
+            )}
+            {insight.status === "completed" && (
+              <Card>
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">
+                    Was this insight useful?
+                  </Text>
+                  <ButtonGroup variant="segmented">
+                    <Button
+                      pressed={rating === "up"}
+                      onClick={() => setRating("up")}
+                    >
+                      👍 Useful
+                    </Button>
+                    <Button
+                      pressed={rating === "down"}
+                      onClick={() => setRating("down")}
+                    >
+                      👎 Not useful
+                    </Button>
+                  </ButtonGroup>
+                  <TextField
+                    label="Comment"
+                    value={ratingComment}
+                    onChange={setRatingComment}
+                    multiline={2}
+                    placeholder="Optional: what was good or missing?"
+                    autoComplete="off"
+                  />
+                  <InlineStack align="end">
+                    <Button
+                      onClick={() =>
+                        submit(
+                          {
+                            intent: "rate",
+                            rating: rating ?? "",
+                            comment: ratingComment,
+                          },
+                          { method: "post" }
+                        )
+                      }
+                      disabled={!rating}
+                      loading={navigation.state === "submitting"}
+                    >
+                      Save feedback
+                    </Button>
+                  </InlineStack>
+                </BlockStack>
+              </Card>
+            )}
+            {versions.length > 1 && (
+              <InsightVersionHistory
+                versions={versions}
+                currentVersionId={insight.currentVersionId}
+              />
+            )}
+          </BlockStack>
+        </Layout.Section>
+        <Layout.Section variant="oneThird">
+          <BlockStack gap="500">
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">
+                  Order
+                </Text>
+                <InlineStack align="space-between">
+                  <Text as="span" variant="bodyMd">
+                    Status
+                  </Text>
+                  <InsightStatusBadge status={insight.status} />
+                </InlineStack>
+                <InlineStack align="space-between">
+                  <Text as="span" variant="bodyMd">
+                    Customer
+                  </Text>
+                  <CustomerTypeBadge customerType={insight.customerType} />
+                </InlineStack>
+                {insight.segmentRule && (
+                  <InlineStack align="space-between">
+                    <Text as="span" variant="bodyMd">
+                      Matched rule
+                    </Text>
+                    <Text as="span" variant="bodyMd" tone="subdued">
+                      {insight.segmentRule}
+                    </Text>
+                  </InlineStack>
+                )}
+                <InlineStack align="space-between">
+                  <Text as="span" variant="bodyMd">
+                    Order value
+                  </Text>
+                  <Text as="span" variant="bodyMd" numeric>
+                    {insight.orderValue !== null
+                      ? insight.orderValue.toFixed(2)
+                      : "—"}
+                  </Text>
+                </InlineStack>
+                <InlineStack align="space-between">
+                  <Text as="span" variant="bodyMd">
+                    Analyzed
+                  </Text>
+                  <Text as="span" variant="bodyMd">
+                    {new Date(insight.createdAt).toLocaleString()}
+                  </Text>
+                </InlineStack>
+                <Button url={orderUrl} target="_blank">
+                  Open order in Shopify
+                </Button>
+              </BlockStack>
+            </Card>
+            {dataAudit && (
+              <Card>
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">
+                    Sent to the AI provider
+                  </Text>
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    {dataAudit.provider} ·{" "}
+                    {new Date(dataAudit.createdAt).toLocaleString()}
+                  </Text>
+                  <List>
+                    {dataAudit.fields.map((field) => (
+                      <List.Item key={field}>
+                        {field in PROMPT_VARIABLES
+                          ? PROMPT_VARIABLES[field as PromptVariable]
+                          : field}
+                      </List.Item>
+                    ))}
+                  </List>
+                  {dataAudit.redacted.length > 0 && (
+                    <BlockStack gap="100">
+                      <Text as="h3" variant="headingSm">
+                        Left out or removed
+                      </Text>
+                      {dataAudit.redacted.map((entry) => (
+                        <Text
+                          key={entry}
+                          as="p"
+                          variant="bodySm"
+                          tone="subdued"
+                        >
+                          {entry}
+                        </Text>
+                      ))}
+                    </BlockStack>
+                  )}
+                </BlockStack>
+              </Card>
+            )}
+          </BlockStack>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,186 @@
+import { useEffect } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { useActionData, useLoaderData, useSubmit } from "@remix-run/react";
+import {
+  Badge,
+  Banner,
+  Button,
+  Card,
+  EmptyState,
+  IndexTable,
+  Layout,
+  Page,
+  Text,
+} from "@shopify/polaris";
+import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import type { PrivacyRequestKind } from "../models/privacy.server";
+import {
+  PRIVACY_EXPORT_RETENTION_DAYS,
+  getPrivacyExport,
+  listPrivacyRequests,
+} from "../models/privacy.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  return { requests: await listPrivacyRequests(session.shop) };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  const id = String(formData.get("id"));
+  const data = await getPrivacyExport(session.shop, id);
+
+  return data === null
+    ? { id, data: null, error: "The export is no longer available" }
+    : { id, data, error: null };
+};
+
+const KIND_LABELS: Record<PrivacyRequestKind, string> = {
+  customer_data_request: "Customer data request",
+  customer_redact: "Customer erasure",
+  shop_redact: "Shop erasure",
+};
+
+const STATUS_BADGES: Record<
+  string,
+  { label: string; tone?: "attention" | "success" | "critical" }
+> = {
+  queued: { label: "Queued", tone: "attention" },
+  running: { label: "In progress", tone: "attention" },
+  completed: { label: "Completed", tone: "success" },
+  failed: { label: "Failed", tone: "critical" },
+};
+
+function describeResult(
+  kind: PrivacyRequestKind,
+  result: Record<string, number> | null,
+): string {
+  if (!result) return "—";
+  const rows = Object.values(result).reduce((sum, count) => sum + count, 0);
+  return kind === "customer_data_request"
+    ? `${rows} record(s) exported`
+    : `${rows} record(s) deleted`;
+}
+
+/**
+ * Save the export as a file; the embedded admin can't follow a plain
+ * download link without its session token
+ */
+function downloadExport(id: string, data: string) {
+  const url = URL.createObjectURL(
+    new Blob([data], { type: "application/json" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `customer-data-${id}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function PrivacyPage() {
+  const { requests } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const submit = useSubmit();
+  const shopify = useAppBridge();
+
+  useEffect(() => {
+    if (actionData?.data) {
+      downloadExport(actionData.id, actionData.data);
+    } else if (actionData?.error) {
+      shopify.toast.show(actionData.error, { isError: true });
+    }
+  }, [actionData, shopify]);
+
+  const rowMarkup = requests.map((request, index) => {
+    const status = STATUS_BADGES[request.status] ?? { label: request.status };
+
+    return (
+      <IndexTable.Row id={request.id} key={request.id} position={index}>
+        <IndexTable.Cell>
+          <Text variant="bodyMd" fontWeight="semibold" as="span">
+            {KIND_LABELS[request.kind] ?? request.kind}
+          </Text>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          {new Date(request.createdAt).toLocaleString()}
+        </IndexTable.Cell>
+        <IndexTable.Cell>{request.customerId ?? "—"}</IndexTable.Cell>
+        <IndexTable.Cell>
+          <Text as="span" alignment="end" numeric>
+            {request.orderIds.length}
+          </Text>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <Badge tone={status.tone}>{status.label}</Badge>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          {request.status === "failed"
+            ? request.error
+            : describeResult(request.kind, request.result)}
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          {request.kind === "customer_data_request" &&
+            request.status === "completed" && (
+              <Button
+                variant="plain"
+                onClick={() => submit({ id: request.id }, { method: "post" })}
+              >
+                Download
+              </Button>
+            )}
+        </IndexTable.Cell>
+      </IndexTable.Row>
+    );
+  });
+
+  return (
+    <Page>
+      <TitleBar title="Privacy requests" />
+      <Layout>
+        <Layout.Section>
+          <Banner tone="info">
+            <p>
+              Shopify sends these when a customer asks for their data or to be
+              erased, and 48 hours after a shop uninstalls the app. Erasures run
+              automatically. For data requests, download the export and send it
+              to the customer; exports are deleted after{" "}
+              {PRIVACY_EXPORT_RETENTION_DAYS} days.
+            </p>
+          </Banner>
+        </Layout.Section>
+        <Layout.Section>
+          <Card padding="0">
+            <IndexTable
+              resourceName={{ singular: "request", plural: "requests" }}
+              itemCount={requests.length}
+              selectable={false}
+              emptyState={
+                <EmptyState
+                  heading="No privacy requests"
+                  image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                >
+                  <p>Customer data and erasure requests will show up here.</p>
+                </EmptyState>
+              }
+              headings={[
+                { title: "Request" },
+                { title: "Received" },
+                { title: "Customer ID" },
+                { title: "Orders", alignment: "end" },
+                { title: "Status" },
+                { title: "Result" },
+                { title: "Export" },
+              ]}
+            >
+              {rowMarkup}
+            </IndexTable>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
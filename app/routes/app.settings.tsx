@@ -0,0 +1,579 @@
+import { useEffect, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import {
+  useActionData,
+  useLoaderData,
+  useNavigation,
+  useSubmit,
+} from "@remix-run/react";
+import {
+  BlockStack,
+  Button,
+  Card,
+  Checkbox,
+  FormLayout,
+  Layout,
+  Page,
+  PageActions,
+  Select,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import {
+  BUDGET_ACTIONS,
+  EMAIL_LANGUAGES,
+  getShopSettings,
+  parseShopSettingsForm,
+  saveShopSettings,
+} from "../models/shopSettings.server";
+import {
+  getEffectivePromptTemplate,
+  parsePromptOverrideForm,
+  savePromptOverride,
+} from "../models/promptTemplate.server";
+import { getFeedbackGuidance } from "../models/followupEdit.server";
+import {
+  listFollowupScheduleRules,
+  parseFollowupScheduleForm,
+  saveFollowupScheduleRules,
+} from "../models/followupSchedule.server";
+import { customerTypeLabel } from "../components/InsightBadges";
+import { FEEDBACK_REASONS } from "../../shared/feedback";
+import {
+  CUSTOMER_TYPES,
+  buildDefaultSegmentRules,
+} from "../../shared/segmentation";
+import {
+  ORDER_INSIGHT_TEMPLATE_ID,
+  PROMPT_VARIABLES,
+  getPromptTemplate,
+} from "../../shared/promptTemplates";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const [settings, prompt, feedbackGuidance, followupSchedule] =
+    await Promise.all([
+      getShopSettings(session.shop),
+      getEffectivePromptTemplate(session.shop),
+      getFeedbackGuidance(session.shop),
+      listFollowupScheduleRules(session.shop),
+    ]);
+
+  return {
+    settings,
+    languages: EMAIL_LANGUAGES,
+    budgetActions: BUDGET_ACTIONS,
+    defaultSegmentRules: buildDefaultSegmentRules(settings),
+    feedbackGuidance,
+    followupSchedule,
+    promptTemplate: prompt.template,
+    useCustomPrompt: prompt.overridden,
+    defaultPromptTemplate: getPromptTemplate(ORDER_INSIGHT_TEMPLATE_ID),
+    promptVariables: Object.keys(PROMPT_VARIABLES).map((name) => ({
+      name,
+      description: PROMPT_VARIABLES[name as keyof typeof PROMPT_VARIABLES],
+    })),
+  };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  const result = parseShopSettingsForm(formData);
+  const promptResult = parsePromptOverrideForm(formData);
+  const scheduleResult = parseFollowupScheduleForm(formData);
+  if (result.errors || promptResult.errors || scheduleResult.errors) {
+    return {
+      saved: false,
+      errors: {
+        ...result.errors,
+        ...promptResult.errors,
+        ...scheduleResult.errors,
+      },
+    };
+  }
+
+  await saveShopSettings(session.shop, result.settings);
+  await savePromptOverride(session.shop, promptResult.override);
+  await saveFollowupScheduleRules(session.shop, scheduleResult.rules);
+  return { saved: true, errors: null };
+};
+
+const DELAY_UNITS = [
+  { label: "days", value: "days" },
+  { label: "hours", value: "hours" },
+];
+
+const DELAY_ANCHORS = [
+  { label: "after the order is fulfilled", value: "fulfillment" },
+  { label: "after the order is placed", value: "order" },
+];
+
+export default function SettingsPage() {
+  const {
+    settings,
+    languages,
+    budgetActions,
+    defaultSegmentRules,
+    feedbackGuidance,
+    followupSchedule,
+    promptTemplate,
+    useCustomPrompt: savedUseCustomPrompt,
+    defaultPromptTemplate,
+    promptVariables,
+  } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const shopify = useAppBridge();
+
+  const [enabled, setEnabled] = useState(settings.enabled);
+  const [includeCustomerName, setIncludeCustomerName] = useState(
+    settings.includeCustomerName,
+  );
+  const [includeCountry, setIncludeCountry] = useState(settings.includeCountry);
+  const [includeCustomerTags, setIncludeCustomerTags] = useState(
+    settings.includeCustomerTags,
+  );
+  const [includePurchaseHistory, setIncludePurchaseHistory] = useState(
+    settings.includePurchaseHistory,
+  );
+  const [brandVoice, setBrandVoice] = useState(settings.brandVoice ?? "");
+  const [emailLanguage, setEmailLanguage] = useState(settings.emailLanguage);
+  const [useCustomSegmentRules, setUseCustomSegmentRules] = useState(
+    settings.segmentRules !== null,
+  );
+  const [segmentRules, setSegmentRules] = useState(
+    JSON.stringify(settings.segmentRules ?? defaultSegmentRules, null, 2),
+  );
+  const [vipMinOrders, setVipMinOrders] = useState(
+    String(settings.vipMinOrders),
+  );
+  const [vipMinSpend, setVipMinSpend] = useState(String(settings.vipMinSpend));
+  const [minOrderValue, setMinOrderValue] = useState(
+    String(settings.minOrderValue),
+  );
+  const [monthlyBudget, setMonthlyBudget] = useState(
+    settings.monthlyBudget === null ? "" : String(settings.monthlyBudget),
+  );
+  const [overBudgetAction, setOverBudgetAction] = useState<string>(
+    settings.overBudgetAction,
+  );
+  const [useCustomPrompt, setUseCustomPrompt] = useState(savedUseCustomPrompt);
+  const [systemMessage, setSystemMessage] = useState(
+    promptTemplate.systemMessage,
+  );
+  const [prompt, setPrompt] = useState(promptTemplate.prompt);
+  const [followupRules, setFollowupRules] = useState(() =>
+    CUSTOMER_TYPES.map((customerType) => {
+      const rule = followupSchedule.find(
+        (saved) => saved.customerType === customerType,
+      );
+      const inDays = !rule || rule.delayHours % 24 === 0;
+      return {
+        customerType,
+        enabled: Boolean(rule),
+        delay: String(
+          rule ? (inDays ? rule.delayHours / 24 : rule.delayHours) : 3,
+        ),
+        unit: inDays ? "days" : "hours",
+        anchor: rule?.anchor ?? "fulfillment",
+        discountCode: rule?.discountCode ?? "",
+      };
+    }),
+  );
+
+  const errors = actionData?.errors ?? {};
+  const isSaving = navigation.state === "submitting";
+
+  useEffect(() => {
+    if (actionData?.saved) {
+      shopify.toast.show("Settings saved");
+    }
+  }, [actionData, shopify]);
+
+  const updateFollowupRule = (
+    customerType: string,
+    changes: Partial<(typeof followupRules)[number]>,
+  ) =>
+    setFollowupRules((rules) =>
+      rules.map((rule) =>
+        rule.customerType === customerType ? { ...rule, ...changes } : rule,
+      ),
+    );
+
+  const save = () =>
+    submit(
+      {
+        ...Object.fromEntries(
+          followupRules.flatMap(({ customerType, ...rule }) => [
+            [`followup.${customerType}.enabled`, String(rule.enabled)],
+            [`followup.${customerType}.delay`, rule.delay],
+            [`followup.${customerType}.unit`, rule.unit],
+            [`followup.${customerType}.anchor`, rule.anchor],
+            [`followup.${customerType}.discountCode`, rule.discountCode],
+          ]),
+        ),
+        enabled: String(enabled),
+        includeCustomerName: String(includeCustomerName),
+        includeCountry: String(includeCountry),
+        includeCustomerTags: String(includeCustomerTags),
+        includePurchaseHistory: String(includePurchaseHistory),
+        brandVoice,
+        emailLanguage,
+        useCustomSegmentRules: String(useCustomSegmentRules),
+        segmentRules,
+        vipMinOrders,
+        vipMinSpend,
+        minOrderValue,
+        monthlyBudget,
+        overBudgetAction,
+        useCustomPrompt: String(useCustomPrompt),
+        systemMessage,
+        prompt,
+      },
+      { method: "post" },
+    );
+
+  return (
+    <Page>
+      <TitleBar title="Settings" />
+      <Layout>
+        <Layout.AnnotatedSection
+          title="Order analysis"
+          description="Choose which new orders are sent for AI analysis."
+        >
+          <Card>
+            <FormLayout>
+              <Checkbox
+                label="Analyze new orders"
+                helpText="When off, new orders are not sent to the AI provider."
+                checked={enabled}
+                onChange={setEnabled}
+              />
+              <TextField
+                label="Minimum order value"
+                type="number"
+                min={0}
+                value={minOrderValue}
+                onChange={setMinOrderValue}
+                helpText="Orders below this total, in your store currency, are skipped."
+                error={errors.minOrderValue}
+                autoComplete="off"
+              />
+              <FormLayout.Group>
+                <TextField
+                  label="Monthly AI budget"
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  prefix="$"
+                  value={monthlyBudget}
+                  onChange={setMonthlyBudget}
+                  placeholder="No limit"
+                  helpText="AI provider cost per calendar month (UTC), in US dollars. See Usage for this month's spend."
+                  error={errors.monthlyBudget}
+                  autoComplete="off"
+                />
+                <Select
+                  label="When the budget is spent"
+                  options={budgetActions}
+                  value={overBudgetAction}
+                  onChange={setOverBudgetAction}
+                  error={errors.overBudgetAction}
+                />
+              </FormLayout.Group>
+            </FormLayout>
+          </Card>
+        </Layout.AnnotatedSection>
+        <Layout.AnnotatedSection
+          title="Follow-up emails"
+          description="Shape the tone and language of suggested emails."
+        >
+          <Card>
+            <FormLayout>
+              <TextField
+                label="Brand voice"
+                value={brandVoice}
+                onChange={setBrandVoice}
+                multiline={3}
+                placeholder="Warm and playful, no exclamation marks"
+                helpText="Describe how your brand talks to customers."
+                error={errors.brandVoice}
+                autoComplete="off"
+              />
+              <Select
+                label="Email language"
+                options={languages}
+                value={emailLanguage}
+                onChange={setEmailLanguage}
+                error={errors.emailLanguage}
+              />
+              {feedbackGuidance && (
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Learning from your last {feedbackGuidance.editsAnalyzed}{" "}
+                  edited emails
+                  {feedbackGuidance.reasonCounts.length > 0 &&
+                    ` (${feedbackGuidance.reasonCounts
+                      .map(
+                        ({ reason, count }) =>
+                          `${FEEDBACK_REASONS[reason].toLowerCase()}: ${count}`,
+                      )
+                      .join(", ")})`}
+                  . You change about{" "}
+                  {Math.round(feedbackGuidance.averageChangeRatio * 100)}% of a
+                  suggested email.
+                </Text>
+              )}
+            </FormLayout>
+          </Card>
+        </Layout.AnnotatedSection>
+        <Layout.AnnotatedSection
+          title="Automatic follow-ups"
+          description="Send the suggested email on a schedule, per customer segment. Only customers who accept marketing emails get one, and sends are cancelled if the order is cancelled or refunded."
+        >
+          <Card>
+            <BlockStack gap="400">
+              {followupRules.map((rule) => (
+                <BlockStack key={rule.customerType} gap="200">
+                  <Checkbox
+                    label={`Email ${customerTypeLabel(rule.customerType).toLowerCase()} customers`}
+                    checked={rule.enabled}
+                    onChange={(enabled) =>
+                      updateFollowupRule(rule.customerType, { enabled })
+                    }
+                  />
+                  {rule.enabled && (
+                    <FormLayout>
+                      <FormLayout.Group condensed>
+                        <TextField
+                          label="Wait"
+                          type="number"
+                          min={0}
+                          value={rule.delay}
+                          onChange={(delay) =>
+                            updateFollowupRule(rule.customerType, { delay })
+                          }
+                          error={errors[`followup.${rule.customerType}`]}
+                          autoComplete="off"
+                        />
+                        <Select
+                          label="Unit"
+                          options={DELAY_UNITS}
+                          value={rule.unit}
+                          onChange={(unit) =>
+                            updateFollowupRule(rule.customerType, { unit })
+                          }
+                        />
+                        <Select
+                          label="Counted from"
+                          options={DELAY_ANCHORS}
+                          value={rule.anchor}
+                          onChange={(anchor) =>
+                            updateFollowupRule(rule.customerType, {
+                              anchor: anchor as typeof rule.anchor,
+                            })
+                          }
+                        />
+                        <TextField
+                          label="Discount code"
+                          value={rule.discountCode}
+                          onChange={(discountCode) =>
+                            updateFollowupRule(rule.customerType, {
+                              discountCode,
+                            })
+                          }
+                          helpText="Fills {{discount_code}}"
+                          autoComplete="off"
+                        />
+                      </FormLayout.Group>
+                    </FormLayout>
+                  )}
+                </BlockStack>
+              ))}
+              <Text as="p" variant="bodySm" tone="subdued">
+                Emails that need a value the app doesn't have, like a missing
+                discount code, aren't sent; you'll see why on the order's
+                insight.
+              </Text>
+            </BlockStack>
+          </Card>
+        </Layout.AnnotatedSection>
+        <Layout.AnnotatedSection
+          title="Customer segments"
+          description="Segments decide which follow-up strategy the AI uses for each customer."
+        >
+          <Card>
+            <FormLayout>
+              <Text as="p" variant="bodyMd">
+                By default, customers meeting either VIP threshold are VIP, and
+                returning customers whose previous order was 90 or 180 days ago
+                are at risk or lapsed.
+              </Text>
+              <FormLayout.Group>
+                <TextField
+                  label="Minimum orders"
+                  type="number"
+                  min={2}
+                  value={vipMinOrders}
+                  onChange={setVipMinOrders}
+                  error={errors.vipMinOrders}
+                  autoComplete="off"
+                />
+                <TextField
+                  label="Minimum lifetime spend"
+                  type="number"
+                  min={0}
+                  value={vipMinSpend}
+                  onChange={setVipMinSpend}
+                  helpText="In your store currency."
+                  error={errors.vipMinSpend}
+                  autoComplete="off"
+                />
+              </FormLayout.Group>
+              <Checkbox
+                label="Use custom segment rules"
+                helpText="Advanced. Rules run in order and the first match wins. Customers matching no rule are repeat customers."
+                checked={useCustomSegmentRules}
+                onChange={setUseCustomSegmentRules}
+              />
+              {useCustomSegmentRules && (
+                <TextField
+                  label="Segment rules (JSON)"
+                  value={segmentRules}
+                  onChange={setSegmentRules}
+                  multiline={12}
+                  monospaced
+                  helpText="Segments: first-time, repeat, vip, lapsed, at-risk. Metrics: ordersCount, totalSpent, daysSinceLastOrder, averageOrderValue. Operators: gte, gt, lte, lt, eq."
+                  error={errors.segmentRules}
+                  autoComplete="off"
+                />
+              )}
+            </FormLayout>
+          </Card>
+        </Layout.AnnotatedSection>
+        <Layout.AnnotatedSection
+          title="AI prompt"
+          description="Edit the instructions the AI receives for each order."
+        >
+          <Card>
+            <FormLayout>
+              <Text as="p" variant="bodyMd">
+                {savedUseCustomPrompt
+                  ? `Using your custom prompt (version ${promptTemplate.version}).`
+                  : `Using the built-in prompt (version ${promptTemplate.version}).`}
+              </Text>
+              <Checkbox
+                label="Use a custom prompt"
+                helpText="Advanced. Turn off to go back to the built-in prompt, which is updated with the app. The JSON response format is always added."
+                checked={useCustomPrompt}
+                onChange={setUseCustomPrompt}
+              />
+              {useCustomPrompt && (
+                <>
+                  <TextField
+                    label="System message"
+                    value={systemMessage}
+                    onChange={setSystemMessage}
+                    multiline={6}
+                    monospaced
+                    error={errors.systemMessage}
+                    autoComplete="off"
+                  />
+                  <TextField
+                    label="Prompt"
+                    value={prompt}
+                    onChange={setPrompt}
+                    multiline={16}
+                    monospaced
+                    helpText="Lines whose variables are all empty are left out."
+                    error={errors.prompt}
+                    autoComplete="off"
+                  />
+                  {defaultPromptTemplate && (
+                    <Button
+                      variant="plain"
+                      onClick={() => {
+                        setSystemMessage(defaultPromptTemplate.systemMessage);
+                        setPrompt(defaultPromptTemplate.prompt);
+                      }}
+                    >
+                      Copy the built-in prompt
+                    </Button>
+                  )}
+                  <BlockStack gap="100">
+                    <Text as="h3" variant="headingSm">
+                      Variables
+                    </Text>
+                    {promptVariables.map((variable) => (
+                      <Text
+                        key={variable.name}
+                        as="p"
+                        variant="bodySm"
+                        tone="subdued"
+                      >
+                        [[{variable.name}]]: {variable.description}
+                      </Text>
+                    ))}
+                  </BlockStack>
+                </>
+              )}
+            </FormLayout>
+          </Card>
+        </Layout.AnnotatedSection>
+        <Layout.AnnotatedSection
+          title="Privacy"
+          description="Control what customer data leaves your store."
+        >
+          <Card>
+            <BlockStack gap="200">
+              <Checkbox
+                label="Include customer first name in AI prompts"
+                helpText="Lets emails be personalized. Off by default."
+                checked={includeCustomerName}
+                onChange={setIncludeCustomerName}
+              />
+              <Checkbox
+                label="Include the customer's country"
+                checked={includeCountry}
+                onChange={setIncludeCountry}
+              />
+              <Checkbox
+                label="Include customer tags"
+                helpText="Email addresses, phone numbers and names are removed from tags first."
+                checked={includeCustomerTags}
+                onChange={setIncludeCustomerTags}
+              />
+              <Checkbox
+                label="Include products from earlier orders"
+                helpText="Used to spot replenishment and cross-sell opportunities."
+                checked={includePurchaseHistory}
+                onChange={setIncludePurchaseHistory}
+              />
+              <Text as="p" variant="bodySm" tone="subdued">
+                Order totals, line items and discount usage are always sent to
+                the AI provider to generate insights, along with examples of
+                your edits to suggested emails. Email addresses, phone numbers,
+                addresses and order notes are never sent. Each insight shows
+                what was sent for it.
+              </Text>
+            </BlockStack>
+          </Card>
+        </Layout.AnnotatedSection>
+        <Layout.Section>
+          <PageActions
+            primaryAction={{
+              content: "Save",
+              loading: isSaving,
+              onAction: save,
+            }}
+          />
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
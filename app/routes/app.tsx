@@ -22,8 +22,15 @@ export default function App() {
     <AppProvider isEmbeddedApp apiKey={apiKey}>
       <NavMenu>
         <Link to="/app" rel="home">
-          Home
+          Insights
         </Link>
+        <Link to="/app/dead-letters">Failed orders</Link>
+        <Link to="/app/backfill">Backfill</Link>
+        <Link to="/app/experiments">Experiments</Link>
+        <Link to="/app/usage">Usage</Link>
+        <Link to="/app/billing">Plan</Link>
+        <Link to="/app/privacy">Privacy</Link>
+        <Link to="/app/settings">Settings</Link>
         <Link to="/app/additional">Additional page</Link>
       </NavMenu>
       <Outlet />
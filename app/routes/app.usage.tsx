@@ -0,0 +1,234 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
+import {
+  Banner,
+  BlockStack,
+  Card,
+  EmptyState,
+  IndexTable,
+  InlineStack,
+  Layout,
+  Link,
+  Page,
+  ProgressBar,
+  Text,
+} from "@shopify/polaris";
+import { TitleBar } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { getShopSettings } from "../models/shopSettings.server";
+import {
+  getBudgetStatus,
+  getModelUsage,
+  getUsageMonth,
+  listMonthlyUsage,
+} from "../models/usage.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const settings = await getShopSettings(session.shop);
+  const [budget, months, models] = await Promise.all([
+    getBudgetStatus(session.shop, settings),
+    listMonthlyUsage(session.shop),
+    getModelUsage(session.shop, getUsageMonth()),
+  ]);
+
+  return {
+    budget,
+    overBudgetAction: settings.overBudgetAction,
+    months,
+    models,
+  };
+};
+
+function formatCost(usd: number | null): string {
+  if (usd === null) return "—";
+  // Single attempts cost fractions of a cent
+  return `$${usd.toFixed(usd > 0 && usd < 1 ? 4 : 2)}`;
+}
+
+function formatCount(count: number): string {
+  return count.toLocaleString();
+}
+
+function formatMonth(month: string): string {
+  return new Date(`${month}-01T00:00:00.000Z`).toLocaleDateString(undefined, {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export default function UsagePage() {
+  const { budget, overBudgetAction, months, models } =
+    useLoaderData<typeof loader>();
+
+  const unpriced = months.find(
+    (row) => row.month === budget.month,
+  )?.unpricedAttempts;
+
+  const modelRows = models.map((row, index) => (
+    <IndexTable.Row id={row.model} key={row.model} position={index}>
+      <IndexTable.Cell>
+        <Text variant="bodyMd" fontWeight="semibold" as="span">
+          {row.model}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text as="span" alignment="end" numeric>
+          {formatCount(row.attempts)}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text as="span" alignment="end" numeric>
+          {formatCount(row.promptTokens)}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text as="span" alignment="end" numeric>
+          {formatCount(row.completionTokens)}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text as="span" alignment="end" numeric>
+          {row.averageLatencyMs === null
+            ? "—"
+            : `${(row.averageLatencyMs / 1000).toFixed(1)} s`}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text as="span" alignment="end" numeric>
+          {formatCost(row.costUsd)}
+        </Text>
+      </IndexTable.Cell>
+    </IndexTable.Row>
+  ));
+
+  const monthRows = months.map((row, index) => (
+    <IndexTable.Row id={row.month} key={row.month} position={index}>
+      <IndexTable.Cell>
+        <Text variant="bodyMd" fontWeight="semibold" as="span">
+          {formatMonth(row.month)}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text as="span" alignment="end" numeric>
+          {formatCount(row.attempts)}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text as="span" alignment="end" numeric>
+          {formatCount(row.promptTokens)}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text as="span" alignment="end" numeric>
+          {formatCount(row.completionTokens)}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text as="span" alignment="end" numeric>
+          {formatCost(row.costUsd)}
+        </Text>
+      </IndexTable.Cell>
+    </IndexTable.Row>
+  ));
+
+  return (
+    <Page>
+      <TitleBar title="Usage" />
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <InlineStack align="space-between" blockAlign="center">
+                <Text as="h2" variant="headingMd">
+                  {formatMonth(budget.month)}
+                </Text>
+                <Text as="span" variant="headingMd">
+                  {formatCost(budget.spent)}
+                  {budget.budget !== null && ` of ${formatCost(budget.budget)}`}
+                </Text>
+              </InlineStack>
+              {budget.budget !== null && (
+                <ProgressBar
+                  progress={
+                    budget.budget > 0
+                      ? Math.min(100, (budget.spent / budget.budget) * 100)
+                      : 100
+                  }
+                  tone={budget.exceeded ? "critical" : "primary"}
+                  size="small"
+                />
+              )}
+              {budget.exceeded && (
+                <Banner tone="warning" title="This month's budget is spent">
+                  <p>
+                    {overBudgetAction === "skip"
+                      ? "New orders aren't analyzed until next month."
+                      : "New orders are analyzed with a cheaper model until next month."}
+                  </p>
+                </Banner>
+              )}
+              <Text as="p" variant="bodySm" tone="subdued">
+                AI provider cost of every generation attempt, by calendar month
+                (UTC). Set a monthly budget on the{" "}
+                <Link url="/app/settings">Settings</Link> page.
+                {unpriced
+                  ? ` ${unpriced} attempt(s) this month used a model without a known price and aren't included.`
+                  : ""}
+              </Text>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+        <Layout.Section>
+          <Card padding="0">
+            <IndexTable
+              resourceName={{ singular: "model", plural: "models" }}
+              itemCount={models.length}
+              selectable={false}
+              emptyState={
+                <EmptyState
+                  heading="No usage this month"
+                  image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                >
+                  <p>Usage shows up here as new orders are analyzed.</p>
+                </EmptyState>
+              }
+              headings={[
+                { title: "Model" },
+                { title: "Attempts", alignment: "end" },
+                { title: "Prompt tokens", alignment: "end" },
+                { title: "Completion tokens", alignment: "end" },
+                { title: "Average latency", alignment: "end" },
+                { title: "Cost", alignment: "end" },
+              ]}
+            >
+              {modelRows}
+            </IndexTable>
+          </Card>
+        </Layout.Section>
+        {months.length > 0 && (
+          <Layout.Section>
+            <Card padding="0">
+              <IndexTable
+                resourceName={{ singular: "month", plural: "months" }}
+                itemCount={months.length}
+                selectable={false}
+                headings={[
+                  { title: "Month" },
+                  { title: "Attempts", alignment: "end" },
+                  { title: "Prompt tokens", alignment: "end" },
+                  { title: "Completion tokens", alignment: "end" },
+                  { title: "Cost", alignment: "end" },
+                ]}
+              >
+                {monthRows}
+              </IndexTable>
+            </Card>
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
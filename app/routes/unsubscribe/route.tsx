@@ -0,0 +1,80 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { Form, useActionData, useLoaderData } from "@remix-run/react";
+
+import { recordUnsubscribe } from "../../models/followup.server";
+import { verifyUnsubscribeToken } from "../../utils/unsubscribe.server";
+
+import styles from "./styles.module.css";
+
+/**
+ * Public unsubscribe page linked from follow-up emails.
+ * GET asks for confirmation so link scanners can't unsubscribe anyone;
+ * POST records it, including one-click requests from mail clients
+ * (RFC 8058) that post to the List-Unsubscribe URL.
+ */
+
+function getToken(url: string, formData?: FormData): string {
+  return String(
+    formData?.get("token") ?? new URL(url).searchParams.get("token") ?? ""
+  );
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const token = getToken(request.url);
+
+  return { token, valid: verifyUnsubscribeToken(token) !== null };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const target = verifyUnsubscribeToken(
+    getToken(request.url, await request.formData())
+  );
+  if (!target) {
+    throw new Response("Invalid unsubscribe link", { status: 400 });
+  }
+
+  await recordUnsubscribe(target.shop, target.email);
+  return { unsubscribed: true };
+};
+
+export default function Unsubscribe() {
+  const { token, valid } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.content}>
+        {!valid ? (
+          <>
+            <h1 className={styles.heading}>This link doesn't work</h1>
+            <p className={styles.text}>
+              The unsubscribe link is incomplete or has been changed. Try
+              copying the whole link from the email.
+            </p>
+          </>
+        ) : actionData?.unsubscribed ? (
+          <>
+            <h1 className={styles.heading}>You're unsubscribed</h1>
+            <p className={styles.text}>
+              You won't get follow-up emails about your orders from this store
+              anymore.
+            </p>
+          </>
+        ) : (
+          <>
+            <h1 className={styles.heading}>Unsubscribe</h1>
+            <p className={styles.text}>
+              Stop receiving follow-up emails about your orders from this store?
+            </p>
+            <Form method="post">
+              <input type="hidden" name="token" value={token} />
+              <button className={styles.button} type="submit">
+                Unsubscribe
+              </button>
+            </Form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getRequestLogger } from "../utils/logger.server";
+import { recordSubscriptionStatus } from "../models/billing.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, shop, topic } = await authenticate.webhook(request);
+
+  const log = getRequestLogger(request, "webhooks").child({ shop, topic });
+  log.info("Received webhook");
+
+  // Approved, cancelled, frozen, ... subscriptions change the shop's plan
+  const subscription = payload.app_subscription;
+  await recordSubscriptionStatus(
+    shop,
+    {
+      id: String(subscription.admin_graphql_api_id),
+      name: String(subscription.name),
+      status: String(subscription.status),
+    },
+    log
+  );
+
+  return new Response();
+};
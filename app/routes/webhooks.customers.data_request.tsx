@@ -0,0 +1,30 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getRequestLogger } from "../utils/logger.server";
+import { enqueuePrivacyRequest } from "../models/privacy.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, shop, topic, webhookId } =
+    await authenticate.webhook(request);
+
+  const log = getRequestLogger(request, "webhooks").child({ shop, topic });
+  log.info("Received webhook", { webhookId });
+
+  // The export is built by the worker and handed over from the Privacy page
+  await enqueuePrivacyRequest(
+    {
+      shop,
+      kind: "customer_data_request",
+      webhookId,
+      customerId: payload.customer?.id ? String(payload.customer.id) : null,
+      customerEmail: payload.customer?.email ?? null,
+      orderIds: (payload.orders_requested ?? []).map(String),
+      dataRequestId: payload.data_request?.id
+        ? String(payload.data_request.id)
+        : null,
+    },
+    log
+  );
+
+  return new Response();
+};
@@ -0,0 +1,26 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getRequestLogger } from "../utils/logger.server";
+import { enqueuePrivacyRequest } from "../models/privacy.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, shop, topic, webhookId } =
+    await authenticate.webhook(request);
+
+  const log = getRequestLogger(request, "webhooks").child({ shop, topic });
+  log.info("Received webhook", { webhookId });
+
+  await enqueuePrivacyRequest(
+    {
+      shop,
+      kind: "customer_redact",
+      webhookId,
+      customerId: payload.customer?.id ? String(payload.customer.id) : null,
+      customerEmail: payload.customer?.email ?? null,
+      orderIds: (payload.orders_to_redact ?? []).map(String),
+    },
+    log
+  );
+
+  return new Response();
+};
@@ -0,0 +1,26 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getRequestLogger } from "../utils/logger.server";
+import { cancelOrderFollowups } from "../models/followupSchedule.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, shop, topic } = await authenticate.webhook(request);
+
+  const log = getRequestLogger(request, "webhooks").child({
+    shop,
+    topic,
+    orderId: String(payload.id),
+  });
+  log.info("Received webhook");
+
+  const cancelled = await cancelOrderFollowups(
+    shop,
+    String(payload.id),
+    "The order was cancelled"
+  );
+  if (cancelled > 0) {
+    log.info(`Cancelled ${cancelled} send(s) for the cancelled order`);
+  }
+
+  return new Response();
+};
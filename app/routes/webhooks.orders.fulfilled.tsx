@@ -0,0 +1,40 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getRequestLogger } from "../utils/logger.server";
+import { startWaitingFollowups } from "../models/followupSchedule.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, shop, topic } = await authenticate.webhook(request);
+
+  const log = getRequestLogger(request, "webhooks").child({
+    shop,
+    topic,
+    orderId: String(payload.id),
+  });
+  log.info("Received webhook");
+
+  // The latest fulfillment completes the order
+  const fulfillments = (payload.fulfillments ?? []) as Array<{
+    created_at: string;
+  }>;
+  const fulfilledAt = fulfillments.length
+    ? new Date(
+        Math.max(
+          ...fulfillments.map((fulfillment) =>
+            new Date(fulfillment.created_at).getTime()
+          )
+        )
+      )
+    : new Date();
+
+  const scheduled = await startWaitingFollowups(
+    shop,
+    String(payload.id),
+    fulfilledAt
+  );
+  if (scheduled > 0) {
+    log.info(`Scheduled ${scheduled} send(s) for the fulfilled order`);
+  }
+
+  return new Response();
+};
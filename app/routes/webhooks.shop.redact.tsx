@@ -0,0 +1,16 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getRequestLogger } from "../utils/logger.server";
+import { enqueuePrivacyRequest } from "../models/privacy.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, webhookId } = await authenticate.webhook(request);
+
+  const log = getRequestLogger(request, "webhooks").child({ shop, topic });
+  log.info("Received webhook", { webhookId });
+
+  // Sent 48 hours after the shop uninstalled the app
+  await enqueuePrivacyRequest({ shop, kind: "shop_redact", webhookId }, log);
+
+  return new Response();
+};
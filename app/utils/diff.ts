@@ -0,0 +1,89 @@
+/**
+ * Word-level text diff used to compare insight versions, and the
+ * character edit distance recorded when a merchant edits an email.
+ * Whitespace is kept as its own token so the output reads like the input.
+ */
+
+export type DiffSegment = {
+  type: "equal" | "added" | "removed";
+  text: string;
+};
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter((token) => token.length > 0);
+}
+
+/**
+ * Diff two texts via a longest-common-subsequence table.
+ * Insight texts are a few hundred words at most, so O(n*m) is fine.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment["type"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("equal", a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+
+  return segments;
+}
+
+/**
+ * Levenshtein distance: the fewest single-character insertions,
+ * deletions and substitutions that turn one text into the other.
+ * Keeps two rows of the table, so memory stays O(m).
+ */
+export function editDistance(before: string, after: string): number {
+  if (before === after) return 0;
+  if (!before) return after.length;
+  if (!after) return before.length;
+
+  let previous = Array.from({ length: after.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= before.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= after.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (before[i - 1] === after[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[after.length];
+}
@@ -0,0 +1,67 @@
+import crypto from "crypto";
+
+/**
+ * HMAC verification for requests signed by the Lambda.
+ * The Lambda signs the raw body with HMAC_SECRET and sends the hex
+ * digest in the X-Shopify-Hmac-SHA256 header.
+ */
+
+export const HMAC_HEADER = "X-Shopify-Hmac-SHA256";
+
+export type SignatureCheck =
+  | { valid: true }
+  | {
+      valid: false;
+      /** HTTP status to respond with */
+      status: 401 | 500;
+      /** Safe message for the response body */
+      error: string;
+      /** Detailed reason for the server log */
+      reason: string;
+    };
+
+/**
+ * Verify the HMAC signature of a raw request body
+ */
+export function verifyRequestSignature(
+  body: string,
+  hmacHeader: string | null
+): SignatureCheck {
+  if (!hmacHeader) {
+    return {
+      valid: false,
+      status: 401,
+      error: "Missing signature",
+      reason: "Missing HMAC signature header",
+    };
+  }
+
+  const hmacSecret = process.env.HMAC_SECRET;
+  if (!hmacSecret) {
+    return {
+      valid: false,
+      status: 500,
+      error: "Server configuration error",
+      reason: "HMAC_SECRET environment variable not set",
+    };
+  }
+
+  const expected = Buffer.from(
+    crypto.createHmac("sha256", hmacSecret).update(body).digest("hex")
+  );
+  const received = Buffer.from(hmacHeader);
+
+  if (
+    expected.length !== received.length ||
+    !crypto.timingSafeEqual(expected, received)
+  ) {
+    return {
+      valid: false,
+      status: 401,
+      error: "Invalid signature",
+      reason: "Invalid HMAC signature",
+    };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,22 @@
+import { randomUUID } from "crypto";
+import { CORRELATION_ID_HEADER, createLogger } from "../../shared/logger";
+import type { Logger } from "../../shared/logger";
+
+/**
+ * Root logger for work outside a request, like the background worker.
+ * Modules add their component with `logger.child`.
+ */
+export const logger = createLogger({ service: "app" });
+
+/**
+ * Logger for a request to one of the app's API routes.
+ * Lines carry the caller's correlation id (the Lambda's request id), or
+ * a new one for callers that don't send it.
+ */
+export function getRequestLogger(request: Request, component: string): Logger {
+  return createLogger({
+    service: "app",
+    component,
+    correlationId: request.headers.get(CORRELATION_ID_HEADER) || randomUUID(),
+  });
+}
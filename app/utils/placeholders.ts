@@ -0,0 +1,37 @@
+import type { FollowupPlaceholder } from "../../shared/placeholders";
+import {
+  PLACEHOLDER_PATTERN,
+  isFollowupPlaceholder,
+} from "../../shared/placeholders";
+
+/**
+ * Fill in the {{placeholders}} the AI puts in follow-up emails.
+ * Placeholders without a value are left in place and reported, so an
+ * email is never sent with a gap or a raw placeholder.
+ */
+
+export type PlaceholderValues = Partial<
+  Record<FollowupPlaceholder, string | null>
+>;
+
+/**
+ * Replace known placeholders that have a value.
+ * `missing` lists every placeholder left in the text, known or not.
+ */
+export function renderPlaceholders(
+  text: string,
+  values: PlaceholderValues
+): { text: string; missing: string[] } {
+  const missing = new Set<string>();
+
+  const rendered = text.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const value = isFollowupPlaceholder(name) ? values[name]?.trim() : null;
+    if (!value) {
+      missing.add(name);
+      return match;
+    }
+    return value;
+  });
+
+  return { text: rendered, missing: [...missing] };
+}
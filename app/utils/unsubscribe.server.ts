@@ -0,0 +1,71 @@
+import crypto from "crypto";
+
+/**
+ * Signed unsubscribe links for follow-up emails.
+ * The token carries the shop and address, signed with the app's API
+ * secret, so the public unsubscribe page needs no login and can't be used
+ * to unsubscribe someone else.
+ */
+
+export interface UnsubscribeTarget {
+  shop: string;
+  email: string;
+}
+
+function sign(payload: string): string {
+  const secret = process.env.SHOPIFY_API_SECRET;
+  if (!secret) {
+    throw new Error("SHOPIFY_API_SECRET environment variable not set");
+  }
+  return crypto
+    .createHmac("sha256", secret)
+    .update(payload)
+    .digest("base64url");
+}
+
+/**
+ * Token for the unsubscribe link of one shop and address
+ */
+export function createUnsubscribeToken(target: UnsubscribeTarget): string {
+  const payload = Buffer.from(
+    JSON.stringify({ shop: target.shop, email: target.email.toLowerCase() })
+  ).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Shop and address of a token, or null if it is malformed or forged
+ */
+export function verifyUnsubscribeToken(
+  token: string
+): UnsubscribeTarget | null {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const received = Buffer.from(signature);
+  if (
+    expected.length !== received.length ||
+    !crypto.timingSafeEqual(expected, received)
+  ) {
+    return null;
+  }
+
+  try {
+    const target = JSON.parse(Buffer.from(payload, "base64url").toString());
+    return typeof target.shop === "string" && typeof target.email === "string"
+      ? { shop: target.shop, email: target.email }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Public unsubscribe URL for an email footer and List-Unsubscribe header
+ */
+export function getUnsubscribeUrl(target: UnsubscribeTarget): string {
+  const url = new URL("/unsubscribe", process.env.SHOPIFY_APP_URL);
+  url.searchParams.set("token", createUnsubscribeToken(target));
+  return url.toString();
+}
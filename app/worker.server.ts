@@ -0,0 +1,87 @@
+import { dispatchDueFollowups } from "./models/followup.server";
+import {
+  expireWaitingFollowups,
+  resolveWaitingFollowups,
+} from "./models/followupSchedule.server";
+import {
+  processPrivacyRequests,
+  purgePrivacyExports,
+} from "./models/privacy.server";
+import { logger } from "./utils/logger.server";
+
+/**
+ * Background loop in the Remix server that schedules automatic follow-up
+ * emails, delivers due ones, works off queued GDPR requests and deletes
+ * expired data request exports (see privacy.server.ts).
+ *
+ * FOLLOWUP_WORKER_INTERVAL_MS sets how often it runs (default one
+ * minute); "0" turns it off, which stops scheduled emails and GDPR
+ * requests until it runs again. Both are claimed with a compare-and-set,
+ * so several servers running it is safe.
+ */
+
+declare global {
+  var followupWorkerGlobal: NodeJS.Timeout | undefined;
+}
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+const workerLogger = logger.child({ component: "worker" });
+
+let running = false;
+
+async function tick(): Promise<void> {
+  // Skip a tick while the last one is still sending
+  if (running) return;
+  running = true;
+
+  try {
+    const resolved = await resolveWaitingFollowups();
+    if (resolved > 0) {
+      workerLogger.info(`Scheduled ${resolved} automatic send(s)`);
+    }
+    const expired = await expireWaitingFollowups();
+    if (expired > 0) {
+      workerLogger.info(`Cancelled ${expired} send(s) never fulfilled`);
+    }
+    const sent = await dispatchDueFollowups();
+    if (sent > 0) {
+      workerLogger.info(`Sent ${sent} scheduled follow-up email(s)`);
+    }
+  } catch (error) {
+    workerLogger.error("Follow-up dispatch failed", { error });
+  }
+
+  try {
+    const processed = await processPrivacyRequests();
+    if (processed > 0) {
+      workerLogger.info(`Completed ${processed} privacy request(s)`);
+    }
+    await purgePrivacyExports();
+  } catch (error) {
+    workerLogger.error("Privacy requests failed", { error });
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start the loop once per process; later calls (e.g. after a dev server
+ * reload) are ignored
+ */
+export function startFollowupWorker(): void {
+  if (global.followupWorkerGlobal) return;
+
+  const interval = Number(
+    process.env.FOLLOWUP_WORKER_INTERVAL_MS ?? DEFAULT_INTERVAL_MS
+  );
+  if (!Number.isFinite(interval) || interval <= 0) {
+    workerLogger.info("Follow-up worker is off");
+    return;
+  }
+
+  global.followupWorkerGlobal = setInterval(tick, interval);
+  // Don't keep the process alive just for the worker
+  global.followupWorkerGlobal.unref();
+  workerLogger.info(`Delivering due follow-ups every ${interval}ms`);
+}
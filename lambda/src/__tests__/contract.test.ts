@@ -0,0 +1,117 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  MIN_SCHEMA_VERSION,
+  SCHEMA_VERSION,
+  downgradeBody,
+  negotiateSchemaVersion,
+  upgradeBody,
+} from "../../../shared/contract";
+import { customerDataResponseSchema, validate } from "../../../shared/schemas";
+import type { ContractName } from "../../../shared/types";
+
+const BODY = { shop: "test-store.myshopify.com", orderId: "1001" };
+
+describe("schema contract", () => {
+  it("upgrades an unversioned body to the current version", () => {
+    const result = upgradeBody("ingest", BODY);
+
+    expect(result).toEqual({
+      success: true,
+      data: { ...BODY, schemaVersion: SCHEMA_VERSION },
+      fromVersion: 1,
+    });
+  });
+
+  it("upgrades unversioned bodies of every request", () => {
+    const contracts: ContractName[] = [
+      "ingest",
+      "customerData",
+      "shopSettings",
+      "ledger",
+      "deadLetter",
+      "insightJob",
+    ];
+
+    for (const contract of contracts) {
+      expect(upgradeBody(contract, BODY)).toMatchObject({
+        success: true,
+        data: { schemaVersion: SCHEMA_VERSION },
+      });
+    }
+  });
+
+  it("leaves a current body as it is", () => {
+    const body = { ...BODY, schemaVersion: SCHEMA_VERSION };
+
+    expect(upgradeBody("customerData", body)).toEqual({
+      success: true,
+      data: body,
+      fromVersion: SCHEMA_VERSION,
+    });
+  });
+
+  it("rejects versions it doesn't know", () => {
+    for (const schemaVersion of [SCHEMA_VERSION + 1, "2", null]) {
+      const result = upgradeBody("ingest", { ...BODY, schemaVersion });
+      expect(result.success).toBe(false);
+    }
+  });
+
+  it("rejects bodies that aren't objects", () => {
+    for (const body of [null, [], "body", 2]) {
+      expect(upgradeBody("ingest", body)).toEqual({
+        success: false,
+        error: "Request body must be a JSON object",
+      });
+    }
+  });
+
+  it("downgrades a body to what an older app reads", () => {
+    const body = { ...BODY, schemaVersion: SCHEMA_VERSION };
+
+    expect(downgradeBody("ingest", body, MIN_SCHEMA_VERSION)).toEqual(BODY);
+    expect(downgradeBody("ingest", body, SCHEMA_VERSION)).toEqual(body);
+  });
+
+  it("round-trips every supported version", () => {
+    const current = { ...BODY, schemaVersion: SCHEMA_VERSION };
+
+    for (let v = MIN_SCHEMA_VERSION; v <= SCHEMA_VERSION; v++) {
+      const old = downgradeBody("customerData", current, v);
+      const upgraded = upgradeBody("customerData", old);
+      expect(upgraded).toEqual({
+        success: true,
+        data: current,
+        fromVersion: v,
+      });
+    }
+  });
+
+  it("negotiates the highest version both sides support", () => {
+    expect(negotiateSchemaVersion([1, 2, 3])).toBe(SCHEMA_VERSION);
+    expect(negotiateSchemaVersion([1])).toBe(1);
+    expect(negotiateSchemaVersion([99])).toBeNull();
+  });
+
+  it("reads responses from apps with fewer or more fields", () => {
+    const result = validate(customerDataResponseSchema, {
+      success: true,
+      customer: {
+        id: "gid://shopify/Customer/7001",
+        numberOfOrders: 3,
+        amountSpent: 150,
+        currency: "USD",
+        firstName: null,
+        lastName: null,
+        email: "jane@example.com",
+        createdAt: null,
+        loyaltyTier: "gold",
+      },
+    });
+
+    expect(result.success).toBe(true);
+    const customer = result.success ? result.data.customer : undefined;
+    expect(customer).not.toHaveProperty("email");
+    expect(customer).not.toHaveProperty("loyaltyTier");
+  });
+});
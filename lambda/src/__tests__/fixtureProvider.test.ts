@@ -0,0 +1,57 @@
+import { describe, expect, it } from "@jest/globals";
+import { aiInsightResponseSchema, validate } from "../../../shared/schemas";
+import { createFixtureProvider } from "../providers/fixture";
+import type { CompletionRequest } from "../providers/types";
+
+function requestFor(prompt: string): CompletionRequest {
+  return {
+    systemMessage: "",
+    prompt,
+    json: true,
+    temperature: 0.7,
+    maxTokens: 1000,
+  };
+}
+
+function promptFor(customerType: string, items: string) {
+  return `ORDER DETAILS:\n- Items: ${items}\n\nCUSTOMER PROFILE:\n- Customer Type: ${customerType}\n`;
+}
+
+describe("fixture provider", () => {
+  it("answers with the template of the prompt's customer type", async () => {
+    const completion = await createFixtureProvider().complete(
+      requestFor(promptFor("vip", "Organic Coffee Beans (x2)"))
+    );
+
+    const response = JSON.parse(completion.content);
+    expect(response.insight).toBe(
+      "VIP customer who bought Organic Coffee Beans (x2). Add them to your VIP segment and offer early access to new arrivals."
+    );
+    expect(response.followupSubject).toBe(
+      "A thank-you for one of our best customers"
+    );
+    expect(validate(aiInsightResponseSchema, response).success).toBe(true);
+  });
+
+  it("falls back to the repeat template for an unknown type", async () => {
+    const completion = await createFixtureProvider().complete(
+      requestFor("No customer type here")
+    );
+
+    expect(JSON.parse(completion.content).insight).toBe(
+      "Returning customer who bought their items. Consider a bundle or subscription offer for the products they come back for."
+    );
+  });
+
+  it("is deterministic and reports zero usage", async () => {
+    const provider = createFixtureProvider();
+    const request = requestFor(promptFor("first-time", "Ceramic Mug (x1)"));
+
+    const first = await provider.complete(request);
+    const second = await provider.complete(request);
+
+    expect(second.content).toBe(first.content);
+    expect(first.model).toBe("fixture");
+    expect(first.usage).toEqual({ promptTokens: 0, completionTokens: 0 });
+  });
+});
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { SCHEMA_VERSION } from "../../../shared/contract";
+import { errorForResponse } from "../errors";
+import {
+  fetchCustomerData,
+  postDeadLetter,
+  sendLedgerRequest,
+} from "../httpClient";
+
+process.env.REMIX_APP_URL = "https://app.example.com";
+process.env.HMAC_SECRET = "test-secret";
+process.env.LOG_LEVEL = "error";
+
+const fetchMock = jest.fn<typeof fetch>();
+
+describe("app requests", () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("sends the schema version with every request", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify({ success: true }))
+    );
+
+    await sendLedgerRequest({ action: "fail", key: "event:1", error: "x" });
+
+    const body = JSON.parse(String(fetchMock.mock.calls[0][1]?.body));
+    expect(body).toEqual({
+      action: "fail",
+      key: "event:1",
+      error: "x",
+      schemaVersion: SCHEMA_VERSION,
+    });
+  });
+
+  it("asks for the customer's history before the order", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify({ success: false, error: "Not found" }))
+    );
+
+    await fetchCustomerData(
+      "test-store.myshopify.com",
+      "7001",
+      "2026-03-01T10:00:00Z"
+    );
+
+    const body = JSON.parse(String(fetchMock.mock.calls[0][1]?.body));
+    expect(body).toMatchObject({
+      customerId: "7001",
+      before: "2026-03-01T10:00:00Z",
+    });
+  });
+
+  it("keeps the status of an error page that isn't JSON", async () => {
+    fetchMock.mockResolvedValue(
+      new Response("<html>Bad gateway</html>", { status: 502 })
+    );
+
+    const result = await postDeadLetter({
+      deadLetterId: null,
+      shop: "test-store.myshopify.com",
+      orderId: "1001",
+      orderName: "#1001",
+      errorKind: "transient",
+      error: "Provider timed out",
+      attempts: 3,
+      event: {},
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error: "HTTP 502 (response is not JSON)",
+      status: 502,
+    });
+    expect(errorForResponse(result.error!, result.status).kind).toBe(
+      "transient"
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { createMemoryLedger } from "../ledger/memory";
+
+const LEASE_MS = 60_000;
+const SHOP = "test-store.myshopify.com";
+
+describe("memory ledger", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("claims a new event once", async () => {
+    const ledger = createMemoryLedger(LEASE_MS);
+
+    const first = await ledger.claim("event:1", SHOP, "1001");
+    const second = await ledger.claim("event:1", SHOP, "1001");
+
+    expect(first.claimed).toBe(true);
+    expect(first.entry).toMatchObject({
+      status: "in-flight",
+      attempts: 1,
+      shop: SHOP,
+      orderId: "1001",
+    });
+    expect(second).toMatchObject({
+      claimed: false,
+      entry: { status: "in-flight" },
+    });
+  });
+
+  it("never claims a completed event again", async () => {
+    const ledger = createMemoryLedger(LEASE_MS);
+    await ledger.claim("event:1", SHOP, "1001");
+    await ledger.complete("event:1", "insight-1");
+
+    const claim = await ledger.claim("event:1", SHOP, "1001");
+
+    expect(claim).toMatchObject({
+      claimed: false,
+      entry: { status: "completed", insightId: "insight-1", error: null },
+    });
+  });
+
+  it("keeps the skip reason of a completed event", async () => {
+    const ledger = createMemoryLedger(LEASE_MS);
+    await ledger.claim("event:1", SHOP, "1001");
+    await ledger.complete("event:1", null, "Plan insight limit reached");
+
+    const claim = await ledger.claim("event:1", SHOP, "1001");
+
+    expect(claim.entry).toMatchObject({
+      status: "completed",
+      insightId: null,
+      error: "Plan insight limit reached",
+    });
+  });
+
+  it("lets a failed event be claimed again", async () => {
+    const ledger = createMemoryLedger(LEASE_MS);
+    await ledger.claim("event:1", SHOP, "1001");
+    await ledger.fail("event:1", "Provider timed out");
+
+    const claim = await ledger.claim("event:1", SHOP, "1001");
+
+    expect(claim.claimed).toBe(true);
+    expect(claim.entry).toMatchObject({
+      status: "in-flight",
+      attempts: 2,
+      error: null,
+    });
+  });
+
+  it("takes over an in-flight claim once its lease ran out", async () => {
+    jest.useFakeTimers({ now: new Date("2026-10-01T10:00:00Z") });
+    const ledger = createMemoryLedger(LEASE_MS);
+    await ledger.claim("event:1", SHOP, "1001");
+
+    jest.setSystemTime(new Date(Date.now() + LEASE_MS - 1));
+    expect((await ledger.claim("event:1", SHOP, "1001")).claimed).toBe(false);
+
+    jest.setSystemTime(new Date(Date.now() + 2));
+    const claim = await ledger.claim("event:1", SHOP, "1001");
+    expect(claim.claimed).toBe(true);
+    expect(claim.entry.attempts).toBe(2);
+  });
+
+  it("ignores updates to events it never claimed", async () => {
+    const ledger = createMemoryLedger(LEASE_MS);
+    await ledger.complete("event:1", "insight-1");
+    await ledger.fail("event:2", "Provider timed out");
+
+    expect((await ledger.claim("event:1", SHOP, "1001")).entry.attempts).toBe(
+      1
+    );
+    expect((await ledger.claim("event:2", SHOP, "1002")).entry.attempts).toBe(
+      1
+    );
+  });
+});
@@ -0,0 +1,203 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { Context } from "aws-lambda";
+import type {
+  BudgetStatus,
+  PlanStatus,
+  ShopifyEventBridgeEvent,
+  ShopifyOrder,
+} from "../../../shared/types";
+import {
+  fetchShopSettings,
+  postDeadLetter,
+  postErrorToApp,
+  postInsightToApp,
+} from "../httpClient";
+import { handleOrderEvent } from "../orderEvent";
+import { getFallbackSettings } from "../shopSettings";
+
+jest.mock("../httpClient");
+
+process.env.AI_PROVIDER = "fixture";
+process.env.LEDGER_STORE = "memory";
+process.env.LOG_LEVEL = "error";
+
+const SHOP = "test-store.myshopify.com";
+
+const PLAN: PlanStatus = {
+  plan: "free",
+  graceEndsAt: null,
+  insightsThisMonth: 25,
+  insightLimit: 25,
+  limitReached: true,
+};
+
+const BUDGET: BudgetStatus = {
+  month: "2026-10",
+  spent: 12.5,
+  budget: 10,
+  exceeded: true,
+};
+
+const context = {
+  awsRequestId: "request-1",
+  getRemainingTimeInMillis: () => 60_000,
+} as unknown as Context;
+
+let eventCount = 0;
+
+/** A guest order, so no customer data is fetched */
+function orderEvent(): ShopifyEventBridgeEvent {
+  eventCount++;
+  return {
+    version: "0",
+    id: `event-${eventCount}`,
+    "detail-type": "shopifyWebhook",
+    source: "aws.partner/shopify.com",
+    account: "000000000000",
+    time: "2026-10-01T10:00:00Z",
+    region: "ap-southeast-2",
+    resources: [],
+    detail: {
+      metadata: {
+        "Content-Type": "application/json",
+        "X-Shopify-Topic": "orders/create",
+        "X-Shopify-Shop-Domain": SHOP,
+        "X-Shopify-API-Version": "2026-01",
+        "X-Shopify-Webhook-Id": `webhook-${eventCount}`,
+        "X-Shopify-Triggered-At": "2026-10-01T10:00:00Z",
+        "X-Shopify-Event-Id": `shopify-event-${eventCount}`,
+      },
+      payload: {
+        id: 1000 + eventCount,
+        name: `#${1000 + eventCount}`,
+        total_price: "85.00",
+        currency: "USD",
+        created_at: "2026-10-01T10:00:00Z",
+        line_items: [{ title: "Ceramic Mug", quantity: 1, price: "85.00" }],
+        discount_codes: [],
+        customer: null,
+      } as unknown as ShopifyOrder,
+    },
+  } as ShopifyEventBridgeEvent;
+}
+
+function mockSettings(
+  extra: { plan?: PlanStatus; budget?: BudgetStatus } = {}
+) {
+  jest.mocked(fetchShopSettings).mockResolvedValue({
+    success: true,
+    settings: { ...getFallbackSettings(), overBudgetAction: "skip" },
+    ...extra,
+  });
+}
+
+describe("handleOrderEvent", () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.resetAllMocks();
+    jest
+      .mocked(postInsightToApp)
+      .mockResolvedValue({ success: true, id: "insight-1" });
+    jest
+      .mocked(postDeadLetter)
+      .mockResolvedValue({ success: true, id: "dead-letter-1" });
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("posts a generated insight", async () => {
+    mockSettings();
+
+    const result = await handleOrderEvent(orderEvent(), context);
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body)).toMatchObject({ insightId: "insight-1" });
+    expect(jest.mocked(postInsightToApp).mock.calls[0][0]).toMatchObject({
+      shop: SHOP,
+      status: "completed",
+      orderValue: 85,
+    });
+  });
+
+  it("skips an order once the plan allowance is used up", async () => {
+    mockSettings({ plan: PLAN });
+
+    const result = await handleOrderEvent(orderEvent(), context);
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body)).toEqual({
+      message: "Plan insight limit reached",
+      skipped: true,
+    });
+    expect(postInsightToApp).not.toHaveBeenCalled();
+  });
+
+  it("analyzes orders while the plan has allowance left", async () => {
+    mockSettings({
+      plan: { ...PLAN, insightsThisMonth: 24, limitReached: false },
+    });
+
+    const result = await handleOrderEvent(orderEvent(), context);
+
+    expect(JSON.parse(result.body)).toMatchObject({ success: true });
+    expect(postInsightToApp).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips an order over the monthly budget when the shop asks to", async () => {
+    mockSettings({ budget: BUDGET });
+
+    const result = await handleOrderEvent(orderEvent(), context);
+
+    expect(JSON.parse(result.body)).toEqual({
+      message: "Monthly AI budget exceeded",
+      skipped: true,
+    });
+    expect(postInsightToApp).not.toHaveBeenCalled();
+  });
+
+  it("doesn't process a redelivered event twice", async () => {
+    mockSettings();
+    const event = orderEvent();
+
+    await handleOrderEvent(event, context);
+    const result = await handleOrderEvent(event, context);
+
+    expect(JSON.parse(result.body)).toEqual({
+      message: "Duplicate event",
+      status: "completed",
+      insightId: "insight-1",
+    });
+    expect(postInsightToApp).toHaveBeenCalledTimes(1);
+  });
+
+  it("dead-letters an order whose insight couldn't be posted, with its usage", async () => {
+    mockSettings();
+    jest
+      .mocked(postInsightToApp)
+      .mockResolvedValue({ success: false, error: "Bad request", status: 400 });
+    const event = orderEvent();
+
+    const result = await handleOrderEvent(event, context);
+
+    expect(result.statusCode).toBe(500);
+    expect(JSON.parse(result.body)).toMatchObject({
+      errorKind: "permanent",
+      deadLetterId: "dead-letter-1",
+    });
+    expect(postInsightToApp).toHaveBeenCalledTimes(1);
+    expect(jest.mocked(postErrorToApp).mock.calls[0].slice(0, 4)).toEqual([
+      SHOP,
+      String(event.detail.payload.id),
+      event.detail.payload.name,
+      "Bad request",
+    ]);
+    expect(jest.mocked(postErrorToApp).mock.calls[0][4]).toMatchObject({
+      usage: { promptTokens: 0, estimated: false },
+    });
+    expect(jest.mocked(postDeadLetter).mock.calls[0][0]).toMatchObject({
+      shop: SHOP,
+      event,
+      errorKind: "permanent",
+    });
+  });
+});
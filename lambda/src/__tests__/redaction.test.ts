@@ -0,0 +1,210 @@
+import { describe, expect, it } from "@jest/globals";
+import type {
+  FeedbackGuidance,
+  ProcessedCustomerData,
+  ProcessedOrderData,
+  ShopifyOrder,
+} from "../../../shared/types";
+import { REDACTED, redactText } from "../../../shared/redaction";
+import { buildPrompt } from "../promptBuilder";
+import { redactForLog } from "../redaction";
+
+const ORDER: ProcessedOrderData = {
+  orderId: "1001",
+  orderName: "#1001",
+  totalPrice: 85,
+  currency: "USD",
+  lineItems: [
+    {
+      title: "Organic Coffee Beans",
+      quantity: 2,
+      price: 30,
+      productId: null,
+      sku: null,
+    },
+  ],
+  discountCodes: [],
+  hasDiscount: false,
+  itemCount: 2,
+};
+
+const CUSTOMER: ProcessedCustomerData = {
+  firstName: "Jane",
+  lastName: "Doe",
+  ordersCount: 3,
+  totalSpent: 150,
+  isFirstOrder: false,
+  customerType: "repeat",
+  daysSinceFirstOrder: 300,
+  daysSinceLastOrder: 20,
+  averageOrderValue: 50,
+  segmentRuleId: "default",
+  tags: ["wholesale", "Jane Doe", "jane@example.com"],
+  countryCode: "AU",
+  previousOrders: [],
+};
+
+function guidance(
+  editedBody: string,
+  customerNames: string[] = []
+): FeedbackGuidance {
+  return {
+    editsAnalyzed: 4,
+    reasonCounts: [{ reason: "too_long", count: 3 }],
+    averageChangeRatio: 0.4,
+    examples: [
+      {
+        originalSubject: "Thanks, {{customer_first_name}}",
+        originalBody: "Hi {{customer_first_name}},\n\nA long email.",
+        editedSubject: "Thanks!",
+        editedBody,
+        reasons: ["too_long"],
+        customerNames,
+      },
+    ],
+  };
+}
+
+describe("redactText", () => {
+  it("removes emails, phone numbers, addresses and known names", () => {
+    const result = redactText(
+      "Jane (jane.doe+shop@example.com, +61 412 345 678) lives at 12 Main Street",
+      ["Jane", null]
+    );
+
+    expect(result.text).toBe(
+      `${REDACTED} (${REDACTED}, ${REDACTED}) lives at ${REDACTED}`
+    );
+    expect(result.found).toEqual(["email", "phone", "address", "name"]);
+  });
+
+  it("leaves text without PII alone", () => {
+    expect(redactText("Leave at the back door", ["Jane"])).toEqual({
+      text: "Leave at the back door",
+      found: [],
+    });
+  });
+
+  it("only matches whole names", () => {
+    expect(redactText("Janet called", ["Jane"]).text).toBe("Janet called");
+  });
+});
+
+describe("redactForLog", () => {
+  it("replaces the customer's details anywhere in an event", () => {
+    const order = {
+      id: 1001,
+      name: "#1001",
+      note: "Call Jane on 0412 345 678",
+      customer: {
+        id: 7001,
+        first_name: "Jane",
+        last_name: "Doe",
+        email: "jane@example.com",
+      },
+      shipping_address: { name: "Jane Doe", address1: "12 Main Street" },
+      note_attributes: [{ name: "gift", value: "For Jane" }],
+    } as unknown as ShopifyOrder;
+
+    const redacted = redactForLog({ payload: order }) as {
+      payload: Record<string, unknown>;
+    };
+
+    expect(redacted.payload).toEqual({
+      id: 1001,
+      name: "#1001",
+      note: `Call ${REDACTED} on ${REDACTED}`,
+      customer: {
+        id: 7001,
+        first_name: REDACTED,
+        last_name: REDACTED,
+        email: REDACTED,
+      },
+      shipping_address: { name: REDACTED, address1: REDACTED },
+      note_attributes: [{ name: "gift", value: REDACTED }],
+    });
+  });
+});
+
+describe("prompt scrubbing", () => {
+  it("scrubs the customer's tags and records what was removed", () => {
+    const prompt = buildPrompt(ORDER, CUSTOMER, {
+      includeCustomerName: false,
+    });
+
+    expect(prompt.prompt).not.toContain("Jane");
+    expect(prompt.prompt).not.toContain("jane@example.com");
+    expect(prompt.prompt).toContain(
+      `Customer Tags: wholesale, ${REDACTED} ${REDACTED}, ${REDACTED}`
+    );
+    expect(prompt.redacted).toEqual([
+      "customer_name: not allowed in settings",
+      "customer_tags: email, name",
+    ]);
+  });
+
+  it("withholds what the shop's settings leave out", () => {
+    const prompt = buildPrompt(ORDER, CUSTOMER, {
+      includeCustomerName: true,
+      includeCountry: false,
+      includeCustomerTags: false,
+    });
+
+    expect(prompt.sentFields).toContain("customer_name");
+    expect(prompt.sentFields).not.toContain("country");
+    expect(prompt.sentFields).not.toContain("customer_tags");
+    expect(prompt.redacted).toEqual([
+      "country: not allowed in settings",
+      "customer_tags: not allowed in settings",
+    ]);
+  });
+
+  it("removes the names of the customer an edit example was for", () => {
+    const prompt = buildPrompt(ORDER, CUSTOMER, {
+      includeCustomerName: false,
+      feedbackGuidance: guidance("Hi Maria,\n\nThanks, Maria Lopez!", [
+        "Maria",
+        "Lopez",
+      ]),
+    });
+
+    expect(prompt.prompt).toContain(
+      `Merchant's body: Hi ${REDACTED},\n\nThanks, ${REDACTED} ${REDACTED}!`
+    );
+    expect(prompt.prompt).not.toContain("Maria");
+    expect(prompt.redacted).toContain("merchant_feedback: name");
+  });
+
+  it("leaves other words after a greeting alone", () => {
+    const prompt = buildPrompt(ORDER, CUSTOMER, {
+      includeCustomerName: false,
+      feedbackGuidance: guidance(
+        "Hi There,\n\nDear Valued Customer, your beans are on the way.",
+        ["Maria", "Lopez"]
+      ),
+    });
+
+    expect(prompt.prompt).toContain(
+      "Merchant's body: Hi There,\n\nDear Valued Customer, your beans are on the way."
+    );
+    expect(prompt.redacted).not.toContain("merchant_feedback: name");
+  });
+
+  it("scrubs edit examples without this customer's names", () => {
+    const prompt = buildPrompt(
+      ORDER,
+      { ...CUSTOMER, firstName: "Doe", tags: [] },
+      {
+        includeCustomerName: false,
+        feedbackGuidance: guidance(
+          "Hi {{customer_first_name}}, reply to orders@example.com. Doe & Co."
+        ),
+      }
+    );
+
+    expect(prompt.prompt).toContain(
+      `Merchant's body: Hi {{customer_first_name}}, reply to ${REDACTED}. Doe & Co.`
+    );
+    expect(prompt.redacted).toContain("merchant_feedback: email");
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, expect, it } from "@jest/globals";
+import type { CustomerData, SegmentRule } from "../../../shared/types";
+import {
+  buildDefaultSegmentRules,
+  evaluateSegmentRules,
+  validateSegmentRules,
+} from "../../../shared/segmentation";
+import { processCustomerDataFromAPI } from "../orderProcessor";
+
+const DEFAULT_RULES = buildDefaultSegmentRules({
+  vipMinOrders: 5,
+  vipMinSpend: 500,
+});
+
+function metrics(
+  values: Partial<Record<string, number | null>>
+): Parameters<typeof evaluateSegmentRules>[1] {
+  return {
+    ordersCount: null,
+    totalSpent: null,
+    daysSinceLastOrder: null,
+    averageOrderValue: null,
+    ...values,
+  };
+}
+
+function customer(overrides: Partial<CustomerData> = {}): CustomerData {
+  return {
+    id: "gid://shopify/Customer/7001",
+    numberOfOrders: 3,
+    amountSpent: 150,
+    currency: "USD",
+    firstName: "Jane",
+    lastName: "Doe",
+    createdAt: "2025-01-01T10:00:00Z",
+    recentOrders: [],
+    ...overrides,
+  };
+}
+
+describe("segment rules", () => {
+  it("puts a first order first, even when it's large", () => {
+    expect(
+      evaluateSegmentRules(
+        DEFAULT_RULES,
+        metrics({ ordersCount: 1, totalSpent: 900 })
+      )
+    ).toEqual({ customerType: "first-time", ruleId: "first-order" });
+  });
+
+  it("makes a customer VIP on orders or spend", () => {
+    expect(
+      evaluateSegmentRules(
+        DEFAULT_RULES,
+        metrics({ ordersCount: 5, totalSpent: 100 })
+      ).customerType
+    ).toBe("vip");
+    expect(
+      evaluateSegmentRules(
+        DEFAULT_RULES,
+        metrics({ ordersCount: 2, totalSpent: 500 })
+      ).customerType
+    ).toBe("vip");
+  });
+
+  it("tells lapsed from at-risk customers by their gap", () => {
+    const at = (days: number) =>
+      evaluateSegmentRules(
+        DEFAULT_RULES,
+        metrics({ ordersCount: 2, totalSpent: 50, daysSinceLastOrder: days })
+      ).customerType;
+
+    expect(at(200)).toBe("lapsed");
+    expect(at(100)).toBe("at-risk");
+    expect(at(10)).toBe("repeat");
+  });
+
+  it("falls back to the default segment when nothing matches", () => {
+    const rules: SegmentRule[] = [
+      {
+        id: "big-spender",
+        segment: "vip",
+        match: "all",
+        conditions: [{ metric: "totalSpent", operator: "gt", value: 1000 }],
+      },
+    ];
+
+    expect(evaluateSegmentRules(rules, metrics({ totalSpent: 1000 }))).toEqual({
+      customerType: "repeat",
+      ruleId: "default",
+    });
+  });
+
+  it("never matches a condition on an unknown metric", () => {
+    const rules: SegmentRule[] = [
+      {
+        id: "recent",
+        segment: "vip",
+        match: "all",
+        conditions: [
+          { metric: "daysSinceLastOrder", operator: "lt", value: 30 },
+        ],
+      },
+    ];
+
+    expect(evaluateSegmentRules(rules, metrics({})).ruleId).toBe("default");
+  });
+
+  it("reports what's wrong with rules from untrusted JSON", () => {
+    expect(validateSegmentRules(DEFAULT_RULES)).toEqual([]);
+    expect(validateSegmentRules({})).toEqual(["Rules must be a JSON array"]);
+    expect(
+      validateSegmentRules([
+        { id: "default", segment: "vip", match: "all", conditions: [] },
+      ])
+    ).toEqual([
+      'Rule 1 id "default" is reserved or already used',
+      "Rule 1 needs 1 to 5 conditions",
+    ]);
+  });
+});
+
+describe("customer segmentation", () => {
+  it("measures the gap since the previous order at the order's date", () => {
+    const data = processCustomerDataFromAPI(
+      customer({
+        recentOrders: [
+          // Placed after the order being regenerated
+          { id: "gid://shopify/Order/1003", createdAt: "2026-09-01T10:00:00Z" },
+          { id: "gid://shopify/Order/1002", createdAt: "2026-03-01T10:00:00Z" },
+          { id: "gid://shopify/Order/1001", createdAt: "2025-12-01T10:00:00Z" },
+        ],
+      }),
+      DEFAULT_RULES,
+      { orderId: "1002", totalPrice: 50 },
+      "2026-03-01T10:00:00Z"
+    );
+
+    expect(data.previousOrders.map((order) => order.id)).toEqual([
+      "gid://shopify/Order/1001",
+    ]);
+    expect(data.daysSinceLastOrder).toBe(90);
+    expect(data).toMatchObject({
+      customerType: "at-risk",
+      segmentRuleId: "at-risk",
+    });
+  });
+
+  it("counts only the orders placed before the one being processed", () => {
+    // A backfilled first order of a customer who is a VIP today
+    const data = processCustomerDataFromAPI(
+      customer({
+        numberOfOrders: 8,
+        amountSpent: 900,
+        ordersBefore: { count: 0, amountSpent: 0 },
+      }),
+      DEFAULT_RULES,
+      { orderId: "1001", totalPrice: 120 },
+      "2025-01-01T10:00:00Z"
+    );
+
+    expect(data).toMatchObject({
+      ordersCount: 1,
+      totalSpent: 120,
+      averageOrderValue: 120,
+      isFirstOrder: true,
+      customerType: "first-time",
+    });
+  });
+
+  it("adds the order to the history before it", () => {
+    const data = processCustomerDataFromAPI(
+      customer({
+        numberOfOrders: 8,
+        amountSpent: 900,
+        ordersBefore: { count: 3, amountSpent: 250 },
+      }),
+      DEFAULT_RULES,
+      { orderId: "1004", totalPrice: 150 },
+      "2026-03-01T10:00:00Z"
+    );
+
+    expect(data).toMatchObject({
+      ordersCount: 4,
+      totalSpent: 400,
+      averageOrderValue: 100,
+      isFirstOrder: false,
+    });
+    expect(data.customerType).not.toBe("vip");
+  });
+
+  it("uses lifetime totals from apps without ordersBefore", () => {
+    const data = processCustomerDataFromAPI(
+      customer({ numberOfOrders: 8, amountSpent: 900 }),
+      DEFAULT_RULES,
+      { orderId: "1001", totalPrice: 120 },
+      "2025-01-01T10:00:00Z"
+    );
+
+    expect(data).toMatchObject({ ordersCount: 8, totalSpent: 900 });
+  });
+
+  it("segments a customer without data as first-time", () => {
+    expect(
+      processCustomerDataFromAPI(undefined, DEFAULT_RULES, {
+        orderId: "1001",
+        totalPrice: 50,
+      })
+    ).toMatchObject({ customerType: "first-time", segmentRuleId: "fallback" });
+  });
+});
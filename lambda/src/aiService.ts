@@ -1,89 +1,165 @@
 /**
- * AI Service - Handles communication with OpenAI API
+ * AI Service - Generates insights through the configured LLM provider
  */
 
-import OpenAI from "openai";
-import type { AIInsightResponse } from "../../shared/types";
-import { SYSTEM_MESSAGE } from "./promptBuilder";
+import type {
+  AIInsightResponse,
+  ContentWarning,
+  GeneratedInsight,
+  InsightUsage,
+} from "../../shared/types";
+import {
+  aiInsightResponseSchema,
+  formatIssues,
+  validate,
+} from "../../shared/schemas";
+import type { Logger } from "../../shared/logger";
+import { addUsage, computeCost } from "../../shared/pricing";
+import { ProcessingError } from "./errors";
+import { logger } from "./logger";
+import type { BuiltPrompt } from "./promptBuilder";
+import { buildRepairPrompt } from "./promptBuilder";
+import { getInsightProvider } from "./providers";
+import type { InsightProvider } from "./providers";
 
-let openaiClient: OpenAI | null = null;
+/**
+ * Check a response against the order, returning what's wrong with it
+ */
+export type ContentCheck = (response: AIInsightResponse) => ContentWarning[];
 
 /**
- * Get or create OpenAI client
+ * Call the provider and parse its JSON response. A response that doesn't
+ * parse was still paid for, so its error carries the usage.
  */
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error("OPENAI_API_KEY environment variable is not set");
-    }
-    openaiClient = new OpenAI({ apiKey });
+async function requestInsight(
+  provider: InsightProvider,
+  prompt: BuiltPrompt,
+  model: string | undefined,
+  log: Logger
+): Promise<{
+  response: AIInsightResponse;
+  model: string;
+  usage: InsightUsage;
+}> {
+  const start = Date.now();
+  const completion = await provider.complete({
+    systemMessage: prompt.systemMessage,
+    prompt: prompt.prompt,
+    json: true,
+    temperature: 0.7,
+    maxTokens: 1000,
+    model,
+  });
+
+  // OpenAI-compatible servers don't all report usage
+  const usage: InsightUsage = completion.usage
+    ? { ...completion.usage, latencyMs: Date.now() - start, estimated: false }
+    : {
+        promptTokens: estimateTokens(prompt.systemMessage + prompt.prompt),
+        completionTokens: estimateTokens(completion.content),
+        latencyMs: Date.now() - start,
+        estimated: true,
+      };
+
+  log.debug("Received AI response", { model: completion.model, ...usage });
+
+  // Parse and validate the JSON response
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(completion.content);
+  } catch (error) {
+    log.error("Failed to parse AI response as JSON", { error });
+    throw new ProcessingError("validation", "AI response was not valid JSON", {
+      cause: error,
+      usage,
+    });
   }
-  return openaiClient;
+  const validation = validate(aiInsightResponseSchema, parsed);
+  if (!validation.success) {
+    throw new ProcessingError(
+      "validation",
+      `Invalid AI response: ${formatIssues(validation.issues)}`,
+      { usage }
+    );
+  }
+
+  return { response: validation.data, model: completion.model, usage };
 }
 
 /**
- * Generate AI insight from the given prompt
+ * Generate AI insight from the given prompt.
+ * When the check finds problems the model gets one repair re-prompt;
+ * problems left in the response that's kept are returned as warnings.
+ * The usage covers both requests. `model` overrides the provider's
+ * default, e.g. with its budget model.
  */
 export async function generateInsight(
-  prompt: string
-): Promise<AIInsightResponse> {
-  const client = getOpenAIClient();
-  const model = process.env.OPENAI_MODEL || "gpt-3.5-turbo";
+  prompt: BuiltPrompt,
+  check: ContentCheck = () => [],
+  log: Logger = logger,
+  model?: string
+): Promise<GeneratedInsight> {
+  const provider = getInsightProvider();
 
-  console.log(`[AI] Calling OpenAI API with model: ${model}`);
+  log.info(`Calling provider ${provider.name}`, {
+    template: `${prompt.templateId}@${prompt.templateVersion}`,
+    model: model ?? provider.model,
+  });
 
-  try {
-    const response = await client.chat.completions.create({
-      model,
-      messages: [
-        { role: "system", content: SYSTEM_MESSAGE },
-        { role: "user", content: prompt },
-      ],
-      temperature: 0.7,
-      max_tokens: 1000,
-      response_format: { type: "json_object" },
+  const first = await requestInsight(provider, prompt, model, log);
+  const warnings = check(first.response);
+  if (warnings.length === 0) {
+    log.info("Generated insight", {
+      model: first.model,
+      ...first.usage,
+      costUsd: computeCost(first.model, first.usage),
     });
+    return { ...first, warnings, repaired: false };
+  }
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("Empty response from OpenAI");
-    }
-
-    console.log(`[AI] Received response, parsing JSON...`);
+  log.info("Response has content warnings, asking for a repair", {
+    warnings: warnings.map((warning) => warning.code),
+  });
 
-    // Parse the JSON response
-    const parsed = JSON.parse(content) as AIInsightResponse;
+  // Paid for whether or not the repair is kept
+  let usage = first.usage;
 
-    // Validate required fields
-    if (!parsed.insight || typeof parsed.insight !== "string") {
-      throw new Error("Invalid AI response: missing or invalid 'insight' field");
-    }
-    if (!parsed.followupSubject || typeof parsed.followupSubject !== "string") {
-      throw new Error(
-        "Invalid AI response: missing or invalid 'followupSubject' field"
-      );
-    }
-    if (!parsed.followupBody || typeof parsed.followupBody !== "string") {
-      throw new Error(
-        "Invalid AI response: missing or invalid 'followupBody' field"
-      );
+  try {
+    const repair = await requestInsight(
+      provider,
+      buildRepairPrompt(prompt, first.response, warnings),
+      model,
+      log
+    );
+    usage = addUsage(usage, repair.usage);
+    const remaining = check(repair.response);
+    if (remaining.length <= warnings.length) {
+      log.info("Repaired insight", {
+        model: repair.model,
+        warnings: remaining.map((warning) => warning.code),
+        ...usage,
+        costUsd: computeCost(repair.model, usage),
+      });
+      return { ...repair, usage, warnings: remaining, repaired: true };
     }
-
-    console.log(`[AI] Successfully generated insight`);
-    return parsed;
+    log.warn("Repair made things worse, keeping the first response", {
+      warnings: remaining.map((warning) => warning.code),
+    });
   } catch (error) {
-    if (error instanceof SyntaxError) {
-      console.error("[AI] Failed to parse AI response as JSON:", error);
-      throw new Error("AI response was not valid JSON");
+    if (error instanceof ProcessingError && error.usage) {
+      usage = addUsage(usage, error.usage);
     }
-    throw error;
+    log.warn("Repair request failed, keeping the first response", {
+      error: error instanceof Error ? error.message : error,
+    });
   }
+
+  return { ...first, usage, warnings, repaired: false };
 }
 
 /**
  * Get token usage estimate for a prompt (rough estimate)
- * Useful for cost tracking
+ * Used when the provider doesn't report usage
  */
 export function estimateTokens(text: string): number {
   // Rough estimate: ~4 characters per token for English text
@@ -0,0 +1,87 @@
+/**
+ * Error classification
+ * Decides which failures are worth retrying and is recorded on dead letters
+ */
+
+import type { ErrorKind, InsightUsage } from "../../shared/types";
+
+export class ProcessingError extends Error {
+  readonly kind: ErrorKind;
+  /** HTTP status from the provider or app, if any */
+  readonly status?: number;
+  /** Attempts made before giving up */
+  readonly attempts: number;
+  /** Provider usage paid for before failing, e.g. a response that didn't parse */
+  readonly usage?: InsightUsage;
+
+  constructor(
+    kind: ErrorKind,
+    message: string,
+    options: {
+      status?: number;
+      attempts?: number;
+      cause?: unknown;
+      usage?: InsightUsage;
+    } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "ProcessingError";
+    this.kind = kind;
+    this.status = options.status;
+    this.attempts = options.attempts ?? 1;
+    this.usage = options.usage;
+  }
+}
+
+/**
+ * Classify an HTTP error status: rate limits, timeouts and server errors
+ * are transient, any other 4xx is permanent
+ */
+export function kindForStatus(status: number): ErrorKind {
+  if (status === 408 || status === 429 || status >= 500) {
+    return "transient";
+  }
+  return "permanent";
+}
+
+/**
+ * Build an error for a failed HTTP call; no status means no response
+ */
+export function errorForResponse(
+  message: string,
+  status: number | undefined
+): ProcessingError {
+  return new ProcessingError(
+    status === undefined ? "network" : kindForStatus(status),
+    message,
+    { status }
+  );
+}
+
+/**
+ * Classify any thrown value. Unknown errors are treated as permanent so
+ * configuration mistakes don't burn retries.
+ */
+export function classifyError(error: unknown): ErrorKind {
+  if (error instanceof ProcessingError) {
+    return error.kind;
+  }
+  if (error instanceof SyntaxError) {
+    return "validation";
+  }
+  // fetch() rejects with a TypeError when no response arrives
+  if (error instanceof TypeError && error.message === "fetch failed") {
+    return "network";
+  }
+  if (
+    error instanceof Error &&
+    (error.name === "AbortError" || error.name === "TimeoutError")
+  ) {
+    return "network";
+  }
+  return "permanent";
+}
+
+export function isRetryable(kind: ErrorKind): boolean {
+  return kind !== "permanent";
+}
@@ -0,0 +1,39 @@
+/**
+ * Prompt experiments - Assigns orders to a shop's prompt variants
+ */
+
+import crypto from "crypto";
+import type { PromptVariant } from "../../shared/types";
+
+/**
+ * Map an order id to a stable number in [0, 1)
+ */
+function orderBucket(orderId: string): number {
+  const hash = crypto.createHash("sha256").update(orderId).digest();
+  return hash.readUInt32BE(0) / 0x100000000;
+}
+
+/**
+ * Pick the variant for an order, or null when the shop runs no experiment.
+ *
+ * Assignment depends only on the order id and the active variants, so
+ * replays and regenerations land on the same variant as long as the
+ * experiment doesn't change.
+ */
+export function assignVariant(
+  orderId: string,
+  variants: PromptVariant[]
+): PromptVariant | null {
+  const totalWeight = variants.reduce(
+    (total, variant) => total + Math.max(variant.weight, 0),
+    0
+  );
+  if (totalWeight <= 0) return null;
+
+  let point = orderBucket(orderId) * totalWeight;
+  for (const variant of variants) {
+    point -= Math.max(variant.weight, 0);
+    if (point < 0) return variant;
+  }
+  return variants[variants.length - 1];
+}
@@ -0,0 +1,162 @@
+/**
+ * Purchase history features
+ * Derived from the customer's recent orders (fetched via the Remix app)
+ * so the prompt can spot replenishment and cross-sell opportunities
+ */
+
+import type {
+  CategoryAffinity,
+  CustomerOrderSummary,
+  PreviousProduct,
+  ProcessedOrderData,
+  PurchaseHistoryFeatures,
+} from "../../shared/types";
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/** Buying the same product again sooner than this is topping up, not running out */
+const MIN_REPLENISHMENT_DAYS = 14;
+
+/** Products listed in the prompt, to keep it short */
+const MAX_PREVIOUS_PRODUCTS = 8;
+
+/** Categories listed as affinities */
+const MAX_CATEGORIES = 3;
+
+/** Categories with a smaller share of past items aren't a preference */
+const MIN_AFFINITY_SHARE = 0.2;
+
+/**
+ * Identify a product across orders: by product, then SKU, then title
+ */
+function productKey(item: {
+  productId: string | null;
+  sku: string | null;
+  title: string;
+}): string {
+  if (item.productId) return item.productId;
+  if (item.sku) return `sku:${item.sku}`;
+  return `title:${item.title.trim().toLowerCase()}`;
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.floor((to.getTime() - from.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Compute history features for the order being processed.
+ * Returns null when there are no earlier orders with line items
+ * (first order, guest checkout, or an app without purchase history).
+ * `now` is when the order was placed; orders after it are ignored.
+ */
+export function computeHistoryFeatures(
+  orderData: ProcessedOrderData,
+  previousOrders: CustomerOrderSummary[],
+  now: Date = new Date()
+): PurchaseHistoryFeatures | null {
+  const ordersWithItems = previousOrders.filter(
+    (order) =>
+      (order.lineItems ?? []).length > 0 &&
+      new Date(order.createdAt).getTime() < now.getTime()
+  );
+  if (ordersWithItems.length === 0) return null;
+
+  const products = new Map<
+    string,
+    { title: string; category: string | null; purchasedAt: Date[] }
+  >();
+  const categoryQuantities = new Map<string, number>();
+  let totalQuantity = 0;
+
+  for (const order of ordersWithItems) {
+    const orderedAt = new Date(order.createdAt);
+    const seen = new Set<string>();
+
+    for (const item of order.lineItems ?? []) {
+      totalQuantity += item.quantity;
+      if (item.productType) {
+        categoryQuantities.set(
+          item.productType,
+          (categoryQuantities.get(item.productType) ?? 0) + item.quantity
+        );
+      }
+
+      // Count each product once per order
+      const key = productKey(item);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const product = products.get(key) ?? {
+        title: item.title,
+        category: item.productType,
+        purchasedAt: [],
+      };
+      product.purchasedAt.push(orderedAt);
+      products.set(key, product);
+    }
+  }
+
+  const currentKeys = new Set(orderData.lineItems.map(productKey));
+
+  const allProducts: PreviousProduct[] = [...products.entries()].map(
+    ([key, product]) => {
+      const dates = [...product.purchasedAt].sort(
+        (a, b) => b.getTime() - a.getTime()
+      );
+      const last = dates[0];
+      const first = dates[dates.length - 1];
+      const daysSinceLastPurchase = daysBetween(last, now);
+      const inCurrentOrder = currentKeys.has(key);
+
+      return {
+        title: product.title,
+        category: product.category,
+        timesBought: dates.length,
+        daysSinceLastPurchase,
+        averageDaysBetween:
+          dates.length > 1
+            ? Math.round(daysBetween(first, last) / (dates.length - 1))
+            : null,
+        inCurrentOrder,
+        likelyReplenishment:
+          inCurrentOrder && daysSinceLastPurchase >= MIN_REPLENISHMENT_DAYS,
+      };
+    }
+  );
+
+  const categoryAffinity: CategoryAffinity[] =
+    totalQuantity > 0
+      ? [...categoryQuantities.entries()]
+          .map(([category, quantity]) => ({
+            category,
+            share: quantity / totalQuantity,
+          }))
+          .filter((affinity) => affinity.share >= MIN_AFFINITY_SHARE)
+          .sort((a, b) => b.share - a.share)
+          .slice(0, MAX_CATEGORIES)
+      : [];
+
+  // The webhook order has no product types, so the current order's
+  // categories are only known for products bought before
+  const currentCategories = new Set(
+    allProducts
+      .filter((product) => product.inCurrentOrder && product.category)
+      .map((product) => product.category)
+  );
+
+  return {
+    ordersAnalyzed: ordersWithItems.length,
+    // Products in this order first, then the most recently bought
+    previousProducts: allProducts
+      .sort(
+        (a, b) =>
+          Number(b.inCurrentOrder) - Number(a.inCurrentOrder) ||
+          a.daysSinceLastPurchase - b.daysSinceLastPurchase
+      )
+      .slice(0, MAX_PREVIOUS_PRODUCTS),
+    categoryAffinity,
+    crossSellCategories: categoryAffinity
+      .map((affinity) => affinity.category)
+      .filter((category) => !currentCategories.has(category)),
+  };
+}
@@ -3,25 +3,36 @@
  */
 
 import crypto from "crypto";
-import type { AIInsightPayload, CustomerType } from "../../shared/types";
-
-/**
- * Customer data response from Remix app
- */
-export interface CustomerDataResponse {
-  success: boolean;
-  customer?: {
-    id: string;
-    numberOfOrders: number;
-    amountSpent: number;
-    currency: string;
-    firstName: string | null;
-    lastName: string | null;
-    email: string | null;
-    createdAt: string | null;
-  };
-  error?: string;
-}
+import type {
+  AIInsightPayload,
+  CapabilitiesResponse,
+  ContractName,
+  CustomerDataRequest,
+  CustomerDataResponse,
+  DeadLetterPayload,
+  DeadLetterResponse,
+  InsightJobRequest,
+  InsightJobResponse,
+  ProcessingLedgerRequest,
+  ProcessingLedgerResponse,
+  ShopSettingsResponse,
+} from "../../shared/types";
+import {
+  aiInsightPayloadSchema,
+  customerDataResponseSchema,
+  formatIssues,
+  validate,
+} from "../../shared/schemas";
+import {
+  SCHEMA_VERSION,
+  downgradeBody,
+  getSupportedSchemaVersions,
+  negotiateSchemaVersion,
+} from "../../shared/contract";
+import { CORRELATION_ID_HEADER } from "../../shared/logger";
+import type { Logger } from "../../shared/logger";
+import { ProcessingError } from "./errors";
+import { logger } from "./logger";
 
 /**
  * Generate HMAC signature for payload
@@ -30,6 +41,21 @@ function signPayload(payload: string, secret: string): string {
   return crypto.createHmac("sha256", secret).update(payload).digest("hex");
 }
 
+/**
+ * Headers for a signed request, with the correlation id of the logger's
+ * invocation so the app's logs can be matched to it
+ */
+function buildHeaders(signature: string, log: Logger): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Shopify-Hmac-SHA256": signature,
+  };
+  if (typeof log.context.correlationId === "string") {
+    headers[CORRELATION_ID_HEADER] = log.context.correlationId;
+  }
+  return headers;
+}
+
 /**
  * Get app URL and HMAC secret from environment
  */
@@ -48,53 +74,296 @@ function getConfig(): { appUrl: string; hmacSecret: string } {
 }
 
 /**
- * Fetch customer data from Remix app (which calls Shopify API)
+ * Schema version agreed with the app; null until negotiated
+ */
+let negotiatedSchemaVersion: number | null = null;
+
+/**
+ * Version to write request bodies in. Until negotiation succeeds we
+ * assume the app is current.
+ */
+function getSchemaVersion(): number {
+  return negotiatedSchemaVersion ?? SCHEMA_VERSION;
+}
+
+/**
+ * JSON body of a request, written in the schema version agreed with the app
+ */
+function encodeBody(contract: ContractName, body: object): string {
+  return JSON.stringify(
+    downgradeBody(
+      contract,
+      { ...body, schemaVersion: SCHEMA_VERSION },
+      getSchemaVersion()
+    )
+  );
+}
+
+/**
+ * Parse a response body as JSON, or null when it isn't JSON (e.g. an
+ * error page from a proxy), so the HTTP status still decides how the
+ * failure is classified
+ */
+async function readJson<T>(response: Response): Promise<T | null> {
+  try {
+    return (await response.json()) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Error message for a failed response or one whose body isn't JSON
+ */
+function responseError(
+  response: Response,
+  data: { error?: string } | null
+): string {
+  if (data?.error) return data.error;
+  return data
+    ? `HTTP ${response.status}`
+    : `HTTP ${response.status} (response is not JSON)`;
+}
+
+/**
+ * Fetch the schema versions the Remix app accepts
+ */
+async function fetchCapabilities(
+  log: Logger
+): Promise<CapabilitiesResponse & { status?: number }> {
+  const { appUrl, hmacSecret } = getConfig();
+
+  const endpoint = `${appUrl}/api/capabilities`;
+  const body = JSON.stringify({});
+  const signature = signPayload(body, hmacSecret);
+
+  try {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: buildHeaders(signature, log),
+      body,
+    });
+
+    // Apps from before versioning have no such route
+    if (response.status === 404) {
+      return { success: false, error: "Not found", status: 404 };
+    }
+
+    const responseData = await readJson<CapabilitiesResponse>(response);
+
+    if (!response.ok || !responseData) {
+      return {
+        success: false,
+        error: responseError(response, responseData),
+        status: response.status,
+      };
+    }
+
+    return responseData;
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Agree on a payload schema version with the app. Called on every
+ * invocation but only asks the app once per container (at cold start).
+ *
+ * If the app can't be reached, the current version is used and the check
+ * runs again next time. Throws a permanent error when the app accepts none
+ * of the versions this Lambda can write.
+ */
+export async function checkAppCapabilities(
+  log: Logger = logger
+): Promise<number> {
+  if (negotiatedSchemaVersion !== null) return negotiatedSchemaVersion;
+
+  const capabilities = await fetchCapabilities(log);
+
+  if (capabilities.status === 404) {
+    negotiatedSchemaVersion = 1;
+    log.info("App has no capabilities endpoint, using schema version 1");
+    return negotiatedSchemaVersion;
+  }
+
+  if (!capabilities.success || !capabilities.supportedSchemaVersions) {
+    log.error(
+      `Failed to fetch app capabilities, assuming schema version ${SCHEMA_VERSION}`,
+      { error: capabilities.error }
+    );
+    return SCHEMA_VERSION;
+  }
+
+  const version = negotiateSchemaVersion(capabilities.supportedSchemaVersions);
+  if (version === null) {
+    throw new ProcessingError(
+      "permanent",
+      `App accepts schema versions ${capabilities.supportedSchemaVersions.join(", ")} but this Lambda writes ${getSupportedSchemaVersions().join(", ")}; deploy matching versions`
+    );
+  }
+
+  negotiatedSchemaVersion = version;
+  log.info(`Using schema version ${version}`, {
+    appSchemaVersion: capabilities.schemaVersion,
+  });
+  return version;
+}
+
+/**
+ * Fetch customer data from Remix app (which calls Shopify API).
+ * With `before` (when the order was placed) its history stops there.
  */
 export async function fetchCustomerData(
   shop: string,
-  customerId: string
+  customerId: string,
+  before: string | undefined,
+  log: Logger = logger
 ): Promise<CustomerDataResponse> {
   const { appUrl, hmacSecret } = getConfig();
 
   const endpoint = `${appUrl}/api/customer-data`;
-  const body = JSON.stringify({ shop, customerId });
+  const request: CustomerDataRequest = {
+    schemaVersion: SCHEMA_VERSION,
+    shop,
+    customerId,
+    ...(before ? { before } : {}),
+  };
+  const body = encodeBody("customerData", request);
   const signature = signPayload(body, hmacSecret);
 
-  console.log(`[HTTP] Fetching customer data for ${customerId} from ${shop}`);
+  log.debug("Fetching customer data", { customerId });
 
   try {
     const response = await fetch(endpoint, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Shopify-Hmac-SHA256": signature,
-      },
+      headers: buildHeaders(signature, log),
       body,
     });
 
-    const responseData = (await response.json()) as CustomerDataResponse;
+    const responseData = await readJson<CustomerDataResponse>(response);
 
-    if (!response.ok) {
-      console.error(
-        `[HTTP] Error fetching customer data: ${response.status}`,
-        responseData
-      );
+    if (!response.ok || !responseData) {
+      log.error("Error fetching customer data", {
+        status: response.status,
+        response: responseData,
+      });
       return {
         success: false,
-        error: responseData.error || `HTTP ${response.status}`,
+        error: responseError(response, responseData),
       };
     }
 
+    const validation = validate(customerDataResponseSchema, responseData);
+    if (!validation.success) {
+      const error = `Invalid customer data: ${formatIssues(validation.issues)}`;
+      log.error(error);
+      return { success: false, error };
+    }
+
     if (responseData.customer) {
-      console.log(
-        `[HTTP] Customer data: ${responseData.customer.numberOfOrders} orders, ${responseData.customer.amountSpent} spent`
-      );
+      log.debug("Received customer data", {
+        numberOfOrders: responseData.customer.numberOfOrders,
+        amountSpent: responseData.customer.amountSpent,
+      });
+    }
+
+    return validation.data;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    log.error("Failed to fetch customer data", { error: message });
+    return {
+      success: false,
+      error: message,
+    };
+  }
+}
+
+/**
+ * Fetch per-shop analysis settings from Remix app
+ */
+export async function fetchShopSettings(
+  shop: string,
+  log: Logger = logger
+): Promise<ShopSettingsResponse> {
+  const { appUrl, hmacSecret } = getConfig();
+
+  const endpoint = `${appUrl}/api/shop-settings`;
+  const body = encodeBody("shopSettings", { shop });
+  const signature = signPayload(body, hmacSecret);
+
+  log.debug("Fetching shop settings");
+
+  try {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: buildHeaders(signature, log),
+      body,
+    });
+
+    const responseData = await readJson<ShopSettingsResponse>(response);
+
+    if (!response.ok || !responseData) {
+      log.error("Error fetching shop settings", {
+        status: response.status,
+        response: responseData,
+      });
+      return {
+        success: false,
+        error: responseError(response, responseData),
+      };
+    }
+
+    return responseData;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    log.error("Failed to fetch shop settings", { error: message });
+    return {
+      success: false,
+      error: message,
+    };
+  }
+}
+
+/**
+ * Send a claim/complete/fail request to the app's processing ledger
+ */
+export async function sendLedgerRequest(
+  request: ProcessingLedgerRequest,
+  log: Logger = logger
+): Promise<ProcessingLedgerResponse> {
+  const { appUrl, hmacSecret } = getConfig();
+
+  const endpoint = `${appUrl}/api/processing-ledger`;
+  const body = encodeBody("ledger", request);
+  const signature = signPayload(body, hmacSecret);
+
+  try {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: buildHeaders(signature, log),
+      body,
+    });
+
+    const responseData = await readJson<ProcessingLedgerResponse>(response);
+
+    if (!response.ok || !responseData) {
+      log.error(`Error from processing ledger (${request.action})`, {
+        status: response.status,
+        response: responseData,
+      });
+      return {
+        success: false,
+        error: responseError(response, responseData),
+      };
     }
 
     return responseData;
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
-    console.error(`[HTTP] Failed to fetch customer data:`, message);
+    log.error("Failed to reach processing ledger", { error: message });
     return {
       success: false,
       error: message,
@@ -103,54 +372,154 @@ export async function fetchCustomerData(
 }
 
 /**
- * Post insight to Remix app ingestion endpoint
+ * Record an order event that failed after all retries
+ */
+export async function postDeadLetter(
+  payload: DeadLetterPayload,
+  log: Logger = logger
+): Promise<DeadLetterResponse & { status?: number }> {
+  const { appUrl, hmacSecret } = getConfig();
+
+  const endpoint = `${appUrl}/api/dead-letters`;
+  const body = encodeBody("deadLetter", payload);
+  const signature = signPayload(body, hmacSecret);
+
+  log.info("Posting dead letter");
+
+  try {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: buildHeaders(signature, log),
+      body,
+    });
+
+    const responseData = await readJson<DeadLetterResponse>(response);
+
+    if (!response.ok || !responseData) {
+      log.error("Error posting dead letter", {
+        status: response.status,
+        response: responseData,
+      });
+      return {
+        success: false,
+        error: responseError(response, responseData),
+        status: response.status,
+      };
+    }
+
+    return responseData;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    log.error("Failed to post dead letter", { error: message });
+    return {
+      success: false,
+      error: message,
+    };
+  }
+}
+
+/**
+ * Send a claim/complete/fail request to the app's job queue
+ */
+export async function sendJobRequest(
+  request: InsightJobRequest,
+  log: Logger = logger
+): Promise<InsightJobResponse> {
+  const { appUrl, hmacSecret } = getConfig();
+
+  const endpoint = `${appUrl}/api/insight-jobs`;
+  const body = encodeBody("insightJob", request);
+  const signature = signPayload(body, hmacSecret);
+
+  try {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: buildHeaders(signature, log),
+      body,
+    });
+
+    const responseData = await readJson<InsightJobResponse>(response);
+
+    if (!response.ok || !responseData) {
+      log.error(`Error from job queue (${request.action})`, {
+        status: response.status,
+        response: responseData,
+      });
+      return {
+        success: false,
+        error: responseError(response, responseData),
+      };
+    }
+
+    return responseData;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    log.error("Failed to reach job queue", { error: message });
+    return {
+      success: false,
+      error: message,
+    };
+  }
+}
+
+/**
+ * Post insight to Remix app ingestion endpoint.
+ * `status` is the HTTP status of a failed response; it is missing when
+ * the app couldn't be reached at all.
  */
 export async function postInsightToApp(
-  payload: AIInsightPayload
-): Promise<{ success: boolean; id?: string; error?: string }> {
+  payload: AIInsightPayload,
+  log: Logger = logger
+): Promise<{ success: boolean; id?: string; error?: string; status?: number }> {
   const { appUrl, hmacSecret } = getConfig();
 
+  // Catch contract drift here rather than as a 400 from the app
+  const validation = validate(aiInsightPayloadSchema, payload);
+  if (!validation.success) {
+    const error = `Invalid payload: ${formatIssues(validation.issues)}`;
+    log.error(`Not posting insight. ${error}`);
+    return { success: false, error, status: 400 };
+  }
+
   const endpoint = `${appUrl}/api/ai-insights/ingest`;
-  const body = JSON.stringify(payload);
+  const body = encodeBody("ingest", validation.data);
   const signature = signPayload(body, hmacSecret);
 
-  console.log(`[HTTP] Posting insight to ${endpoint}`);
+  log.debug("Posting insight", { endpoint });
 
   try {
     const response = await fetch(endpoint, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Shopify-Hmac-SHA256": signature,
-      },
+      headers: buildHeaders(signature, log),
       body,
     });
 
-    const responseData = (await response.json()) as {
+    const responseData = await readJson<{
       success?: boolean;
       id?: string;
       error?: string;
-    };
+    }>(response);
 
-    if (!response.ok) {
-      console.error(
-        `[HTTP] Error response from app: ${response.status}`,
-        responseData
-      );
+    if (!response.ok || !responseData) {
+      log.error("Error response from app", {
+        status: response.status,
+        response: responseData,
+      });
       return {
         success: false,
-        error: responseData.error || `HTTP ${response.status}`,
+        error: responseError(response, responseData),
+        status: response.status,
       };
     }
 
-    console.log(`[HTTP] Successfully posted insight, id: ${responseData.id}`);
+    log.info("Posted insight", { insightId: responseData.id });
     return {
       success: true,
       id: responseData.id,
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
-    console.error(`[HTTP] Failed to post insight:`, message);
+    log.error("Failed to post insight", { error: message });
     return {
       success: false,
       error: message,
@@ -159,22 +528,37 @@ export async function postInsightToApp(
 }
 
 /**
- * Post error status to Remix app when AI processing fails
+ * Post error status to Remix app when AI processing fails.
+ * The app records it as a failed attempt; it never replaces a completed insight.
  */
 export async function postErrorToApp(
   shop: string,
   orderId: string,
   orderName: string,
-  errorMessage: string
+  errorMessage: string,
+  attempt: Pick<
+    AIInsightPayload,
+    | "customerId"
+    | "model"
+    | "promptVersion"
+    | "templateId"
+    | "templateVersion"
+    | "variantId"
+    | "startedAt"
+    | "usage"
+  > = {},
+  log: Logger = logger
 ): Promise<void> {
   const payload: AIInsightPayload = {
+    schemaVersion: SCHEMA_VERSION,
     shop,
     orderId,
     orderName,
     insightText: "Error generating insight",
     status: "error",
     errorMessage,
+    ...attempt,
   };
 
-  await postInsightToApp(payload);
+  await postInsightToApp(payload, log);
 }
@@ -0,0 +1,145 @@
+/**
+ * Job queue runner
+ * A scheduled EventBridge rule invokes the Lambda periodically; each run
+ * claims queued jobs (replays, regenerations) from the app one at a time
+ */
+
+import type { Context } from "aws-lambda";
+import type { InsightJob, ShopifyEventBridgeEvent } from "../../shared/types";
+import type { Logger } from "../../shared/logger";
+import { sendJobRequest } from "./httpClient";
+import { logger } from "./logger";
+import { handleOrderEvent } from "./orderEvent";
+import type { HandlerResult } from "./orderEvent";
+
+/** Default number of jobs processed per scheduled run */
+const DEFAULT_BATCH_SIZE = 5;
+
+/** Default time before a running job is handed out again */
+const DEFAULT_JOB_LEASE_MS = 10 * 60 * 1000;
+
+/** Don't start a job with less time than this left in the invocation */
+const MIN_JOB_TIME_MS = 20 * 1000;
+
+/**
+ * Whether the event comes from an EventBridge schedule
+ */
+export function isScheduledEvent(event: {
+  source?: string;
+  "detail-type"?: string;
+}): boolean {
+  return event.source === "aws.events" && event["detail-type"] === "Scheduled Event";
+}
+
+/**
+ * Run one job and report the outcome to the queue
+ */
+async function runJob(
+  job: InsightJob,
+  context: Context,
+  parentLog: Logger
+): Promise<boolean> {
+  const log = parentLog.child({ jobId: job.id, orderId: job.orderId });
+  log.info(`Running ${job.kind} job`, { attempt: job.attempts });
+
+  let result: HandlerResult;
+  try {
+    switch (job.kind) {
+      // All carry a full EventBridge event; regenerations and backfills get
+      // a fresh event id from the app so the ledger doesn't skip them
+      case "replay":
+      case "regenerate":
+      case "backfill":
+        result = await handleOrderEvent(
+          job.event as ShopifyEventBridgeEvent,
+          context,
+          { deadLetterId: job.deadLetterId, log }
+        );
+        break;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await sendJobRequest(
+      { action: "fail", id: job.id, attempts: job.attempts, error: message },
+      log
+    );
+    return false;
+  }
+
+  const body = JSON.parse(result.body) as {
+    insightId?: string | null;
+    error?: string;
+    message?: string;
+    skipped?: boolean;
+  };
+
+  if (result.statusCode >= 400) {
+    await sendJobRequest(
+      {
+        action: "fail",
+        id: job.id,
+        attempts: job.attempts,
+        error: body.error || `Status ${result.statusCode}`,
+      },
+      log
+    );
+    return false;
+  }
+
+  // A skipped order posts nothing, so the app is told why
+  await sendJobRequest(
+    {
+      action: "complete",
+      id: job.id,
+      attempts: job.attempts,
+      insightId: body.insightId ?? null,
+      skipReason: body.skipped ? body.message || "Skipped" : null,
+    },
+    log
+  );
+  return true;
+}
+
+/**
+ * Claim and run queued jobs until the queue is empty, the batch is done
+ * or the invocation is running out of time
+ */
+export async function runQueuedJobs(
+  context: Context,
+  log: Logger = logger
+): Promise<HandlerResult> {
+  const batchSize =
+    parseInt(process.env.JOB_BATCH_SIZE || "", 10) || DEFAULT_BATCH_SIZE;
+  const leaseMs =
+    parseInt(process.env.JOB_LEASE_MS || "", 10) || DEFAULT_JOB_LEASE_MS;
+
+  let completed = 0;
+  let failed = 0;
+
+  while (
+    completed + failed < batchSize &&
+    context.getRemainingTimeInMillis() > MIN_JOB_TIME_MS
+  ) {
+    const response = await sendJobRequest({ action: "claim", leaseMs }, log);
+    if (!response.success) {
+      log.error("Failed to claim job", { error: response.error });
+      return {
+        statusCode: 500,
+        body: JSON.stringify({ error: response.error, completed, failed }),
+      };
+    }
+    if (!response.job) break;
+
+    if (await runJob(response.job, context, log)) {
+      completed++;
+    } else {
+      failed++;
+    }
+  }
+
+  log.info("Job run finished", { completed, failed });
+  return {
+    statusCode: 200,
+    body: JSON.stringify({ completed, failed }),
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * App-backed ledger
+ * Stores entries in the Remix app database via /api/processing-ledger,
+ * so deduplication works across Lambda containers
+ */
+
+import { sendLedgerRequest } from "../httpClient";
+import type { ProcessingLedger } from "./types";
+
+export function createAppLedger(leaseMs: number): ProcessingLedger {
+  return {
+    name: "app",
+
+    async claim(key, shop, orderId, log) {
+      const response = await sendLedgerRequest(
+        {
+          action: "claim",
+          key,
+          shop,
+          orderId,
+          leaseMs,
+        },
+        log
+      );
+      if (!response.success || !response.claim) {
+        throw new Error(`Ledger claim failed: ${response.error}`);
+      }
+      return response.claim;
+    },
+
+    async complete(key, insightId, note, log) {
+      const response = await sendLedgerRequest(
+        {
+          action: "complete",
+          key,
+          insightId,
+          note: note ?? null,
+        },
+        log
+      );
+      if (!response.success) {
+        throw new Error(`Ledger complete failed: ${response.error}`);
+      }
+    },
+
+    async fail(key, error, log) {
+      const response = await sendLedgerRequest(
+        { action: "fail", key, error },
+        log
+      );
+      if (!response.success) {
+        throw new Error(`Ledger fail failed: ${response.error}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * File-backed ledger
+ * Keeps entries in a JSON file so local runs deduplicate across
+ * invocations. Not safe for concurrent writers.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import type { LedgerEntry } from "../../../shared/types";
+import { createStoreLedger } from "./store";
+import type { ProcessingLedger } from "./types";
+
+export function createFileLedger(
+  filePath: string,
+  leaseMs: number
+): ProcessingLedger {
+  function read(): Record<string, LedgerEntry> {
+    if (!existsSync(filePath)) return {};
+    return JSON.parse(readFileSync(filePath, "utf8")) as Record<
+      string,
+      LedgerEntry
+    >;
+  }
+
+  return createStoreLedger(
+    "file",
+    {
+      async get(key) {
+        return read()[key] ?? null;
+      },
+      async set(entry) {
+        const entries = read();
+        entries[entry.key] = entry;
+        writeFileSync(filePath, JSON.stringify(entries, null, 2));
+      },
+    },
+    leaseMs
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * Processing ledger selection and idempotency keys
+ * LEDGER_STORE picks the implementation: "app" (default), "file" or "memory"
+ */
+
+import type { ProcessingLedger } from "./types";
+import { createAppLedger } from "./app";
+import { createFileLedger } from "./file";
+import { createMemoryLedger } from "./memory";
+
+export type { ProcessingLedger } from "./types";
+
+/** Default time before an unfinished claim can be taken over */
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+
+let ledger: ProcessingLedger | null = null;
+
+/**
+ * Get or create the configured ledger
+ */
+export function getProcessingLedger(): ProcessingLedger {
+  if (!ledger) {
+    const store = process.env.LEDGER_STORE || "app";
+    const leaseMs =
+      parseInt(process.env.LEDGER_LEASE_MS || "", 10) || DEFAULT_LEASE_MS;
+
+    switch (store) {
+      case "app":
+        ledger = createAppLedger(leaseMs);
+        break;
+      case "file":
+        ledger = createFileLedger(
+          process.env.LEDGER_FILE_PATH || "/tmp/processing-ledger.json",
+          leaseMs
+        );
+        break;
+      case "memory":
+        ledger = createMemoryLedger(leaseMs);
+        break;
+      default:
+        throw new Error(
+          `Unknown LEDGER_STORE "${store}". Use one of: app, file, memory`
+        );
+    }
+  }
+  return ledger;
+}
+
+/**
+ * Build the idempotency key for an order event.
+ * X-Shopify-Event-Id is stable across redeliveries of the same event;
+ * the webhook id and shop/order pair are fallbacks.
+ */
+export function getLedgerKey(
+  metadata: Record<string, string> | undefined,
+  shop: string,
+  orderId: string
+): string {
+  if (metadata?.["X-Shopify-Event-Id"]) {
+    return `event:${metadata["X-Shopify-Event-Id"]}`;
+  }
+  if (metadata?.["X-Shopify-Webhook-Id"]) {
+    return `webhook:${metadata["X-Shopify-Webhook-Id"]}`;
+  }
+  return `order:${shop}:${orderId}`;
+}
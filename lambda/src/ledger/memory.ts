@@ -0,0 +1,25 @@
+/**
+ * In-memory ledger
+ * Only deduplicates within one warm Lambda container; meant for tests
+ */
+
+import type { LedgerEntry } from "../../../shared/types";
+import { createStoreLedger } from "./store";
+import type { ProcessingLedger } from "./types";
+
+export function createMemoryLedger(leaseMs: number): ProcessingLedger {
+  const entries = new Map<string, LedgerEntry>();
+
+  return createStoreLedger(
+    "memory",
+    {
+      async get(key) {
+        return entries.get(key) ?? null;
+      },
+      async set(entry) {
+        entries.set(entry.key, entry);
+      },
+    },
+    leaseMs
+  );
+}
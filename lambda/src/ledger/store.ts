@@ -0,0 +1,84 @@
+/**
+ * Ledger built on a simple key/value store
+ * Shared by the in-memory and file implementations
+ */
+
+import type { LedgerClaim, LedgerEntry } from "../../../shared/types";
+import type { ProcessingLedger } from "./types";
+
+export interface LedgerStore {
+  get(key: string): Promise<LedgerEntry | null>;
+  set(entry: LedgerEntry): Promise<void>;
+}
+
+/**
+ * Whether an existing entry may be claimed again
+ */
+export function isClaimable(
+  entry: LedgerEntry,
+  now: number,
+  leaseMs: number
+): boolean {
+  if (entry.status === "failed") return true;
+  if (entry.status === "completed") return false;
+  return now - new Date(entry.startedAt).getTime() > leaseMs;
+}
+
+export function createStoreLedger(
+  name: string,
+  store: LedgerStore,
+  leaseMs: number
+): ProcessingLedger {
+  return {
+    name,
+
+    async claim(key, shop, orderId): Promise<LedgerClaim> {
+      const now = Date.now();
+      const existing = await store.get(key);
+
+      if (existing && !isClaimable(existing, now, leaseMs)) {
+        return { claimed: false, entry: existing };
+      }
+
+      const entry: LedgerEntry = {
+        key,
+        shop,
+        orderId,
+        status: "in-flight",
+        insightId: null,
+        error: null,
+        attempts: (existing?.attempts ?? 0) + 1,
+        startedAt: new Date(now).toISOString(),
+        finishedAt: null,
+      };
+      await store.set(entry);
+
+      return { claimed: true, entry };
+    },
+
+    async complete(key, insightId, note) {
+      const existing = await store.get(key);
+      if (!existing) return;
+
+      await store.set({
+        ...existing,
+        status: "completed",
+        insightId,
+        error: note ?? null,
+        finishedAt: new Date().toISOString(),
+      });
+    },
+
+    async fail(key, error) {
+      const existing = await store.get(key);
+      if (!existing) return;
+
+      await store.set({
+        ...existing,
+        status: "failed",
+        error,
+        finishedAt: new Date().toISOString(),
+      });
+    },
+  };
+}
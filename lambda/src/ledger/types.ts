@@ -0,0 +1,34 @@
+/**
+ * Processing ledger interface
+ */
+
+import type { LedgerClaim } from "../../../shared/types";
+import type { Logger } from "../../../shared/logger";
+
+export interface ProcessingLedger {
+  /** Store name for logs (e.g., "app", "file") */
+  name: string;
+
+  /**
+   * Mark an event as in-flight. Fails to claim when the event already
+   * completed or another invocation holds a fresh in-flight claim.
+   * Stores that call the app pass `log` on, for its correlation id.
+   */
+  claim(
+    key: string,
+    shop: string,
+    orderId: string,
+    log?: Logger
+  ): Promise<LedgerClaim>;
+
+  /** Mark a claimed event as done, with the insight it produced if any */
+  complete(
+    key: string,
+    insightId: string | null,
+    note?: string,
+    log?: Logger
+  ): Promise<void>;
+
+  /** Mark a claimed event as failed so a redelivery can retry it */
+  fail(key: string, error: string, log?: Logger): Promise<void>;
+}
@@ -0,0 +1,38 @@
+/**
+ * Local runner - Invokes the handler with an event file
+ *
+ * Usage: npm run invoke:local -- [path/to/event.json]
+ * Set AI_PROVIDER=fixture to run without an LLM API key.
+ */
+
+import { readFileSync } from "fs";
+import type { Context, EventBridgeEvent } from "aws-lambda";
+import type { ShopifyOrder } from "../../shared/types";
+import { handler } from "./index";
+
+async function main(): Promise<void> {
+  const eventPath = process.argv[2] || "events/orders-create.json";
+  const event = JSON.parse(readFileSync(eventPath, "utf8")) as EventBridgeEvent<
+    string,
+    ShopifyOrder
+  >;
+
+  // Mirror the 30 second timeout recommended for the deployed function
+  const deadline = Date.now() + 30 * 1000;
+  const context = {
+    awsRequestId: `local-${Date.now()}`,
+    getRemainingTimeInMillis: () => deadline - Date.now(),
+  } as Context;
+
+  const result = await handler(event, context);
+  console.log(`[Local] Result:`, result);
+
+  if (result.statusCode >= 400) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error("[Local] Invocation failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,9 @@
+/**
+ * Logger - Root structured logger for the Lambda
+ * Handlers add the invocation's correlation id (its AWS request id) and
+ * the shop and order, and pass the child logger down.
+ */
+
+import { createLogger } from "../../shared/logger";
+
+export const logger = createLogger({ service: "lambda" });
@@ -0,0 +1,531 @@
+/**
+ * Order event processing
+ * Handles one orders/create event, whether it comes straight from
+ * EventBridge or from a queued replay
+ */
+
+import type { Context } from "aws-lambda";
+import type {
+  ErrorKind,
+  ShopifyOrder,
+  ShopifyEventBridgeEvent,
+  AIInsightPayload,
+  InsightUsage,
+  PromptTemplate,
+  PromptVariant,
+} from "../../shared/types";
+import {
+  processOrderData,
+  processCustomerDataFromAPI,
+  processCustomerDataFallback,
+  extractShopDomain,
+  getOrderTime,
+} from "./orderProcessor";
+import {
+  buildPrompt,
+  describeTemplate,
+  getDefaultTemplate,
+} from "./promptBuilder";
+import { computeHistoryFeatures } from "./historyFeatures";
+import { assignVariant } from "./experiments";
+import { generateInsight } from "./aiService";
+import { getInsightProvider } from "./providers";
+import {
+  postInsightToApp,
+  postErrorToApp,
+  postDeadLetter,
+  fetchCustomerData,
+} from "./httpClient";
+import { loadShopSettings, resolveSegmentRules } from "./shopSettings";
+import { getLedgerKey, getProcessingLedger } from "./ledger";
+import { ProcessingError, classifyError, errorForResponse } from "./errors";
+import { getRetryOptions, withRetry } from "./retry";
+import { redactForLog } from "./redaction";
+import type { RetryOptions } from "./retry";
+import { logger } from "./logger";
+import { SCHEMA_VERSION } from "../../shared/contract";
+import type { Logger } from "../../shared/logger";
+import {
+  buildContentFacts,
+  lintInsightContent,
+} from "../../shared/contentLint";
+
+export interface HandlerResult {
+  statusCode: number;
+  body: string;
+}
+
+export interface OrderEventOptions {
+  /** Dead letter being replayed; reopened if the replay fails */
+  deadLetterId?: string | null;
+  /** Logger carrying the invocation's correlation id */
+  log?: Logger;
+}
+
+/**
+ * Time kept back from retries so a failure can still be reported
+ * and dead-lettered before the invocation times out
+ */
+const REPORTING_RESERVE_MS = 5000;
+
+/**
+ * Process one Shopify order event
+ *
+ * Throws only when a failed order could not be dead-lettered, so Lambda's
+ * own retries (and on-failure destination) keep the event.
+ */
+export async function handleOrderEvent(
+  event: ShopifyEventBridgeEvent,
+  context: Context,
+  options: OrderEventOptions = {}
+): Promise<HandlerResult> {
+  const metadata = event.detail?.metadata;
+  const order = event.detail?.payload;
+  let log =
+    options.log ?? logger.child({ correlationId: context.awsRequestId });
+
+  // Validate we have the order payload
+  if (!order || !order.id) {
+    log.error("Missing order payload in event", {
+      detail: redactForLog(event.detail),
+    });
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: "Missing order payload" }),
+    };
+  }
+
+  log.debug("Order payload", { order: redactForLog(order) });
+
+  // Extract shop domain
+  let shop: string;
+  try {
+    shop = extractShopDomain(metadata);
+  } catch (error) {
+    log.error("Failed to extract shop domain", { error });
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: "Missing shop domain" }),
+    };
+  }
+
+  const orderId = String(order.id);
+  const orderName = order.name;
+
+  log = log.child({ shop, orderId });
+  log.info(`Processing order ${orderName}`);
+
+  // Claim the event in the processing ledger so redeliveries don't pay
+  // for a second AI call. If the ledger is unreachable we still process:
+  // a rare duplicate is better than a lost order.
+  const ledger = getProcessingLedger();
+  const ledgerKey = getLedgerKey(metadata, shop, orderId);
+  let claimed = false;
+
+  try {
+    const claim = await ledger.claim(ledgerKey, shop, orderId, log);
+    if (!claim.claimed) {
+      log.info("Duplicate event, skipping", {
+        ledgerKey,
+        ledgerStatus: claim.entry.status,
+      });
+      return {
+        statusCode: 200,
+        body: JSON.stringify({
+          message: "Duplicate event",
+          status: claim.entry.status,
+          insightId: claim.entry.insightId,
+        }),
+      };
+    }
+    claimed = true;
+  } catch (error) {
+    log.error(`Ledger (${ledger.name}) unavailable, processing without it`, {
+      error,
+    });
+  }
+
+  const outcome = await log.time("process_order", () =>
+    processOrder(
+      shop,
+      order,
+      getRetryOptions(
+        Date.now() + context.getRemainingTimeInMillis() - REPORTING_RESERVE_MS
+      ),
+      log
+    )
+  );
+
+  if (claimed) {
+    try {
+      if (outcome.status === "failed") {
+        await ledger.fail(ledgerKey, outcome.error, log);
+      } else {
+        await ledger.complete(
+          ledgerKey,
+          outcome.status === "completed" ? outcome.insightId ?? null : null,
+          outcome.status === "skipped" ? outcome.reason : undefined,
+          log
+        );
+      }
+    } catch (error) {
+      log.error("Failed to update ledger", { error });
+    }
+  }
+
+  switch (outcome.status) {
+    case "completed":
+      return {
+        statusCode: 200,
+        body: JSON.stringify({
+          success: true,
+          orderId,
+          orderName,
+          insightId: outcome.insightId,
+        }),
+      };
+    case "skipped":
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ message: outcome.reason, skipped: true }),
+      };
+    case "failed": {
+      const deadLetterId = await deadLetterOrder(
+        event,
+        context,
+        shop,
+        orderId,
+        orderName,
+        outcome,
+        options.deadLetterId ?? null,
+        log
+      );
+      return {
+        statusCode: 500,
+        body: JSON.stringify({
+          error: outcome.error,
+          errorKind: outcome.kind,
+          deadLetterId,
+        }),
+      };
+    }
+  }
+}
+
+/**
+ * Result of processing one order
+ */
+type OrderOutcome =
+  | { status: "completed"; insightId: string | undefined }
+  | { status: "skipped"; reason: string }
+  | { status: "failed"; error: string; kind: ErrorKind; attempts: number };
+
+/**
+ * Fetch context, generate the insight and post it to the Remix app.
+ * The AI call and the post are retried with backoff.
+ */
+async function processOrder(
+  shop: string,
+  order: ShopifyOrder,
+  retry: RetryOptions,
+  log: Logger
+): Promise<OrderOutcome> {
+  const orderId = String(order.id);
+  const orderName = order.name;
+  const customerId = order.customer?.id ? String(order.customer.id) : undefined;
+  const startedAt = new Date().toISOString();
+  let template: PromptTemplate | undefined;
+  let variant: PromptVariant | null = null;
+  let model: string | undefined;
+  let usage: InsightUsage | undefined;
+
+  try {
+    // Process order data
+    const orderData = processOrderData(order);
+
+    // Fetch shop settings alongside accurate customer data from Shopify API via Remix
+    const [
+      {
+        settings,
+        promptTemplate,
+        promptVariants,
+        feedbackGuidance,
+        budget,
+        plan,
+      },
+      customerResponse,
+    ] = await log.time("fetch_context", () =>
+      Promise.all([
+        loadShopSettings(shop, log),
+        customerId
+          ? fetchCustomerData(shop, customerId, order.created_at, log)
+          : Promise.resolve(null),
+      ])
+    );
+
+    if (!settings.enabled) {
+      log.info("Analysis disabled for shop, skipping");
+      return { status: "skipped", reason: "Analysis disabled for shop" };
+    }
+
+    if (orderData.totalPrice < settings.minOrderValue) {
+      log.info("Order below shop minimum, skipping", {
+        totalPrice: orderData.totalPrice,
+        minOrderValue: settings.minOrderValue,
+      });
+      return { status: "skipped", reason: "Order below minimum value" };
+    }
+
+    if (plan?.limitReached) {
+      log.info("Shop's plan allowance is used up, skipping", {
+        plan: plan.plan,
+        insightsThisMonth: plan.insightsThisMonth,
+        insightLimit: plan.insightLimit,
+      });
+      return { status: "skipped", reason: "Plan insight limit reached" };
+    }
+
+    // Over budget: skip the order or switch to the provider's cheaper model
+    if (budget?.exceeded) {
+      log.info("Shop is over its monthly AI budget", {
+        spent: budget.spent,
+        budget: budget.budget,
+        action: settings.overBudgetAction,
+      });
+      if (settings.overBudgetAction === "skip") {
+        return { status: "skipped", reason: "Monthly AI budget exceeded" };
+      }
+      model = getInsightProvider().budgetModel;
+    }
+
+    let customerData;
+    if (customerResponse?.success && customerResponse.customer) {
+      customerData = processCustomerDataFromAPI(
+        customerResponse.customer,
+        resolveSegmentRules(settings),
+        orderData,
+        order.created_at
+      );
+    } else if (customerResponse) {
+      // Fallback to heuristic if API call fails
+      log.warn("Customer API failed, using fallback", {
+        error: customerResponse.error,
+      });
+      customerData = processCustomerDataFallback(
+        order.customer,
+        order.created_at
+      );
+    } else {
+      // No customer (guest checkout)
+      customerData = processCustomerDataFallback(null);
+    }
+
+    log.info("Order analyzed", {
+      totalPrice: orderData.totalPrice,
+      currency: orderData.currency,
+      itemCount: orderData.itemCount,
+      ordersCount: customerData.ordersCount,
+      customerType: customerData.customerType,
+      segmentRuleId: customerData.segmentRuleId,
+    });
+
+    // Build AI prompt from the order's experiment variant, the shop's
+    // template or the built-in one
+    variant = assignVariant(orderId, promptVariants);
+    template = variant?.template ?? promptTemplate ?? getDefaultTemplate();
+    if (variant) {
+      log.info("Assigned experiment variant", { variant: variant.name });
+    }
+    // Measured at the order's date, which matters for backfills and
+    // regenerations of older orders
+    const history = computeHistoryFeatures(
+      orderData,
+      customerData.previousOrders,
+      getOrderTime(order.created_at)
+    );
+    const prompt = buildPrompt(
+      orderData,
+      customerData,
+      {
+        includeCustomerName: settings.includeCustomerName,
+        includeCountry: settings.includeCountry,
+        includeCustomerTags: settings.includeCustomerTags,
+        includePurchaseHistory: settings.includePurchaseHistory,
+        brandVoice: settings.brandVoice,
+        emailLanguage: settings.emailLanguage,
+        feedbackGuidance,
+      },
+      history,
+      template
+    );
+
+    // Generate AI insight
+    const facts = buildContentFacts(orderData, customerData);
+    const generated = await log.time("generate_insight", () =>
+      withRetry(
+        "Generate insight",
+        () =>
+          generateInsight(
+            prompt,
+            (response) => lintInsightContent(response, facts),
+            log,
+            model
+          ),
+        retry,
+        log
+      )
+    );
+
+    usage = generated.usage;
+
+    // Build payload for ingestion endpoint
+    const payload: AIInsightPayload = {
+      schemaVersion: SCHEMA_VERSION,
+      shop,
+      orderId,
+      orderName,
+      customerId,
+      insightText: generated.response.insight,
+      followupSubject: generated.response.followupSubject,
+      followupBody: generated.response.followupBody,
+      customerType: customerData.customerType,
+      segmentRuleId: customerData.segmentRuleId,
+      orderValue: orderData.totalPrice,
+      status: "completed",
+      model: generated.model,
+      promptVersion: describeTemplate(template),
+      templateId: template.id,
+      templateVersion: template.version,
+      variantId: variant?.id,
+      warnings: generated.warnings.length > 0 ? generated.warnings : undefined,
+      repaired: generated.repaired,
+      dataSent: {
+        provider: getInsightProvider().name,
+        fields: prompt.sentFields,
+        redacted: prompt.redacted,
+      },
+      usage: generated.usage,
+      startedAt,
+    };
+
+    // Post to Remix app
+    const result = await log.time("post_insight", () =>
+      withRetry(
+        "Post insight",
+        async () => {
+          const response = await postInsightToApp(payload, log);
+          if (!response.success) {
+            throw errorForResponse(
+              response.error || "Failed to post insight",
+              response.status
+            );
+          }
+          return response;
+        },
+        retry,
+        log
+      )
+    );
+
+    log.info(`Processed order ${orderName}`, { insightId: result.id });
+
+    return { status: "completed", insightId: result.id };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    const kind = classifyError(error);
+    const attempts = error instanceof ProcessingError ? error.attempts : 1;
+    log.error("Error processing order", {
+      errorKind: kind,
+      attempts,
+      error: errorMessage,
+    });
+
+    // Try to post error status to app
+    try {
+      await postErrorToApp(
+        shop,
+        orderId,
+        orderName,
+        errorMessage,
+        {
+          customerId,
+          model: model ?? getConfiguredModel(),
+          promptVersion: template && describeTemplate(template),
+          templateId: template?.id,
+          templateVersion: template?.version,
+          variantId: variant?.id,
+          startedAt,
+          // Paid for even though no insight came of it
+          usage:
+            usage ??
+            (error instanceof ProcessingError ? error.usage : undefined),
+        },
+        log
+      );
+    } catch (postError) {
+      log.error("Failed to post error status", { error: postError });
+    }
+
+    return { status: "failed", error: errorMessage, kind, attempts };
+  }
+}
+
+/**
+ * Model recorded on failed attempts, where no model responded.
+ * Undefined when the provider itself is misconfigured.
+ */
+function getConfiguredModel(): string | undefined {
+  try {
+    return getInsightProvider().model;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Store the original event so the order can be replayed from the app.
+ * If even that fails, throw: the event then goes back to Lambda's async
+ * retries instead of being lost.
+ */
+async function deadLetterOrder(
+  event: ShopifyEventBridgeEvent,
+  context: Context,
+  shop: string,
+  orderId: string,
+  orderName: string,
+  outcome: Extract<OrderOutcome, { status: "failed" }>,
+  deadLetterId: string | null,
+  log: Logger
+): Promise<string | undefined> {
+  const response = await withRetry(
+    "Post dead letter",
+    async () => {
+      const result = await postDeadLetter(
+        {
+          deadLetterId,
+          shop,
+          orderId,
+          orderName,
+          errorKind: outcome.kind,
+          error: outcome.error,
+          attempts: outcome.attempts,
+          event,
+        },
+        log
+      );
+      if (!result.success) {
+        throw errorForResponse(
+          result.error || "Failed to post dead letter",
+          result.status
+        );
+      }
+      return result;
+    },
+    getRetryOptions(Date.now() + context.getRemainingTimeInMillis() - 1000),
+    log
+  );
+
+  log.info(`Order ${orderName} dead-lettered`, { deadLetterId: response.id });
+  return response.id;
+}
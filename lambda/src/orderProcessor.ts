@@ -7,9 +7,12 @@ import type {
   ShopifyCustomer,
   ProcessedOrderData,
   ProcessedCustomerData,
+  CustomerData,
+  CustomerOrderSummary,
   CustomerType,
+  SegmentRule,
 } from "../../shared/types";
-import type { CustomerDataResponse } from "./httpClient";
+import { evaluateSegmentRules } from "../../shared/segmentation";
 
 /**
  * Process raw Shopify order into a clean format for AI prompts
@@ -24,6 +27,10 @@ export function processOrderData(order: ShopifyOrder): ProcessedOrderData {
       title: item.title,
       quantity: item.quantity,
       price: parseFloat(item.price),
+      productId: item.product_id
+        ? `gid://shopify/Product/${item.product_id}`
+        : null,
+      sku: item.sku || null,
     })),
     discountCodes: order.discount_codes.map((dc) => dc.code),
     hasDiscount: order.discount_codes.length > 0,
@@ -31,27 +38,68 @@ export function processOrderData(order: ShopifyOrder): ProcessedOrderData {
   };
 }
 
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+function daysSince(date: Date, asOf: Date): number {
+  return Math.floor((asOf.getTime() - date.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * The customer's orders placed before the one being processed, so a
+ * backfilled or regenerated order doesn't count later orders as history.
+ * recentOrders holds GIDs while the webhook order id is numeric.
+ */
+function findPreviousOrders(
+  recentOrders: CustomerOrderSummary[],
+  currentOrderId: string,
+  orderedAt: Date
+): CustomerOrderSummary[] {
+  return recentOrders.filter(
+    (order) =>
+      order.id !== currentOrderId &&
+      order.id !== `gid://shopify/Order/${currentOrderId}` &&
+      new Date(order.createdAt).getTime() < orderedAt.getTime()
+  );
+}
+
+/**
+ * When the order was placed; recency is measured from then, not from now
+ */
+export function getOrderTime(orderCreatedAt?: string): Date {
+  const orderedAt = orderCreatedAt ? new Date(orderCreatedAt) : new Date();
+  return Number.isNaN(orderedAt.getTime()) ? new Date() : orderedAt;
+}
+
 /**
- * Determine customer type based on order count and total spent
+ * Order count and spend as of the order being processed: its earlier
+ * orders plus itself. Apps that predate ordersBefore only send lifetime
+ * totals, which are used as they are.
  */
-function determineCustomerType(
-  ordersCount: number,
-  totalSpent: number
-): CustomerType {
-  if (ordersCount <= 1) {
-    return "first-time";
-  } else if (ordersCount >= 5 || totalSpent >= 500) {
-    return "vip";
-  } else {
-    return "repeat";
+function countOrdersAsOf(
+  apiData: CustomerData,
+  currentOrder: Pick<ProcessedOrderData, "totalPrice">
+): { ordersCount: number; totalSpent: number } {
+  if (!apiData.ordersBefore) {
+    return {
+      ordersCount: apiData.numberOfOrders,
+      totalSpent: apiData.amountSpent,
+    };
   }
+  return {
+    ordersCount: apiData.ordersBefore.count + 1,
+    totalSpent: apiData.ordersBefore.amountSpent + currentOrder.totalPrice,
+  };
 }
 
 /**
  * Process customer data using Shopify API data (accurate)
+ * Segments the customer with the shop's rules (evaluated in order)
  */
 export function processCustomerDataFromAPI(
-  apiData: CustomerDataResponse["customer"]
+  apiData: CustomerData | undefined,
+  rules: SegmentRule[],
+  currentOrder: Pick<ProcessedOrderData, "orderId" | "totalPrice">,
+  orderCreatedAt?: string
 ): ProcessedCustomerData {
   if (!apiData) {
     return {
@@ -62,38 +110,64 @@ export function processCustomerDataFromAPI(
       isFirstOrder: true,
       customerType: "first-time",
       daysSinceFirstOrder: null,
+      daysSinceLastOrder: null,
+      averageOrderValue: null,
+      segmentRuleId: "fallback",
+      tags: [],
+      countryCode: null,
+      previousOrders: [],
     };
   }
 
-  const ordersCount = apiData.numberOfOrders;
-  const totalSpent = apiData.amountSpent;
+  const { ordersCount, totalSpent } = countOrdersAsOf(apiData, currentOrder);
   const isFirstOrder = ordersCount <= 1;
-  const customerType = determineCustomerType(ordersCount, totalSpent);
+  const averageOrderValue = ordersCount > 0 ? totalSpent / ordersCount : null;
+
+  const orderedAt = getOrderTime(orderCreatedAt);
 
   // Calculate days since first order
   let daysSinceFirstOrder: number | null = null;
   if (apiData.createdAt) {
-    const createdDate = new Date(apiData.createdAt);
-    const now = new Date();
-    daysSinceFirstOrder = Math.floor(
-      (now.getTime() - createdDate.getTime()) / (1000 * 60 * 60 * 24)
-    );
+    daysSinceFirstOrder = daysSince(new Date(apiData.createdAt), orderedAt);
   }
 
+  const previousOrders = findPreviousOrders(
+    apiData.recentOrders ?? [],
+    currentOrder.orderId,
+    orderedAt
+  );
+  const daysSinceLastOrder = previousOrders[0]
+    ? daysSince(new Date(previousOrders[0].createdAt), orderedAt)
+    : null;
+
+  const match = evaluateSegmentRules(rules, {
+    ordersCount,
+    totalSpent,
+    daysSinceLastOrder,
+    averageOrderValue,
+  });
+
   return {
     firstName: apiData.firstName,
     lastName: apiData.lastName,
     ordersCount,
     totalSpent,
     isFirstOrder,
-    customerType,
+    customerType: match.customerType,
     daysSinceFirstOrder,
+    daysSinceLastOrder,
+    averageOrderValue,
+    segmentRuleId: match.ruleId,
+    tags: apiData.tags ?? [],
+    countryCode: apiData.countryCode ?? null,
+    previousOrders,
   };
 }
 
 /**
  * Process customer data from webhook (fallback when API call fails)
- * Uses heuristic based on customer creation time
+ * Uses heuristic based on customer creation time; segment rules are
+ * skipped because order count and spend are unknown
  */
 export function processCustomerDataFallback(
   customer: ShopifyCustomer | null,
@@ -108,13 +182,19 @@ export function processCustomerDataFallback(
       isFirstOrder: true,
       customerType: "first-time",
       daysSinceFirstOrder: null,
+      daysSinceLastOrder: null,
+      averageOrderValue: null,
+      segmentRuleId: "guest",
+      tags: [],
+      countryCode: null,
+      previousOrders: [],
     };
   }
 
   // Webhook payloads don't include orders_count, so we use a heuristic:
   // If customer.created_at is very close to the order time, it's likely their first order
   const customerCreatedAt = customer.created_at ? new Date(customer.created_at) : null;
-  const orderTime = orderCreatedAt ? new Date(orderCreatedAt) : new Date();
+  const orderTime = getOrderTime(orderCreatedAt);
   
   // If customer was created within 60 seconds of the order, assume first-time
   const timeDiffMs = customerCreatedAt 
@@ -129,10 +209,7 @@ export function processCustomerDataFallback(
   // Calculate days since first order (customer account creation)
   let daysSinceFirstOrder: number | null = null;
   if (customerCreatedAt) {
-    const now = new Date();
-    daysSinceFirstOrder = Math.floor(
-      (now.getTime() - customerCreatedAt.getTime()) / (1000 * 60 * 60 * 24)
-    );
+    daysSinceFirstOrder = daysSince(customerCreatedAt, orderTime);
   }
 
   return {
@@ -143,6 +220,12 @@ export function processCustomerDataFallback(
     isFirstOrder,
     customerType,
     daysSinceFirstOrder,
+    daysSinceLastOrder: null,
+    averageOrderValue: null,
+    segmentRuleId: "fallback",
+    tags: [],
+    countryCode: null,
+    previousOrders: [],
   };
 }
 
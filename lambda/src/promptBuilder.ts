@@ -1,80 +1,297 @@
 /**
  * AI prompt builder for generating order insights
+ * Renders a prompt template (built-in or the shop's override) with
+ * variables taken from the order and customer data
  */
 
-import type { ProcessedOrderData, ProcessedCustomerData } from "../../shared/types";
+import type {
+  AIInsightResponse,
+  ContentWarning,
+  FeedbackGuidance,
+  ProcessedOrderData,
+  ProcessedCustomerData,
+  PromptTemplate,
+  PromptVariable,
+  PurchaseHistoryFeatures,
+} from "../../shared/types";
+import {
+  ORDER_INSIGHT_TEMPLATE_ID,
+  getPromptTemplate,
+  listTemplateVariables,
+  renderPromptTemplate,
+} from "../../shared/promptTemplates";
+import { FEEDBACK_REASONS } from "../../shared/feedback";
+import type { PiiKind } from "../../shared/redaction";
+import { PII_KINDS, redactText } from "../../shared/redaction";
+
+/**
+ * Rendered prompt plus the template it came from
+ */
+export interface BuiltPrompt {
+  systemMessage: string;
+  prompt: string;
+  templateId: string;
+  templateVersion: string;
+  /** Variables with a value in the prompt, i.e. what the provider sees */
+  sentFields: PromptVariable[];
+  /** What was left out or scrubbed, e.g. "customer_tags: email" */
+  redacted: string[];
+}
+
+/**
+ * Appended to every prompt, overridden or not: the response parser
+ * depends on it
+ */
+const RESPONSE_FORMAT = `Return ONLY valid JSON (no markdown, no code blocks):
+{
+  "insight": "string",
+  "followupSubject": "string",
+  "followupBody": "string"
+}`;
+
+/**
+ * The built-in order insight template (latest version)
+ */
+export function getDefaultTemplate(): PromptTemplate {
+  const template = getPromptTemplate(ORDER_INSIGHT_TEMPLATE_ID);
+  if (!template) {
+    throw new Error(`Prompt template ${ORDER_INSIGHT_TEMPLATE_ID} not found`);
+  }
+  return template;
+}
+
+/**
+ * Label recorded as promptVersion on insight attempts
+ */
+export function describeTemplate(
+  template: Pick<PromptTemplate, "id" | "version">
+): string {
+  return `${template.id}@${template.version}`;
+}
 
 export interface PromptSettings {
   includeCustomerName: boolean;
+  /** The rest of the shop's privacy settings; all default to true */
+  includeCountry?: boolean;
+  includeCustomerTags?: boolean;
+  includePurchaseHistory?: boolean;
+  /** Free-text tone guidance from the merchant */
+  brandVoice?: string | null;
+  /** BCP 47 language code for the follow-up email */
+  emailLanguage?: string;
+  /** What the merchant's edits to earlier emails say */
+  feedbackGuidance?: FeedbackGuidance | null;
 }
 
 const DEFAULT_SETTINGS: PromptSettings = {
   includeCustomerName: false,
+  brandVoice: null,
+  emailLanguage: "en",
+  feedbackGuidance: null,
 };
 
+/**
+ * Turn a language code into an English name the model understands
+ */
+function languageName(code: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Template variables for an order, with the customer data the shop's
+ * privacy settings allow. Free text (tags, merchant edits) has emails,
+ * phone numbers and addresses removed; tags also the customer's name.
+ */
+function buildVariables(
+  orderData: ProcessedOrderData,
+  customerData: ProcessedCustomerData,
+  settings: PromptSettings,
+  history: PurchaseHistoryFeatures | null
+): { variables: Record<PromptVariable, string>; redacted: string[] } {
+  const redacted: string[] = [];
+  const names = [customerData.firstName, customerData.lastName];
+  const scrub = (
+    field: PromptVariable,
+    text: string,
+    knownNames = names,
+    alsoFound: PiiKind[] = []
+  ) => {
+    const result = redactText(text, knownNames);
+    const found = PII_KINDS.filter(
+      (kind) => result.found.includes(kind) || alsoFound.includes(kind)
+    );
+    if (found.length > 0) {
+      redacted.push(`${field}: ${found.join(", ")}`);
+    }
+    return result.text;
+  };
+  const withhold = (field: string, value: unknown) => {
+    if (value) redacted.push(`${field}: not allowed in settings`);
+    return "";
+  };
+
+  if (!settings.includeCustomerName) {
+    withhold("customer_name", customerData.firstName);
+  }
+  const customerName =
+    (settings.includeCustomerName && customerData.firstName) ||
+    "the customer";
+  const country =
+    settings.includeCountry !== false
+      ? customerData.countryCode ?? ""
+      : withhold("country", customerData.countryCode);
+  const customerTags =
+    settings.includeCustomerTags !== false
+      ? scrub("customer_tags", customerData.tags.join(", "))
+      : withhold("customer_tags", customerData.tags.length);
+  if (settings.includePurchaseHistory === false) {
+    withhold("purchase_history", history?.previousProducts.length);
+    history = null;
+  }
+
+  const feedback = settings.feedbackGuidance
+    ? scrubFeedbackExamples(settings.feedbackGuidance)
+    : null;
+
+  const variables: Record<PromptVariable, string> = {
+    order_name: orderData.orderName,
+    order_total: `${orderData.currency} ${orderData.totalPrice.toFixed(2)}`,
+    items: orderData.lineItems
+      .map((item) => `${item.title} (x${item.quantity})`)
+      .join(", "),
+    item_count: String(orderData.itemCount),
+    discount: orderData.hasDiscount
+      ? "Yes (" + orderData.discountCodes.join(", ") + ")"
+      : "No",
+    customer_name: customerName,
+    orders_count: String(customerData.ordersCount),
+    lifetime_spend: `${orderData.currency} ${customerData.totalSpent.toFixed(2)}`,
+    customer_type: customerData.customerType,
+    days_since_first_order:
+      customerData.daysSinceFirstOrder !== null
+        ? String(customerData.daysSinceFirstOrder)
+        : "",
+    days_since_last_order:
+      customerData.daysSinceLastOrder !== null
+        ? String(customerData.daysSinceLastOrder)
+        : "",
+    country,
+    customer_tags: customerTags,
+    focus_area: getCustomerTypeInstructions(
+      customerData,
+      orderData.currency,
+      history
+    ),
+    // The edits are of other orders' emails, so this customer's names
+    // don't apply to them; each example is scrubbed of its own customer's
+    merchant_feedback: feedback
+      ? scrub(
+          "merchant_feedback",
+          getFeedbackInstructions(feedback.guidance),
+          [],
+          feedback.found
+        )
+      : "",
+    tone_instruction: settings.brandVoice
+      ? `- Write the email in this brand voice: ${settings.brandVoice}`
+      : "- Email should use a conversational tone",
+    email_language: languageName(settings.emailLanguage || "en"),
+  };
+
+  return { variables, redacted };
+}
+
 /**
  * Build AI prompt based on order and customer data
  */
 export function buildPrompt(
   orderData: ProcessedOrderData,
   customerData: ProcessedCustomerData,
-  settings: PromptSettings = DEFAULT_SETTINGS
-): string {
-  const customerName = settings.includeCustomerName
-    ? customerData.firstName || "the customer"
-    : "the customer";
-
-  const itemsList = orderData.lineItems
-    .map((item) => `${item.title} (x${item.quantity})`)
-    .join(", ");
-
-  let prompt = `
-You are an expert e-commerce analyst helping a Shopify merchant understand their orders and customers.
-
-Analyze the following order and generate:
-1. A 2-3 sentence insight for the merchant (what this order reveals about customer behavior, potential actions)
-2. A suggested follow-up email with subject line and body (keep it friendly, personalized, and actionable)
-
-ORDER DETAILS:
-- Order Total: ${orderData.currency} ${orderData.totalPrice.toFixed(2)}
-- Items: ${itemsList}
-- Quantity: ${orderData.itemCount} items
-- Discount Used: ${orderData.hasDiscount ? "Yes (" + orderData.discountCodes.join(", ") + ")" : "No"}
-
-CUSTOMER CONTEXT:
-- Customer: ${customerName}
-- Total Orders: ${customerData.ordersCount}
-- Lifetime Spend: $${customerData.totalSpent.toFixed(2)}
-- Customer Type: ${customerData.customerType}
-${customerData.daysSinceFirstOrder !== null ? `- Days Since First Order: ${customerData.daysSinceFirstOrder}` : ""}
-`.trim();
-
-  // Add customer-type specific instructions
-  prompt += "\n\n" + getCustomerTypeInstructions(customerData);
-
-  prompt += `
-
-INSTRUCTIONS:
-- Keep insights actionable (suggest tags, segments, or next steps)
-- Email should be 3-5 sentences, conversational tone
-- Use {{customer_first_name}}, {{product_name}}, {{order_name}} as placeholders
-- Don't make up specific discount codes or links - use {{discount_code}} or {{link}} as placeholders
-
-Return ONLY valid JSON (no markdown, no code blocks):
-{
-  "insight": "string",
-  "followupSubject": "string",
-  "followupBody": "string"
-}`;
+  settings: PromptSettings = DEFAULT_SETTINGS,
+  history: PurchaseHistoryFeatures | null = null,
+  template: PromptTemplate = getDefaultTemplate()
+): BuiltPrompt {
+  const { variables, redacted } = buildVariables(
+    orderData,
+    customerData,
+    settings,
+    history
+  );
+  const sentFields = listTemplateVariables(
+    `${template.systemMessage}\n${template.prompt}`
+  ).filter(
+    // "the customer" stands in for a name that wasn't sent
+    (name) =>
+      variables[name] &&
+      (name !== "customer_name" || variables[name] !== "the customer")
+  );
 
-  return prompt;
+  return {
+    systemMessage: renderPromptTemplate(template.systemMessage, variables),
+    prompt: `${renderPromptTemplate(template.prompt, variables)}\n\n${RESPONSE_FORMAT}`,
+    templateId: template.id,
+    templateVersion: template.version,
+    sentFields,
+    redacted,
+  };
 }
 
 /**
- * Get customer-type specific instructions for the AI prompt
+ * Follow-up prompt asking the model to fix the problems found in its
+ * response (see shared/contentLint.ts) and change nothing else
+ */
+export function buildRepairPrompt(
+  prompt: BuiltPrompt,
+  previous: AIInsightResponse,
+  warnings: ContentWarning[]
+): BuiltPrompt {
+  const problems = warnings
+    .map((warning) => `- ${warning.field}: ${warning.message}`)
+    .join("\n");
+
+  return {
+    ...prompt,
+    prompt: `${prompt.prompt}
+
+YOUR PREVIOUS RESPONSE:
+${JSON.stringify(previous, null, 2)}
+
+It has these problems:
+${problems}
+
+Fix only these problems and keep everything else the same. Use only the placeholders listed above; never write links, discount codes or prices that aren't in the order details.
+
+${RESPONSE_FORMAT}`,
+  };
+}
+
+/**
+ * Get customer-type specific instructions for the AI prompt, followed by
+ * what the customer's purchase history suggests
  */
 function getCustomerTypeInstructions(
-  customerData: ProcessedCustomerData
+  customerData: ProcessedCustomerData,
+  currency: string,
+  history: PurchaseHistoryFeatures | null
+): string {
+  return [
+    getSegmentInstructions(customerData, currency),
+    history ? getPurchaseHistoryInstructions(history) : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Instructions for the customer's segment
+ */
+function getSegmentInstructions(
+  customerData: ProcessedCustomerData,
+  currency: string
 ): string {
   switch (customerData.customerType) {
     case "first-time":
@@ -84,7 +301,7 @@ function getCustomerTypeInstructions(
 - Encouraging a second purchase with small incentive`;
 
     case "vip":
-      return `FOCUS AREA (VIP Customer - ${customerData.ordersCount} orders, $${customerData.totalSpent.toFixed(2)} LTV):
+      return `FOCUS AREA (VIP Customer - ${customerData.ordersCount} orders, ${currency} ${customerData.totalSpent.toFixed(2)} LTV):
 - Appreciation and recognition for loyalty
 - Exclusive benefits or early access offers
 - Personalized recommendations based on history`;
@@ -95,20 +312,155 @@ function getCustomerTypeInstructions(
 - Consider subscription or bundle offers
 - Look for patterns (replenishment, category preferences)`;
 
+    case "at-risk":
+      return `FOCUS AREA (At-Risk Customer - back after ${customerData.daysSinceLastOrder ?? "many"} days):
+- Acknowledge their return without guilt-tripping
+- Re-establish value: what's new since their last order
+- Encourage a quicker next purchase before they drift away again`;
+
+    case "lapsed":
+      return `FOCUS AREA (Lapsed Customer - back after ${customerData.daysSinceLastOrder ?? "many"} days):
+- Warm welcome back and thanks for returning
+- Find out what brought them back (reply prompt or short survey)
+- Win-back incentive to rebuild a regular purchase habit`;
+
     default:
       return "";
   }
 }
 
 /**
- * System message for the AI to set context
+ * Instructions from purchase history: replenishment, repeat purchases
+ * and categories to cross-sell. Empty when nothing stands out.
  */
-export const SYSTEM_MESSAGE = `You are an AI assistant specialized in e-commerce analytics and customer relationship management. You help Shopify merchants understand their customers better and craft personalized follow-up communications.
+function getPurchaseHistoryInstructions(
+  history: PurchaseHistoryFeatures
+): string {
+  const lines: string[] = [];
 
-Your responses should be:
-- Actionable and specific to the order data provided
-- Professional yet friendly in tone
-- Focused on improving customer retention and lifetime value
-- Realistic about what merchants can do (no complex automation suggestions)
+  for (const product of history.previousProducts) {
+    if (product.likelyReplenishment) {
+      const cycle = product.averageDaysBetween
+        ? `, about every ${product.averageDaysBetween} days`
+        : "";
+      lines.push(
+        `- Likely replenishment: "${product.title}" last bought ${product.daysSinceLastPurchase} days ago${cycle}`
+      );
+    } else if (product.inCurrentOrder) {
+      lines.push(
+        `- Bought again: "${product.title}" (last bought ${product.daysSinceLastPurchase} days ago)`
+      );
+    }
+  }
 
-Always respond with valid JSON only, no markdown formatting or code blocks.`;
+  const earlier = history.previousProducts.filter(
+    (product) => !product.inCurrentOrder
+  );
+  if (earlier.length > 0) {
+    lines.push(
+      `- Previously bought: ${earlier
+        .map(
+          (product) =>
+            `"${product.title}" (${product.daysSinceLastPurchase} days ago)`
+        )
+        .join(", ")}`
+    );
+  }
+
+  if (history.categoryAffinity.length > 0) {
+    lines.push(
+      `- Favourite categories: ${history.categoryAffinity
+        .map(
+          (affinity) =>
+            `${affinity.category} (${Math.round(affinity.share * 100)}% of past items)`
+        )
+        .join(", ")}`
+    );
+  }
+
+  if (history.crossSellCategories.length > 0) {
+    lines.push(
+      `- Cross-sell: nothing from ${history.crossSellCategories.join(" or ")} in this order; suggest a complementary product from there`
+    );
+  }
+
+  if (lines.length === 0) return "";
+
+  if (history.previousProducts.some((product) => product.likelyReplenishment)) {
+    lines.push(
+      "- For replenishment, suggest a subscription or a reorder reminder timed to their cycle"
+    );
+  }
+
+  return `FOCUS AREA (Purchase History - last ${history.ordersAnalyzed} orders):
+${lines.join("\n")}`;
+}
+
+/**
+ * Remove from each example the names of the customer its email was for,
+ * so it doesn't carry them into another order's prompt. Returns what was
+ * removed.
+ */
+function scrubFeedbackExamples(guidance: FeedbackGuidance): {
+  guidance: FeedbackGuidance;
+  found: PiiKind[];
+} {
+  const found = new Set<PiiKind>();
+  const scrubNames = (text: string, names: string[]) => {
+    const result = redactText(text, names);
+    result.found.forEach((kind) => found.add(kind));
+    return result.text;
+  };
+
+  return {
+    guidance: {
+      ...guidance,
+      examples: guidance.examples.map((example) => {
+        const names = example.customerNames ?? [];
+        return {
+          ...example,
+          originalSubject: scrubNames(example.originalSubject, names),
+          originalBody: scrubNames(example.originalBody, names),
+          editedSubject: scrubNames(example.editedSubject, names),
+          editedBody: scrubNames(example.editedBody, names),
+        };
+      }),
+    },
+    found: [...found],
+  };
+}
+
+/**
+ * Guidance from the merchant's edits to earlier emails: the reasons they
+ * gave and a few of their edits as examples. Empty when the edits were
+ * too small to say anything.
+ */
+function getFeedbackInstructions(guidance: FeedbackGuidance): string {
+  const lines = guidance.reasonCounts.map(
+    ({ reason, count }) =>
+      `- "${FEEDBACK_REASONS[reason]}" (${count} of the last ${guidance.editsAnalyzed} edits)`
+  );
+  if (lines.length === 0 && guidance.examples.length === 0) return "";
+
+  lines.push(
+    `- On average the merchant changes ${Math.round(guidance.averageChangeRatio * 100)}% of a suggested email`
+  );
+
+  const examples = guidance.examples.map(
+    (example, index) => `Example ${index + 1}${
+      example.reasons.length > 0
+        ? ` (${example.reasons.map((reason) => FEEDBACK_REASONS[reason]).join(", ")})`
+        : ""
+    }:
+Suggested subject: ${example.originalSubject}
+Suggested body: ${example.originalBody}
+Merchant's subject: ${example.editedSubject}
+Merchant's body: ${example.editedBody}`
+  );
+
+  return [
+    `MERCHANT FEEDBACK (from edits to earlier suggested emails; write the email the way the merchant wants it):
+${lines.join("\n")}`,
+    ...examples,
+  ].join("\n\n");
+}
@@ -0,0 +1,89 @@
+/**
+ * Anthropic Messages API provider
+ * Uses plain fetch so no extra SDK ships in the Lambda bundle
+ */
+
+import { ProcessingError, kindForStatus } from "../errors";
+import type { InsightProvider } from "./types";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+interface MessagesResponse {
+  model: string;
+  content: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+export function createAnthropicProvider(): InsightProvider {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error("ANTHROPIC_API_KEY environment variable is not set");
+  }
+
+  const baseUrl = process.env.ANTHROPIC_BASE_URL || "https://api.anthropic.com";
+  const defaultModel = process.env.ANTHROPIC_MODEL || "claude-3-5-haiku-latest";
+  const budgetModel =
+    process.env.ANTHROPIC_BUDGET_MODEL || "claude-3-haiku-20240307";
+
+  return {
+    name: "anthropic",
+    model: defaultModel,
+    budgetModel,
+
+    async complete(request) {
+      const model = request.model ?? defaultModel;
+      // The Messages API has no JSON mode; prefilling "{" keeps the model
+      // from wrapping the object in prose or code fences
+      const prefill = request.json ? "{" : "";
+
+      const response = await fetch(`${baseUrl}/v1/messages`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model,
+          system: request.systemMessage,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          messages: [
+            { role: "user", content: request.prompt },
+            ...(prefill ? [{ role: "assistant", content: prefill }] : []),
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw new ProcessingError(
+          kindForStatus(response.status),
+          `Anthropic API error: ${response.status} ${errorBody.slice(0, 200)}`,
+          { status: response.status }
+        );
+      }
+
+      const data = (await response.json()) as MessagesResponse;
+      const text = data.content
+        .filter((block) => block.type === "text")
+        .map((block) => block.text ?? "")
+        .join("");
+
+      if (!text) {
+        throw new ProcessingError("validation", "Empty response from Anthropic");
+      }
+
+      return {
+        content: prefill + text,
+        model: data.model || model,
+        usage: data.usage
+          ? {
+              promptTokens: data.usage.input_tokens,
+              completionTokens: data.usage.output_tokens,
+            }
+          : null,
+      };
+    },
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Local fixture provider
+ * Returns deterministic insights built from templates, with no network
+ * access. Meant for local development and CI runs of the full handler.
+ */
+
+import type { AIInsightResponse, CustomerType } from "../../../shared/types";
+import type { InsightProvider } from "./types";
+
+const TEMPLATES: Record<CustomerType, AIInsightResponse> = {
+  "first-time": {
+    insight:
+      "First-time customer who bought {{items}}. Tag them as a new customer and follow up with a welcome offer to encourage a second purchase.",
+    followupSubject: "Welcome, {{customer_first_name}}!",
+    followupBody:
+      "Hi {{customer_first_name}},\n\nThanks for your first order ({{order_name}}). We hope you love your {{product_name}}. Here's a little something for next time: {{discount_code}}.\n\nCheers,\nThe team",
+  },
+  repeat: {
+    insight:
+      "Returning customer who bought {{items}}. Consider a bundle or subscription offer for the products they come back for.",
+    followupSubject: "Thanks for coming back, {{customer_first_name}}",
+    followupBody:
+      "Hi {{customer_first_name}},\n\nGreat to see you again! Your order {{order_name}} is on its way. If you use {{product_name}} regularly, our subscription saves you time: {{link}}.\n\nThanks,\nThe team",
+  },
+  vip: {
+    insight:
+      "VIP customer who bought {{items}}. Add them to your VIP segment and offer early access to new arrivals.",
+    followupSubject: "A thank-you for one of our best customers",
+    followupBody:
+      "Hi {{customer_first_name}},\n\nThank you for your continued support. As one of our most valued customers, you get early access to our next collection: {{link}}.\n\nWarmly,\nThe team",
+  },
+  "at-risk": {
+    insight:
+      "Customer returning after a long gap who bought {{items}}. Nudge them toward a quicker next purchase before they drift away again.",
+    followupSubject: "Good to see you again, {{customer_first_name}}",
+    followupBody:
+      "Hi {{customer_first_name}},\n\nIt's been a while, and we're glad you're back! Here's what's new since your last visit: {{link}}.\n\nSee you soon,\nThe team",
+  },
+  lapsed: {
+    insight:
+      "Lapsed customer won back with an order of {{items}}. Ask what brought them back and offer a win-back incentive.",
+    followupSubject: "Welcome back, {{customer_first_name}}!",
+    followupBody:
+      "Hi {{customer_first_name}},\n\nWelcome back! We'd love to hear what brought you back to us. As a thank-you, here's {{discount_code}} for your next order.\n\nThe team",
+  },
+};
+
+/**
+ * Read a "- Label: value" line from the prompt
+ */
+function readPromptField(prompt: string, label: string): string | null {
+  const match = prompt.match(new RegExp(`^- ${label}: (.+)$`, "m"));
+  return match ? match[1].trim() : null;
+}
+
+export function createFixtureProvider(): InsightProvider {
+  return {
+    name: "fixture",
+    model: "fixture",
+    budgetModel: "fixture",
+
+    async complete(request) {
+      const customerType = readPromptField(request.prompt, "Customer Type");
+      const items = readPromptField(request.prompt, "Items") ?? "their items";
+
+      const template =
+        TEMPLATES[customerType as CustomerType] ?? TEMPLATES.repeat;
+
+      const response: AIInsightResponse = {
+        ...template,
+        insight: template.insight.replace("{{items}}", items),
+      };
+
+      return {
+        content: JSON.stringify(response),
+        model: "fixture",
+        usage: { promptTokens: 0, completionTokens: 0 },
+      };
+    },
+  };
+}
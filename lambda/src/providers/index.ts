@@ -0,0 +1,37 @@
+/**
+ * Provider selection
+ * AI_PROVIDER picks the implementation: "openai" (default), "anthropic"
+ * or "fixture"
+ */
+
+import type { InsightProvider } from "./types";
+import { createOpenAIProvider } from "./openai";
+import { createAnthropicProvider } from "./anthropic";
+import { createFixtureProvider } from "./fixture";
+
+export type { InsightProvider, Completion, CompletionRequest } from "./types";
+
+const PROVIDERS: Record<string, () => InsightProvider> = {
+  openai: createOpenAIProvider,
+  anthropic: createAnthropicProvider,
+  fixture: createFixtureProvider,
+};
+
+let provider: InsightProvider | null = null;
+
+/**
+ * Get or create the configured provider
+ */
+export function getInsightProvider(): InsightProvider {
+  if (!provider) {
+    const name = process.env.AI_PROVIDER || "openai";
+    const create = PROVIDERS[name];
+    if (!create) {
+      throw new Error(
+        `Unknown AI_PROVIDER "${name}". Use one of: ${Object.keys(PROVIDERS).join(", ")}`
+      );
+    }
+    provider = create();
+  }
+  return provider;
+}
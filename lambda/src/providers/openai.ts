@@ -0,0 +1,83 @@
+/**
+ * OpenAI-compatible provider
+ * Works with OpenAI and any server exposing the chat completions API
+ * (set OPENAI_BASE_URL for Azure, OpenRouter, vLLM, Ollama, ...)
+ */
+
+import OpenAI, { APIConnectionError, APIError } from "openai";
+import { ProcessingError, kindForStatus } from "../errors";
+import type { InsightProvider } from "./types";
+
+/**
+ * Map SDK errors onto our error kinds so the handler can retry them
+ */
+function toProcessingError(error: unknown): unknown {
+  if (error instanceof APIConnectionError) {
+    return new ProcessingError("network", error.message, { cause: error });
+  }
+  if (error instanceof APIError && error.status !== undefined) {
+    return new ProcessingError(kindForStatus(error.status), error.message, {
+      status: error.status,
+      cause: error,
+    });
+  }
+  return error;
+}
+
+export function createOpenAIProvider(): InsightProvider {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error("OPENAI_API_KEY environment variable is not set");
+  }
+
+  const client = new OpenAI({
+    apiKey,
+    baseURL: process.env.OPENAI_BASE_URL || undefined,
+    // Retries are handled by the caller with backoff
+    maxRetries: 0,
+  });
+  const defaultModel = process.env.OPENAI_MODEL || "gpt-3.5-turbo";
+  const budgetModel = process.env.OPENAI_BUDGET_MODEL || "gpt-4o-mini";
+
+  return {
+    name: "openai",
+    model: defaultModel,
+    budgetModel,
+
+    async complete(request) {
+      const model = request.model ?? defaultModel;
+      const response = await client.chat.completions
+        .create({
+          model,
+          messages: [
+            { role: "system", content: request.systemMessage },
+            { role: "user", content: request.prompt },
+          ],
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          ...(request.json
+            ? { response_format: { type: "json_object" as const } }
+            : {}),
+        })
+        .catch((error) => {
+          throw toProcessingError(error);
+        });
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new ProcessingError("validation", "Empty response from OpenAI");
+      }
+
+      return {
+        content,
+        model: response.model || model,
+        usage: response.usage
+          ? {
+              promptTokens: response.usage.prompt_tokens,
+              completionTokens: response.usage.completion_tokens,
+            }
+          : null,
+      };
+    },
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * LLM provider interface used by the AI service
+ */
+
+/**
+ * A single chat completion request
+ */
+export interface CompletionRequest {
+  systemMessage: string;
+  prompt: string;
+  /** Ask the provider for a JSON object response */
+  json: boolean;
+  temperature: number;
+  maxTokens: number;
+  /** Model to use instead of the provider's default */
+  model?: string;
+}
+
+/**
+ * Token counts reported by the provider
+ */
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Raw completion returned by a provider, before JSON parsing
+ */
+export interface Completion {
+  content: string;
+  /** Model that actually served the request */
+  model: string;
+  usage: CompletionUsage | null;
+}
+
+/**
+ * Something that can turn a prompt into a completion
+ */
+export interface InsightProvider {
+  /** Provider name for logs (e.g., "openai", "fixture") */
+  name: string;
+  /** Model requests are sent to, recorded on failed attempts */
+  model: string;
+  /** Cheaper model used for shops over their monthly budget */
+  budgetModel: string;
+  complete(request: CompletionRequest): Promise<Completion>;
+}
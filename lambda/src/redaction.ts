@@ -0,0 +1,93 @@
+/**
+ * Redaction - Strips customer PII from payloads before they are logged
+ */
+
+import type { ShopifyOrder } from "../../shared/types";
+import { REDACTED, redactText } from "../../shared/redaction";
+
+/** Keys whose values are replaced wherever they appear */
+const SENSITIVE_KEYS = new Set([
+  "email",
+  "contact_email",
+  "phone",
+  "first_name",
+  "last_name",
+  "address1",
+  "address2",
+  "zip",
+  "company",
+  "latitude",
+  "longitude",
+  "browser_ip",
+  "client_details",
+]);
+
+/** Objects describing a person: their "name" is the person's name */
+const PERSON_KEYS = new Set([
+  "customer",
+  "shipping_address",
+  "billing_address",
+  "default_address",
+  "addresses",
+]);
+
+/** Lists of { name, value } pairs set by the storefront */
+const PROPERTY_KEYS = new Set(["properties", "note_attributes"]);
+
+function redactValue(value: unknown, key: string, names: string[]): unknown {
+  if (value === null || value === undefined) return value;
+  if (SENSITIVE_KEYS.has(key)) return REDACTED;
+
+  if (key === "note" && typeof value === "string") {
+    return redactText(value, names).text;
+  }
+  if (PROPERTY_KEYS.has(key) && Array.isArray(value)) {
+    return value.map((property) => ({ ...property, value: REDACTED }));
+  }
+  if (Array.isArray(value)) {
+    // Items of "addresses" are addresses too, so they keep the key
+    return value.map((item) => redactValue(item, key, names));
+  }
+  if (typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([childKey, child]) => [
+        childKey,
+        childKey === "name" && PERSON_KEYS.has(key)
+          ? REDACTED
+          : redactValue(child, childKey, names),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Names that may turn up in the order's free text
+ */
+function collectNames(order: Partial<ShopifyOrder>): string[] {
+  return [
+    order.customer?.first_name,
+    order.customer?.last_name,
+    order.shipping_address?.first_name,
+    order.shipping_address?.last_name,
+    order.billing_address?.first_name,
+    order.billing_address?.last_name,
+  ].filter((name): name is string => Boolean(name));
+}
+
+/**
+ * Copy of a payload (an order, or an event detail wrapping one) that is
+ * safe to log: contact details, addresses, names and storefront
+ * properties are replaced, and the note has PII removed
+ */
+export function redactForLog(value: unknown): unknown {
+  const order =
+    value && typeof value === "object" && "payload" in value
+      ? (value as { payload: unknown }).payload
+      : value;
+  const names =
+    order && typeof order === "object"
+      ? collectNames(order as Partial<ShopifyOrder>)
+      : [];
+  return redactValue(value, "", names);
+}
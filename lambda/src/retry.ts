@@ -0,0 +1,98 @@
+/**
+ * Retry with exponential backoff and full jitter
+ * Used inside one invocation for calls that can fail transiently
+ */
+
+import type { Logger } from "../../shared/logger";
+import { addUsage } from "../../shared/pricing";
+import type { InsightUsage } from "../../shared/types";
+import { ProcessingError, classifyError, isRetryable } from "./errors";
+import { logger } from "./logger";
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Epoch ms after which no new attempt is started */
+  deadline: number;
+}
+
+/**
+ * Read retry settings from the environment.
+ * RETRY_MAX_ATTEMPTS (default 3), RETRY_BASE_DELAY_MS (default 500)
+ * and RETRY_MAX_DELAY_MS (default 8000)
+ */
+export function getRetryOptions(deadline: number): RetryOptions {
+  return {
+    maxAttempts: parseInt(process.env.RETRY_MAX_ATTEMPTS || "", 10) || 3,
+    baseDelayMs: parseInt(process.env.RETRY_BASE_DELAY_MS || "", 10) || 500,
+    maxDelayMs: parseInt(process.env.RETRY_MAX_DELAY_MS || "", 10) || 8000,
+    deadline,
+  };
+}
+
+/**
+ * Delay before the given retry (1-based), drawn uniformly from
+ * [0, min(maxDelay, base * 2^(retry - 1))]
+ */
+export function backoffDelay(retry: number, options: RetryOptions): number {
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** (retry - 1)
+  );
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Run fn until it succeeds, fails permanently, runs out of attempts or
+ * would overrun the deadline. Always rejects with a ProcessingError that
+ * records the error kind, the attempts made and the provider usage the
+ * failed attempts paid for.
+ */
+export async function withRetry<T>(
+  label: string,
+  fn: () => Promise<T>,
+  options: RetryOptions,
+  log: Logger = logger
+): Promise<T> {
+  let usage: InsightUsage | undefined;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const kind = classifyError(error);
+      const message = error instanceof Error ? error.message : String(error);
+      const delay = backoffDelay(attempt, options);
+      if (error instanceof ProcessingError && error.usage) {
+        usage = usage ? addUsage(usage, error.usage) : error.usage;
+      }
+
+      const giveUp =
+        !isRetryable(kind) ||
+        attempt >= options.maxAttempts ||
+        Date.now() + delay >= options.deadline;
+
+      if (giveUp) {
+        log.error(`${label} failed after ${attempt} attempt(s)`, {
+          errorKind: kind,
+          error: message,
+          attempts: attempt,
+        });
+        throw new ProcessingError(kind, message, {
+          status: error instanceof ProcessingError ? error.status : undefined,
+          attempts: attempt,
+          cause: error,
+          usage,
+        });
+      }
+
+      log.warn(`${label} attempt ${attempt} failed, retrying`, {
+        errorKind: kind,
+        error: message,
+        retryInMs: delay,
+      });
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Shop Settings - Resolves per-shop analysis settings for an order
+ */
+
+import type {
+  BudgetStatus,
+  FeedbackGuidance,
+  PlanStatus,
+  PromptTemplate,
+  PromptVariant,
+  SegmentRule,
+  ShopSettingsData,
+} from "../../shared/types";
+import { buildDefaultSegmentRules } from "../../shared/segmentation";
+import type { Logger } from "../../shared/logger";
+import { fetchShopSettings } from "./httpClient";
+import { logger } from "./logger";
+
+/**
+ * Settings used when the app can't be reached.
+ * Mirrors the app defaults; INCLUDE_CUSTOMER_NAME is kept as a global
+ * fallback so existing deployments behave the same during an outage.
+ */
+export function getFallbackSettings(): ShopSettingsData {
+  return {
+    enabled: true,
+    includeCustomerName: process.env.INCLUDE_CUSTOMER_NAME === "true",
+    includeCountry: true,
+    includeCustomerTags: true,
+    includePurchaseHistory: true,
+    brandVoice: null,
+    emailLanguage: "en",
+    segmentRules: null,
+    vipMinOrders: 5,
+    vipMinSpend: 500,
+    minOrderValue: 0,
+    monthlyBudget: null,
+    overBudgetAction: "cheaper_model",
+  };
+}
+
+export interface LoadedShopSettings {
+  settings: ShopSettingsData;
+  /** The shop's prompt override; null uses the built-in template */
+  promptTemplate: PromptTemplate | null;
+  /** Variants of the shop's prompt experiment; empty when none runs */
+  promptVariants: PromptVariant[];
+  /** What the shop's edits to earlier emails say; null without edits */
+  feedbackGuidance: FeedbackGuidance | null;
+  /** This month's AI spend; null when the app didn't send it */
+  budget: BudgetStatus | null;
+  /** The shop's plan allowance; null when the app didn't send it */
+  plan: PlanStatus | null;
+}
+
+/**
+ * Load settings for a shop from the Remix app, falling back to defaults
+ * (the built-in prompt template, no experiment, no feedback guidance,
+ * no budget or plan check)
+ */
+export async function loadShopSettings(
+  shop: string,
+  log: Logger = logger
+): Promise<LoadedShopSettings> {
+  const response = await fetchShopSettings(shop, log);
+
+  if (response.success && response.settings) {
+    return {
+      settings: response.settings,
+      promptTemplate: response.promptTemplate ?? null,
+      promptVariants: response.promptVariants ?? [],
+      feedbackGuidance: response.feedbackGuidance ?? null,
+      budget: response.budget ?? null,
+      plan: response.plan ?? null,
+    };
+  }
+
+  log.warn("Using fallback shop settings", { error: response.error });
+  return {
+    settings: getFallbackSettings(),
+    promptTemplate: null,
+    promptVariants: [],
+    feedbackGuidance: null,
+    budget: null,
+    plan: null,
+  };
+}
+
+/**
+ * Segment rules for a shop: custom rules if saved, else the defaults
+ * built from the shop's VIP thresholds
+ */
+export function resolveSegmentRules(settings: ShopSettingsData): SegmentRule[] {
+  return settings.segmentRules ?? buildDefaultSegmentRules(settings);
+}
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "ShopSettings" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "includeCustomerName" BOOLEAN NOT NULL DEFAULT false,
+    "brandVoice" TEXT,
+    "emailLanguage" TEXT NOT NULL DEFAULT 'en',
+    "vipMinOrders" INTEGER NOT NULL DEFAULT 5,
+    "vipMinSpend" REAL NOT NULL DEFAULT 500,
+    "minOrderValue" REAL NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "AIOrderInsight" ADD COLUMN "segmentRule" TEXT;
+
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "segmentRules" TEXT;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "ProcessedEvent" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "insightId" TEXT,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" DATETIME
+);
+
+-- CreateIndex
+CREATE INDEX "ProcessedEvent_shop_orderId_idx" ON "ProcessedEvent"("shop", "orderId");
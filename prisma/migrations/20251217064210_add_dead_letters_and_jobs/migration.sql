@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "DeadLetter" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "orderName" TEXT NOT NULL,
+    "errorKind" TEXT NOT NULL,
+    "error" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL,
+    "event" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "replays" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "InsightJob" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "deadLetterId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "insightId" TEXT,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" DATETIME,
+    "finishedAt" DATETIME
+);
+
+-- CreateIndex
+CREATE INDEX "DeadLetter_shop_createdAt_idx" ON "DeadLetter"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "InsightJob_status_createdAt_idx" ON "InsightJob"("status", "createdAt");
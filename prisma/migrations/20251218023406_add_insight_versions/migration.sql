@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "AIOrderInsightVersion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "insightId" TEXT NOT NULL,
+    "insightText" TEXT NOT NULL,
+    "followupSubject" TEXT,
+    "followupBody" TEXT,
+    "customerType" TEXT,
+    "segmentRule" TEXT,
+    "orderValue" REAL,
+    "status" TEXT NOT NULL,
+    "errorMessage" TEXT,
+    "generatedAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "AIOrderInsightVersion_insightId_fkey" FOREIGN KEY ("insightId") REFERENCES "AIOrderInsight" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "AIOrderInsightVersion_insightId_generatedAt_idx" ON "AIOrderInsightVersion"("insightId", "generatedAt");
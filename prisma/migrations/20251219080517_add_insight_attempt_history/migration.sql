@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "AIOrderInsight" ADD COLUMN "currentVersionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "AIOrderInsightVersion" ADD COLUMN "model" TEXT;
+ALTER TABLE "AIOrderInsightVersion" ADD COLUMN "promptVersion" TEXT;
+ALTER TABLE "AIOrderInsightVersion" ADD COLUMN "startedAt" DATETIME;
+
+-- Record the content of existing insights as their first version.
+-- Pending rows are skipped: their content was already copied when the
+-- regeneration was requested.
+INSERT INTO "AIOrderInsightVersion" (
+    "id", "insightId", "insightText", "followupSubject", "followupBody",
+    "customerType", "segmentRule", "orderValue", "status", "errorMessage",
+    "generatedAt", "createdAt"
+)
+SELECT
+    'v' || lower(hex(randomblob(12))), "id", "insightText", "followupSubject", "followupBody",
+    "customerType", "segmentRule", "orderValue", "status", "errorMessage",
+    "updatedAt", CURRENT_TIMESTAMP
+FROM "AIOrderInsight"
+WHERE "status" <> 'pending';
+
+-- Point each insight at its latest version
+UPDATE "AIOrderInsight" SET "currentVersionId" = (
+    SELECT "v"."id" FROM "AIOrderInsightVersion" AS "v"
+    WHERE "v"."insightId" = "AIOrderInsight"."id"
+    ORDER BY "v"."generatedAt" DESC
+    LIMIT 1
+);
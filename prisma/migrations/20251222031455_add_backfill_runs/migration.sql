@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "BackfillRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "rangeStart" DATETIME NOT NULL,
+    "rangeEnd" DATETIME NOT NULL,
+    "concurrency" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "cursor" TEXT,
+    "exhausted" BOOLEAN NOT NULL DEFAULT false,
+    "ordersFound" INTEGER NOT NULL DEFAULT 0,
+    "ordersSkipped" INTEGER NOT NULL DEFAULT 0,
+    "ordersCompleted" INTEGER NOT NULL DEFAULT 0,
+    "ordersFailed" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "finishedAt" DATETIME
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_InsightJob" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "deadLetterId" TEXT,
+    "backfillRunId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "insightId" TEXT,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" DATETIME,
+    "finishedAt" DATETIME,
+    CONSTRAINT "InsightJob_backfillRunId_fkey" FOREIGN KEY ("backfillRunId") REFERENCES "BackfillRun" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_InsightJob" ("attempts", "createdAt", "deadLetterId", "error", "event", "finishedAt", "id", "insightId", "kind", "orderId", "shop", "startedAt", "status") SELECT "attempts", "createdAt", "deadLetterId", "error", "event", "finishedAt", "id", "insightId", "kind", "orderId", "shop", "startedAt", "status" FROM "InsightJob";
+DROP TABLE "InsightJob";
+ALTER TABLE "new_InsightJob" RENAME TO "InsightJob";
+CREATE INDEX "InsightJob_status_createdAt_idx" ON "InsightJob"("status", "createdAt");
+CREATE INDEX "InsightJob_backfillRunId_status_idx" ON "InsightJob"("backfillRunId", "status");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "BackfillRun_shop_createdAt_idx" ON "BackfillRun"("shop", "createdAt");
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "AIOrderInsight" ADD COLUMN "templateId" TEXT;
+ALTER TABLE "AIOrderInsight" ADD COLUMN "templateVersion" TEXT;
+
+-- AlterTable
+ALTER TABLE "AIOrderInsightVersion" ADD COLUMN "templateId" TEXT;
+ALTER TABLE "AIOrderInsightVersion" ADD COLUMN "templateVersion" TEXT;
+
+-- CreateTable
+CREATE TABLE "PromptTemplateOverride" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "systemMessage" TEXT NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "PromptTemplateOverride_shop_templateId_active_idx" ON "PromptTemplateOverride"("shop", "templateId", "active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptTemplateOverride_shop_templateId_version_key" ON "PromptTemplateOverride"("shop", "templateId", "version");
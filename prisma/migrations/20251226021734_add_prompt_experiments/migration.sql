@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "AIOrderInsight" ADD COLUMN "variantId" TEXT;
+ALTER TABLE "AIOrderInsight" ADD COLUMN "rating" TEXT;
+ALTER TABLE "AIOrderInsight" ADD COLUMN "ratingComment" TEXT;
+ALTER TABLE "AIOrderInsight" ADD COLUMN "ratedAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "AIOrderInsightVersion" ADD COLUMN "variantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PromptVariant" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "weight" INTEGER NOT NULL DEFAULT 1,
+    "systemMessage" TEXT,
+    "prompt" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "AIOrderInsight_shop_variantId_idx" ON "AIOrderInsight"("shop", "variantId");
+
+-- CreateIndex
+CREATE INDEX "PromptVariant_shop_active_idx" ON "PromptVariant"("shop", "active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptVariant_shop_number_key" ON "PromptVariant"("shop", "number");
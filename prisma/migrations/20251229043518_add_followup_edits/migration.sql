@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "FollowupEdit" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "insightId" TEXT NOT NULL,
+    "versionId" TEXT,
+    "variantId" TEXT,
+    "originalSubject" TEXT,
+    "originalBody" TEXT,
+    "editedSubject" TEXT NOT NULL,
+    "editedBody" TEXT NOT NULL,
+    "editDistance" INTEGER NOT NULL,
+    "reasons" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "FollowupEdit_insightId_fkey" FOREIGN KEY ("insightId") REFERENCES "AIOrderInsight" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "FollowupEdit_insightId_idx" ON "FollowupEdit"("insightId");
+
+-- CreateIndex
+CREATE INDEX "FollowupEdit_shop_updatedAt_idx" ON "FollowupEdit"("shop", "updatedAt");
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "FollowupSend" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "insightId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "customerId" TEXT,
+    "recipient" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'scheduled',
+    "scheduledFor" DATETIME NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "transport" TEXT,
+    "messageId" TEXT,
+    "sentAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "FollowupSend_insightId_fkey" FOREIGN KEY ("insightId") REFERENCES "AIOrderInsight" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "EmailUnsubscribe" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "FollowupSend_status_scheduledFor_idx" ON "FollowupSend"("status", "scheduledFor");
+
+-- CreateIndex
+CREATE INDEX "FollowupSend_insightId_idx" ON "FollowupSend"("insightId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailUnsubscribe_shop_email_key" ON "EmailUnsubscribe"("shop", "email");
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "FollowupSend" ADD COLUMN "trigger" TEXT NOT NULL DEFAULT 'manual';
+ALTER TABLE "FollowupSend" ADD COLUMN "discountCode" TEXT;
+ALTER TABLE "FollowupSend" ADD COLUMN "link" TEXT;
+ALTER TABLE "FollowupSend" ADD COLUMN "delayHours" INTEGER;
+
+-- CreateTable
+CREATE TABLE "FollowupScheduleRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "customerType" TEXT NOT NULL,
+    "anchor" TEXT NOT NULL,
+    "delayHours" INTEGER NOT NULL,
+    "discountCode" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "FollowupSend_shop_orderId_idx" ON "FollowupSend"("shop", "orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FollowupScheduleRule_shop_customerType_key" ON "FollowupScheduleRule"("shop", "customerType");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "AIOrderInsight" ADD COLUMN "contentWarnings" TEXT;
+ALTER TABLE "AIOrderInsight" ADD COLUMN "repaired" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "AIOrderInsightVersion" ADD COLUMN "contentWarnings" TEXT;
+ALTER TABLE "AIOrderInsightVersion" ADD COLUMN "repaired" BOOLEAN NOT NULL DEFAULT false;
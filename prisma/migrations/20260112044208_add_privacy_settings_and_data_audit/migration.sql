@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "includeCountry" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "ShopSettings" ADD COLUMN "includeCustomerTags" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "ShopSettings" ADD COLUMN "includePurchaseHistory" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "ProviderDataAudit" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "versionId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "fields" TEXT NOT NULL,
+    "redacted" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ProviderDataAudit_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "AIOrderInsightVersion" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProviderDataAudit_versionId_key" ON "ProviderDataAudit"("versionId");
+
+-- CreateIndex
+CREATE INDEX "ProviderDataAudit_shop_createdAt_idx" ON "ProviderDataAudit"("shop", "createdAt");
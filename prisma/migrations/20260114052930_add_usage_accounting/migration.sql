@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "AIOrderInsightVersion" ADD COLUMN "promptTokens" INTEGER;
+ALTER TABLE "AIOrderInsightVersion" ADD COLUMN "completionTokens" INTEGER;
+ALTER TABLE "AIOrderInsightVersion" ADD COLUMN "latencyMs" INTEGER;
+ALTER TABLE "AIOrderInsightVersion" ADD COLUMN "costUsd" REAL;
+ALTER TABLE "AIOrderInsightVersion" ADD COLUMN "usageEstimated" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "monthlyBudget" REAL;
+ALTER TABLE "ShopSettings" ADD COLUMN "overBudgetAction" TEXT NOT NULL DEFAULT 'cheaper_model';
+
+-- CreateTable
+CREATE TABLE "ShopUsageMonth" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "month" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "promptTokens" INTEGER NOT NULL DEFAULT 0,
+    "completionTokens" INTEGER NOT NULL DEFAULT 0,
+    "costUsd" REAL NOT NULL DEFAULT 0,
+    "unpricedAttempts" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShopUsageMonth_shop_month_key" ON "ShopUsageMonth"("shop", "month");
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "ShopSubscription" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "subscriptionId" TEXT,
+    "status" TEXT NOT NULL,
+    "graceEndsAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "AIOrderInsight" ADD COLUMN "customerId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PrivacyRequest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "webhookId" TEXT,
+    "customerId" TEXT,
+    "customerEmail" TEXT,
+    "orderIds" TEXT NOT NULL,
+    "dataRequestId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "result" TEXT,
+    "export" TEXT,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" DATETIME,
+    "finishedAt" DATETIME
+);
+
+-- CreateIndex
+CREATE INDEX "AIOrderInsight_shop_customerId_idx" ON "AIOrderInsight"("shop", "customerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PrivacyRequest_webhookId_key" ON "PrivacyRequest"("webhookId");
+
+-- CreateIndex
+CREATE INDEX "PrivacyRequest_status_createdAt_idx" ON "PrivacyRequest"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PrivacyRequest_shop_createdAt_idx" ON "PrivacyRequest"("shop", "createdAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "FollowupSend" ADD COLUMN "waitingFor" TEXT;
+
+-- Sends waiting before this column existed were waiting for fulfillment
+UPDATE "FollowupSend" SET "waitingFor" = 'fulfillment' WHERE "status" = 'waiting';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "FollowupEdit" ADD COLUMN "customerNames" TEXT;
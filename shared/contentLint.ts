@@ -0,0 +1,193 @@
+/**
+ * Guardrails for AI-generated content
+ * The prompt asks the model to stick to known {{placeholders}} and not to
+ * make up links, discount codes or prices. The Lambda checks the response
+ * with these rules, asks for one repair and stores whatever is left as
+ * warnings the Remix app shows with the insight.
+ */
+
+import type {
+  AIInsightResponse,
+  ContentField,
+  ContentWarning,
+  ContentWarningCode,
+  ProcessedCustomerData,
+  ProcessedOrderData,
+} from "./types";
+import { PLACEHOLDER_PATTERN, isFollowupPlaceholder } from "./placeholders";
+
+export const CONTENT_WARNING_CODES: ContentWarningCode[] = [
+  "unknown_placeholder",
+  "literal_url",
+  "invented_code",
+  "unknown_price",
+  "too_long",
+];
+
+export const CONTENT_FIELDS: ContentField[] = [
+  "insight",
+  "followupSubject",
+  "followupBody",
+];
+
+/** Longest text each field may have */
+export const MAX_CONTENT_LENGTHS: Record<ContentField, number> = {
+  insight: 600,
+  followupSubject: 120,
+  followupBody: 1500,
+};
+
+/** Fields the customer sees; the insight is only shown to the merchant */
+const EMAIL_FIELDS: ContentField[] = ["followupSubject", "followupBody"];
+
+/**
+ * What the content may mention: the order's amounts and codes
+ */
+export interface ContentFacts {
+  currency: string;
+  /** Order total, line prices and totals, customer spend */
+  amounts: number[];
+  /** Lowercased discount codes, SKUs and product title words */
+  knownTerms: Set<string>;
+}
+
+export function buildContentFacts(
+  orderData: ProcessedOrderData,
+  customerData: Pick<ProcessedCustomerData, "totalSpent" | "averageOrderValue">
+): ContentFacts {
+  const amounts = [orderData.totalPrice, customerData.totalSpent];
+  if (customerData.averageOrderValue !== null) {
+    amounts.push(customerData.averageOrderValue);
+  }
+
+  const knownTerms = new Set<string>([orderData.orderName.toLowerCase()]);
+  for (const code of orderData.discountCodes) {
+    knownTerms.add(code.toLowerCase());
+  }
+  for (const item of orderData.lineItems) {
+    amounts.push(item.price, item.price * item.quantity);
+    if (item.sku) knownTerms.add(item.sku.toLowerCase());
+    for (const word of item.title.split(/[^\w-]+/)) {
+      if (word) knownTerms.add(word.toLowerCase());
+    }
+  }
+
+  return { currency: orderData.currency, amounts, knownTerms };
+}
+
+const URL_PATTERN =
+  /\bhttps?:\/\/\S+|\bwww\.\S+|\b[\w-]+(?:\.[\w-]+)*\.(?:com|net|org|shop|store|co|io|app)\b(?:\/\S*)?|\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+/gi;
+
+/** Upper-case tokens mixing letters and digits, e.g. SAVE20 */
+const CODE_TOKEN_PATTERN =
+  /\b(?=[A-Z0-9]*\d)(?=[A-Z0-9]*[A-Z])[A-Z0-9]{4,20}\b/g;
+
+/** Whatever follows "code", e.g. code: WELCOME */
+const CODE_AFTER_WORD_PATTERN =
+  /\b[Cc]ode\s*:?\s*["'“]?([A-Z0-9][A-Za-z0-9_-]{2,})/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function pricePattern(currency: string): RegExp {
+  const code = escapeRegExp(currency);
+  const amount = String.raw`(\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?|\d+(?:\.\d{1,2})?)`;
+  return new RegExp(
+    String.raw`(?:[$€£¥]|\b${code}\s?)\s?${amount}|${amount}\s?(?:${code}\b|€)`,
+    "g"
+  );
+}
+
+/**
+ * Problems in one email field
+ */
+function lintEmailField(
+  field: ContentField,
+  text: string,
+  facts: ContentFacts
+): ContentWarning[] {
+  const warnings: ContentWarning[] = [];
+
+  for (const [, name] of text.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!isFollowupPlaceholder(name)) {
+      warnings.push({
+        code: "unknown_placeholder",
+        field,
+        message: `Unknown placeholder {{${name}}}`,
+      });
+    }
+  }
+
+  // Placeholders are allowed, so check only the text around them
+  const plain = text.replace(PLACEHOLDER_PATTERN, " ");
+
+  for (const [match] of plain.matchAll(URL_PATTERN)) {
+    const url = match.replace(/[.,;:!?)]+$/, "");
+    warnings.push({
+      code: "literal_url",
+      field,
+      message: `Contains a link or address (${url}); use {{link}} instead`,
+    });
+  }
+
+  const codes = [
+    ...Array.from(plain.matchAll(CODE_TOKEN_PATTERN), (match) => match[0]),
+    ...Array.from(plain.matchAll(CODE_AFTER_WORD_PATTERN), (match) => match[1]),
+  ];
+  for (const code of codes) {
+    if (facts.knownTerms.has(code.toLowerCase())) continue;
+    warnings.push({
+      code: "invented_code",
+      field,
+      message: `Contains a discount code the order doesn't have (${code}); use {{discount_code}} instead`,
+    });
+  }
+
+  for (const match of plain.matchAll(pricePattern(facts.currency))) {
+    const amount = Number((match[1] ?? match[2]).replace(/,/g, ""));
+    if (facts.amounts.some((known) => Math.abs(known - amount) < 0.01)) {
+      continue;
+    }
+    warnings.push({
+      code: "unknown_price",
+      field,
+      message: `Mentions a price that isn't in the order (${match[0].trim()})`,
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Check an AI response against the order it was written for.
+ * Returns no warnings when the content is fine.
+ */
+export function lintInsightContent(
+  response: AIInsightResponse,
+  facts: ContentFacts
+): ContentWarning[] {
+  const warnings: ContentWarning[] = [];
+
+  for (const field of EMAIL_FIELDS) {
+    warnings.push(...lintEmailField(field, response[field], facts));
+  }
+  for (const field of CONTENT_FIELDS) {
+    const max = MAX_CONTENT_LENGTHS[field];
+    if (response[field].length > max) {
+      warnings.push({
+        code: "too_long",
+        field,
+        message: `Longer than ${max} characters (${response[field].length})`,
+      });
+    }
+  }
+
+  const seen = new Set<string>();
+  return warnings.filter((warning) => {
+    const key = `${warning.field}:${warning.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
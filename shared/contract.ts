@@ -0,0 +1,120 @@
+/**
+ * Schema versions of the Lambda -> Remix contract
+ * The app upgrades older request bodies to the current version before
+ * validating them; the Lambda downgrades its bodies when the app it talks
+ * to is older than itself. Either side can therefore be deployed first.
+ *
+ * Version history:
+ *   1 - unversioned bodies sent before schemaVersion existed
+ *   2 - adds schemaVersion
+ *
+ * Within a version, fields are only ever added as optional, and readers
+ * drop keys they don't know (see shared/schemas.ts). A body with fields
+ * the reader doesn't know yet, or without ones it does, still validates.
+ * Version 2 gained customerId, warnings, repaired, dataSent and usage on
+ * ingest bodies, before in customer data requests, and tags, countryCode,
+ * recentOrders and ordersBefore in customer data responses this way.
+ * Renaming or removing a field, or making one required, needs a new
+ * version with a step for every contract.
+ */
+
+import type { ContractName } from "./types";
+
+/** Version this code reads and writes */
+export const SCHEMA_VERSION = 2;
+
+/** Oldest version the app still upgrades */
+export const MIN_SCHEMA_VERSION = 1;
+
+/** Bodies without a schemaVersion predate versioning */
+const UNVERSIONED = 1;
+
+type Body = Record<string, unknown>;
+
+/**
+ * Converts a body between version `n` (the key) and `n + 1`
+ */
+interface VersionStep {
+  up(body: Body): Body;
+  down(body: Body): Body;
+}
+
+const addSchemaVersion: VersionStep = {
+  up: (body) => ({ ...body, schemaVersion: 2 }),
+  down: ({ schemaVersion: _schemaVersion, ...body }) => body,
+};
+
+const STEPS: Record<ContractName, Record<number, VersionStep>> = {
+  ingest: { 1: addSchemaVersion },
+  customerData: { 1: addSchemaVersion },
+  shopSettings: { 1: addSchemaVersion },
+  ledger: { 1: addSchemaVersion },
+  deadLetter: { 1: addSchemaVersion },
+  insightJob: { 1: addSchemaVersion },
+};
+
+export function getSupportedSchemaVersions(): number[] {
+  const versions: number[] = [];
+  for (let v = MIN_SCHEMA_VERSION; v <= SCHEMA_VERSION; v++) {
+    versions.push(v);
+  }
+  return versions;
+}
+
+/**
+ * Bring a request body of any supported version up to SCHEMA_VERSION.
+ * Unknown versions are rejected rather than guessed at.
+ */
+export function upgradeBody(
+  contract: ContractName,
+  body: unknown
+):
+  | { success: true; data: Body; fromVersion: number }
+  | { success: false; error: string } {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { success: false, error: "Request body must be a JSON object" };
+  }
+
+  const declared = (body as Body).schemaVersion;
+  const fromVersion = declared === undefined ? UNVERSIONED : declared;
+  if (
+    typeof fromVersion !== "number" ||
+    !getSupportedSchemaVersions().includes(fromVersion)
+  ) {
+    return {
+      success: false,
+      error: `Unsupported schemaVersion ${JSON.stringify(fromVersion)}. This app accepts versions ${getSupportedSchemaVersions().join(", ")}; deploy a matching app or Lambda.`,
+    };
+  }
+
+  let data = body as Body;
+  for (let v = fromVersion; v < SCHEMA_VERSION; v++) {
+    data = STEPS[contract][v].up(data);
+  }
+  return { success: true, data, fromVersion };
+}
+
+/**
+ * Convert a current-version body down to an older version the app accepts
+ */
+export function downgradeBody(
+  contract: ContractName,
+  body: object,
+  toVersion: number
+): Body {
+  let data = body as Body;
+  for (let v = SCHEMA_VERSION - 1; v >= toVersion; v--) {
+    data = STEPS[contract][v].down(data);
+  }
+  return data;
+}
+
+/**
+ * Highest version both this code and the other side support, or null
+ */
+export function negotiateSchemaVersion(supported: number[]): number | null {
+  const common = getSupportedSchemaVersions().filter((v) =>
+    supported.includes(v)
+  );
+  return common.length > 0 ? Math.max(...common) : null;
+}
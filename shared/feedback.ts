@@ -0,0 +1,18 @@
+/**
+ * Follow-up feedback reasons
+ * Labels are shown on the insight page and quoted in prompt guidance.
+ */
+
+import type { FollowupFeedbackReason } from "./types";
+
+export const FEEDBACK_REASONS: Record<FollowupFeedbackReason, string> = {
+  too_long: "Too long",
+  wrong_tone: "Wrong tone",
+  factually_wrong: "Factually wrong",
+};
+
+export function isFeedbackReason(
+  value: string
+): value is FollowupFeedbackReason {
+  return value in FEEDBACK_REASONS;
+}
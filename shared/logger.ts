@@ -0,0 +1,99 @@
+/**
+ * Structured logger
+ * Writes one JSON object per line with a level, a message and the
+ * logger's context (shop, orderId, correlationId, ...), so one order can
+ * be followed from the Lambda through the app's API routes.
+ *
+ * LOG_LEVEL ("debug", "info", "warn" or "error", default "info") sets the
+ * lowest level written.
+ */
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+/** Header the Lambda sends its correlation id in */
+export const CORRELATION_ID_HEADER = "X-Correlation-Id";
+
+export interface Logger {
+  /** Fields added to every line */
+  readonly context: LogFields;
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Logger with more context, e.g. the shop and order being processed */
+  child(fields: LogFields): Logger;
+  /**
+   * Run one stage of the work, logging how long it took and whether it
+   * failed. Errors are logged and rethrown.
+   */
+  time<T>(stage: string, fn: () => Promise<T>): Promise<T>;
+}
+
+function getLogLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL?.toLowerCase();
+  return LOG_LEVELS.find((name) => name === level) ?? "info";
+}
+
+/** Errors don't serialize to JSON on their own */
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+function write(
+  level: LogLevel,
+  message: string,
+  context: LogFields,
+  fields: LogFields = {}
+): void {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(getLogLevel())) return;
+
+  const line: LogFields = {
+    time: new Date().toISOString(),
+    level,
+    message,
+  };
+  for (const [key, value] of Object.entries({ ...context, ...fields })) {
+    if (value !== undefined) line[key] = serialize(value);
+  }
+
+  const output = JSON.stringify(line);
+  if (level === "error") console.error(output);
+  else if (level === "warn") console.warn(output);
+  else console.log(output);
+}
+
+export function createLogger(context: LogFields = {}): Logger {
+  return {
+    context,
+    debug: (message, fields) => write("debug", message, context, fields),
+    info: (message, fields) => write("info", message, context, fields),
+    warn: (message, fields) => write("warn", message, context, fields),
+    error: (message, fields) => write("error", message, context, fields),
+    child: (fields) => createLogger({ ...context, ...fields }),
+    async time(stage, fn) {
+      const start = Date.now();
+      try {
+        const result = await fn();
+        write("info", `${stage} finished`, context, {
+          stage,
+          durationMs: Date.now() - start,
+        });
+        return result;
+      } catch (error) {
+        write("warn", `${stage} failed`, context, {
+          stage,
+          durationMs: Date.now() - start,
+          error,
+        });
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * {{placeholders}} the AI may put in follow-up emails
+ * The prompt asks for these; the Lambda flags any others and the Remix
+ * app fills them in before sending.
+ */
+
+export const FOLLOWUP_PLACEHOLDERS = [
+  "customer_first_name",
+  "product_name",
+  "order_name",
+  "discount_code",
+  "link",
+] as const;
+
+export type FollowupPlaceholder = (typeof FOLLOWUP_PLACEHOLDERS)[number];
+
+export const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export function isFollowupPlaceholder(
+  name: string
+): name is FollowupPlaceholder {
+  return (FOLLOWUP_PLACEHOLDERS as readonly string[]).includes(name);
+}
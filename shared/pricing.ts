@@ -0,0 +1,82 @@
+/**
+ * Model prices for AI cost accounting
+ * The app prices every attempt from its token counts when it is recorded;
+ * the Lambda uses the same table for its logs. Prices are USD per million
+ * tokens from the providers' price lists. Add models here when a shop
+ * starts using one: attempts on unknown models are recorded without a
+ * cost and don't count toward the budget.
+ */
+
+import type { InsightUsage } from "./types";
+
+export interface ModelPrice {
+  /** USD per million prompt (input) tokens */
+  prompt: number;
+  /** USD per million completion (output) tokens */
+  completion: number;
+}
+
+/**
+ * Keyed by model name prefix; the longest matching prefix wins, so dated
+ * snapshots such as "gpt-4o-mini-2024-07-18" get their family's price
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-3.5-turbo": { prompt: 0.5, completion: 1.5 },
+  "gpt-4-turbo": { prompt: 10, completion: 30 },
+  "gpt-4o": { prompt: 2.5, completion: 10 },
+  "gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "gpt-4.1": { prompt: 2, completion: 8 },
+  "gpt-4.1-mini": { prompt: 0.4, completion: 1.6 },
+  "gpt-4.1-nano": { prompt: 0.1, completion: 0.4 },
+  "claude-3-haiku": { prompt: 0.25, completion: 1.25 },
+  "claude-3-5-haiku": { prompt: 0.8, completion: 4 },
+  "claude-3-5-sonnet": { prompt: 3, completion: 15 },
+  "claude-3-7-sonnet": { prompt: 3, completion: 15 },
+  "claude-sonnet-4": { prompt: 3, completion: 15 },
+  "claude-3-opus": { prompt: 15, completion: 75 },
+  "claude-opus-4": { prompt: 15, completion: 75 },
+  fixture: { prompt: 0, completion: 0 },
+};
+
+/**
+ * Price of a model, or null when it isn't in the table
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+  const name = model.toLowerCase();
+  let match: string | null = null;
+  for (const prefix of Object.keys(MODEL_PRICES)) {
+    if (name.startsWith(prefix) && prefix.length > (match?.length ?? 0)) {
+      match = prefix;
+    }
+  }
+  return match ? MODEL_PRICES[match] : null;
+}
+
+/**
+ * Cost of a request in USD, or null when the model has no price
+ */
+export function computeCost(
+  model: string,
+  usage: { promptTokens: number; completionTokens: number }
+): number | null {
+  const price = getModelPrice(model);
+  if (!price) return null;
+  return (
+    (usage.promptTokens * price.prompt +
+      usage.completionTokens * price.completion) /
+    1_000_000
+  );
+}
+
+/**
+ * Usage of two requests made for one attempt, e.g. a response and its
+ * repair, or retries that failed after the provider answered
+ */
+export function addUsage(a: InsightUsage, b: InsightUsage): InsightUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    latencyMs: a.latencyMs + b.latencyMs,
+    estimated: a.estimated || b.estimated,
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Prompt template registry
+ * Built-in templates are rendered by the Lambda; the Remix app shows them
+ * on the settings page and validates shop overrides against the same
+ * variable list.
+ *
+ * Variables are written [[name]] so they don't clash with the
+ * {{placeholders}} the model is asked to put in emails. A line whose
+ * variables all render empty (unknown values) is left out, along with the
+ * extra blank lines that leaves.
+ */
+
+import type { PromptTemplate, PromptVariable } from "./types";
+
+export const ORDER_INSIGHT_TEMPLATE_ID = "order-insight";
+
+/** Longest system message or prompt a shop can save */
+export const MAX_TEMPLATE_LENGTH = 8000;
+
+/**
+ * Every variable with a description for the settings page
+ */
+export const PROMPT_VARIABLES: Record<PromptVariable, string> = {
+  order_name: "Order name, e.g. #1001",
+  order_total: "Order total with currency",
+  items: "Line items with quantities",
+  item_count: "Number of items",
+  discount: "Discount codes used, or No",
+  customer_name: 'First name if allowed in settings, else "the customer"',
+  orders_count: "Customer's total orders",
+  lifetime_spend: "Customer's lifetime spend with currency",
+  customer_type: "Customer segment",
+  days_since_first_order: "Days since the first order (may be empty)",
+  days_since_last_order: "Days since the previous order (may be empty)",
+  country: "Country code of the default address (may be empty)",
+  customer_tags: "Customer tags (may be empty)",
+  focus_area: "Segment and purchase history guidance",
+  merchant_feedback:
+    "What your edits to earlier emails say, with examples (may be empty)",
+  tone_instruction: "Brand voice instruction line",
+  email_language: "Language for the follow-up email",
+};
+
+const ORDER_INSIGHT_SYSTEM_MESSAGE = `You are an AI assistant specialized in e-commerce analytics and customer relationship management. You help Shopify merchants understand their customers better and craft personalized follow-up communications.
+
+Your responses should be:
+- Actionable and specific to the order data provided
+- Professional yet friendly in tone
+- Focused on improving customer retention and lifetime value
+- Realistic about what merchants can do (no complex automation suggestions)
+
+Always respond with valid JSON only, no markdown formatting or code blocks.`;
+
+const ORDER_INSIGHT_PROMPT_V3 = `You are an expert e-commerce analyst helping a Shopify merchant understand their orders and customers.
+
+Analyze the following order and generate:
+1. A 2-3 sentence insight for the merchant (what this order reveals about customer behavior, potential actions)
+2. A suggested follow-up email with subject line and body (keep it friendly, personalized, and actionable)
+
+ORDER DETAILS:
+- Order Total: [[order_total]]
+- Items: [[items]]
+- Quantity: [[item_count]] items
+- Discount Used: [[discount]]
+
+CUSTOMER CONTEXT:
+- Customer: [[customer_name]]
+- Total Orders: [[orders_count]]
+- Lifetime Spend: [[lifetime_spend]]
+- Customer Type: [[customer_type]]
+- Days Since First Order: [[days_since_first_order]]
+- Days Since Previous Order: [[days_since_last_order]]
+- Country: [[country]]
+- Customer Tags: [[customer_tags]]
+
+[[focus_area]]
+
+INSTRUCTIONS:
+- Keep insights actionable (suggest tags, segments, or next steps)
+- Email should be 3-5 sentences
+[[tone_instruction]]
+- Write the email subject and body in [[email_language]]; write the insight in English
+- Use {{customer_first_name}}, {{product_name}}, {{order_name}} as placeholders
+- Don't make up specific discount codes or links - use {{discount_code}} or {{link}} as placeholders`;
+
+// Version 4 adds guidance learned from the merchant's edits
+const ORDER_INSIGHT_PROMPT_V4 = ORDER_INSIGHT_PROMPT_V3.replace(
+  "[[focus_area]]",
+  "[[focus_area]]\n\n[[merchant_feedback]]"
+);
+
+/**
+ * Built-in templates, oldest version first. Add a new entry rather than
+ * editing a released one, so recorded versions keep meaning something.
+ * Versions 1 and 2 were the hardcoded prompts "insight-v1" and "insight-v2".
+ */
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: ORDER_INSIGHT_TEMPLATE_ID,
+    version: "3",
+    systemMessage: ORDER_INSIGHT_SYSTEM_MESSAGE,
+    prompt: ORDER_INSIGHT_PROMPT_V3,
+  },
+  {
+    id: ORDER_INSIGHT_TEMPLATE_ID,
+    version: "4",
+    systemMessage: ORDER_INSIGHT_SYSTEM_MESSAGE,
+    prompt: ORDER_INSIGHT_PROMPT_V4,
+  },
+];
+
+/**
+ * A built-in template; the latest version unless one is given
+ */
+export function getPromptTemplate(
+  id: string,
+  version?: string
+): PromptTemplate | undefined {
+  const versions = PROMPT_TEMPLATES.filter((template) => template.id === id);
+  return version
+    ? versions.find((template) => template.version === version)
+    : versions[versions.length - 1];
+}
+
+const VARIABLE_PATTERN = /\[\[\s*([a-z_]+)\s*\]\]/g;
+
+/**
+ * Fill in [[variables]], dropping lines whose variables are all empty
+ */
+export function renderPromptTemplate(
+  text: string,
+  variables: Record<PromptVariable, string>
+): string {
+  return text
+    .split("\n")
+    .flatMap((line) => {
+      const names = [...line.matchAll(VARIABLE_PATTERN)].map(
+        (match) => match[1] as PromptVariable
+      );
+      if (names.length > 0 && names.every((name) => !variables[name])) {
+        return [];
+      }
+      return [
+        line.replace(
+          VARIABLE_PATTERN,
+          (_, name: PromptVariable) => variables[name] ?? ""
+        ),
+      ];
+    })
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Variables a template text uses, each once
+ */
+export function listTemplateVariables(text: string): PromptVariable[] {
+  return [
+    ...new Set(
+      [...text.matchAll(VARIABLE_PATTERN)]
+        .map((match) => match[1])
+        .filter((name): name is PromptVariable => name in PROMPT_VARIABLES)
+    ),
+  ];
+}
+
+/**
+ * Problems with a template text a shop wants to save
+ */
+export function validatePromptTemplate(text: string): string[] {
+  const problems: string[] = [];
+
+  if (!text.trim()) {
+    problems.push("Can't be empty");
+  } else if (text.length > MAX_TEMPLATE_LENGTH) {
+    problems.push(`Keep it under ${MAX_TEMPLATE_LENGTH} characters`);
+  }
+
+  const unknown = [...text.matchAll(VARIABLE_PATTERN)]
+    .map((match) => match[1])
+    .filter((name) => !(name in PROMPT_VARIABLES));
+  if (unknown.length > 0) {
+    problems.push(
+      `Unknown variables: ${[...new Set(unknown)].map((name) => `[[${name}]]`).join(", ")}`
+    );
+  }
+
+  return problems;
+}
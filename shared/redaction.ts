@@ -0,0 +1,62 @@
+/**
+ * PII redaction for free text
+ * Used by Lambda on everything it logs and on the free-text values it
+ * puts in prompts, so emails, phone numbers, street addresses and known
+ * names never reach the logs or the AI provider.
+ */
+
+export const PII_KINDS = ["email", "phone", "address", "name"] as const;
+
+export type PiiKind = (typeof PII_KINDS)[number];
+
+/** Put in place of whatever was removed */
+export const REDACTED = "[redacted]";
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+/** 7+ digits with optional country code, spaces, dots, dashes, brackets */
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d(?:[\s.-]?\d){6,}/g;
+
+/** "12 Main Street", "4b Rue de la Paix" */
+const STREET_PATTERN =
+  /\b\d{1,5}[a-z]?\s+(?:[A-Z][\w'-]*\s+){0,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Square|Sq)\b\.?|\b(?:Rue|Via|Calle|Avenida)\s+(?:[\w'-]+\s+){0,3}\d{0,5}/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Remove emails, phone numbers, street addresses and the given names
+ * (e.g. the customer's) from text. Returns what kinds were found.
+ */
+export function redactText(
+  text: string,
+  names: Array<string | null | undefined> = []
+): { text: string; found: PiiKind[] } {
+  const found = new Set<PiiKind>();
+  const replace = (value: string, pattern: RegExp, kind: PiiKind) =>
+    value.replace(pattern, () => {
+      found.add(kind);
+      return REDACTED;
+    });
+
+  let result = replace(text, EMAIL_PATTERN, "email");
+  result = replace(result, PHONE_PATTERN, "phone");
+  result = replace(result, STREET_PATTERN, "address");
+
+  const knownNames = names
+    .map((name) => name?.trim())
+    .filter((name): name is string => Boolean(name && name.length > 1));
+  if (knownNames.length > 0) {
+    result = replace(
+      result,
+      new RegExp(`\\b(?:${knownNames.map(escapeRegExp).join("|")})\\b`, "gi"),
+      "name"
+    );
+  }
+
+  return {
+    text: result,
+    found: PII_KINDS.filter((kind) => found.has(kind)),
+  };
+}
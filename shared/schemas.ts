@@ -0,0 +1,363 @@
+/**
+ * Runtime schemas for the Lambda <-> Remix contracts
+ * Both sides validate with the same schemas, so a payload the Lambda
+ * accepts is one the app accepts too. Validation collects every
+ * problem with its field path instead of stopping at the first.
+ */
+
+import type {
+  AIInsightPayload,
+  AIInsightResponse,
+  ContentWarning,
+  CustomerData,
+  CustomerDataRequest,
+  CustomerDataResponse,
+  CustomerOrderHistory,
+  CustomerOrderLineItem,
+  CustomerOrderSummary,
+  InsightUsage,
+  ProviderDataSent,
+  ValidationIssue,
+  ValidationResult,
+} from "./types";
+import { CUSTOMER_TYPES } from "./segmentation";
+import { CONTENT_FIELDS, CONTENT_WARNING_CODES } from "./contentLint";
+import { SCHEMA_VERSION } from "./contract";
+
+/**
+ * A runtime check for values of type T.
+ * check() records problems in `issues` and returns the value, cleaned up
+ * (unknown object keys dropped) where it is valid.
+ */
+export interface Schema<T> {
+  check(value: unknown, path: string, issues: ValidationIssue[]): T;
+  /** Whether an object may leave this field out */
+  optional?: boolean;
+}
+
+/**
+ * Validate a value, returning the cleaned value or every problem found
+ */
+export function validate<T>(
+  schema: Schema<T>,
+  value: unknown
+): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  const data = schema.check(value, "", issues);
+  return issues.length === 0
+    ? { success: true, data }
+    : { success: false, issues };
+}
+
+/**
+ * One-line summary of validation issues for logs and error responses
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map((issue) =>
+      issue.path ? `'${issue.path}' ${issue.message}` : issue.message
+    )
+    .join("; ");
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+export function string(options: { nonEmpty?: boolean } = {}): Schema<string> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== "string") {
+        issues.push({
+          path,
+          message:
+            value === undefined
+              ? "is required"
+              : `must be a string, got ${describe(value)}`,
+        });
+      } else if (options.nonEmpty && !value.trim()) {
+        issues.push({ path, message: "must not be empty" });
+      }
+      return value as string;
+    },
+  };
+}
+
+export function number(
+  options: { min?: number; integer?: boolean } = {}
+): Schema<number> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        issues.push({
+          path,
+          message:
+            value === undefined
+              ? "is required"
+              : `must be a number, got ${describe(value)}`,
+        });
+      } else if (options.integer && !Number.isInteger(value)) {
+        issues.push({ path, message: "must be a whole number" });
+      } else if (options.min !== undefined && value < options.min) {
+        issues.push({ path, message: `must be at least ${options.min}` });
+      }
+      return value as number;
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== "boolean") {
+        issues.push({
+          path,
+          message:
+            value === undefined
+              ? "is required"
+              : `must be a boolean, got ${describe(value)}`,
+        });
+      }
+      return value as boolean;
+    },
+  };
+}
+
+/**
+ * ISO 8601 timestamp, kept as a string
+ */
+export function timestamp(): Schema<string> {
+  const base = string();
+  return {
+    check(value, path, issues) {
+      const before = issues.length;
+      const text = base.check(value, path, issues);
+      if (issues.length === before && isNaN(Date.parse(text))) {
+        issues.push({ path, message: "must be an ISO timestamp" });
+      }
+      return text;
+    },
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (!values.includes(value as T)) {
+        issues.push({ path, message: `must be one of: ${values.join(", ")}` });
+      }
+      return value as T;
+    },
+  };
+}
+
+export function literal<T extends string | number>(expected: T): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (value !== expected) {
+        issues.push({ path, message: `must be ${JSON.stringify(expected)}` });
+      }
+      return value as T;
+    },
+  };
+}
+
+/**
+ * Field that may be left out (or sent as undefined)
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    optional: true,
+    check(value, path, issues) {
+      return value === undefined
+        ? undefined
+        : schema.check(value, path, issues);
+    },
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    check(value, path, issues) {
+      return value === null ? null : schema.check(value, path, issues);
+    },
+  };
+}
+
+export function array<T>(items: Schema<T>): Schema<T[]> {
+  return {
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({
+          path,
+          message:
+            value === undefined
+              ? "is required"
+              : `must be an array, got ${describe(value)}`,
+        });
+        return value as T[];
+      }
+      return value.map((item, index) =>
+        items.check(item, `${path}[${index}]`, issues)
+      );
+    },
+  };
+}
+
+/**
+ * Object with a schema for every key of T. Keys not in the shape are dropped.
+ * Pass T explicitly to have the compiler check the shape against a shared type.
+ */
+export function object<T>(shape: {
+  [K in keyof T]-?: Schema<T[K]>;
+}): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        issues.push({
+          path,
+          message:
+            value === undefined
+              ? "is required"
+              : `must be an object, got ${describe(value)}`,
+        });
+        return value as T;
+      }
+
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        const field = shape[key];
+        if (input[key] === undefined && field.optional) continue;
+        output[key] = field.check(
+          input[key],
+          path ? `${path}.${key}` : key,
+          issues
+        );
+      }
+      return output as T;
+    },
+  };
+}
+
+// ============================================================================
+// Contracts
+// ============================================================================
+
+/**
+ * Insight attempt posted by the Lambda to /api/ai-insights/ingest.
+ * Older versions are upgraded (see shared/contract.ts) before validation.
+ */
+export const aiInsightPayloadSchema = object<AIInsightPayload>({
+  schemaVersion: literal(SCHEMA_VERSION),
+  shop: string({ nonEmpty: true }),
+  orderId: string({ nonEmpty: true }),
+  orderName: string({ nonEmpty: true }),
+  customerId: optional(string({ nonEmpty: true })),
+  insightText: string({ nonEmpty: true }),
+  followupSubject: optional(string()),
+  followupBody: optional(string()),
+  customerType: optional(oneOf(CUSTOMER_TYPES)),
+  segmentRuleId: optional(string()),
+  orderValue: optional(number({ min: 0 })),
+  status: optional(oneOf(["pending", "completed", "error"] as const)),
+  errorMessage: optional(string()),
+  model: optional(string()),
+  promptVersion: optional(string()),
+  templateId: optional(string()),
+  templateVersion: optional(string()),
+  variantId: optional(string()),
+  warnings: optional(
+    array(
+      object<ContentWarning>({
+        code: oneOf(CONTENT_WARNING_CODES),
+        field: oneOf(CONTENT_FIELDS),
+        message: string(),
+      })
+    )
+  ),
+  repaired: optional(boolean()),
+  dataSent: optional(
+    object<ProviderDataSent>({
+      provider: string({ nonEmpty: true }),
+      fields: array(string()),
+      redacted: array(string()),
+    })
+  ),
+  usage: optional(
+    object<InsightUsage>({
+      promptTokens: number({ min: 0, integer: true }),
+      completionTokens: number({ min: 0, integer: true }),
+      latencyMs: number({ min: 0, integer: true }),
+      estimated: boolean(),
+    })
+  ),
+  startedAt: optional(timestamp()),
+});
+
+/**
+ * JSON the LLM must return for an insight
+ */
+export const aiInsightResponseSchema = object<AIInsightResponse>({
+  insight: string({ nonEmpty: true }),
+  followupSubject: string({ nonEmpty: true }),
+  followupBody: string({ nonEmpty: true }),
+});
+
+/**
+ * Body of a /api/customer-data request
+ */
+export const customerDataRequestSchema = object<CustomerDataRequest>({
+  schemaVersion: literal(SCHEMA_VERSION),
+  shop: string({ nonEmpty: true }),
+  customerId: string({ nonEmpty: true }),
+  before: optional(timestamp()),
+});
+
+/**
+ * Body of a /api/customer-data response
+ */
+export const customerDataResponseSchema = object<CustomerDataResponse>({
+  success: boolean(),
+  customer: optional(
+    object<CustomerData>({
+      id: string(),
+      numberOfOrders: number({ min: 0 }),
+      amountSpent: number(),
+      currency: string(),
+      firstName: nullable(string()),
+      lastName: nullable(string()),
+      createdAt: nullable(timestamp()),
+      tags: optional(array(string())),
+      countryCode: optional(nullable(string())),
+      recentOrders: optional(
+        array(
+          object<CustomerOrderSummary>({
+            id: string(),
+            createdAt: timestamp(),
+            lineItems: optional(
+              array(
+                object<CustomerOrderLineItem>({
+                  title: string(),
+                  quantity: number({ min: 0 }),
+                  sku: nullable(string()),
+                  productId: nullable(string()),
+                  productType: nullable(string()),
+                })
+              )
+            ),
+          })
+        )
+      ),
+      ordersBefore: optional(
+        object<CustomerOrderHistory>({
+          count: number({ min: 0 }),
+          amountSpent: number(),
+        })
+      ),
+    })
+  ),
+  error: optional(string()),
+});
@@ -0,0 +1,214 @@
+/**
+ * Customer segmentation rule engine
+ * Used by Lambda to classify customers and by the Remix app to
+ * validate the rules merchants save on the settings page
+ */
+
+import type {
+  CustomerType,
+  SegmentCondition,
+  SegmentMatch,
+  SegmentMetric,
+  SegmentMetrics,
+  SegmentOperator,
+  SegmentRule,
+  ShopSettingsData,
+} from "./types";
+
+export const CUSTOMER_TYPES: CustomerType[] = [
+  "first-time",
+  "repeat",
+  "vip",
+  "lapsed",
+  "at-risk",
+];
+
+export const SEGMENT_METRICS: SegmentMetric[] = [
+  "ordersCount",
+  "totalSpent",
+  "daysSinceLastOrder",
+  "averageOrderValue",
+];
+
+export const SEGMENT_OPERATORS: SegmentOperator[] = [
+  "gte",
+  "gt",
+  "lte",
+  "lt",
+  "eq",
+];
+
+/** Segment used when no rule matches */
+export const DEFAULT_SEGMENT: CustomerType = "repeat";
+
+const MAX_RULES = 20;
+const MAX_CONDITIONS = 5;
+
+/**
+ * Build the default rule set from a shop's VIP thresholds.
+ * First-time buyers come first so a large first order is never VIP.
+ */
+export function buildDefaultSegmentRules(
+  settings: Pick<ShopSettingsData, "vipMinOrders" | "vipMinSpend">
+): SegmentRule[] {
+  return [
+    {
+      id: "first-order",
+      segment: "first-time",
+      match: "all",
+      conditions: [{ metric: "ordersCount", operator: "lte", value: 1 }],
+    },
+    {
+      id: "vip",
+      segment: "vip",
+      match: "any",
+      conditions: [
+        { metric: "ordersCount", operator: "gte", value: settings.vipMinOrders },
+        { metric: "totalSpent", operator: "gte", value: settings.vipMinSpend },
+      ],
+    },
+    {
+      id: "lapsed",
+      segment: "lapsed",
+      match: "all",
+      conditions: [
+        { metric: "daysSinceLastOrder", operator: "gte", value: 180 },
+      ],
+    },
+    {
+      id: "at-risk",
+      segment: "at-risk",
+      match: "all",
+      conditions: [
+        { metric: "daysSinceLastOrder", operator: "gte", value: 90 },
+      ],
+    },
+  ];
+}
+
+function compare(
+  actual: number,
+  operator: SegmentOperator,
+  expected: number
+): boolean {
+  switch (operator) {
+    case "gte":
+      return actual >= expected;
+    case "gt":
+      return actual > expected;
+    case "lte":
+      return actual <= expected;
+    case "lt":
+      return actual < expected;
+    case "eq":
+      return actual === expected;
+  }
+}
+
+/**
+ * A condition on an unknown metric never matches
+ */
+function conditionMatches(
+  condition: SegmentCondition,
+  metrics: SegmentMetrics
+): boolean {
+  const actual = metrics[condition.metric];
+  return actual !== null && compare(actual, condition.operator, condition.value);
+}
+
+/**
+ * Evaluate rules in order and return the first matching segment
+ */
+export function evaluateSegmentRules(
+  rules: SegmentRule[],
+  metrics: SegmentMetrics
+): SegmentMatch {
+  for (const rule of rules) {
+    const matched =
+      rule.match === "any"
+        ? rule.conditions.some((c) => conditionMatches(c, metrics))
+        : rule.conditions.every((c) => conditionMatches(c, metrics));
+
+    if (matched) {
+      return { customerType: rule.segment, ruleId: rule.id };
+    }
+  }
+
+  return { customerType: DEFAULT_SEGMENT, ruleId: "default" };
+}
+
+/**
+ * Validate rules parsed from untrusted JSON.
+ * Returns a list of human-readable problems, empty when valid.
+ */
+export function validateSegmentRules(rules: unknown): string[] {
+  if (!Array.isArray(rules)) {
+    return ["Rules must be a JSON array"];
+  }
+
+  if (rules.length > MAX_RULES) {
+    return [`Use at most ${MAX_RULES} rules`];
+  }
+
+  const problems: string[] = [];
+  const ids = new Set<string>();
+
+  rules.forEach((rule, index) => {
+    const at = `Rule ${index + 1}`;
+
+    if (typeof rule !== "object" || rule === null) {
+      problems.push(`${at} must be an object`);
+      return;
+    }
+
+    const { id, segment, match, conditions } = rule as Record<string, unknown>;
+
+    if (typeof id !== "string" || !id.trim()) {
+      problems.push(`${at} needs an "id"`);
+    } else if (id === "default" || ids.has(id)) {
+      problems.push(`${at} id "${id}" is reserved or already used`);
+    } else {
+      ids.add(id);
+    }
+
+    if (!CUSTOMER_TYPES.includes(segment as CustomerType)) {
+      problems.push(
+        `${at} "segment" must be one of: ${CUSTOMER_TYPES.join(", ")}`
+      );
+    }
+
+    if (match !== "all" && match !== "any") {
+      problems.push(`${at} "match" must be "all" or "any"`);
+    }
+
+    if (
+      !Array.isArray(conditions) ||
+      conditions.length === 0 ||
+      conditions.length > MAX_CONDITIONS
+    ) {
+      problems.push(`${at} needs 1 to ${MAX_CONDITIONS} conditions`);
+      return;
+    }
+
+    conditions.forEach((condition, conditionIndex) => {
+      const c = (condition ?? {}) as Record<string, unknown>;
+      const where = `${at}, condition ${conditionIndex + 1}`;
+
+      if (!SEGMENT_METRICS.includes(c.metric as SegmentMetric)) {
+        problems.push(
+          `${where}: "metric" must be one of: ${SEGMENT_METRICS.join(", ")}`
+        );
+      }
+      if (!SEGMENT_OPERATORS.includes(c.operator as SegmentOperator)) {
+        problems.push(
+          `${where}: "operator" must be one of: ${SEGMENT_OPERATORS.join(", ")}`
+        );
+      }
+      if (typeof c.value !== "number" || !Number.isFinite(c.value)) {
+        problems.push(`${where}: "value" must be a number`);
+      }
+    });
+  });
+
+  return problems;
+}
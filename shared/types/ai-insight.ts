@@ -3,20 +3,86 @@
  * Used by both Lambda and Remix ingestion endpoint
  */
 
+import type { ValidationIssue } from "./validation";
+
 /**
  * Valid statuses for an AI insight
  */
 export type InsightStatus = "pending" | "completed" | "error";
 
 /**
- * Valid customer types
+ * Merchant feedback on an insight
+ */
+export type InsightRating = "up" | "down";
+
+/**
+ * Valid customer types (segments)
+ */
+export type CustomerType =
+  | "first-time"
+  | "repeat"
+  | "vip"
+  | "lapsed"
+  | "at-risk";
+
+/**
+ * Kinds of problem the Lambda checks generated emails for
+ */
+export type ContentWarningCode =
+  | "unknown_placeholder"
+  | "literal_url"
+  | "invented_code"
+  | "unknown_price"
+  | "too_long";
+
+/**
+ * Field of the AI response a warning is about
+ */
+export type ContentField = "insight" | "followupSubject" | "followupBody";
+
+/**
+ * A problem found in generated content, shown to the merchant when a
+ * repair re-prompt didn't fix it
+ */
+export interface ContentWarning {
+  code: ContentWarningCode;
+  field: ContentField;
+  /** Human-readable description, also sent to the model for repair */
+  message: string;
+}
+
+/**
+ * What an attempt sent to the AI provider, kept as an audit record
  */
-export type CustomerType = "first-time" | "repeat" | "vip";
+export interface ProviderDataSent {
+  /** Provider name, e.g. "openai" */
+  provider: string;
+  /** Prompt variables that had a value */
+  fields: string[];
+  /** What was left out or scrubbed, e.g. "customer_tags: email" */
+  redacted: string[];
+}
+
+/**
+ * Tokens and time one attempt spent with the AI provider, summed over
+ * the first request and any repair re-prompt
+ */
+export interface InsightUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** Time spent waiting for the provider */
+  latencyMs: number;
+  /** Whether the token counts are estimates (the provider reported none) */
+  estimated: boolean;
+}
 
 /**
  * Payload sent from Lambda to the ingestion endpoint
  */
 export interface AIInsightPayload {
+  /** Contract version of this payload (see shared/contract.ts) */
+  schemaVersion: number;
+
   /** Shopify store domain (e.g., "store1va.myshopify.com") */
   shop: string;
 
@@ -26,6 +92,9 @@ export interface AIInsightPayload {
   /** Human-readable order name (e.g., "#1001") */
   orderName: string;
 
+  /** Shopify customer ID of the order; absent for guest checkouts */
+  customerId?: string;
+
   /** AI-generated insight text */
   insightText: string;
 
@@ -38,6 +107,9 @@ export interface AIInsightPayload {
   /** Customer classification */
   customerType?: CustomerType;
 
+  /** Id of the segment rule that produced customerType */
+  segmentRuleId?: string;
+
   /** Total order value in shop currency */
   orderValue?: number;
 
@@ -46,6 +118,36 @@ export interface AIInsightPayload {
 
   /** Error message if status is "error" */
   errorMessage?: string;
+
+  /** Model that produced the content (e.g., "gpt-4o-mini") */
+  model?: string;
+
+  /** Version of the prompt the content was generated from */
+  promptVersion?: string;
+
+  /** Prompt template the content was generated from (e.g., "order-insight") */
+  templateId?: string;
+
+  /** Version of that template (e.g., "3", "custom-2" or "variant-1") */
+  templateVersion?: string;
+
+  /** Experiment variant the order was assigned to */
+  variantId?: string;
+
+  /** Problems left in the content after the repair re-prompt */
+  warnings?: ContentWarning[];
+
+  /** Whether the content came from a repair re-prompt */
+  repaired?: boolean;
+
+  /** Customer data the attempt sent to the AI provider */
+  dataSent?: ProviderDataSent;
+
+  /** Tokens and latency of the attempt; the app computes its cost */
+  usage?: InsightUsage;
+
+  /** ISO timestamp of when this attempt started */
+  startedAt?: string;
 }
 
 /**
@@ -62,6 +164,10 @@ export type AIInsightRequiredFields = Pick<
 export interface AIInsightIngestResponse {
   success: boolean;
   id: string;
+  /** Version recorded for this attempt */
+  versionId: string;
+  /** Whether the attempt became the insight's current version */
+  current: boolean;
   message: string;
 }
 
@@ -70,4 +176,6 @@ export interface AIInsightIngestResponse {
  */
 export interface AIInsightIngestError {
   error: string;
+  /** Every invalid field, when the payload failed validation */
+  issues?: ValidationIssue[];
 }
@@ -0,0 +1,28 @@
+/**
+ * Versioned Lambda -> Remix contract
+ * Requests carry a schemaVersion so the Lambda and the app can be
+ * deployed independently
+ */
+
+/**
+ * Requests whose body is versioned: every request the Lambda sends
+ */
+export type ContractName =
+  | "ingest"
+  | "customerData"
+  | "shopSettings"
+  | "ledger"
+  | "deadLetter"
+  | "insightJob";
+
+/**
+ * Response from /api/capabilities, checked by Lambda at cold start
+ */
+export interface CapabilitiesResponse {
+  success: boolean;
+  /** Version the app validates against */
+  schemaVersion?: number;
+  /** Every version the app accepts (older ones are upgraded) */
+  supportedSchemaVersions?: number[];
+  error?: string;
+}
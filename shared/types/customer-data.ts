@@ -0,0 +1,103 @@
+/**
+ * Customer data types
+ * Lambda asks the Remix app (which calls the Shopify Admin API) for
+ * accurate customer history via /api/customer-data
+ */
+
+/**
+ * Body of a /api/customer-data request
+ */
+export interface CustomerDataRequest {
+  /** Contract version of this request */
+  schemaVersion: number;
+
+  /** Shopify store domain */
+  shop: string;
+
+  /** Shopify customer GID or numeric ID */
+  customerId: string;
+
+  /**
+   * When the order being processed was placed (ISO). History is then
+   * limited to orders placed before it, so a backfilled or regenerated
+   * order is segmented on the history the customer had at the time.
+   */
+  before?: string;
+}
+
+/**
+ * Line item of one of the customer's past orders
+ */
+export interface CustomerOrderLineItem {
+  title: string;
+  quantity: number;
+  sku: string | null;
+  /** Product GID, null if the product was deleted */
+  productId: string | null;
+  /** Merchant-assigned product type, used as the product's category */
+  productType: string | null;
+}
+
+/**
+ * One of the customer's most recent orders
+ */
+export interface CustomerOrderSummary {
+  /** Order GID */
+  id: string;
+  createdAt: string;
+  /** Missing from apps that predate purchase history */
+  lineItems?: CustomerOrderLineItem[];
+}
+
+/**
+ * The customer's orders up to a point in time
+ */
+export interface CustomerOrderHistory {
+  /** Number of orders, capped at the most the app looks at */
+  count: number;
+  /** Their total in the shop's currency */
+  amountSpent: number;
+}
+
+/**
+ * Customer as returned by the Remix app.
+ * Name and address are protected customer data; they are null when the
+ * app hasn't been granted access to them. The email address isn't sent:
+ * the Lambda has no use for it.
+ */
+export interface CustomerData {
+  /** Customer GID */
+  id: string;
+  numberOfOrders: number;
+  amountSpent: number;
+  currency: string;
+  firstName: string | null;
+  lastName: string | null;
+  createdAt: string | null;
+  /** Missing from apps that predate purchase history */
+  tags?: string[];
+  /** ISO country code of the default address */
+  countryCode?: string | null;
+  /**
+   * Most recent orders, newest first. Placed before the request's
+   * `before` when given, else including the order being processed.
+   * Missing from apps that predate purchase history.
+   */
+  recentOrders?: CustomerOrderSummary[];
+  /**
+   * Orders placed before the request's `before` and what they came to.
+   * numberOfOrders and amountSpent are lifetime totals, which for an
+   * older order include the orders that came after it. Missing when the
+   * request had no `before`, or from apps that predate it.
+   */
+  ordersBefore?: CustomerOrderHistory;
+}
+
+/**
+ * Response from /api/customer-data
+ */
+export interface CustomerDataResponse {
+  success: boolean;
+  customer?: CustomerData;
+  error?: string;
+}
@@ -0,0 +1,103 @@
+/**
+ * Dead letter and job queue types
+ * Lambda records order events it could not process as dead letters;
+ * the app queues jobs (replays, regenerations) that Lambda picks up on a
+ * schedule
+ */
+
+/**
+ * Error classes used to decide whether a failure is worth retrying
+ * - transient: provider or app overloaded (429, 5xx)
+ * - network: request never got a response (DNS, reset, timeout)
+ * - validation: response arrived but was unusable (e.g. malformed AI JSON)
+ * - permanent: retrying won't help (bad credentials, rejected payload)
+ */
+export type ErrorKind = "transient" | "network" | "validation" | "permanent";
+
+/**
+ * State of a dead letter
+ * - open: waiting for a merchant to replay it
+ * - queued: a replay job is waiting for Lambda
+ * - replayed: a replay succeeded
+ */
+export type DeadLetterStatus = "open" | "queued" | "replayed";
+
+/**
+ * Dead letter posted by Lambda after retries are exhausted
+ */
+export interface DeadLetterPayload {
+  /** Existing dead letter being replayed; reopened instead of duplicated */
+  deadLetterId: string | null;
+  shop: string;
+  orderId: string;
+  orderName: string;
+  errorKind: ErrorKind;
+  error: string;
+  /** Attempts made in the failing invocation */
+  attempts: number;
+  /** Original EventBridge event, replayed as-is */
+  event: unknown;
+}
+
+/**
+ * Response from the app's dead letter endpoint
+ */
+export interface DeadLetterResponse {
+  success: boolean;
+  id?: string;
+  error?: string;
+}
+
+/**
+ * Work Lambda can be asked to do outside of EventBridge order events
+ * - replay: run a dead-lettered event again
+ * - regenerate: analyze an existing order again at the merchant's request
+ * - backfill: analyze a past order that never had an insight
+ */
+export type InsightJobKind = "replay" | "regenerate" | "backfill";
+
+export type InsightJobStatus = "queued" | "running" | "completed" | "failed";
+
+/**
+ * A claimed job as handed to Lambda
+ */
+export interface InsightJob {
+  id: string;
+  kind: InsightJobKind;
+  shop: string;
+  orderId: string;
+  /** EventBridge event to process */
+  event: unknown;
+  deadLetterId: string | null;
+  attempts: number;
+}
+
+/**
+ * Request body for the app's job queue endpoint
+ */
+export type InsightJobRequest =
+  | {
+      action: "claim";
+      /** Running jobs older than this are handed out again */
+      leaseMs: number;
+    }
+  | {
+      action: "complete";
+      id: string;
+      /** Attempt number of the claim; ignored once the job was taken over */
+      attempts: number;
+      insightId: string | null;
+      /** Why the Lambda skipped the order, e.g. "Monthly AI budget exceeded" */
+      skipReason?: string | null;
+    }
+  | { action: "fail"; id: string; attempts: number; error: string };
+
+/**
+ * Response from the app's job queue endpoint
+ */
+export interface InsightJobResponse {
+  success: boolean;
+  /** Claimed job, or null when the queue is empty */
+  job?: InsightJob | null;
+  error?: string;
+}
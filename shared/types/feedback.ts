@@ -0,0 +1,55 @@
+/**
+ * Merchant feedback on generated follow-up emails
+ * Recorded by the Remix app when a merchant edits an email; aggregated
+ * per shop and sent to Lambda as guidance for later prompts
+ */
+
+/**
+ * Why the merchant edited a follow-up email
+ */
+export type FollowupFeedbackReason =
+  | "too_long"
+  | "wrong_tone"
+  | "factually_wrong";
+
+/**
+ * How often a reason was given in the edits analyzed
+ */
+export interface FeedbackReasonCount {
+  reason: FollowupFeedbackReason;
+  count: number;
+}
+
+/**
+ * An AI email next to the merchant's edit of it, used as a few-shot example
+ */
+export interface FollowupEditExample {
+  originalSubject: string;
+  originalBody: string;
+  editedSubject: string;
+  editedBody: string;
+  reasons: FollowupFeedbackReason[];
+  /**
+   * Names of the customer the email was for, scrubbed from the example
+   * before it goes in another order's prompt. Missing from apps that
+   * predate it.
+   */
+  customerNames?: string[];
+}
+
+/**
+ * What a shop's recent edits say about the emails it wants
+ */
+export interface FeedbackGuidance {
+  /** Recent edits the guidance was built from */
+  editsAnalyzed: number;
+
+  /** Reasons given, most frequent first */
+  reasonCounts: FeedbackReasonCount[];
+
+  /** Average share of an email the merchant changed (0-1) */
+  averageChangeRatio: number;
+
+  /** Recent substantial edits, newest first */
+  examples: FollowupEditExample[];
+}
@@ -5,13 +5,88 @@
 // AI Insight types (used by both Lambda and Remix)
 export type {
   InsightStatus,
+  InsightRating,
   CustomerType,
   AIInsightPayload,
   AIInsightRequiredFields,
   AIInsightIngestResponse,
   AIInsightIngestError,
+  ContentWarningCode,
+  ContentField,
+  ContentWarning,
+  ProviderDataSent,
+  InsightUsage,
 } from "./ai-insight";
 
+// Versioned contract (see shared/contract.ts)
+export type { ContractName, CapabilitiesResponse } from "./contract";
+
+// Customer data (served by Remix, read by Lambda)
+export type {
+  CustomerDataRequest,
+  CustomerOrderLineItem,
+  CustomerOrderSummary,
+  CustomerOrderHistory,
+  CustomerData,
+  CustomerDataResponse,
+} from "./customer-data";
+
+// Runtime validation (see shared/schemas.ts)
+export type { ValidationIssue, ValidationResult } from "./validation";
+
+// Shop settings (stored by Remix, read by Lambda)
+export type {
+  BudgetAction,
+  BudgetStatus,
+  PlanId,
+  PlanStatus,
+  ShopSettingsData,
+  ShopSettingsResponse,
+} from "./settings";
+
+// Prompt templates (built-in, per-shop overrides and experiment variants)
+export type { PromptVariable, PromptTemplate, PromptVariant } from "./prompt";
+
+// Follow-up feedback (recorded by Remix, aggregated for Lambda prompts)
+export type {
+  FollowupFeedbackReason,
+  FeedbackReasonCount,
+  FollowupEditExample,
+  FeedbackGuidance,
+} from "./feedback";
+
+// Customer segmentation rules
+export type {
+  SegmentMetric,
+  SegmentOperator,
+  SegmentCondition,
+  SegmentRule,
+  SegmentMetrics,
+  SegmentMatch,
+} from "./segmentation";
+
+// Processing ledger (idempotency)
+export type {
+  LedgerStatus,
+  LedgerEntry,
+  LedgerClaim,
+  ProcessingLedgerRequest,
+  ProcessingLedgerResponse,
+} from "./ledger";
+
+// Dead letters and queued jobs (replays)
+export type {
+  ErrorKind,
+  DeadLetterStatus,
+  DeadLetterPayload,
+  DeadLetterResponse,
+  InsightJobKind,
+  InsightJobStatus,
+  InsightJob,
+  InsightJobRequest,
+  InsightJobResponse,
+} from "./dead-letter";
+
 // Shopify types (primarily used by Lambda)
 export type {
   ShopifyCustomer,
@@ -25,6 +100,10 @@ export type {
 // Lambda-specific types
 export type {
   AIInsightResponse,
+  GeneratedInsight,
   ProcessedOrderData,
   ProcessedCustomerData,
+  PreviousProduct,
+  CategoryAffinity,
+  PurchaseHistoryFeatures,
 } from "./lambda";
@@ -2,7 +2,8 @@
  * Lambda-specific types for AI order processing
  */
 
-import type { CustomerType } from "./ai-insight";
+import type { ContentWarning, CustomerType, InsightUsage } from "./ai-insight";
+import type { CustomerOrderSummary } from "./customer-data";
 
 /**
  * AI-generated insight response from OpenAI
@@ -13,6 +14,20 @@ export interface AIInsightResponse {
   followupBody: string;
 }
 
+/**
+ * Parsed AI response plus the model that produced it
+ */
+export interface GeneratedInsight {
+  response: AIInsightResponse;
+  model: string;
+  /** Problems the repair re-prompt didn't fix */
+  warnings: ContentWarning[];
+  /** Whether the response came from the repair re-prompt */
+  repaired: boolean;
+  /** Tokens and latency of every request made for the response */
+  usage: InsightUsage;
+}
+
 /**
  * Processed order data for AI prompt
  */
@@ -25,6 +40,9 @@ export interface ProcessedOrderData {
     title: string;
     quantity: number;
     price: number;
+    /** Product GID, null for custom items */
+    productId: string | null;
+    sku: string | null;
   }>;
   discountCodes: string[];
   hasDiscount: boolean;
@@ -42,4 +60,58 @@ export interface ProcessedCustomerData {
   isFirstOrder: boolean;
   customerType: CustomerType;
   daysSinceFirstOrder: number | null;
+  /** Days since the customer's previous order, null if unknown or none */
+  daysSinceLastOrder: number | null;
+  /** Lifetime average order value in shop currency, null if unknown */
+  averageOrderValue: number | null;
+  /** Id of the segment rule that produced customerType */
+  segmentRuleId: string;
+  /** Tags the merchant gave the customer */
+  tags: string[];
+  /** ISO country code of the customer's default address, null if unknown */
+  countryCode: string | null;
+  /** Earlier orders and what was in them, newest first; empty if unknown */
+  previousOrders: CustomerOrderSummary[];
+}
+
+/**
+ * A product the customer bought in earlier orders
+ */
+export interface PreviousProduct {
+  title: string;
+  /** Merchant-assigned product type, null if unknown */
+  category: string | null;
+  /** Number of earlier orders it was in */
+  timesBought: number;
+  daysSinceLastPurchase: number;
+  /** Average gap between those orders, null if bought only once */
+  averageDaysBetween: number | null;
+  /** Whether the order being processed contains it again */
+  inCurrentOrder: boolean;
+  /** Bought again after long enough that it has probably run out */
+  likelyReplenishment: boolean;
+}
+
+/**
+ * Share of the customer's earlier items in one product category
+ */
+export interface CategoryAffinity {
+  category: string;
+  /** Fraction of earlier items (by quantity) in this category, 0-1 */
+  share: number;
+}
+
+/**
+ * Features derived from the customer's earlier orders, computed by the
+ * Lambda before prompting
+ */
+export interface PurchaseHistoryFeatures {
+  /** Number of earlier orders the features are based on */
+  ordersAnalyzed: number;
+  /** Earlier products; ones in the current order first, then most recent */
+  previousProducts: PreviousProduct[];
+  /** Categories the customer buys most, largest share first */
+  categoryAffinity: CategoryAffinity[];
+  /** Favourite categories missing from the current order */
+  crossSellCategories: string[];
 }
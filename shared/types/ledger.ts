@@ -0,0 +1,62 @@
+/**
+ * Processing ledger types
+ * Lambda records each order event here before calling the AI provider so
+ * EventBridge redeliveries can be short-circuited
+ */
+
+/**
+ * State of a ledger entry
+ * - in-flight: claimed by an invocation that hasn't finished yet
+ * - completed: processed (or deliberately skipped); redeliveries are ignored
+ * - failed: processing failed; a later delivery may claim it again
+ */
+export type LedgerStatus = "in-flight" | "completed" | "failed";
+
+/**
+ * One processed (or in-progress) event
+ */
+export interface LedgerEntry {
+  /** Idempotency key, e.g. "event:<X-Shopify-Event-Id>" */
+  key: string;
+  shop: string;
+  orderId: string;
+  status: LedgerStatus;
+  /** Insight created by the completed run, if any */
+  insightId: string | null;
+  /** Failure reason, or skip reason for completed runs without an insight */
+  error: string | null;
+  attempts: number;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+/**
+ * Result of trying to claim an event for processing
+ */
+export type LedgerClaim =
+  | { claimed: true; entry: LedgerEntry }
+  | { claimed: false; entry: LedgerEntry };
+
+/**
+ * Request body for the app's processing ledger endpoint
+ */
+export type ProcessingLedgerRequest =
+  | {
+      action: "claim";
+      key: string;
+      shop: string;
+      orderId: string;
+      /** In-flight claims older than this may be taken over */
+      leaseMs: number;
+    }
+  | { action: "complete"; key: string; insightId: string | null; note: string | null }
+  | { action: "fail"; key: string; error: string };
+
+/**
+ * Response from the app's processing ledger endpoint
+ */
+export interface ProcessingLedgerResponse {
+  success: boolean;
+  claim?: LedgerClaim;
+  error?: string;
+}
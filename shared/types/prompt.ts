@@ -0,0 +1,64 @@
+/**
+ * Prompt template types
+ * Built-in templates live in shared/promptTemplates.ts; shops can
+ * override them from the settings page and test variants against each
+ * other from the experiments page
+ */
+
+/**
+ * Variables a template can use as [[name]]
+ */
+export type PromptVariable =
+  | "order_name"
+  | "order_total"
+  | "items"
+  | "item_count"
+  | "discount"
+  | "customer_name"
+  | "orders_count"
+  | "lifetime_spend"
+  | "customer_type"
+  | "days_since_first_order"
+  | "days_since_last_order"
+  | "country"
+  | "customer_tags"
+  | "focus_area"
+  | "merchant_feedback"
+  | "tone_instruction"
+  | "email_language";
+
+/**
+ * A named, versioned prompt
+ */
+export interface PromptTemplate {
+  /** Registry name (e.g., "order-insight") */
+  id: string;
+
+  /**
+   * "3" for a built-in version, "custom-2" for a shop's second override,
+   * "variant-1" for a shop's first experiment variant
+   */
+  version: string;
+
+  /** System message sent with the prompt */
+  systemMessage: string;
+
+  /** User prompt; the JSON response format is always appended */
+  prompt: string;
+}
+
+/**
+ * A variant in a shop's prompt experiment
+ */
+export interface PromptVariant {
+  id: string;
+
+  /** Merchant-facing name (e.g., "Shorter emails") */
+  name: string;
+
+  /** Share of orders relative to the other active variants */
+  weight: number;
+
+  /** null runs the shop's current prompt (a control variant) */
+  template: PromptTemplate | null;
+}
@@ -0,0 +1,64 @@
+/**
+ * Customer segmentation rule types
+ * Rules are configured per shop in the Remix app and evaluated by Lambda
+ */
+
+import type { CustomerType } from "./ai-insight";
+
+/**
+ * Customer metrics a rule condition can test
+ * - ordersCount: lifetime orders, including the current one
+ * - totalSpent: lifetime spend in shop currency
+ * - daysSinceLastOrder: days between the previous order and now
+ * - averageOrderValue: totalSpent / ordersCount, in shop currency
+ */
+export type SegmentMetric =
+  | "ordersCount"
+  | "totalSpent"
+  | "daysSinceLastOrder"
+  | "averageOrderValue";
+
+/**
+ * Comparison operators for rule conditions
+ */
+export type SegmentOperator = "gte" | "gt" | "lte" | "lt" | "eq";
+
+/**
+ * A single comparison, e.g. ordersCount >= 5
+ */
+export interface SegmentCondition {
+  metric: SegmentMetric;
+  operator: SegmentOperator;
+  value: number;
+}
+
+/**
+ * A segment rule. Rules are evaluated in order and the first match wins.
+ */
+export interface SegmentRule {
+  /** Stable identifier recorded on the insight (e.g., "vip-spend") */
+  id: string;
+
+  /** Segment assigned when the rule matches */
+  segment: CustomerType;
+
+  /** "all" requires every condition, "any" requires at least one */
+  match: "all" | "any";
+
+  conditions: SegmentCondition[];
+}
+
+/**
+ * Metric values for one customer, null when unknown
+ */
+export type SegmentMetrics = Record<SegmentMetric, number | null>;
+
+/**
+ * Result of evaluating the rules for a customer
+ */
+export interface SegmentMatch {
+  customerType: CustomerType;
+
+  /** Id of the matching rule, or "default" when no rule matched */
+  ruleId: string;
+}
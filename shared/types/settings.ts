@@ -0,0 +1,113 @@
+/**
+ * Per-shop settings that drive the Lambda prompt
+ * Stored by the Remix app, fetched by Lambda via /api/shop-settings
+ */
+
+import type { FeedbackGuidance } from "./feedback";
+import type { PromptTemplate, PromptVariant } from "./prompt";
+import type { SegmentRule } from "./segmentation";
+
+/**
+ * What the Lambda does with a shop's orders once the month's AI spend
+ * reaches its budget
+ */
+export type BudgetAction = "cheaper_model" | "skip";
+
+/**
+ * Merchant-configurable settings for order analysis
+ */
+export interface ShopSettingsData {
+  /** Whether new orders should be analyzed at all */
+  enabled: boolean;
+
+  /** Send the customer's first name to the AI provider */
+  includeCustomerName: boolean;
+
+  /** Send the customer's country code to the AI provider */
+  includeCountry: boolean;
+
+  /** Send the customer's tags (with PII removed) to the AI provider */
+  includeCustomerTags: boolean;
+
+  /** Send products from the customer's earlier orders to the AI provider */
+  includePurchaseHistory: boolean;
+
+  /** Free-text brand voice / tone guidance for follow-up emails */
+  brandVoice: string | null;
+
+  /** BCP 47 language code for follow-up emails (e.g., "en", "de") */
+  emailLanguage: string;
+
+  /**
+   * Custom segment rules, evaluated in order.
+   * null means the default rules built from the VIP thresholds.
+   */
+  segmentRules: SegmentRule[] | null;
+
+  /** Minimum number of orders for a customer to count as VIP (default rules) */
+  vipMinOrders: number;
+
+  /** Minimum lifetime spend (shop currency) to count as VIP (default rules) */
+  vipMinSpend: number;
+
+  /** Orders below this total (shop currency) are not analyzed */
+  minOrderValue: number;
+
+  /** Monthly AI spend limit in USD; null means no limit */
+  monthlyBudget: number | null;
+
+  /** What happens to new orders once the budget is spent */
+  overBudgetAction: BudgetAction;
+}
+
+/**
+ * The shop's AI spend this month (UTC) against its budget
+ */
+export interface BudgetStatus {
+  /** Calendar month, e.g. "2026-10" */
+  month: string;
+  /** Cost of this month's attempts in USD */
+  spent: number;
+  /** Monthly budget in USD; null means no limit */
+  budget: number | null;
+  exceeded: boolean;
+}
+
+/**
+ * Billing plans (see app/models/billing.server.ts)
+ */
+export type PlanId = "free" | "pro";
+
+/**
+ * The shop's plan and how much of its monthly insight allowance is used
+ */
+export interface PlanStatus {
+  /** Plan whose limits apply now, counting the grace period as paid */
+  plan: PlanId;
+  /** When paid features end after the subscription lapsed; null otherwise */
+  graceEndsAt: string | null;
+  /** Insights generated this calendar month (UTC), regenerations included */
+  insightsThisMonth: number;
+  /** Insights allowed per month; null means unlimited */
+  insightLimit: number | null;
+  limitReached: boolean;
+}
+
+/**
+ * Response from the shop settings endpoint
+ */
+export interface ShopSettingsResponse {
+  success: boolean;
+  settings?: ShopSettingsData;
+  /** The shop's active prompt override; null uses the built-in template */
+  promptTemplate?: PromptTemplate | null;
+  /** Active experiment variants; empty when the shop isn't running one */
+  promptVariants?: PromptVariant[];
+  /** Guidance from the shop's edits to earlier emails; null when there are none */
+  feedbackGuidance?: FeedbackGuidance | null;
+  /** This month's AI spend against the shop's budget */
+  budget?: BudgetStatus;
+  /** The shop's plan and insight allowance */
+  plan?: PlanStatus;
+  error?: string;
+}
@@ -8,6 +8,7 @@ export interface ShopifyCustomer {
   email: string;
   first_name: string;
   last_name: string;
+  phone?: string | null;
   orders_count: number;
   total_spent: string;
   created_at: string;
@@ -22,6 +23,8 @@ export interface ShopifyLineItem {
   sku?: string;
   variant_title?: string;
   product_id: number;
+  /** Custom properties set by the storefront, e.g. engraving text */
+  properties?: Array<{ name: string; value: string }>;
 }
 
 export interface ShopifyDiscountCode {
@@ -31,6 +34,14 @@ export interface ShopifyDiscountCode {
 }
 
 export interface ShopifyAddress {
+  name?: string;
+  first_name?: string;
+  last_name?: string;
+  company?: string | null;
+  address1?: string;
+  address2?: string | null;
+  zip?: string;
+  phone?: string | null;
   city?: string;
   province?: string;
   country?: string;
@@ -49,8 +60,12 @@ export interface ShopifyOrder {
   line_items: ShopifyLineItem[];
   customer: ShopifyCustomer | null;
   discount_codes: ShopifyDiscountCode[];
+  email?: string;
+  phone?: string | null;
   shipping_address?: ShopifyAddress;
+  billing_address?: ShopifyAddress;
   note?: string;
+  note_attributes?: Array<{ name: string; value: string }>;
 }
 
 /**
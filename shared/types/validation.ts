@@ -0,0 +1,22 @@
+/**
+ * Runtime validation results
+ * Produced by the schemas in shared/schemas.ts
+ */
+
+/**
+ * One problem found while validating a value
+ */
+export interface ValidationIssue {
+  /** Path to the offending field (e.g., "customer.recentOrders[0].id"); empty for the root */
+  path: string;
+
+  /** What is wrong with it */
+  message: string;
+}
+
+/**
+ * Outcome of validating a value against a schema
+ */
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+
+// Kept apart from vite.config.ts: the Remix plugin isn't meant to run
+// under Vitest. The Lambda has its own Jest setup in lambda/.
+export default defineConfig({
+  test: {
+    include: ["app/**/*.test.ts"],
+    environment: "node",
+    // Only errors from the structured logger reach the test output
+    env: { LOG_LEVEL: "error" },
+  },
+});